@@ -356,7 +356,8 @@ async function seedMathCurriculum() {
                 correctAnswer: q.correctAnswer,
                 explanation: 'شرح تلقائي',
                 points: 1,
-                order: 0
+                order: 0,
+                source: 'seed'
               }
             });
             totalQuestions++;
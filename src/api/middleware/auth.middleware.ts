@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { authService } from '../../core/auth/auth.service';
+import { parentLinkService } from '../../core/auth/parent-link.service';
 import { AuthenticationError, AuthorizationError } from '../../utils/errors';
 import type { TokenPayload } from '../../core/auth/auth.service';
 import type { UserRole } from '@prisma/client';
@@ -9,6 +10,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: TokenPayload;
+      linkedChildIds?: string[];
     }
   }
 }
@@ -37,6 +39,11 @@ export const authenticate = async (
     // Attach user to request
     req.user = decoded;
     
+    // Parents carry their active children so scoped checks need no extra lookup
+    if (decoded.role === 'PARENT') {
+      req.linkedChildIds = await parentLinkService.getLinkedChildIds(decoded.userId);
+    }
+    
     next();
   } catch (error) {
     if (error instanceof AuthenticationError) {
@@ -90,6 +97,46 @@ export const authorize = (...allowedRoles: UserRole[]) => {
   };
 };
 
+/**
+ * Check access to a student's data (identified by a route param)
+ * - The student themselves is always allowed
+ * - Staff roles passed in are allowed for any student
+ * - Parents are allowed only for their linked children
+ */
+export const authorizeStudentAccess = (...staffRoles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Not authenticated',
+        },
+      });
+      return;
+    }
+    
+    const studentId = req.params.userId;
+    const isSelf = req.user.userId === studentId;
+    const isStaff = staffRoles.includes(req.user.role);
+    const isLinkedParent = req.user.role === 'PARENT' &&
+      (req.linkedChildIds || []).includes(studentId);
+    
+    if (!isSelf && !isStaff && !isLinkedParent) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'غير مصرح لك بالوصول لهذه البيانات',
+        },
+      });
+      return;
+    }
+    
+    next();
+  };
+};
+
 /**
  * Optional authentication - doesn't fail if no token
  */
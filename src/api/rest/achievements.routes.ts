@@ -2,27 +2,17 @@ import { Router, Request, Response } from 'express';
 import { prisma } from '../../config/database.config';
 import { successResponse, errorResponse } from '../../utils/response.utils';
 import asyncHandler from 'express-async-handler';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorizeStudentAccess } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // Get user achievements
-router.get('/:userId', authenticate, asyncHandler(async (req: Request, res: Response) => {
+// المستخدم يرى إنجازاته فقط أو المعلم/الأدمن/ولي الأمر المرتبط
+router.get('/:userId', authenticate, authorizeStudentAccess('TEACHER', 'ADMIN'), asyncHandler(async (req: Request, res: Response) => {
   const { userId } = req.params;
 
-  // Authorization check - المستخدم يرى إنجازاته فقط أو المعلم/الأدمن/ولي الأمر
-  const userRole = req.user!.role as string;
-  if (req.user!.userId !== userId &&
-      userRole !== 'TEACHER' &&
-      userRole !== 'ADMIN' &&
-      userRole !== 'PARENT') {
-    res.status(403).json(
-      errorResponse('FORBIDDEN', 'غير مصرح لك بالوصول لهذه البيانات')
-    );
-    return;
-  }
   const achievements = await prisma.userAchievement.findMany({
-    where: { userId: req.params.userId },
+    where: { userId },
     orderBy: { unlockedAt: 'desc' }
   });
 
@@ -76,20 +66,9 @@ router.post('/:userId/unlock', authenticate, asyncHandler(async (req: Request, r
 }))
 
 // Get progress
-router.get('/:userId/progress', authenticate, asyncHandler(async (req: Request, res: Response) => {
+router.get('/:userId/progress', authenticate, authorizeStudentAccess('TEACHER', 'ADMIN'), asyncHandler(async (req: Request, res: Response) => {
   const { userId } = req.params;
 
-  // Authorization check
-  const userRole = req.user!.role as string;
-  if (req.user!.userId !== userId &&
-      userRole !== 'TEACHER' &&
-      userRole !== 'ADMIN' &&
-      userRole !== 'PARENT') {
-    res.status(403).json(
-      errorResponse('FORBIDDEN', 'غير مصرح لك بالوصول لهذه البيانات')
-    );
-    return;
-  }
   // Access StudentContext through the generated Prisma client
   const context = await (prisma as any).studentContext.findUnique({
     where: { userId }
@@ -2,7 +2,9 @@ import { Router, Request, Response } from 'express';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../../config/database.config';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import { parentLinkService } from '../../core/auth/parent-link.service';
+import { voiceService } from '../../services/voice/voice.service';
 import { successResponse, errorResponse } from '../../utils/response.utils';
 import asyncHandler from 'express-async-handler';
 import { z } from 'zod';
@@ -24,6 +26,18 @@ const loginSchema = z.object({
   password: z.string()
 });
 
+const inviteChildSchema = z.object({
+  childEmail: z.string().email(),
+  relationship: z.enum(['father', 'mother', 'guardian']).optional()
+});
+
+const acceptInviteSchema = z.object({
+  inviteCode: z.string().min(6)
+});
+
+// صوت الشرح اللي الطالب يفضله
+const narratorVoiceSchema = z.enum(['male', 'female']);
+
 // Register
 router.post('/register', asyncHandler(async (req: Request, res: Response) => {
   const validationResult = registerSchema.safeParse(req.body);
@@ -182,7 +196,18 @@ router.get('/me', authenticate, asyncHandler(async (req: Request, res: Response)
 // Update profile
 router.put('/profile', authenticate, asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.userId;
-  const { firstName, lastName, grade } = req.body;
+  const { firstName, lastName, grade, narratorVoice } = req.body;
+
+  if (narratorVoice !== undefined) {
+    const voice = narratorVoiceSchema.safeParse(narratorVoice);
+    if (!voice.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'بيانات غير صحيحة', voice.error.issues)
+      );
+      return;
+    }
+    await voiceService.setVoicePreference(userId, voice.data);
+  }
 
   const updatedUser = await prisma.user.update({
     where: { id: userId },
@@ -260,6 +285,72 @@ router.post('/change-password', authenticate, asyncHandler(async (req: Request,
   );
 }));
 
+// ============= PARENT ↔ CHILD LINKS =============
+
+// Parent invites a student by email
+router.post('/parent/invite', authenticate, authorize('PARENT'), asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = inviteChildSchema.safeParse(req.body);
+
+  if (!validationResult.success) {
+    res.status(400).json(
+      errorResponse('VALIDATION_ERROR', 'بيانات غير صحيحة', validationResult.error.issues)
+    );
+    return;
+  }
+
+  const { childEmail, relationship } = validationResult.data;
+  const invitation = await parentLinkService.inviteChild(req.user!.userId, childEmail, relationship);
+
+  res.status(201).json(
+    successResponse(invitation, 'إذا كان البريد لطالب مسجل فقد تم إرسال الدعوة له')
+  );
+}));
+
+// Parent lists linked children
+router.get('/parent/children', authenticate, authorize('PARENT'), asyncHandler(async (req: Request, res: Response) => {
+  const children = await parentLinkService.getLinkedChildren(req.user!.userId);
+
+  res.json(
+    successResponse({ children }, 'Linked children retrieved')
+  );
+}));
+
+// Student lists pending invitations
+router.get('/parent/invitations', authenticate, authorize('STUDENT'), asyncHandler(async (req: Request, res: Response) => {
+  const invitations = await parentLinkService.getPendingInvitations(req.user!.userId);
+
+  res.json(
+    successResponse({ invitations }, 'Invitations retrieved')
+  );
+}));
+
+// Student accepts an invitation
+router.post('/parent/accept', authenticate, authorize('STUDENT'), asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = acceptInviteSchema.safeParse(req.body);
+
+  if (!validationResult.success) {
+    res.status(400).json(
+      errorResponse('VALIDATION_ERROR', 'بيانات غير صحيحة', validationResult.error.issues)
+    );
+    return;
+  }
+
+  const link = await parentLinkService.acceptInvitation(req.user!.userId, validationResult.data.inviteCode);
+
+  res.json(
+    successResponse(link, 'تم ربط الحساب بولي الأمر بنجاح')
+  );
+}));
+
+// Either side revokes a link
+router.delete('/parent/links/:linkId', authenticate, authorize('PARENT', 'STUDENT'), asyncHandler(async (req: Request, res: Response) => {
+  await parentLinkService.revokeLink(req.user!.userId, req.params.linkId);
+
+  res.json(
+    successResponse({}, 'تم إلغاء الربط')
+  );
+}));
+
 // Logout (optional - mainly for client-side token removal)
 router.post('/logout', authenticate, (req: Request, res: Response) => {
   // In a stateless JWT system, logout is handled client-side
@@ -1,10 +1,12 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { chatService } from '../../services/ai/chat.service';
+import { sttService } from '../../services/voice/stt.service';
 import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware';
 import { authenticate } from '../middleware/auth.middleware';
 import { successResponse, errorResponse } from '../../utils/response.utils';
 import asyncHandler from 'express-async-handler';
+import { ValidationError } from '../../utils/errors';
 
 const router = Router();
 
@@ -18,6 +20,12 @@ const sendMessageSchema = z.object({
   }).optional(),
 });
 
+const voiceMessageSchema = z.object({
+  lessonId: z.string().optional(),
+  sessionId: z.string().optional(),
+  language: z.enum(['ar', 'en']).default('ar'),
+});
+
 const chatHistorySchema = z.object({
   lessonId: z.string().optional(),
   sessionId: z.string().optional(),
@@ -36,7 +44,7 @@ router.post(
   asyncHandler(async (req: Request, res: Response) => {
     const response = await chatService.processMessage(
       req.body.message,
-      req.body.context || {},
+      { ...(req.body.context || {}), lessonId: req.body.lessonId },
       req.user!.userId,
       req.body.sessionId
     );
@@ -47,6 +55,108 @@ router.post(
   })
 );
 
+/**
+ * @route   POST /api/v1/chat/stream
+ * @desc    Send message and stream the answer as Server-Sent Events
+ *          (events: chunk, done, error). Closing the connection, or sending another
+ *          message in the same session, cancels generation.
+ * @access  Private
+ */
+router.post(
+  '/stream',
+  authenticate,
+  validateBody(sendMessageSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    res.flushHeaders();
+
+    try {
+      const result = await chatService.streamMessage(
+        req.body.message,
+        { ...(req.body.context || {}), lessonId: req.body.lessonId },
+        req.user!.userId,
+        {
+          sessionId: req.body.sessionId,
+          signal: controller.signal,
+          onChunk: (delta) => send('chunk', { delta }),
+        }
+      );
+
+      send('done', result);
+    } catch (error: any) {
+      console.error('Chat stream route error:', error);
+      send('error', { message: 'Failed to stream response' });
+    } finally {
+      res.end();
+    }
+  })
+);
+
+/**
+ * @route   POST /api/v1/chat/voice
+ * @desc    Ask by voice: the raw recording is the request body (Content-Type audio/webm,
+ *          audio/ogg, audio/mp4, audio/mpeg, audio/wav...). The transcript is answered
+ *          like a typed message and the recording is kept on the message metadata.
+ * @access  Private
+ */
+router.post(
+  '/voice',
+  authenticate,
+  express.raw({ type: 'audio/*', limit: sttService.maxUploadBytes }),
+  validateQuery(voiceMessageSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!Buffer.isBuffer(req.body)) {
+      throw new ValidationError('Send the recording as the request body with an audio/* Content-Type');
+    }
+
+    const { lessonId, sessionId, language } = req.query as any;
+
+    const result = await chatService.processVoiceMessage(
+      req.body,
+      req.headers['content-type'] || '',
+      { lessonId, language },
+      req.user!.userId,
+      { sessionId, language }
+    );
+
+    res.json(
+      successResponse(result, 'Voice message processed successfully')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/chat/voice/:messageId/audio
+ * @desc    Play back the recording of a voice question
+ * @access  Private (owner, the student's teachers, admins)
+ */
+router.get(
+  '/voice/:messageId/audio',
+  authenticate,
+  validateParams(z.object({ messageId: z.string().min(1) })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const audio = await chatService.getVoiceMessageAudio(req.user!, req.params.messageId);
+
+    res.type(audio.mimeType);
+    res.sendFile(audio.path);
+  })
+);
+
 /**
  * @route   GET /api/v1/chat/history
  * @desc    Get chat history
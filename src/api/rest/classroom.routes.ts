@@ -0,0 +1,311 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { classroomService } from '../../core/classroom/classroom.service';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import { successResponse } from '../../utils/response.utils';
+import asyncHandler from 'express-async-handler';
+
+const router = Router();
+
+// Validation schemas
+const classroomParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+const createClassroomSchema = z.object({
+  name: z.string().min(1).max(100),
+  grade: z.number().min(1).max(12).optional(),
+  subjectId: z.string().min(1).optional(),
+  description: z.string().max(500).optional(),
+});
+
+const joinClassroomSchema = z.object({
+  joinCode: z.string().min(4).max(12),
+});
+
+const createAssignmentSchema = z.object({
+  lessonId: z.string().min(1),
+  type: z.enum(['LESSON', 'QUIZ']).default('LESSON'),
+  title: z.string().max(200).optional(),
+  instructions: z.string().max(2000).optional(),
+  dueDate: z.coerce.date().optional(),
+});
+
+/**
+ * @route   GET /api/v1/classrooms
+ * @desc    List my classrooms (taught for teachers, enrolled for students)
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { userId, role } = req.user!;
+
+    const classrooms = role === 'TEACHER' || role === 'ADMIN'
+      ? await classroomService.getTeacherClassrooms(userId)
+      : await classroomService.getStudentClassrooms(userId);
+
+    res.json(
+      successResponse(classrooms, 'Classrooms retrieved successfully')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/classrooms
+ * @desc    Create a classroom
+ * @access  Teacher/Admin
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  validateBody(createClassroomSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const classroom = await classroomService.createClassroom(req.user!.userId, req.body);
+
+    res.status(201).json(
+      successResponse(classroom, 'Classroom created successfully')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/classrooms/join
+ * @desc    Join a classroom with its join code
+ * @access  Student
+ */
+router.post(
+  '/join',
+  authenticate,
+  authorize('STUDENT'),
+  validateBody(joinClassroomSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const classroom = await classroomService.joinClassroom(req.user!.userId, req.body.joinCode);
+
+    res.json(
+      successResponse(classroom, 'تم الانضمام للفصل بنجاح')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/classrooms/my-assignments
+ * @desc    Get my assignments across all my classrooms
+ * @access  Student
+ */
+router.get(
+  '/my-assignments',
+  authenticate,
+  authorize('STUDENT'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const assignments = await classroomService.getStudentAssignments(req.user!.userId);
+
+    res.json(
+      successResponse(assignments, 'Assignments retrieved successfully')
+    );
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/classrooms/:id
+ * @desc    Archive a classroom
+ * @access  Teacher (owner)/Admin
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  validateParams(classroomParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await classroomService.archiveClassroom(req.user!, req.params.id);
+
+    res.json(
+      successResponse({}, 'Classroom archived successfully')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/classrooms/:id/join-code
+ * @desc    Regenerate the join code
+ * @access  Teacher (owner)/Admin
+ */
+router.post(
+  '/:id/join-code',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  validateParams(classroomParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const joinCode = await classroomService.regenerateJoinCode(req.user!, req.params.id);
+
+    res.json(
+      successResponse({ joinCode }, 'Join code regenerated')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/classrooms/:id/roster
+ * @desc    Get classroom roster
+ * @access  Teacher (owner)/Admin
+ */
+router.get(
+  '/:id/roster',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  validateParams(classroomParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const roster = await classroomService.getRoster(req.user!, req.params.id);
+
+    res.json(
+      successResponse(roster, 'Roster retrieved successfully')
+    );
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/classrooms/:id/students/:studentId
+ * @desc    Remove a student from the classroom
+ * @access  Teacher (owner)/Admin
+ */
+router.delete(
+  '/:id/students/:studentId',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  asyncHandler(async (req: Request, res: Response) => {
+    await classroomService.removeStudent(req.user!, req.params.id, req.params.studentId);
+
+    res.json(
+      successResponse({}, 'Student removed from classroom')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/classrooms/:id/assignments
+ * @desc    List classroom assignments
+ * @access  Teacher (owner)/Admin
+ */
+router.get(
+  '/:id/assignments',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  validateParams(classroomParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const assignments = await classroomService.getAssignments(req.user!, req.params.id);
+
+    res.json(
+      successResponse(assignments, 'Assignments retrieved successfully')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/classrooms/:id/assignments
+ * @desc    Assign a lesson or its quiz to the classroom
+ * @access  Teacher (owner)/Admin
+ */
+router.post(
+  '/:id/assignments',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  validateParams(classroomParamsSchema),
+  validateBody(createAssignmentSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const assignment = await classroomService.createAssignment(req.user!, req.params.id, req.body);
+
+    res.status(201).json(
+      successResponse(assignment, 'Assignment created successfully')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/classrooms/:id/assignments/:assignmentId/report
+ * @desc    Per-student completion for one assignment
+ * @access  Teacher (owner)/Admin
+ */
+router.get(
+  '/:id/assignments/:assignmentId/report',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const report = await classroomService.getAssignmentReport(
+      req.user!,
+      req.params.id,
+      req.params.assignmentId
+    );
+
+    res.json(
+      successResponse(report, 'Assignment report retrieved')
+    );
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/classrooms/:id/assignments/:assignmentId
+ * @desc    Delete an assignment
+ * @access  Teacher (owner)/Admin
+ */
+router.delete(
+  '/:id/assignments/:assignmentId',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  asyncHandler(async (req: Request, res: Response) => {
+    await classroomService.deleteAssignment(req.user!, req.params.id, req.params.assignmentId);
+
+    res.json(
+      successResponse({}, 'Assignment deleted successfully')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/classrooms/:id/dashboard
+ * @desc    Class dashboard: students × assignments with learning context
+ * @access  Teacher (owner)/Admin
+ */
+router.get(
+  '/:id/dashboard',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  validateParams(classroomParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const dashboard = await classroomService.getClassDashboard(req.user!, req.params.id);
+
+    res.json(
+      successResponse(dashboard, 'Dashboard retrieved successfully')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/classrooms/:id/misconceptions
+ * @desc    Class-wide misconception ranking (optionally for one lesson)
+ * @access  Teacher (owner)/Admin
+ */
+router.get(
+  '/:id/misconceptions',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  validateParams(classroomParamsSchema),
+  validateQuery(z.object({
+    lessonId: z.string().min(1).optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const ranking = await classroomService.getClassMisconceptions(
+      req.user!,
+      req.params.id,
+      req.query.lessonId as string | undefined
+    );
+
+    res.json(
+      successResponse(ranking, 'Misconception ranking retrieved successfully')
+    );
+  })
+);
+
+export default router;
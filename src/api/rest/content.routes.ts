@@ -1,6 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { contentService } from '../../core/content/content.service';
+import { prerequisiteService } from '../../core/content/prerequisite.service';
+import { questionBankService } from '../../core/content/question-bank.service';
+import { questionTemplateService } from '../../core/quiz/question-template.service';
+import { pronunciationService } from '../../services/voice/pronunciation.service';
 import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware';
 import { authenticate, authorize, optionalAuth } from '../middleware/auth.middleware';
 import { successResponse, errorResponse, paginate } from '../../utils/response.utils';
@@ -14,6 +18,43 @@ const uuidSchema = z.object({
   id: z.string().min(1),  // ✅ تم التعديل: يقبل أي ID غير فارغ
 });
 
+const prerequisiteListSchema = z.object({
+  prerequisiteIds: z.array(z.string().min(1)).max(50),
+});
+
+const prerequisiteEdgeParams = z.object({
+  id: z.string().min(1),
+  prerequisiteId: z.string().min(1),
+});
+
+const templateVariableSchema = z.union([
+  z.object({ min: z.number(), max: z.number(), step: z.number().positive().optional() }),
+  z.object({ values: z.array(z.number()).min(1).max(100) }),
+  z.object({ expr: z.string().min(1).max(200) }),
+]);
+
+const questionTemplateSchema = z.object({
+  type: z.enum(['MCQ', 'TRUE_FALSE', 'FILL_BLANK', 'SHORT_ANSWER', 'PROBLEM']).optional(),
+  template: z.string().min(1).max(2000),
+  variables: z.record(z.string(), templateVariableSchema),
+  constraints: z.array(z.string().min(1).max(200)).max(20).optional(),
+  answer: z.string().min(1).max(500),
+  distractors: z.array(z.string().min(1).max(500)).max(7).optional(),
+  solution: z.array(z.string().min(1).max(1000)).max(20).optional(),
+  hints: z.array(z.string().min(1).max(500)).max(5).optional(),
+  explanation: z.string().max(2000).optional(),
+  difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']).optional(),
+  points: z.number().int().min(1).max(100).optional(),
+  tags: z.array(z.string().min(1)).max(20).optional(),
+});
+
+const pronunciationSchema = z.object({
+  term: z.string().trim().min(1).max(100),
+  spoken: z.string().trim().min(1).max(200),
+  subjectId: z.string().min(1).nullable().optional(),
+  note: z.string().max(500).optional(),
+});
+
 const paginationSchema = z.object({
   page: z.string().default('1').transform(Number).pipe(z.number().min(1)),
   limit: z.string().default('10').transform(Number).pipe(z.number().min(1).max(100)),
@@ -120,16 +161,17 @@ router.get(
 
 /**
  * @route   GET /api/v1/content/lessons/:id/questions
- * @desc    Get lesson questions
- * @access  Private
+ * @desc    Get lesson questions with their answer keys
+ * @access  Admin/Teacher
  */
 router.get(
   '/lessons/:id/questions',
   validateParams(uuidSchema),
   authenticate,
+  authorize('ADMIN', 'TEACHER'),
   asyncHandler(async (req: Request, res: Response) => {
     const questions = await prisma.question.findMany({
-      where: { lessonId: req.params.id },
+      where: { lessonId: req.params.id, templateId: null },
       orderBy: { order: 'asc' },
     });
     
@@ -139,6 +181,156 @@ router.get(
   })
 );
 
+/**
+ * @route   POST /api/v1/content/lessons/:id/questions/import
+ * @desc    Import questions from a QTI 2.1 or GIFT bank (per-item validation report)
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/lessons/:id/questions/import',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateBody(z.object({
+    format: z.enum(['qti', 'gift']),
+    content: z.string().min(1),
+    dryRun: z.boolean().optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { format, content, dryRun } = req.body;
+    const report = await questionBankService.importQuestions(req.params.id, format, content, { dryRun });
+
+    res.status(report.imported > 0 ? 201 : 200).json(
+      successResponse(
+        report,
+        dryRun
+          ? `${report.total - report.invalid - report.duplicates} of ${report.total} questions are valid`
+          : `${report.imported} of ${report.total} questions imported`
+      )
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/content/lessons/:id/questions/export
+ * @desc    Export lesson questions as QTI 2.1 (package files) or GIFT
+ * @access  Admin/Teacher
+ */
+router.get(
+  '/lessons/:id/questions/export',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateQuery(z.object({
+    format: z.enum(['qti', 'gift']).default('gift'),
+    download: z.enum(['true', 'false']).optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { format, download } = req.query as any;
+    const result = await questionBankService.exportQuestions(req.params.id, format);
+
+    // GIFT is a single text file that Moodle imports directly
+    if (format === 'gift' && download === 'true') {
+      res.setHeader('Content-Disposition', `attachment; filename="${result.files[0].path}"`);
+      res.type('text/plain').send(result.files[0].content);
+      return;
+    }
+
+    res.json(
+      successResponse(result, `${result.count} questions exported`)
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/content/lessons/:id/templates
+ * @desc    Parameterized question templates of a lesson
+ * @access  Admin/Teacher
+ */
+router.get(
+  '/lessons/:id/templates',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateQuery(z.object({
+    includeInactive: z.enum(['true', 'false']).optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const templates = await questionTemplateService.getLessonTemplates(
+      req.params.id,
+      (req.query as any).includeInactive === 'true'
+    );
+
+    res.json(
+      successResponse(templates, 'Templates retrieved successfully')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/content/lessons/:id/templates
+ * @desc    Create a question template ({a} placeholders, variables, constraints)
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/lessons/:id/templates',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateBody(questionTemplateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const template = await questionTemplateService.createTemplate(req.params.id, req.body, req.user!.userId);
+
+    res.status(201).json(
+      successResponse(template, 'Template created successfully')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/content/templates/preview
+ * @desc    Sample a few variants of a template without saving it
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/templates/preview',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateBody(questionTemplateSchema.extend({
+    count: z.number().int().min(1).max(10).optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { count, ...input } = req.body;
+    const variants = questionTemplateService.preview(input, count);
+
+    res.json(
+      successResponse(variants, 'Template preview generated')
+    );
+  })
+);
+
+/**
+ * @route   PATCH /api/v1/content/templates/:id
+ * @desc    Update or deactivate a question template
+ * @access  Admin/Teacher
+ */
+router.patch(
+  '/templates/:id',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateBody(questionTemplateSchema.partial().extend({
+    isActive: z.boolean().optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const template = await questionTemplateService.updateTemplate(req.params.id, req.body);
+
+    res.json(
+      successResponse(template, 'Template updated successfully')
+    );
+  })
+);
+
 /**
  * @route   POST /api/v1/content/subjects
  * @desc    Create new subject
@@ -255,6 +447,302 @@ router.post(
   })
 );
 
+// ============= PREREQUISITE GRAPH =============
+
+/**
+ * @route   GET /api/v1/content/prerequisites/graph
+ * @desc    Lesson or concept prerequisite graph with detected cycles
+ * @access  Admin/Teacher
+ */
+router.get(
+  '/prerequisites/graph',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateQuery(z.object({
+    kind: z.enum(['lesson', 'concept']).default('lesson'),
+    subjectId: z.string().optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { kind, subjectId } = req.query as any;
+    const graph = await prerequisiteService.getGraph(kind, subjectId);
+
+    res.json(
+      successResponse(graph, 'Prerequisite graph retrieved')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/content/lessons/:id/prerequisites
+ * @desc    Lesson prerequisites, dependents and concept prerequisites
+ * @access  Private
+ */
+router.get(
+  '/lessons/:id/prerequisites',
+  authenticate,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const prerequisites = await prerequisiteService.getLessonPrerequisites(req.params.id);
+
+    res.json(
+      successResponse(prerequisites, 'Prerequisites retrieved')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/content/lessons/:id/readiness
+ * @desc    Check whether the current student has mastered the lesson prerequisites
+ * @access  Private
+ */
+router.get(
+  '/lessons/:id/readiness',
+  authenticate,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const readiness = await prerequisiteService.getLessonReadiness(req.user!.userId, req.params.id);
+
+    res.json(
+      successResponse(readiness, readiness.ready ? 'Ready to learn' : 'Prerequisites not mastered')
+    );
+  })
+);
+
+/**
+ * @route   PUT /api/v1/content/lessons/:id/prerequisites
+ * @desc    Replace lesson prerequisites (rejects cycles)
+ * @access  Admin/Teacher
+ */
+router.put(
+  '/lessons/:id/prerequisites',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateBody(prerequisiteListSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const edges = await prerequisiteService.setPrerequisites('lesson', req.params.id, req.body.prerequisiteIds);
+
+    res.json(
+      successResponse(edges, 'Prerequisites updated')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/content/lessons/:id/prerequisites
+ * @desc    Add one lesson prerequisite (rejects cycles)
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/lessons/:id/prerequisites',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateBody(z.object({ prerequisiteId: z.string().min(1) })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const edge = await prerequisiteService.addEdge('lesson', req.params.id, req.body.prerequisiteId);
+
+    res.status(201).json(
+      successResponse(edge, 'Prerequisite added')
+    );
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/content/lessons/:id/prerequisites/:prerequisiteId
+ * @desc    Remove a lesson prerequisite
+ * @access  Admin/Teacher
+ */
+router.delete(
+  '/lessons/:id/prerequisites/:prerequisiteId',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(prerequisiteEdgeParams),
+  asyncHandler(async (req: Request, res: Response) => {
+    const removed = await prerequisiteService.removeEdge('lesson', req.params.id, req.params.prerequisiteId);
+
+    if (!removed) {
+      res.status(404).json(
+        errorResponse('PREREQUISITE_NOT_FOUND', 'Prerequisite not found')
+      );
+      return;
+    }
+
+    res.json(
+      successResponse(null, 'Prerequisite removed')
+    );
+  })
+);
+
+/**
+ * @route   PUT /api/v1/content/concepts/:id/prerequisites
+ * @desc    Replace concept prerequisites (rejects cycles)
+ * @access  Admin/Teacher
+ */
+router.put(
+  '/concepts/:id/prerequisites',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateBody(prerequisiteListSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const edges = await prerequisiteService.setPrerequisites('concept', req.params.id, req.body.prerequisiteIds);
+
+    res.json(
+      successResponse(edges, 'Prerequisites updated')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/content/concepts/:id/prerequisites
+ * @desc    Add one concept prerequisite (rejects cycles)
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/concepts/:id/prerequisites',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateBody(z.object({ prerequisiteId: z.string().min(1) })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const edge = await prerequisiteService.addEdge('concept', req.params.id, req.body.prerequisiteId);
+
+    res.status(201).json(
+      successResponse(edge, 'Prerequisite added')
+    );
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/content/concepts/:id/prerequisites/:prerequisiteId
+ * @desc    Remove a concept prerequisite
+ * @access  Admin/Teacher
+ */
+router.delete(
+  '/concepts/:id/prerequisites/:prerequisiteId',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(prerequisiteEdgeParams),
+  asyncHandler(async (req: Request, res: Response) => {
+    const removed = await prerequisiteService.removeEdge('concept', req.params.id, req.params.prerequisiteId);
+
+    if (!removed) {
+      res.status(404).json(
+        errorResponse('PREREQUISITE_NOT_FOUND', 'Prerequisite not found')
+      );
+      return;
+    }
+
+    res.json(
+      successResponse(null, 'Prerequisite removed')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/content/pronunciations
+ * @desc    Pronunciation lexicon (all, or one subject's entries)
+ * @access  Admin/Teacher
+ */
+router.get(
+  '/pronunciations',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateQuery(z.object({
+    subjectId: z.string().min(1).optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const entries = await pronunciationService.listEntries((req.query as any).subjectId);
+
+    res.json(
+      successResponse(entries, 'Pronunciations retrieved successfully')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/content/pronunciations
+ * @desc    Add a word and how it should be spoken (diacritized), globally or for one subject
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/pronunciations',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateBody(pronunciationSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const entry = await pronunciationService.createEntry(req.body, req.user!.userId);
+
+    res.status(201).json(
+      successResponse(entry, 'Pronunciation added successfully')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/content/pronunciations/preview
+ * @desc    Show the text exactly as it will be sent to the voice engine
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/pronunciations/preview',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateBody(z.object({
+    text: z.string().min(1).max(5000),
+    dialect: z.enum(['egyptian', 'msa']).optional(),
+    subjectId: z.string().min(1).optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { text, dialect, subjectId } = req.body;
+    const spoken = await pronunciationService.prepare(text, { dialect, subjectId });
+
+    res.json(
+      successResponse({ text, spoken }, 'Speech preview generated')
+    );
+  })
+);
+
+/**
+ * @route   PATCH /api/v1/content/pronunciations/:id
+ * @desc    Update a pronunciation entry
+ * @access  Admin/Teacher
+ */
+router.patch(
+  '/pronunciations/:id',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  validateBody(pronunciationSchema.partial()),
+  asyncHandler(async (req: Request, res: Response) => {
+    const entry = await pronunciationService.updateEntry(req.params.id, req.body);
+
+    res.json(
+      successResponse(entry, 'Pronunciation updated successfully')
+    );
+  })
+);
+
+/**
+ * @route   DELETE /api/v1/content/pronunciations/:id
+ * @desc    Remove a pronunciation entry
+ * @access  Admin/Teacher
+ */
+router.delete(
+  '/pronunciations/:id',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await pronunciationService.deleteEntry(req.params.id);
+
+    res.json(
+      successResponse(null, 'Pronunciation removed')
+    );
+  })
+);
+
 /**
  * @route   GET /api/v1/content/search
  * @desc    Search lessons
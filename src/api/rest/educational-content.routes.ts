@@ -6,6 +6,7 @@ import { prisma } from '../../config/database.config';
 import { authenticate } from '../middleware/auth.middleware';
 import { successResponse, errorResponse } from '../../utils/response.utils';
 import asyncHandler from 'express-async-handler';
+import { misconceptionService } from '../../core/quiz/misconception.service';
 
 const router = Router();
 
@@ -124,12 +125,7 @@ router.get(
       return;
     }
 
-    let mistakes: any[] = [];
-
-    if (lesson.content.enrichedContent) {
-      const enriched = safeParseJSON(lesson.content.enrichedContent, {});
-      mistakes = enriched.commonMistakes || [];
-    }
+    const mistakes = await misconceptionService.getLessonMistakes(lessonId);
 
     res.json(
       successResponse({
@@ -3,13 +3,15 @@
 
 import { Router, Request, Response } from 'express';
 import { prisma } from '../../config/database.config';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorize, optionalAuth } from '../middleware/auth.middleware';
 import { successResponse, errorResponse } from '../../utils/response.utils';
 import asyncHandler from 'express-async-handler';
 
 // ============= IMPORTS FOR SLIDES & VOICE =============
 import { slideService, type SlideContent } from '../../services/slides/slide.service';
 import { voiceService } from '../../services/voice/voice.service';
+import { pronunciationService } from '../../services/voice/pronunciation.service';
+import type { CaptionTrack } from '../../services/voice/caption.service';
 
 // ============= 🆕 QUEUE IMPORTS =============
 import slideQueue from '../../services/queue/slide-generation.queue';
@@ -24,6 +26,15 @@ import {
 // ============= 🆕 CACHE IMPORT =============
 import { enrichedContentCache } from '../../services/cache/enriched-content.cache';
 
+// ============= 🆕 MASTERY IMPORTS =============
+import { quizService } from '../../core/quiz/quiz.service';
+import { masteryService } from '../../core/progress/mastery.service';
+import { prerequisiteService } from '../../core/content/prerequisite.service';
+import type { ConceptMasteryUpdate } from '../../types/progress.types';
+
+// ============= 🆕 VIDEO IMPORTS =============
+import { videoService } from '../../core/video/video.service';
+
 import { z } from 'zod';
 
 const router = Router();
@@ -109,6 +120,20 @@ const smartLessonSchema = z.object({
   }).optional()
 });
 
+// Slide quiz answer schema
+// The key is looked up on the server (stored Question or lesson exercise), never taken from the client
+const slideAnswerSchema = z.object({
+  answer: z.union([z.string(), z.number()]),
+  questionId: z.string().optional(),   // slide built from a stored Question
+  question: z.string().optional(),     // slide quiz or free-response slide built from a lesson exercise
+  conceptIds: z.array(z.string()).optional() // staff previews only - ignored for students
+});
+
+// Video render request - force re-renders a video that already exists
+const videoRequestSchema = z.object({
+  force: z.boolean().optional()
+});
+
 // Store generation status (in production, use Redis)
 const voiceGenerationStatus = new Map<string, any>();
 const teachingSessionStatus = new Map<string, any>(); // 🆕
@@ -256,10 +281,13 @@ router.post(
     
     // Generate voice if requested
     let audioUrl: string | null = null;
+    let captions: CaptionTrack | null = null;
     if (data.generateVoice) {
-      const voiceResult = await voiceService.textToSpeech(teachingScript.script);
+      const subjectId = await pronunciationService.getLessonSubjectId(id);
+      const voiceResult = await voiceService.textToSpeech(teachingScript.script, { profile: await voiceService.getVoiceForUser(req.user!.userId), subjectId });
       if (voiceResult.success) {
         audioUrl = voiceResult.audioUrl || null;
+        captions = voiceResult.captions || null;
       }
     }
     
@@ -275,7 +303,8 @@ router.post(
         interactionPoints: teachingScript.interactionPoints,
         emotionalTone: teachingScript.emotionalTone,
         nextSuggestions: teachingScript.nextSuggestions,
-        audioUrl
+        audioUrl,
+        captions
       }, 'Teaching script generated successfully')
     );
   })
@@ -340,9 +369,12 @@ router.post(
 
       // Generate voice (optional, handle errors gracefully)
       let audioUrl = null;
+      let captions = null;
       try {
-        const voiceResult = await voiceService.textToSpeech(teachingScript.script);
+        const subjectId = await pronunciationService.getLessonSubjectId(id);
+        const voiceResult = await voiceService.textToSpeech(teachingScript.script, { profile: await voiceService.getVoiceForUser(req.user!.userId), subjectId });
         audioUrl = voiceResult.audioUrl;
+        captions = voiceResult.captions || null;
       } catch (voiceError) {
         console.log('Voice generation skipped:', voiceError);
       }
@@ -354,6 +386,7 @@ router.post(
         script: teachingScript.script,
         duration: teachingScript.duration || 5,
         audioUrl: audioUrl,
+        captions,
         action: 'continue',
         emotionalTone: teachingScript.emotionalTone || 'friendly',
         nextSuggestions: teachingScript.nextSuggestions || []
@@ -424,10 +457,13 @@ router.post(
     
     // Generate voice if requested
     let audioUrl: string | null = null;
+    let captions: CaptionTrack | null = null;
     if (generateVoice && response.script) {
-      const voiceResult = await voiceService.textToSpeech(response.script);
+      const subjectId = await pronunciationService.getLessonSubjectId(id);
+      const voiceResult = await voiceService.textToSpeech(response.script, { profile: await voiceService.getVoiceForUser(req.user!.userId), subjectId });
       if (voiceResult.success) {
         audioUrl = voiceResult.audioUrl || null;
+        captions = voiceResult.captions || null;
       }
     }
     
@@ -437,7 +473,8 @@ router.post(
         script: response.script,
         problem: response.problem,
         duration: response.duration,
-        audioUrl
+        audioUrl,
+        captions
       }, 'Problem generated successfully')
     );
   })
@@ -477,6 +514,7 @@ router.post(
         where: { id },
         include: {
           content: true,
+          video: true,
           unit: {
             include: {
               subject: true
@@ -541,6 +579,20 @@ router.post(
       });
     }
 
+    // 3b. Rendered lesson video with its captions
+    if (lesson.video?.status === 'COMPLETED' && lesson.video.url) {
+      slides.push({
+        type: 'video',
+        title: 'فيديو الدرس',
+        video: {
+          url: lesson.video.url,
+          poster: lesson.video.thumbnailUrl || undefined,
+          captionsUrl: lesson.video.captionsVttUrl || undefined,
+          captionsLang: 'ar'
+        }
+      });
+    }
+
     // 4. Key points slide
     if (keyPoints.length > 0) {
       slides.push({
@@ -676,10 +728,13 @@ router.post(
         
         // Generate voices if requested
         const audioUrls: string[] = [];
+        const captions: Array<CaptionTrack | null> = [];
         if (data.generateVoice) {
+          const profile = await voiceService.getVoiceForUser(req.user!.userId);
           for (const script of teachingScripts) {
-            const voiceResult = await voiceService.textToSpeech(script.script);
+            const voiceResult = await voiceService.textToSpeech(script.script, { profile, subjectId: lesson.unit.subjectId });
             audioUrls.push(voiceResult.audioUrl || '');
+            captions.push(voiceResult.captions || null);
           }
         }
         
@@ -691,6 +746,7 @@ router.post(
           htmlSlides,
           teachingScripts,
           audioUrls,
+          captions,
           completedAt: new Date()
         });
         
@@ -760,6 +816,7 @@ router.get(
             emotionalTone: s.emotionalTone
           })),
           audioUrls: status.audioUrls,
+          captions: status.captions || [],
           totalSlides: status.totalSlides
         }, 'Smart lesson ready')
       );
@@ -886,7 +943,8 @@ router.get(
               subject: true
             }
           },
-          content: true
+          content: true,
+          video: true
         }
       })
     ]);
@@ -956,6 +1014,22 @@ router.get(
       });
     }
 
+    // 3b. Rendered lesson video with its captions
+    if (lesson.video?.status === 'COMPLETED' && lesson.video.url) {
+      slides.push({
+        type: 'video',
+        title: 'فيديو الدرس',
+        video: {
+          url: lesson.video.url,
+          poster: lesson.video.thumbnailUrl || undefined,
+          captionsUrl: lesson.video.captionsVttUrl || undefined,
+          captionsLang: 'ar'
+        },
+        metadata: { duration: lesson.video.duration || 60 },
+        personalization
+      });
+    }
+
     // 4. Key points slide
     if (keyPoints.length > 0) {
       slides.push({
@@ -1206,13 +1280,18 @@ router.get('/', async (req: Request, res: Response) => {
 /**
  * @route   GET /api/v1/lessons/:id
  * @desc    Get lesson details by ID
- * @access  Public
+ * @access  Public (signed-in students also get a prerequisites check)
  * 🆕 UPDATED: Now uses caching for enriched content
  */
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
+    // Warn when the student opens a lesson before mastering its prerequisites
+    const prerequisites = req.user
+      ? await prerequisiteService.getLessonReadiness(req.user.userId, id).catch(() => null)
+      : null;
+
     // 🆕 Try to get from cache first
     const cachedContent = await enrichedContentCache.getEnrichedContent(id);
 
@@ -1276,6 +1355,7 @@ router.get('/:id', async (req: Request, res: Response) => {
           hasQuiz: true,
           hasChat: true,
           isEnriched: cachedContent.enrichmentLevel > 0,
+          prerequisites,
           fromCache: true // 🆕 Indicate data is from cache
         }, 'Lesson retrieved successfully (cached)')
       );
@@ -1402,7 +1482,8 @@ router.get('/:id', async (req: Request, res: Response) => {
         hasSlides: true,
         hasQuiz: true,
         hasChat: true,
-        isEnriched: (lesson.content?.enrichmentLevel ?? 0) > 0
+        isEnriched: (lesson.content?.enrichmentLevel ?? 0) > 0,
+        prerequisites
       }, 'Lesson retrieved successfully')
     );
   } catch (error: any) {
@@ -1413,6 +1494,60 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+// ============= 🆕 LESSON VIDEO ENDPOINTS =============
+
+/**
+ * @route   POST /api/v1/lessons/:id/video
+ * @desc    Request the rendered lesson video (queued; poll GET for status)
+ * @access  Teacher/Admin
+ */
+router.post(
+  '/:id/video',
+  authenticate,
+  authorize('TEACHER', 'ADMIN'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const validationResult = videoRequestSchema.safeParse(req.body || {});
+    if (!validationResult.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'بيانات غير صحيحة', validationResult.error.issues)
+      );
+      return;
+    }
+    const { force } = validationResult.data;
+
+    const video = await videoService.requestLessonVideo(id, { force });
+
+    res.status(video.status === 'COMPLETED' ? 200 : 202).json(
+      successResponse(video, video.status === 'COMPLETED' ? 'Lesson video ready' : 'Lesson video queued')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/lessons/:id/video
+ * @desc    Get lesson video status, URL, thumbnail and chapters
+ * @access  Private
+ */
+router.get(
+  '/:id/video',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const video = await videoService.getLessonVideo(id);
+    if (!video) {
+      res.status(404).json(
+        errorResponse('VIDEO_NOT_FOUND', 'No video requested for this lesson yet')
+      );
+      return;
+    }
+
+    res.json(successResponse(video, `Lesson video ${video.status.toLowerCase()}`));
+  })
+);
+
 // ============= 🆕 CACHE MANAGEMENT ENDPOINTS =============
 
 /**
@@ -1630,15 +1765,14 @@ router.post(
     }
 
     // توليد الصوت
-    const voiceResult = await voiceService.textToSpeech(script.script);
-
-    // إنشاء بيانات التزامن البسيطة (مؤقتاً)
-    const generateBasicSyncData = (duration: number) => ({
-      start: 0,
-      end: duration || 10,
-      words: [], // يمكن إضافة تحليل أعمق لاحقاً
-      highlights: []
-    });
+    const subjectId = await pronunciationService.getLessonSubjectId(id);
+    const voiceResult = await voiceService.textToSpeech(script.script, { profile: await voiceService.getVoiceForUser(req.user!.userId), subjectId });
+
+    // توقيتات الكلمات على مدة الصوت الفعلية (نفس اللي اتبنت منها ملفات الترجمة)
+    const syncTimestamps = await voiceService.generateSyncData(
+      script.script || '',
+      voiceResult.duration || script.duration || 10
+    );
 
     res.json(
       successResponse({
@@ -1650,8 +1784,9 @@ router.post(
         },
         script: script.script,
         audioUrl: voiceResult.audioUrl,
+        captions: voiceResult.captions || null,
         duration: script.duration,
-        syncTimestamps: generateBasicSyncData(script.duration || 10)
+        syncTimestamps
       }, 'Slide generated successfully')
     );
   })
@@ -1910,18 +2045,44 @@ router.post(
   authenticate,
   asyncHandler(async (req: Request, res: Response) => {
     const { id, slideId } = req.params;
-    const { answer } = req.body;
     const userId = req.user!.userId;
 
+    const validationResult = slideAnswerSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'بيانات غير صحيحة', validationResult.error.issues)
+      );
+      return;
+    }
+    const { answer, questionId, question, conceptIds } = validationResult.data;
+
     try {
-      // In a real implementation, you would:
-      // 1. Get the correct answer from the database
-      // 2. Compare with user's answer
-      // 3. Store the result
-      // 4. Update user's progress/points
-
-      // For now, simulate a correct answer check
-      const isCorrect = Math.random() > 0.3; // 70% chance of being correct for testing
+      let isCorrect: boolean;
+      let mastery: ConceptMasteryUpdate[] = [];
+
+      const checked = await quizService.checkSlideAnswer(id, answer, { questionId, questionText: question });
+      if (!checked) {
+        res.status(400).json(
+          errorResponse('NO_ANSWER_KEY', 'لا توجد إجابة مرجعية لهذا السؤال')
+        );
+        return;
+      }
+
+      // Only the first answer to a slide question counts toward mastery
+      isCorrect = checked.isCorrect;
+      const counted = await masteryService.claimSlideAnswer(userId, id, checked.key, isCorrect);
+      if (counted && checked.question) {
+        mastery = await masteryService.recordQuestionAnswer(userId, checked.question, { isCorrect });
+      } else if (counted) {
+        mastery = await masteryService.recordSlideAnswer(userId, id, {
+          isCorrect,
+          questionText: checked.questionText,
+          // Students can't pick the concepts their answer counts for
+          conceptIds: req.user!.role === 'STUDENT' ? undefined : conceptIds,
+          optionCount: checked.optionCount
+        });
+      }
+
       const points = isCorrect ? 10 : 0;
 
       console.log(`✅ Quiz answer - User: ${userId}, Lesson: ${id}, Slide: ${slideId}, Answer: ${answer}, Correct: ${isCorrect}`);
@@ -1932,7 +2093,10 @@ router.post(
           points,
           explanation: isCorrect ? 'إجابة صحيحة! أحسنت.' : 'إجابة غير صحيحة. حاول مرة أخرى.',
           slideId,
-          answer
+          answer,
+          evaluated: true,
+          counted,
+          mastery
         }, isCorrect ? 'Correct answer!' : 'Incorrect answer')
       );
     } catch (error) {
@@ -1,26 +1,18 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../../config/database.config';
-import { successResponse, errorResponse } from '../../utils/response.utils';
+import { successResponse } from '../../utils/response.utils';
 import asyncHandler from 'express-async-handler';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorize, authorizeStudentAccess } from '../middleware/auth.middleware';
 
 const router = Router();
 
+// فقط ولي الأمر (لأبنائه المرتبطين) أو المعلم أو الأدمن
+const reportAccess = [authorize('PARENT', 'TEACHER', 'ADMIN'), authorizeStudentAccess('TEACHER', 'ADMIN')];
+
 // Get latest report
-router.get('/:userId/latest', authenticate, asyncHandler(async (req: Request, res: Response) => {
+router.get('/:userId/latest', authenticate, ...reportAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userId } = req.params;
 
-  // Authorization check - فقط ولي الأمر أو المعلم أو الأدمن
-  const userRole = req.user!.role as string;
-  if (userRole !== 'PARENT' &&
-      userRole !== 'TEACHER' &&
-      userRole !== 'ADMIN') {
-    res.status(403).json(
-      errorResponse('FORBIDDEN', 'غير مصرح لك بالوصول لتقارير أولياء الأمور')
-    );
-    return;
-  }
-
   const user = await prisma.user.findUnique({
     where: { id: userId }
   });
@@ -65,40 +57,18 @@ router.get('/:userId/latest', authenticate, asyncHandler(async (req: Request, re
 }));
 
 // Get report history
-router.get('/:userId/history', authenticate, asyncHandler(async (req: Request, res: Response) => {
-  const { userId } = req.params;
-
-  // Authorization check
-  const userRole = req.user!.role as string;
-  if (userRole !== 'PARENT' &&
-      userRole !== 'TEACHER' &&
-      userRole !== 'ADMIN') {
-    res.status(403).json(
-      errorResponse('FORBIDDEN', 'غير مصرح لك بالوصول لتقارير أولياء الأمور')
-    );
-    return;
-  }
+router.get('/:userId/history', authenticate, ...reportAccess, asyncHandler(async (_req: Request, res: Response) => {
   // For now, return empty array
   res.json(successResponse([]));
 }));
 
 // Generate new report
-router.post('/:userId/generate', authenticate, asyncHandler(async (req: Request, res: Response) => {
+router.post('/:userId/generate', authenticate, ...reportAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userId } = req.params;
 
-  // Authorization check
-  const userRole = req.user!.role as string;
-  if (userRole !== 'PARENT' &&
-      userRole !== 'TEACHER' &&
-      userRole !== 'ADMIN') {
-    res.status(403).json(
-      errorResponse('FORBIDDEN', 'غير مصرح لك بتوليد تقارير')
-    );
-    return;
-  }
   // Update last report date
   await (prisma as any).studentContext.update({
-    where: { userId: req.params.userId },
+    where: { userId },
     data: { lastParentReport: new Date() }
   });
 
@@ -106,19 +76,7 @@ router.post('/:userId/generate', authenticate, asyncHandler(async (req: Request,
 }));
 
 // Send report via email
-router.post('/:userId/send-email', authenticate, asyncHandler(async (req: Request, res: Response) => {
-  const { userId } = req.params;
-
-  // Authorization check
-  const userRole = req.user!.role as string;
-  if (userRole !== 'PARENT' &&
-      userRole !== 'TEACHER' &&
-      userRole !== 'ADMIN') {
-    res.status(403).json(
-      errorResponse('FORBIDDEN', 'غير مصرح لك بإرسال التقارير')
-    );
-    return;
-  }
+router.post('/:userId/send-email', authenticate, ...reportAccess, asyncHandler(async (req: Request, res: Response) => {
   const { email } = req.body;
 
   // In production, implement email sending
@@ -1,9 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { quizService } from '../../core/quiz/quiz.service';
+import { reviewService } from '../../core/quiz/review.service';
+import { itemAnalysisService } from '../../core/quiz/item-analysis.service';
+import { examService } from '../../core/quiz/exam.service';
+import { hintService } from '../../core/quiz/hint.service';
+import { misconceptionService } from '../../core/quiz/misconception.service';
 import { progressService } from '../../core/progress/progress.service';
 import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorize } from '../middleware/auth.middleware';
 import { successResponse, errorResponse } from '../../utils/response.utils';
 import asyncHandler from 'express-async-handler';
 import { prisma } from '../../config/database.config';
@@ -23,6 +28,73 @@ const submitAnswerSchema = z.object({
   timeSpent: z.number().min(0),
 });
 
+const hintRequestSchema = z.object({
+  attemptId: z.string().min(1),
+  questionId: z.string().min(1),
+});
+
+const rubricSchema = z.object({
+  criteria: z.array(z.object({
+    id: z.string().min(1).max(50),
+    description: z.string().min(1),
+    maxPoints: z.number().positive().max(100),
+    keywords: z.array(z.string().min(1)).optional(),
+  })).min(1).max(10),
+  modelAnswer: z.string().optional(),
+});
+
+const gradeOverrideSchema = z.object({
+  criteria: z.array(z.object({
+    criterionId: z.string().min(1),
+    score: z.number().min(0),
+    feedback: z.string().optional(),
+  })).min(1).optional(),
+  credit: z.number().min(0).max(1).optional(),
+  feedback: z.string().max(2000).optional(),
+}).refine(data => data.criteria || data.credit !== undefined, {
+  message: 'Provide criteria scores or a credit value',
+});
+
+const createExamSchema = z.object({
+  lessonId: z.string().min(1),
+  title: z.string().min(1).max(200).optional(),
+  questionIds: z.array(z.string().min(1)).min(1).max(50).optional(),
+  questionCount: z.number().int().min(1).max(50).optional(),
+  timeLimit: z.number().int().min(60).max(4 * 60 * 60).optional(),
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  opensAt: z.coerce.date().optional(),
+  closesAt: z.coerce.date(),
+  resultsReleaseAt: z.coerce.date().optional(),
+  seed: z.number().int().min(0).optional(),
+});
+
+const updateExamSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  timeLimit: z.number().int().min(60).max(4 * 60 * 60).optional(),
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  opensAt: z.coerce.date().nullable().optional(),
+  closesAt: z.coerce.date().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const misconceptionSchema = z.object({
+  name: z.string().min(3).max(200),
+  correction: z.string().max(1000).optional(),
+  keywords: z.array(z.string().min(1).max(100)).max(20).optional(),
+  conceptId: z.string().min(1).optional(),
+});
+
+const misconceptionTagsSchema = z.object({
+  tags: z.record(z.string(), z.string().min(1).nullable()),
+});
+
+const examAttemptParamsSchema = z.object({ attemptId: z.string().min(1) });
+
+const reviewAnswerSchema = submitAnswerSchema.extend({
+  confidence: z.number().min(0).max(100).optional(),
+  hintsUsed: z.number().int().min(0).optional(),
+});
+
 /**
  * @route   POST /api/v1/quiz/start
  * @desc    Start a new quiz attempt
@@ -75,6 +147,26 @@ router.post(
   })
 );
 
+/**
+ * @route   POST /api/v1/quiz/hint
+ * @desc    Reveal the next hint of a question (each hint lowers its points)
+ * @access  Private
+ */
+router.post(
+  '/hint',
+  authenticate,
+  validateBody(hintRequestSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { attemptId, questionId } = req.body;
+
+    const reveal = await hintService.revealNextHint(req.user!.userId, attemptId, questionId);
+
+    res.json(
+      successResponse(reveal, reveal.hint ? 'Hint revealed' : 'No more hints for this question')
+    );
+  })
+);
+
 /**
  * @route   POST /api/v1/quiz/complete/:attemptId
  * @desc    Complete quiz and get results
@@ -242,6 +334,559 @@ router.get(
   })
 );
 
+// Spaced-repetition review endpoints
+
+/**
+ * @route   GET /api/v1/quiz/review
+ * @desc    Get due review counts and a preview of the review deck
+ * @access  Private
+ */
+router.get(
+  '/review',
+  authenticate,
+  validateQuery(z.object({
+    limit: z.string().default('10').transform(Number).pipe(z.number().min(1).max(30)),
+  })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { limit } = req.query as any;
+
+    const [dueCounts, deck] = await Promise.all([
+      reviewService.getDueCounts(req.user!.userId),
+      reviewService.getDeck(req.user!.userId, Number(limit)),
+    ]);
+
+    res.json(
+      successResponse({ dueCounts, deck }, 'Review queue retrieved')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/review/start
+ * @desc    Start a review session over due questions and concepts
+ * @access  Private
+ */
+router.post(
+  '/review/start',
+  authenticate,
+  validateBody(z.object({
+    limit: z.number().min(1).max(30).optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const session = await reviewService.startReview(req.user!.userId, req.body.limit);
+
+    if (!session) {
+      const dueCounts = await reviewService.getDueCounts(req.user!.userId);
+      res.json(
+        successResponse({ session: null, dueCounts }, 'No reviews due')
+      );
+      return;
+    }
+
+    res.json(
+      successResponse({ session, dueCounts: session.dueCounts }, 'Review started')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/review/answer
+ * @desc    Submit a review answer and reschedule its cards
+ * @access  Private
+ */
+router.post(
+  '/review/answer',
+  authenticate,
+  validateBody(reviewAnswerSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { attemptId, questionId, answer, timeSpent, confidence, hintsUsed } = req.body;
+
+    await reviewService.assertReviewAttempt(req.user!.userId, attemptId);
+
+    const result = await quizService.submitAnswer(
+      attemptId,
+      questionId,
+      answer,
+      timeSpent,
+      { confidence, hintsUsed }
+    );
+    const dueCounts = await reviewService.getDueCounts(req.user!.userId);
+
+    res.json(
+      successResponse(
+        { ...result, dueCounts },
+        result.isCorrect ? 'Correct answer!' : 'Incorrect answer'
+      )
+    );
+  })
+);
+
+// Rubric grading endpoints
+
+/**
+ * @route   PUT /api/v1/quiz/questions/:id/rubric
+ * @desc    Attach a grading rubric to an essay or short-answer question
+ * @access  Admin/Teacher
+ */
+router.put(
+  '/questions/:id/rubric',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ id: z.string().min(1) })),
+  validateBody(rubricSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const rubric = await quizService.setRubric(req.params.id, req.body);
+
+    res.json(
+      successResponse(rubric, 'Rubric saved')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/quiz/grading/pending
+ * @desc    Answers graded with low confidence that need a teacher
+ * @access  Admin/Teacher (own classes or own exams)
+ */
+router.get(
+  '/grading/pending',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateQuery(z.object({
+    lessonId: z.string().optional(),
+    limit: z.string().default('50').transform(Number).pipe(z.number().min(1).max(200)),
+  })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { lessonId, limit } = req.query as any;
+    const answers = await quizService.getAnswersNeedingReview(req.user!, lessonId, Number(limit) || 50);
+
+    res.json(
+      successResponse(answers, 'Pending answers retrieved')
+    );
+  })
+);
+
+/**
+ * @route   PATCH /api/v1/quiz/answers/:answerId/grade
+ * @desc    Teacher override of a rubric grade (recomputes the attempt score)
+ * @access  Admin/Teacher (own classes or own exams)
+ */
+router.patch(
+  '/answers/:answerId/grade',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ answerId: z.string().min(1) })),
+  validateBody(gradeOverrideSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await quizService.overrideGrade(req.user!, req.params.answerId, req.body);
+
+    res.json(
+      successResponse(result, 'Grade updated')
+    );
+  })
+);
+
+// Exam endpoints
+
+/**
+ * @route   POST /api/v1/quiz/exams
+ * @desc    Create a timed exam with a fixed question set
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/exams',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateBody(createExamSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const exam = await examService.createExam(req.user!.userId, req.body);
+
+    res.status(201).json(
+      successResponse(exam, 'Exam created')
+    );
+  })
+);
+
+/**
+ * @route   PATCH /api/v1/quiz/exams/:examId
+ * @desc    Update exam window, time limit or attempts
+ * @access  Admin/Teacher (exam owner)
+ */
+router.patch(
+  '/exams/:examId',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ examId: z.string().min(1) })),
+  validateBody(updateExamSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const exam = await examService.updateExam(req.user!, req.params.examId, req.body);
+
+    res.json(
+      successResponse(exam, 'Exam updated')
+    );
+  })
+);
+
+/**
+ * @route   PUT /api/v1/quiz/exams/:examId/release
+ * @desc    Set the results release date (now by default, null to hide)
+ * @access  Admin/Teacher (exam owner)
+ */
+router.put(
+  '/exams/:examId/release',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ examId: z.string().min(1) })),
+  validateBody(z.object({
+    releaseAt: z.coerce.date().nullable().optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const releaseAt = req.body.releaseAt === undefined ? new Date() : req.body.releaseAt;
+    const exam = await examService.setResultsRelease(req.user!, req.params.examId, releaseAt);
+
+    res.json(
+      successResponse(exam, releaseAt ? 'Results release date set' : 'Results hidden')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/quiz/exams/:examId/report
+ * @desc    Attempts, scores and focus-loss events for an exam
+ * @access  Admin/Teacher (exam owner)
+ */
+router.get(
+  '/exams/:examId/report',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ examId: z.string().min(1) })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const report = await examService.getExamReport(req.user!, req.params.examId);
+
+    res.json(
+      successResponse(report, 'Exam report retrieved')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/quiz/lessons/:lessonId/exams
+ * @desc    Exams available for a lesson
+ * @access  Private
+ */
+router.get(
+  '/lessons/:lessonId/exams',
+  authenticate,
+  validateParams(z.object({ lessonId: z.string().min(1) })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const exams = await examService.getLessonExams(req.params.lessonId);
+
+    res.json(
+      successResponse(exams, 'Exams retrieved')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/exams/:examId/start
+ * @desc    Start or resume an exam attempt (server-side clock)
+ * @access  Private
+ */
+router.post(
+  '/exams/:examId/start',
+  authenticate,
+  validateParams(z.object({ examId: z.string().min(1) })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const session = await examService.startExam(req.user!.userId, req.params.examId);
+
+    res.json(
+      successResponse(session, 'Exam started')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/quiz/exams/attempts/:attemptId
+ * @desc    Resume a running exam (questions, answered ids, remaining time)
+ * @access  Private
+ */
+router.get(
+  '/exams/attempts/:attemptId',
+  authenticate,
+  validateParams(examAttemptParamsSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const session = await examService.getSession(req.user!.userId, req.params.attemptId);
+
+    res.json(
+      successResponse(session, 'Exam session retrieved')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/exams/attempts/:attemptId/questions/:questionId/open
+ * @desc    Start the per-question time cap
+ * @access  Private
+ */
+router.post(
+  '/exams/attempts/:attemptId/questions/:questionId/open',
+  authenticate,
+  validateParams(z.object({ attemptId: z.string().min(1), questionId: z.string().min(1) })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const timer = await examService.openQuestion(req.user!.userId, req.params.attemptId, req.params.questionId);
+
+    res.json(
+      successResponse(timer, 'Question opened')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/exams/attempts/:attemptId/answer
+ * @desc    Submit an exam answer (no feedback until results are released). The question must be opened first
+ * @access  Private
+ */
+router.post(
+  '/exams/attempts/:attemptId/answer',
+  authenticate,
+  validateParams(examAttemptParamsSchema),
+  validateBody(z.object({
+    questionId: z.string().min(1),
+    answer: z.string(),
+  })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { questionId, answer } = req.body;
+    const receipt = await examService.submitAnswer(
+      req.user!.userId,
+      req.params.attemptId,
+      questionId,
+      answer
+    );
+
+    res.json(
+      successResponse(receipt, receipt.late ? 'Answer recorded after the time limit' : 'Answer recorded')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/exams/attempts/:attemptId/focus
+ * @desc    Record a tab-focus event (blur, hidden, fullscreen_exit...)
+ * @access  Private
+ */
+router.post(
+  '/exams/attempts/:attemptId/focus',
+  authenticate,
+  validateParams(examAttemptParamsSchema),
+  validateBody(z.object({
+    type: z.enum(['blur', 'focus', 'hidden', 'visible', 'fullscreen_exit']),
+  })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await examService.recordFocusEvent(req.user!.userId, req.params.attemptId, req.body.type);
+
+    res.json(
+      successResponse(result, 'Focus event recorded')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/exams/attempts/:attemptId/submit
+ * @desc    Submit the exam; unanswered questions count as wrong
+ * @access  Private
+ */
+router.post(
+  '/exams/attempts/:attemptId/submit',
+  authenticate,
+  validateParams(examAttemptParamsSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const submission = await examService.submitExam(req.user!.userId, req.params.attemptId);
+
+    res.json(
+      successResponse(submission, 'Exam submitted')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/quiz/exams/attempts/:attemptId/result
+ * @desc    Exam result once the teacher's release date has passed
+ * @access  Private
+ */
+router.get(
+  '/exams/attempts/:attemptId/result',
+  authenticate,
+  validateParams(examAttemptParamsSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const submission = await examService.getResult(req.user!.userId, req.params.attemptId);
+
+    res.json(
+      successResponse(
+        submission,
+        submission.resultsReleased ? 'Exam result retrieved' : 'Results not released yet'
+      )
+    );
+  })
+);
+
+// Item analysis endpoints
+
+/**
+ * @route   GET /api/v1/quiz/item-analysis/:lessonId
+ * @desc    Per-question difficulty, discrimination and distractor statistics
+ * @access  Admin/Teacher
+ */
+router.get(
+  '/item-analysis/:lessonId',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ lessonId: z.string().min(1) })),
+  validateQuery(z.object({
+    minResponses: z.string().regex(/^\d+$/).optional(),
+    includeInactive: z.enum(['true', 'false']).optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { minResponses, includeInactive } = req.query as any;
+    const report = await itemAnalysisService.analyzeLesson(req.params.lessonId, {
+      minResponses: minResponses ? Math.max(1, Number(minResponses)) : undefined,
+      includeInactive: includeInactive === 'true',
+    });
+
+    res.json(
+      successResponse(report, 'Item analysis retrieved')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/item-analysis/:lessonId/retire
+ * @desc    Deactivate flagged AI-generated questions (dryRun to preview)
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/item-analysis/:lessonId/retire',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ lessonId: z.string().min(1) })),
+  validateBody(z.object({
+    dryRun: z.boolean().default(false),
+    minResponses: z.number().min(1).max(1000).optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await itemAnalysisService.retireFlaggedQuestions(req.params.lessonId, req.body);
+
+    res.json(
+      successResponse(result, result.dryRun ? 'Retirement preview' : `${result.retired.length} questions retired`)
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/questions/:id/restore
+ * @desc    Reactivate a retired question
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/questions/:id/restore',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ id: z.string().min(1) })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const question = await itemAnalysisService.restoreQuestion(req.params.id);
+
+    res.json(
+      successResponse(question, 'Question restored')
+    );
+  })
+);
+
+// Misconception endpoints
+
+/**
+ * @route   GET /api/v1/quiz/misconceptions
+ * @desc    The student's misconceptions with remediation
+ * @access  Private
+ */
+router.get(
+  '/misconceptions',
+  authenticate,
+  validateQuery(z.object({
+    lessonId: z.string().optional(),
+  })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const misconceptions = await misconceptionService.getStudentMisconceptions(
+      req.user!.userId,
+      req.query.lessonId as string | undefined
+    );
+
+    res.json(
+      successResponse(misconceptions, 'Misconceptions retrieved')
+    );
+  })
+);
+
+/**
+ * @route   GET /api/v1/quiz/misconceptions/lessons/:lessonId
+ * @desc    Lesson misconception catalog and how many students show each one
+ * @access  Admin/Teacher
+ */
+router.get(
+  '/misconceptions/lessons/:lessonId',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ lessonId: z.string().min(1) })),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const [catalog, ranking] = await Promise.all([
+      misconceptionService.getLessonCatalog(req.params.lessonId),
+      misconceptionService.rankMisconceptions({ lessonId: req.params.lessonId }),
+    ]);
+
+    res.json(
+      successResponse({ catalog, ranking }, 'Lesson misconceptions retrieved')
+    );
+  })
+);
+
+/**
+ * @route   POST /api/v1/quiz/misconceptions/lessons/:lessonId
+ * @desc    Add a misconception to the lesson catalog
+ * @access  Admin/Teacher
+ */
+router.post(
+  '/misconceptions/lessons/:lessonId',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ lessonId: z.string().min(1) })),
+  validateBody(misconceptionSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const misconception = await misconceptionService.createMisconception(req.params.lessonId, req.body);
+
+    res.status(201).json(
+      successResponse(misconception, 'Misconception saved')
+    );
+  })
+);
+
+/**
+ * @route   PUT /api/v1/quiz/questions/:id/misconceptions
+ * @desc    Map wrong MCQ options to misconceptions ({ "option text": misconceptionId | null })
+ * @access  Admin/Teacher
+ */
+router.put(
+  '/questions/:id/misconceptions',
+  authenticate,
+  authorize('ADMIN', 'TEACHER'),
+  validateParams(z.object({ id: z.string().min(1) })),
+  validateBody(misconceptionTagsSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const map = await misconceptionService.tagQuestion(req.params.id, req.body.tags);
+
+    res.json(
+      successResponse(map, 'Distractors tagged')
+    );
+  })
+);
+
 // Progress endpoints
 
 /**
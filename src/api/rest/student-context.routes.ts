@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../../config/database.config';
 import { AppError } from '../../utils/errors';
-import { authenticate, authorize } from '../middleware/auth.middleware';
+import { authenticate, authorize, authorizeStudentAccess } from '../middleware/auth.middleware';
 import { successResponse, errorResponse } from '../../utils/response.utils';
 import asyncHandler from 'express-async-handler';
+import { masteryService } from '../../core/progress/mastery.service';
+import { prerequisiteService } from '../../core/content/prerequisite.service';
+import type { ConceptMasteryEntry } from '../../types/progress.types';
 
 // Type assertion for Prisma client with all models
 const db = prisma as any;
@@ -12,22 +15,10 @@ const router = Router();
 
 // Get student context
 // يحتاج Authentication للتأكد من أن المستخدم يصل لبياناته فقط
-router.get('/:userId', authenticate, asyncHandler(async (req: Request, res: Response) => {
+// أو أنه معلم/أدمن أو ولي أمر مرتبط بالطالب
+router.get('/:userId', authenticate, authorizeStudentAccess('TEACHER', 'ADMIN'), asyncHandler(async (req: Request, res: Response) => {
   const { userId } = req.params;
 
-  // Authorization: التحقق من أن المستخدم يصل لبياناته فقط
-  // أو أنه معلم/ولي أمر له صلاحية
-  const userRole = req.user!.role as string;
-  if (req.user!.userId !== userId &&
-      userRole !== 'TEACHER' &&
-      userRole !== 'ADMIN' &&
-      userRole !== 'PARENT') {
-    res.status(403).json(
-      errorResponse('FORBIDDEN', 'غير مصرح لك بالوصول لهذه البيانات')
-    );
-    return;
-  }
-
     let context = await db.studentContext.findUnique({
       where: { userId },
       include: {
@@ -141,20 +132,9 @@ router.put('/:userId', authenticate, asyncHandler(async (req: Request, res: Resp
 }));
 
 // Get emotional state history
-router.get('/:userId/emotional-state', authenticate, asyncHandler(async (req: Request, res: Response) => {
+router.get('/:userId/emotional-state', authenticate, authorizeStudentAccess('TEACHER', 'ADMIN'), asyncHandler(async (req: Request, res: Response) => {
   const { userId } = req.params;
 
-  // Authorization check
-  const userRole = req.user!.role as string;
-  if (req.user!.userId !== userId &&
-      userRole !== 'TEACHER' &&
-      userRole !== 'ADMIN' &&
-      userRole !== 'PARENT') {
-    res.status(403).json(
-      errorResponse('FORBIDDEN', 'غير مصرح لك بالوصول لهذه البيانات')
-    );
-    return;
-  }
     const { limit = 10 } = req.query;
 
     const states = await db.emotionalState.findMany({
@@ -252,7 +232,7 @@ router.post('/:userId/emotional-state', authenticate, asyncHandler(async (req: R
 }));
 
 // Get student progress
-router.get('/:userId/progress', authenticate, asyncHandler(async (req: Request, res: Response) => {
+router.get('/:userId/progress', authenticate, authorizeStudentAccess('TEACHER', 'ADMIN'), asyncHandler(async (req: Request, res: Response) => {
   const { userId } = req.params;
 
   try {
@@ -302,7 +282,7 @@ router.get('/:userId/progress', authenticate, asyncHandler(async (req: Request,
 }));
 
 // Get learning patterns
-router.get('/:userId/learning-patterns', async (req: Request, res: Response) => {
+router.get('/:userId/learning-patterns', authenticate, authorizeStudentAccess('TEACHER', 'ADMIN'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
 
@@ -372,7 +352,7 @@ router.get('/:userId/learning-patterns', async (req: Request, res: Response) =>
 });
 
 // Get personalized recommendations
-router.get('/:userId/recommendations', async (req: Request, res: Response) => {
+router.get('/:userId/recommendations', authenticate, authorizeStudentAccess('TEACHER', 'ADMIN'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
 
@@ -395,18 +375,34 @@ router.get('/:userId/recommendations', async (req: Request, res: Response) => {
     const strugglingTopics = context.strugglingTopics ?
       JSON.parse(context.strugglingTopics) : [];
 
-    // Get next lessons recommendations
-    const nextLessons = await db.lesson.findMany({
-      where: {
-        difficulty: context.preferredDifficulty
-      },
-      take: 5
-    });
+    // Concept mastery from knowledge tracing (weakest first)
+    const conceptMastery = await masteryService.getStudentMastery(userId);
+
+    // Next lessons: only those whose prerequisites are mastered
+    const readyLessons = await prerequisiteService.getReadyToLearn(userId, { limit: 5 });
+    const nextLessons = readyLessons.length > 0
+      ? readyLessons.map(lesson => ({
+          id: lesson.lessonId,
+          title: lesson.title,
+          unitId: lesson.unitId,
+          order: lesson.order,
+          estimatedDuration: lesson.estimatedMinutes,
+          inProgress: lesson.inProgress,
+          prerequisites: lesson.prerequisites,
+          unlockedBy: lesson.unlockedBy
+        }))
+      : await db.lesson.findMany({
+          where: {
+            difficulty: context.preferredDifficulty
+          },
+          take: 5
+        });
 
     // Get practice recommendations based on weak areas
     const practiceRecommendations = await generatePracticeRecommendations(
       userId,
-      strugglingTopics
+      strugglingTopics,
+      conceptMastery
     );
 
     // Generate suggestions for emotional intelligence
@@ -431,6 +427,12 @@ router.get('/:userId/recommendations', async (req: Request, res: Response) => {
         suggestions,  // This is what useEmotionalIntelligence expects
         nextLessons,
         practiceAreas: practiceRecommendations,
+        conceptMastery: {
+          mastered: conceptMastery.filter(m => m.state === 'mastered').length,
+          learning: conceptMastery.filter(m => m.state === 'learning').length,
+          struggling: conceptMastery.filter(m => m.state === 'struggling').length,
+          weakest: conceptMastery.filter(m => m.state !== 'mastered').slice(0, 5)
+        },
         tips: generateLearningTips(context),
         estimatedTime: calculateEstimatedTime(nextLessons)
       }
@@ -531,13 +533,36 @@ async function getRelevantSubjects(userId: string): Promise<string[]> {
   return progress.map((p: any) => p.lessonId).filter(Boolean);
 }
 
-async function generatePracticeRecommendations(userId: string, strugglingTopics: string[]) {
-  return strugglingTopics.map(topic => ({
-    topic,
-    exercises: 5,
-    estimatedTime: 15,
-    difficulty: 'easy'
-  }));
+async function generatePracticeRecommendations(
+  userId: string,
+  strugglingTopics: string[],
+  conceptMastery: ConceptMasteryEntry[] = []
+) {
+  // Weak concepts measured by knowledge tracing come first
+  const fromMastery = conceptMastery
+    .filter(m => m.state === 'struggling' || m.state === 'learning')
+    .slice(0, 5)
+    .map(m => ({
+      topic: m.name,
+      conceptId: m.conceptId,
+      lessonId: m.lessonId,
+      mastery: Math.round(m.pKnown * 100),
+      exercises: m.state === 'struggling' ? 8 : 5,
+      estimatedTime: m.state === 'struggling' ? 20 : 15,
+      difficulty: m.pKnown < 0.4 ? 'easy' : 'medium'
+    }));
+
+  const covered = new Set(fromMastery.map(p => p.topic));
+  const fromContext = strugglingTopics
+    .filter(topic => !covered.has(topic))
+    .map(topic => ({
+      topic,
+      exercises: 5,
+      estimatedTime: 15,
+      difficulty: 'easy'
+    }));
+
+  return [...fromMastery, ...fromContext];
 }
 
 function generateLearningTips(context: any) {
@@ -1,5 +1,6 @@
 // src/api/test-routes.ts
 import { Router } from 'express';
+import { z } from 'zod';
 import { openAIService } from '../services/ai/openai.service';
 import { ragService } from '../core/rag/rag.service';
 import { quizService } from '../core/quiz/quiz.service';
@@ -324,7 +325,14 @@ router.post('/test/json-generation', async (req, res) => {
   try {
     const response = await openAIService.chatJSON(
       [{ role: 'user', content: 'Generate quiz question' }],
-      {}
+      {
+        schema: z.object({
+          question: z.string(),
+          options: z.array(z.string()).min(4).max(4),
+          correctAnswer: z.string(),
+          explanation: z.string(),
+        })
+      }
     );
     res.json({ success: true, json: response });
   } catch (error: any) {
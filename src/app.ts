@@ -14,6 +14,9 @@ import { AppError, handleError } from './utils/errors';
 import { websocketService } from './services/websocket/websocket.service';
 import { openAIService } from './services/ai/openai.service';
 import { teachingAssistant } from './services/teaching/teaching-assistant.service';
+import { ttsService } from './services/voice/tts.service';
+import { sttService } from './services/voice/stt.service';
+import { VIDEO_OUTPUT_DIR } from './core/video/video.service';
 
 // ============= IMPORT ALL ROUTES =============
 import authRoutes from './api/rest/auth.routes';
@@ -29,6 +32,7 @@ import studentContextRoutes from './api/rest/student-context.routes';
 import achievementsRoutes from './api/rest/achievements.routes';
 import parentReportsRoutes from './api/rest/parent-reports.routes';
 import educationalContentRoutes from './api/rest/educational-content.routes';
+import classroomRoutes from './api/rest/classroom.routes';
 
 // Create Express app
 const app: Application = express();
@@ -122,16 +126,34 @@ if (!fs.existsSync(voiceCacheDir)) {
   console.log('📁 Created voice cache directory');
 }
 
+// Caption tracks (.vtt / .srt) live next to the audio they belong to
+const captionTypes: Record<string, string> = {
+  '.vtt': 'text/vtt; charset=utf-8',
+  '.srt': 'application/x-subrip; charset=utf-8'
+};
+
 app.use('/audio', express.static(voiceCacheDir, {
-  setHeaders: (res) => {
+  setHeaders: (res, filePath) => {
     res.set({
-      'Content-Type': 'audio/mpeg',
+      'Content-Type': captionTypes[path.extname(filePath)] || 'audio/mpeg',
       'Cache-Control': 'public, max-age=3600',
       'Access-Control-Allow-Origin': '*'
     });
   }
 }));
 
+// Rendered lesson videos (MP4 + thumbnail + narration + captions)
+app.use('/videos', express.static(VIDEO_OUTPUT_DIR, {
+  setHeaders: (res, filePath) => {
+    const captionType = captionTypes[path.extname(filePath)];
+    if (captionType) res.set('Content-Type', captionType);
+    res.set({
+      'Cache-Control': 'public, max-age=86400',
+      'Access-Control-Allow-Origin': '*'
+    });
+  }
+}));
+
 // ============= LOGGING (Enhanced) =============
 if (config.NODE_ENV === 'development') {
   // Colored logging in development
@@ -256,6 +278,7 @@ app.use('/api/v1/student-context', studentContextRoutes);
 app.use('/api/v1/achievements', achievementsRoutes);
 app.use('/api/v1/parent-reports', parentReportsRoutes);
 app.use('/api/v1/educational', educationalContentRoutes);
+app.use('/api/v1/classrooms', classroomRoutes);
 
 // Test routes
 app.use('/api', testRoutes);
@@ -280,7 +303,12 @@ app.get('/api', (req: Request, res: Response) => {
           'POST /login',
           'GET /me',
           'POST /change-password',
-          'POST /verify'
+          'POST /verify',
+          'POST /parent/invite',
+          'GET /parent/children',
+          'GET /parent/invitations',
+          'POST /parent/accept',
+          'DELETE /parent/links/:linkId'
         ]
       },
       lessons: {
@@ -324,6 +352,19 @@ app.get('/api', (req: Request, res: Response) => {
           'POST /:userId/send-email'
         ]
       },
+      classrooms: {
+        base: '/api/v1/classrooms',
+        routes: [
+          'GET /',
+          'POST /',
+          'POST /join',
+          'GET /my-assignments',
+          'GET /:id/roster',
+          'POST /:id/assignments',
+          'GET /:id/assignments/:assignmentId/report',
+          'GET /:id/dashboard'
+        ]
+      },
       websocket: {
         base: 'ws://localhost:3000',
         events: {
@@ -374,6 +415,8 @@ app.get('/api/monitoring/stats', async (req: Request, res: Response) => {
       // Add more WebSocket stats if available
     },
     ai: openAIService.getUsageStats(),
+    tts: await ttsService.getUsageStats(),
+    stt: await sttService.getUsageStats(),
     teaching: teachingAssistant.getHealthStatus()
   };
   
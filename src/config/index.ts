@@ -35,6 +35,13 @@ const envSchema = z.object({
   MAX_EMBEDDINGS_TO_LOAD: z.string().default('1000').transform(Number),
   MIN_SCORE_FOR_RELEVANCE: z.string().default('0.15').transform(Number),
   
+  // Vector Index (ANN)
+  VECTOR_INDEX: z.enum(['hnsw', 'none']).default('hnsw'),
+  VECTOR_INDEX_PATH: z.string().default('./data/vector-index/hnsw-index.json'),
+  HNSW_M: z.string().default('16').transform(Number),
+  HNSW_EF_CONSTRUCTION: z.string().default('200').transform(Number),
+  HNSW_EF_SEARCH: z.string().default('64').transform(Number),
+  
   // Query Enhancement
   USE_QUERY_EXPANSION: z.string().default('true').transform(v => v === 'true'),
   USE_SMART_CONTEXT: z.string().default('true').transform(v => v === 'true'),
@@ -51,6 +58,11 @@ const envSchema = z.object({
   LOG_CACHE_STATS: z.string().default('false').transform(v => v === 'true'),
   ENABLE_METRICS: z.string().default('true').transform(v => v === 'true'),
   
+  // ============= Embeddings =============
+  // auto = OpenAI when a key is configured, local hashed n-grams otherwise
+  EMBEDDING_PROVIDER: z.enum(['auto', 'openai', 'local']).default('auto'),
+  LOCAL_EMBEDDING_DIM: z.string().default('512').transform(Number),
+  
   // ============= OpenAI Configuration =============
   OPENAI_API_KEY: z.string().optional(),
   OPENAI_MODEL: z.string().default('gpt-4o-mini'),
@@ -66,12 +78,41 @@ const envSchema = z.object({
   OPENAI_RETRY_DELAY: z.string().default('1000').transform(Number),
   OPENAI_TIMEOUT: z.string().default('30000').transform(Number),
   
+  // Offline AI: record real responses once, replay them without network (CI)
+  AI_FIXTURE_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+  AI_FIXTURES_DIR: z.string().default('./data/ai-fixtures'),
+  AI_FIXTURE_ON_MISS: z.enum(['error', 'mock']).default('error'), // replay without a recording: fail or use the offline mock
+  
   // ============= ElevenLabs =============
   ELEVENLABS_API_KEY: z.string().optional(),
   ELEVENLABS_VOICE_ID: z.string().optional(),
   ELEVENLABS_MODEL_ID: z.string().default('eleven_multilingual_v2'),
   ELEVENLABS_STABILITY: z.string().default('0.75').transform(Number),
   ELEVENLABS_SIMILARITY_BOOST: z.string().default('0.85').transform(Number),
+  ELEVENLABS_MONTHLY_CHARS: z.string().default('100000').transform(Number),
+  
+  // ============= Text to Speech =============
+  // Tried in order; a provider that fails (quota, auth, outage) hands the narration to the next
+  TTS_PROVIDERS: z.string().default('elevenlabs,openai,local'),
+  OPENAI_TTS_MODEL: z.string().default('tts-1'),
+  OPENAI_TTS_VOICE: z.string().optional(),
+  OPENAI_TTS_MONTHLY_CHARS: z.string().default('1000000').transform(Number),
+  // Offline voice: espeak-ng (ships with most distros) or Piper (needs PIPER_MODEL)
+  LOCAL_TTS_ENGINE: z.enum(['espeak-ng', 'piper']).default('espeak-ng'),
+  LOCAL_TTS_BINARY: z.string().optional(),
+  PIPER_MODEL: z.string().optional(),
+  // Numbers and math in narration are spelled out in this dialect (the teaching scripts are Egyptian)
+  SPEECH_DIALECT: z.enum(['egyptian', 'msa']).default('egyptian'),
+  
+  // ============= Speech to Text =============
+  // Spoken questions: Whisper API first, whisper.cpp on the server as the fallback
+  STT_PROVIDERS: z.string().default('openai,local'),
+  WHISPER_MODEL: z.string().default('whisper-1'),
+  WHISPER_CPP_BINARY: z.string().default('whisper-cli'),
+  WHISPER_CPP_MODEL: z.string().optional(),
+  STT_MAX_UPLOAD_MB: z.string().default('10').transform(Number),
+  STT_MAX_SECONDS: z.string().default('120').transform(Number),
+  STT_RETENTION_DAYS: z.string().default('30').transform(Number),
   
   // ============= Video Generation =============
   VIDEO_QUALITY: z.string().default('high'),
@@ -79,6 +120,11 @@ const envSchema = z.object({
   VIDEO_FPS: z.string().default('30').transform(Number),
   VIDEO_BITRATE: z.string().default('4000k'),
   
+  // ============= Quiz =============
+  // كل تلميح يخصم نسبة من درجة السؤال، بحد أقصى
+  HINT_PENALTY: z.string().default('0.1').transform(Number),
+  HINT_MAX_PENALTY: z.string().default('0.5').transform(Number),
+  
   // ============= Debug Settings =============
   DEBUG_AI: z.string().default('false').transform(v => v === 'true'),
   DEBUG_VIDEO: z.string().default('false').transform(v => v === 'true'),
@@ -115,6 +161,8 @@ export const features = {
     useQueryExpansion: config.USE_QUERY_EXPANSION,
     useFallbackSearch: config.USE_FALLBACK_SEARCH,
     useEmbeddingCache: config.USE_EMBEDDING_CACHE,
+    useVectorIndex: config.VECTOR_INDEX !== 'none',
+    embeddingProvider: config.EMBEDDING_PROVIDER,
   },
   monitoring: {
     logPerformance: config.LOG_PERFORMANCE,
@@ -138,6 +186,12 @@ export const performance = {
     minScore: config.MIN_SCORE_FOR_RELEVANCE,
     cacheConfidenceThreshold: config.CACHE_CONFIDENCE_THRESHOLD,
     maxCacheSize: config.MAX_CACHE_SIZE,
+    vectorIndex: {
+      path: config.VECTOR_INDEX_PATH,
+      M: config.HNSW_M,
+      efConstruction: config.HNSW_EF_CONSTRUCTION,
+      efSearch: config.HNSW_EF_SEARCH,
+    },
   },
   openai: {
     retryCount: config.OPENAI_RETRY_COUNT,
@@ -176,6 +230,8 @@ console.log(`  ✅ Smart Context: ${config.USE_SMART_CONTEXT ? 'ON' : 'OFF'}`);
 console.log(`  ✅ Batch Search: ${config.USE_BATCH_SEARCH ? 'ON' : 'OFF'} (${config.SEARCH_BATCH_SIZE} per batch)`);
 console.log(`  ✅ Query Expansion: ${config.USE_QUERY_EXPANSION ? 'ON' : 'OFF'}`);
 console.log(`  ✅ Embedding Cache: ${config.USE_EMBEDDING_CACHE ? 'ON' : 'OFF'}`);
+console.log(`  ✅ Vector Index: ${config.VECTOR_INDEX.toUpperCase()}`);
+console.log(`  ✅ Embedding Provider: ${config.EMBEDDING_PROVIDER}`);
 console.log(`  📈 Threshold: ${config.RAG_THRESHOLD}`);
 
 // OpenAI
@@ -193,6 +249,8 @@ if (config.ELEVENLABS_API_KEY) {
 } else {
   console.log('⚠️  ElevenLabs: Not configured');
 }
+console.log(`🔊 TTS Providers: ${config.TTS_PROVIDERS}`);
+console.log(`🎤 STT Providers: ${config.STT_PROVIDERS}`);
 
 // Debug Mode
 if (config.NODE_ENV === 'development') {
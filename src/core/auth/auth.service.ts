@@ -11,7 +11,7 @@ import {
 } from '../../utils/errors';
 import { Prisma } from '@prisma/client';
 type User = Prisma.UserGetPayload<{}>;
-type UserRole = 'STUDENT' | 'TEACHER' | 'ADMIN';
+type UserRole = 'STUDENT' | 'TEACHER' | 'PARENT' | 'ADMIN';
 
 // Validation schemas
 const registerSchema = z.object({
@@ -20,7 +20,7 @@ const registerSchema = z.object({
   firstName: z.string().min(2).max(50),
   lastName: z.string().min(2).max(50),
   grade: z.number().optional(),
-  role: z.enum(['STUDENT', 'TEACHER', 'ADMIN']).optional(),
+  role: z.enum(['STUDENT', 'TEACHER', 'PARENT', 'ADMIN']).optional(),
 });
 
 const loginSchema = z.object({
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { prisma } from '../../config/database.config';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError
+} from '../../utils/errors';
+
+// Invitations stay valid for one week
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Types
+export interface LinkedChild {
+  linkId: string;
+  childId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  grade: number | null;
+  relationship: string | null;
+  acceptedAt: Date | null;
+}
+
+export interface ParentInvitation {
+  linkId: string;
+  inviteCode: string;
+  parentName: string;
+  parentEmail: string;
+  relationship: string | null;
+  expiresAt: Date;
+}
+
+// Parent Link Service Class
+export class ParentLinkService {
+
+  /**
+   * Invite a student to link with a parent account.
+   * The answer is the same whether or not the email belongs to a student,
+   * so parents can't probe which emails are registered; the student sees the
+   * invitation (and its code) in their pending invitations.
+   */
+  async inviteChild(
+    parentId: string,
+    childEmail: string,
+    relationship?: string
+  ): Promise<{ expiresAt: Date }> {
+    const parent = await prisma.user.findUnique({ where: { id: parentId } });
+    if (!parent || parent.role !== 'PARENT') {
+      throw new AuthorizationError('Only parent accounts can invite children');
+    }
+
+    const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+
+    const child = await prisma.user.findUnique({ where: { email: childEmail } });
+    if (!child || !child.isActive || child.role !== 'STUDENT') {
+      return { expiresAt };
+    }
+
+    const existing = await prisma.parentChildLink.findUnique({
+      where: { parentId_childId: { parentId, childId: child.id } }
+    });
+
+    if (existing?.status === 'ACTIVE') {
+      throw new ConflictError('Student is already linked to this parent');
+    }
+
+    const inviteCode = this.generateInviteCode();
+
+    // Re-inviting after a revoke or an expired invite refreshes the same row
+    await prisma.parentChildLink.upsert({
+      where: { parentId_childId: { parentId, childId: child.id } },
+      update: {
+        status: 'PENDING',
+        inviteCode,
+        relationship,
+        expiresAt,
+        acceptedAt: null,
+        revokedAt: null
+      },
+      create: {
+        parentId,
+        childId: child.id,
+        inviteCode,
+        relationship,
+        expiresAt
+      }
+    });
+
+    return { expiresAt };
+  }
+
+  /**
+   * List pending invitations addressed to a student
+   */
+  async getPendingInvitations(childId: string): Promise<ParentInvitation[]> {
+    const links = await prisma.parentChildLink.findMany({
+      where: {
+        childId,
+        status: 'PENDING',
+        expiresAt: { gt: new Date() }
+      },
+      include: {
+        parent: { select: { firstName: true, lastName: true, email: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return links.map(link => ({
+      linkId: link.id,
+      inviteCode: link.inviteCode,
+      parentName: `${link.parent.firstName} ${link.parent.lastName}`,
+      parentEmail: link.parent.email,
+      relationship: link.relationship,
+      expiresAt: link.expiresAt
+    }));
+  }
+
+  /**
+   * Accept an invitation - only the invited student can accept
+   */
+  async acceptInvitation(childId: string, inviteCode: string): Promise<{ linkId: string; parentId: string }> {
+    const link = await prisma.parentChildLink.findUnique({
+      where: { inviteCode }
+    });
+
+    if (!link || link.childId !== childId) {
+      throw new NotFoundError('Invitation');
+    }
+
+    if (link.status !== 'PENDING') {
+      throw new ConflictError('Invitation is no longer pending');
+    }
+
+    if (link.expiresAt.getTime() < Date.now()) {
+      throw new ValidationError('Invitation has expired');
+    }
+
+    const accepted = await prisma.parentChildLink.update({
+      where: { id: link.id },
+      data: {
+        status: 'ACTIVE',
+        acceptedAt: new Date(),
+        // Rotate the code so it cannot be replayed
+        inviteCode: this.generateInviteCode()
+      }
+    });
+
+    return { linkId: accepted.id, parentId: accepted.parentId };
+  }
+
+  /**
+   * Revoke a link - either side may revoke
+   */
+  async revokeLink(userId: string, linkId: string): Promise<void> {
+    const link = await prisma.parentChildLink.findUnique({
+      where: { id: linkId }
+    });
+
+    if (!link || (link.parentId !== userId && link.childId !== userId)) {
+      throw new NotFoundError('Parent link');
+    }
+
+    await prisma.parentChildLink.update({
+      where: { id: linkId },
+      data: { status: 'REVOKED', revokedAt: new Date() }
+    });
+  }
+
+  /**
+   * Get the active children of a parent
+   */
+  async getLinkedChildren(parentId: string): Promise<LinkedChild[]> {
+    const links = await prisma.parentChildLink.findMany({
+      where: { parentId, status: 'ACTIVE' },
+      include: {
+        child: {
+          select: { id: true, firstName: true, lastName: true, email: true, grade: true }
+        }
+      },
+      orderBy: { acceptedAt: 'asc' }
+    });
+
+    return links.map(link => ({
+      linkId: link.id,
+      childId: link.child.id,
+      firstName: link.child.firstName,
+      lastName: link.child.lastName,
+      email: link.child.email,
+      grade: link.child.grade,
+      relationship: link.relationship,
+      acceptedAt: link.acceptedAt
+    }));
+  }
+
+  /**
+   * Get the IDs of a parent's active children
+   */
+  async getLinkedChildIds(parentId: string): Promise<string[]> {
+    const links = await prisma.parentChildLink.findMany({
+      where: { parentId, status: 'ACTIVE' },
+      select: { childId: true }
+    });
+
+    return links.map(link => link.childId);
+  }
+
+  /**
+   * Generate a short human-friendly invite code
+   */
+  private generateInviteCode(): string {
+    return crypto.randomBytes(6).toString('hex').toUpperCase();
+  }
+}
+
+// Export singleton instance
+export const parentLinkService = new ParentLinkService();
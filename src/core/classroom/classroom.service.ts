@@ -0,0 +1,653 @@
+import crypto from 'crypto';
+import { prisma } from '../../config/database.config';
+import { misconceptionService } from '../quiz/misconception.service';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError
+} from '../../utils/errors';
+import type { Classroom, ClassAssignment, Progress, QuizAttempt, UserRole } from '@prisma/client';
+import type {
+  AssignmentCompletionStatus,
+  AssignmentKind,
+  AssignmentReport,
+  ClassDashboard,
+  ClassroomSummary,
+  RosterStudent,
+  StudentAssignmentStatus
+} from '../../types/classroom.types';
+import type { MisconceptionRanking } from '../../types/quiz.types';
+
+interface Requester {
+  userId: string;
+  role: UserRole;
+}
+
+interface CreateClassroomInput {
+  name: string;
+  grade?: number;
+  subjectId?: string;
+  description?: string;
+}
+
+interface CreateAssignmentInput {
+  lessonId: string;
+  type?: AssignmentKind;
+  title?: string;
+  instructions?: string;
+  dueDate?: Date;
+}
+
+// Everything needed to compute completion for a set of students and lessons
+interface CompletionData {
+  progress: Map<string, Progress>;        // `${userId}:${lessonId}`
+  attempts: Map<string, QuizAttempt[]>;   // `${userId}:${lessonId}` completed attempts
+}
+
+/**
+ * Classroom Service
+ * Rosters, join codes, assignments and per-class completion dashboards
+ */
+export class ClassroomService {
+  private readonly JOIN_CODE_LENGTH = 6;
+
+  // ============= CLASSROOMS =============
+
+  /**
+   * Create a classroom owned by a teacher
+   */
+  async createClassroom(teacherId: string, data: CreateClassroomInput): Promise<ClassroomSummary> {
+    const classroom = await prisma.classroom.create({
+      data: {
+        teacherId,
+        name: data.name,
+        grade: data.grade,
+        subjectId: data.subjectId,
+        description: data.description,
+        joinCode: await this.generateUniqueJoinCode()
+      }
+    });
+
+    return this.toSummary(classroom, 0, 0, true);
+  }
+
+  /**
+   * List classrooms taught by a teacher
+   */
+  async getTeacherClassrooms(teacherId: string): Promise<ClassroomSummary[]> {
+    const classrooms = await prisma.classroom.findMany({
+      where: { teacherId, isActive: true },
+      include: { _count: { select: { enrollments: true, assignments: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return classrooms.map(c =>
+      this.toSummary(c, c._count.enrollments, c._count.assignments, true)
+    );
+  }
+
+  /**
+   * List classrooms a student is enrolled in
+   */
+  async getStudentClassrooms(studentId: string): Promise<ClassroomSummary[]> {
+    const enrollments = await prisma.classEnrollment.findMany({
+      where: { studentId, classroom: { isActive: true } },
+      include: {
+        classroom: {
+          include: { _count: { select: { enrollments: true, assignments: true } } }
+        }
+      },
+      orderBy: { joinedAt: 'desc' }
+    });
+
+    return enrollments.map(e =>
+      this.toSummary(e.classroom, e.classroom._count.enrollments, e.classroom._count.assignments, false)
+    );
+  }
+
+  /**
+   * Student joins a classroom using its join code
+   */
+  async joinClassroom(studentId: string, joinCode: string): Promise<ClassroomSummary> {
+    const classroom = await prisma.classroom.findUnique({
+      where: { joinCode: joinCode.trim().toUpperCase() }
+    });
+
+    if (!classroom || !classroom.isActive) {
+      throw new NotFoundError('Classroom');
+    }
+
+    const existing = await prisma.classEnrollment.findUnique({
+      where: { classroomId_studentId: { classroomId: classroom.id, studentId } }
+    });
+
+    if (existing) {
+      throw new ConflictError('Already enrolled in this classroom');
+    }
+
+    await prisma.classEnrollment.create({
+      data: { classroomId: classroom.id, studentId }
+    });
+
+    const [studentCount, assignmentCount] = await Promise.all([
+      prisma.classEnrollment.count({ where: { classroomId: classroom.id } }),
+      prisma.classAssignment.count({ where: { classroomId: classroom.id } })
+    ]);
+
+    return this.toSummary(classroom, studentCount, assignmentCount, false);
+  }
+
+  /**
+   * Replace the join code (e.g. after it leaked outside the class)
+   */
+  async regenerateJoinCode(requester: Requester, classroomId: string): Promise<string> {
+    await this.getManagedClassroom(requester, classroomId);
+
+    const joinCode = await this.generateUniqueJoinCode();
+    await prisma.classroom.update({
+      where: { id: classroomId },
+      data: { joinCode }
+    });
+
+    return joinCode;
+  }
+
+  /**
+   * Archive a classroom
+   */
+  async archiveClassroom(requester: Requester, classroomId: string): Promise<void> {
+    await this.getManagedClassroom(requester, classroomId);
+
+    await prisma.classroom.update({
+      where: { id: classroomId },
+      data: { isActive: false }
+    });
+  }
+
+  // ============= ROSTER =============
+
+  /**
+   * Get the roster of a classroom
+   */
+  async getRoster(requester: Requester, classroomId: string): Promise<RosterStudent[]> {
+    await this.getManagedClassroom(requester, classroomId);
+
+    const enrollments = await prisma.classEnrollment.findMany({
+      where: { classroomId },
+      include: {
+        student: {
+          select: { id: true, firstName: true, lastName: true, email: true, grade: true }
+        }
+      },
+      orderBy: { student: { firstName: 'asc' } }
+    });
+
+    return enrollments.map(e => ({
+      studentId: e.student.id,
+      firstName: e.student.firstName,
+      lastName: e.student.lastName,
+      email: e.student.email,
+      grade: e.student.grade,
+      joinedAt: e.joinedAt
+    }));
+  }
+
+  /**
+   * Remove a student from a classroom
+   */
+  async removeStudent(requester: Requester, classroomId: string, studentId: string): Promise<void> {
+    await this.getManagedClassroom(requester, classroomId);
+
+    const deleted = await prisma.classEnrollment.deleteMany({
+      where: { classroomId, studentId }
+    });
+
+    if (deleted.count === 0) {
+      throw new NotFoundError('Enrollment');
+    }
+  }
+
+  // ============= ASSIGNMENTS =============
+
+  /**
+   * Assign a lesson or its quiz to a classroom
+   */
+  async createAssignment(
+    requester: Requester,
+    classroomId: string,
+    data: CreateAssignmentInput
+  ): Promise<ClassAssignment> {
+    await this.getManagedClassroom(requester, classroomId);
+
+    const lesson = await prisma.lesson.findUnique({ where: { id: data.lessonId } });
+    if (!lesson) {
+      throw new NotFoundError('Lesson');
+    }
+
+    if (data.dueDate && data.dueDate.getTime() < Date.now()) {
+      throw new ValidationError('Due date must be in the future');
+    }
+
+    return await prisma.classAssignment.create({
+      data: {
+        classroomId,
+        lessonId: data.lessonId,
+        type: data.type || 'LESSON',
+        title: data.title || lesson.titleAr || lesson.title,
+        instructions: data.instructions,
+        dueDate: data.dueDate
+      }
+    });
+  }
+
+  /**
+   * Delete an assignment
+   */
+  async deleteAssignment(requester: Requester, classroomId: string, assignmentId: string): Promise<void> {
+    await this.getManagedClassroom(requester, classroomId);
+
+    const deleted = await prisma.classAssignment.deleteMany({
+      where: { id: assignmentId, classroomId }
+    });
+
+    if (deleted.count === 0) {
+      throw new NotFoundError('Assignment');
+    }
+  }
+
+  /**
+   * List assignments of a classroom (teacher view)
+   */
+  async getAssignments(requester: Requester, classroomId: string): Promise<ClassAssignment[]> {
+    await this.getManagedClassroom(requester, classroomId);
+
+    return await prisma.classAssignment.findMany({
+      where: { classroomId },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'desc' }]
+    });
+  }
+
+  /**
+   * List a student's assignments across all their classrooms with their own status
+   */
+  async getStudentAssignments(studentId: string): Promise<Array<{
+    assignmentId: string;
+    classroomId: string;
+    classroomName: string;
+    lessonId: string;
+    title: string | null;
+    type: AssignmentKind;
+    dueDate: Date | null;
+    status: AssignmentCompletionStatus;
+    bestScore: number | null;
+  }>> {
+    const assignments = await prisma.classAssignment.findMany({
+      where: {
+        classroom: {
+          isActive: true,
+          enrollments: { some: { studentId } }
+        }
+      },
+      include: { classroom: { select: { name: true } } },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'desc' }]
+    });
+
+    const completion = await this.loadCompletionData(
+      [studentId],
+      assignments.map(a => a.lessonId)
+    );
+
+    return assignments.map(a => {
+      const status = this.computeStudentStatus(a, studentId, '', completion);
+      return {
+        assignmentId: a.id,
+        classroomId: a.classroomId,
+        classroomName: a.classroom.name,
+        lessonId: a.lessonId,
+        title: a.title,
+        type: a.type,
+        dueDate: a.dueDate,
+        status: status.status,
+        bestScore: status.bestScore
+      };
+    });
+  }
+
+  // ============= REPORTS =============
+
+  /**
+   * Per-student completion for one assignment
+   * Answers "who in 6B hasn't done the fractions quiz"
+   */
+  async getAssignmentReport(
+    requester: Requester,
+    classroomId: string,
+    assignmentId: string
+  ): Promise<AssignmentReport> {
+    await this.getManagedClassroom(requester, classroomId);
+
+    const assignment = await prisma.classAssignment.findFirst({
+      where: { id: assignmentId, classroomId },
+      include: { lesson: { select: { title: true, titleAr: true } } }
+    });
+
+    if (!assignment) {
+      throw new NotFoundError('Assignment');
+    }
+
+    const students = await this.getEnrolledStudents(classroomId);
+    const completion = await this.loadCompletionData(
+      students.map(s => s.id),
+      [assignment.lessonId]
+    );
+
+    const statuses = students.map(s =>
+      this.computeStudentStatus(assignment, s.id, `${s.firstName} ${s.lastName}`, completion)
+    );
+
+    const scores = statuses
+      .map(s => s.bestScore)
+      .filter((s): s is number => s !== null);
+
+    return {
+      assignmentId: assignment.id,
+      lessonId: assignment.lessonId,
+      lessonTitle: assignment.lesson.titleAr || assignment.lesson.title,
+      type: assignment.type,
+      dueDate: assignment.dueDate,
+      summary: {
+        total: statuses.length,
+        completed: statuses.filter(s => s.status === 'completed').length,
+        inProgress: statuses.filter(s => s.status === 'in_progress').length,
+        notStarted: statuses.filter(s => s.status === 'not_started').length,
+        overdue: statuses.filter(s => s.status === 'overdue').length,
+        averageScore: scores.length > 0
+          ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
+          : null
+      },
+      // Students who still need attention first
+      students: statuses.sort((a, b) =>
+        this.statusRank(a.status) - this.statusRank(b.status) ||
+        a.studentName.localeCompare(b.studentName, 'ar')
+      )
+    };
+  }
+
+  /**
+   * Class dashboard: students × assignments matrix plus learning context
+   */
+  async getClassDashboard(requester: Requester, classroomId: string): Promise<ClassDashboard> {
+    const classroom = await this.getManagedClassroom(requester, classroomId);
+
+    const [students, assignments] = await Promise.all([
+      this.getEnrolledStudents(classroomId),
+      prisma.classAssignment.findMany({
+        where: { classroomId },
+        include: { lesson: { select: { title: true, titleAr: true } } },
+        orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }]
+      })
+    ]);
+
+    const studentIds = students.map(s => s.id);
+    const [completion, contexts] = await Promise.all([
+      this.loadCompletionData(studentIds, assignments.map(a => a.lessonId)),
+      prisma.studentContext.findMany({ where: { userId: { in: studentIds } } })
+    ]);
+    const contextByUser = new Map(contexts.map(c => [c.userId, c]));
+
+    const completedPerAssignment = new Map<string, number>();
+
+    const dashboardStudents = students.map(student => {
+      const name = `${student.firstName} ${student.lastName}`;
+      const statusByAssignment: Record<string, AssignmentCompletionStatus> = {};
+
+      for (const assignment of assignments) {
+        const { status } = this.computeStudentStatus(assignment, student.id, name, completion);
+        statusByAssignment[assignment.id] = status;
+        if (status === 'completed') {
+          completedPerAssignment.set(assignment.id, (completedPerAssignment.get(assignment.id) || 0) + 1);
+        }
+      }
+
+      const context = contextByUser.get(student.id);
+      const statuses = Object.values(statusByAssignment);
+
+      return {
+        studentId: student.id,
+        studentName: name,
+        completedAssignments: statuses.filter(s => s === 'completed').length,
+        overdueAssignments: statuses.filter(s => s === 'overdue').length,
+        averageScore: Math.round(context?.averageScore || 0),
+        currentMood: context?.currentMood || 'neutral',
+        lastActive: context?.lastInteractionTime || null,
+        strugglingTopics: this.parseJsonArray(context?.strugglingTopics),
+        assignments: statusByAssignment
+      };
+    });
+
+    return {
+      classroom: this.toSummary(classroom, students.length, assignments.length, true),
+      assignments: assignments.map(a => ({
+        id: a.id,
+        lessonId: a.lessonId,
+        lessonTitle: a.lesson.titleAr || a.lesson.title,
+        type: a.type,
+        dueDate: a.dueDate,
+        completionRate: students.length > 0
+          ? Math.round(((completedPerAssignment.get(a.id) || 0) / students.length) * 100)
+          : 0
+      })),
+      students: dashboardStudents,
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Most common misconceptions among the class, optionally for one lesson
+   */
+  async getClassMisconceptions(
+    requester: Requester,
+    classroomId: string,
+    lessonId?: string
+  ): Promise<MisconceptionRanking> {
+    await this.getManagedClassroom(requester, classroomId);
+    const students = await this.getEnrolledStudents(classroomId);
+
+    return misconceptionService.rankMisconceptions({
+      classroomId,
+      lessonId,
+      userIds: students.map(s => s.id)
+    });
+  }
+
+  // ============= HELPERS =============
+
+  /**
+   * Load a classroom and make sure the requester may manage it
+   */
+  private async getManagedClassroom(requester: Requester, classroomId: string): Promise<Classroom> {
+    const classroom = await prisma.classroom.findUnique({
+      where: { id: classroomId }
+    });
+
+    if (!classroom) {
+      throw new NotFoundError('Classroom');
+    }
+
+    if (requester.role !== 'ADMIN' && classroom.teacherId !== requester.userId) {
+      throw new AuthorizationError('You do not teach this classroom');
+    }
+
+    return classroom;
+  }
+
+  private async getEnrolledStudents(classroomId: string) {
+    const enrollments = await prisma.classEnrollment.findMany({
+      where: { classroomId },
+      include: {
+        student: { select: { id: true, firstName: true, lastName: true } }
+      }
+    });
+
+    return enrollments.map(e => e.student);
+  }
+
+  /**
+   * Fetch progress rows and completed quiz attempts in two queries
+   */
+  private async loadCompletionData(studentIds: string[], lessonIds: string[]): Promise<CompletionData> {
+    const progress = new Map<string, Progress>();
+    const attempts = new Map<string, QuizAttempt[]>();
+
+    if (studentIds.length === 0 || lessonIds.length === 0) {
+      return { progress, attempts };
+    }
+
+    const uniqueLessonIds = [...new Set(lessonIds)];
+
+    const [progressRows, attemptRows] = await Promise.all([
+      prisma.progress.findMany({
+        where: { userId: { in: studentIds }, lessonId: { in: uniqueLessonIds } }
+      }),
+      prisma.quizAttempt.findMany({
+        where: {
+          userId: { in: studentIds },
+          lessonId: { in: uniqueLessonIds },
+          completedAt: { not: null }
+        },
+        orderBy: { completedAt: 'asc' }
+      })
+    ]);
+
+    progressRows.forEach(p => progress.set(`${p.userId}:${p.lessonId}`, p));
+    attemptRows.forEach(a => {
+      const key = `${a.userId}:${a.lessonId}`;
+      const list = attempts.get(key) || [];
+      list.push(a);
+      attempts.set(key, list);
+    });
+
+    return { progress, attempts };
+  }
+
+  /**
+   * Derive a student's status for an assignment from Progress / QuizAttempt
+   */
+  private computeStudentStatus(
+    assignment: Pick<ClassAssignment, 'lessonId' | 'type' | 'dueDate' | 'createdAt'>,
+    studentId: string,
+    studentName: string,
+    data: CompletionData
+  ): StudentAssignmentStatus {
+    const key = `${studentId}:${assignment.lessonId}`;
+    const progress = data.progress.get(key);
+    // Quizzes finished before the assignment was given don't count toward it
+    const attempts = (data.attempts.get(key) || [])
+      .filter(a => a.completedAt && a.completedAt >= assignment.createdAt);
+    const isPastDue = !!assignment.dueDate && assignment.dueDate.getTime() < Date.now();
+
+    let done = false;
+    let completedAt: Date | null = null;
+    let bestScore: number | null = null;
+    let started = false;
+
+    if (assignment.type === 'QUIZ') {
+      started = attempts.length > 0 || progress?.status === 'IN_PROGRESS';
+      if (attempts.length > 0) {
+        bestScore = Math.round(Math.max(...attempts.map(a => a.score || 0)));
+        done = true;
+        completedAt = attempts[0].completedAt;
+      }
+    } else {
+      started = !!progress && progress.status !== 'NOT_STARTED';
+      // Same for lessons: finishing it again after the assignment was given updates completedAt
+      done = progress?.status === 'COMPLETED'
+        && !!progress.completedAt && progress.completedAt >= assignment.createdAt;
+      completedAt = done ? progress?.completedAt || null : null;
+    }
+
+    let status: AssignmentCompletionStatus;
+    if (done) {
+      status = 'completed';
+    } else if (isPastDue) {
+      status = 'overdue';
+    } else {
+      status = started ? 'in_progress' : 'not_started';
+    }
+
+    // A lesson completed before the assignment shows no progress toward it
+    const completionRate = done
+      ? 100
+      : assignment.type === 'QUIZ' || progress?.status === 'COMPLETED'
+        ? 0
+        : Math.round(progress?.completionRate || 0);
+
+    return {
+      studentId,
+      studentName,
+      status,
+      completionRate,
+      bestScore,
+      attempts: attempts.length,
+      completedAt,
+      submittedLate: !!(completedAt && assignment.dueDate && completedAt > assignment.dueDate)
+    };
+  }
+
+  private statusRank(status: AssignmentCompletionStatus): number {
+    const order: Record<AssignmentCompletionStatus, number> = {
+      overdue: 0,
+      not_started: 1,
+      in_progress: 2,
+      completed: 3
+    };
+    return order[status];
+  }
+
+  private toSummary(
+    classroom: Classroom,
+    studentCount: number,
+    assignmentCount: number,
+    includeJoinCode: boolean
+  ): ClassroomSummary {
+    return {
+      id: classroom.id,
+      name: classroom.name,
+      grade: classroom.grade,
+      subjectId: classroom.subjectId,
+      description: classroom.description,
+      ...(includeJoinCode && { joinCode: classroom.joinCode }),
+      studentCount,
+      assignmentCount,
+      createdAt: classroom.createdAt
+    };
+  }
+
+  private parseJsonArray(value?: string | null): string[] {
+    if (!value) return [];
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async generateUniqueJoinCode(): Promise<string> {
+    // Unambiguous characters only (no 0/O, 1/I)
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+    for (let i = 0; i < 5; i++) {
+      const bytes = crypto.randomBytes(this.JOIN_CODE_LENGTH);
+      const code = Array.from(bytes, b => alphabet[b % alphabet.length]).join('');
+      const exists = await prisma.classroom.findUnique({ where: { joinCode: code } });
+      if (!exists) return code;
+    }
+
+    throw new ConflictError('Could not generate a unique join code');
+  }
+}
+
+// Export singleton
+export const classroomService = new ClassroomService();
@@ -0,0 +1,350 @@
+// src/core/content/formats/gift.format.ts
+// Moodle GIFT reader/writer for the question bank
+//
+// Hints, step-by-step solutions and metadata have no GIFT syntax, so they travel as
+// comment directives that Moodle ignores:
+//   // @hint ...   // @step ...   // @difficulty HARD   // @points 2   // @tags a, b   // @type FILL_BLANK
+
+import type { BankQuestion, ParsedBankItem } from '../../../types/content.types';
+
+const BLANK = /_{3,}|\.{4,}|…/;
+
+interface RawItem {
+  text: string;
+  line: number;
+  directives: Array<{ key: string; value: string }>;
+}
+
+// ============= IMPORT =============
+
+export function parseGift(source: string): ParsedBankItem[] {
+  return splitItems(source).map((raw, index) => parseItem(raw, index));
+}
+
+/**
+ * Items are separated by blank lines; comment lines before an item hold its directives
+ */
+function splitItems(source: string): RawItem[] {
+  const items: RawItem[] = [];
+  let current: RawItem | null = null;
+  let pending: RawItem['directives'] = [];
+
+  const flush = () => {
+    if (current && current.text.trim()) items.push(current);
+    current = null;
+  };
+
+  source.replace(/\r\n?/g, '\n').split('\n').forEach((line, i) => {
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flush();
+      return;
+    }
+    if (trimmed.startsWith('//')) {
+      const directive = /^\/\/\s*@(\w+)\s*(.*)$/.exec(trimmed);
+      if (directive) {
+        const entry = { key: directive[1].toLowerCase(), value: directive[2].trim() };
+        if (current) current.directives.push(entry);
+        else pending.push(entry);
+      }
+      return;
+    }
+    if (!current && /^\$CATEGORY:/i.test(trimmed)) return;
+
+    if (!current) {
+      current = { text: '', line: i + 1, directives: pending };
+      pending = [];
+    }
+    current.text += (current.text ? '\n' : '') + line;
+  });
+  flush();
+
+  return items;
+}
+
+function parseItem(raw: RawItem, index: number): ParsedBankItem {
+  const result: ParsedBankItem = { index, line: raw.line, errors: [], warnings: [] };
+  let text = raw.text.trim();
+
+  // ::title::
+  const title = /^::((?:\\.|[^\\:]|:(?!:))*)::/.exec(text);
+  if (title) {
+    result.identifier = unescape(title[1]).trim();
+    text = text.slice(title[0].length).trim();
+  }
+  text = text.replace(/^\[(html|moodle|plain|markdown)\]/i, '');
+
+  const block = findAnswerBlock(text);
+  if (!block) {
+    result.errors.push('Missing answer block {...}');
+    return result;
+  }
+
+  const before = text.slice(0, block.start).trim();
+  const after = text.slice(block.end + 1).trim();
+  const question = block.inline ? `${before} ____ ${after}`.trim() : before;
+  if (!question) {
+    result.errors.push('Question text is empty');
+    return result;
+  }
+
+  const parsed = parseAnswers(block.content, result);
+  if (!parsed) return result;
+
+  const bank: BankQuestion = { ...parsed, question: unescape(question).replace(/\s+/g, ' ') };
+  if (bank.type === 'SHORT_ANSWER' && block.inline) bank.type = 'FILL_BLANK';
+
+  applyDirectives(bank, raw.directives, result);
+  bank.identifier = result.identifier;
+  result.question = bank;
+  return result;
+}
+
+/**
+ * Locate the unescaped {...} block; inline when text follows it
+ */
+function findAnswerBlock(text: string): { start: number; end: number; content: string; inline: boolean } | null {
+  let start = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '{' && start < 0) start = i;
+    else if (text[i] === '}' && start >= 0) {
+      return {
+        start,
+        end: i,
+        content: text.slice(start + 1, i),
+        inline: text.slice(i + 1).trim().length > 0,
+      };
+    }
+  }
+  return null;
+}
+
+function parseAnswers(content: string, result: ParsedBankItem): Omit<BankQuestion, 'question'> | null {
+  // General feedback: ####text at the end of the block
+  let explanation: string | undefined;
+  const general = splitUnescaped(content, '####');
+  if (general.length > 1) {
+    content = general[0];
+    explanation = unescape(general.slice(1).join('####')).trim() || undefined;
+  }
+  const body = content.trim();
+
+  if (!body) {
+    result.errors.push('Essay questions ({}) are not supported');
+    return null;
+  }
+
+  // True/false
+  const tf = /^(T|TRUE|F|FALSE)\b/i.exec(body);
+  if (tf && !/[=~]/.test(body.slice(tf[0].length).split('#')[0])) {
+    const value = tf[1].toUpperCase().startsWith('T');
+    return { type: 'TRUE_FALSE', correctAnswer: value ? 'true' : 'false', explanation };
+  }
+
+  if (body.startsWith('#')) {
+    result.errors.push('Numerical questions are not supported');
+    return null;
+  }
+  if (/->/.test(body)) {
+    result.errors.push('Matching questions are not supported');
+    return null;
+  }
+
+  const answers = splitAnswers(body);
+  if (answers.length === 0) {
+    result.errors.push('No answers found in {...}');
+    return null;
+  }
+
+  const hasWrong = answers.some(a => a.marker === '~');
+  if (hasWrong) {
+    const correct = answers.filter(a => a.correct);
+    if (correct.length !== 1) {
+      result.errors.push(correct.length === 0
+        ? 'Multiple choice question has no correct answer (=)'
+        : 'Multiple-response questions are not supported (more than one correct answer)');
+      return null;
+    }
+    return {
+      type: 'MCQ',
+      options: answers.map(a => a.text),
+      correctAnswer: correct[0].text,
+      explanation: explanation ?? collectFeedback(answers),
+    };
+  }
+
+  const accepted = answers.filter(a => a.correct).map(a => a.text);
+  if (accepted.length === 0) {
+    result.errors.push('Short answer question has no accepted answer');
+    return null;
+  }
+  return {
+    type: 'SHORT_ANSWER',
+    correctAnswer: accepted[0],
+    acceptedAnswers: accepted.length > 1 ? accepted.slice(1) : undefined,
+    explanation: explanation ?? collectFeedback(answers),
+  };
+}
+
+interface GiftAnswer {
+  marker: '=' | '~';
+  text: string;
+  correct: boolean;
+  feedback?: string;
+}
+
+function splitAnswers(body: string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  let current: { marker: '=' | '~'; raw: string } | null = null;
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '\\' && i + 1 < body.length) {
+      if (current) current.raw += ch + body[i + 1];
+      i++;
+      continue;
+    }
+    if (ch === '=' || ch === '~') {
+      if (current) answers.push(toAnswer(current));
+      current = { marker: ch, raw: '' };
+      continue;
+    }
+    if (current) current.raw += ch;
+  }
+  if (current) answers.push(toAnswer(current));
+
+  return answers.filter(a => a.text);
+}
+
+function toAnswer(raw: { marker: '=' | '~'; raw: string }): GiftAnswer {
+  let text = raw.raw;
+  let weight: number | null = null;
+
+  const percent = /^%(-?\d+(?:\.\d+)?)%/.exec(text.trim());
+  if (percent) {
+    weight = Number(percent[1]);
+    text = text.trim().slice(percent[0].length);
+  }
+
+  const [answer, ...feedback] = splitUnescaped(text, '#');
+  return {
+    marker: raw.marker,
+    text: unescape(answer).trim(),
+    correct: raw.marker === '=' || (weight !== null && weight >= 100),
+    feedback: feedback.length ? unescape(feedback.join('#')).trim() : undefined,
+  };
+}
+
+function collectFeedback(answers: GiftAnswer[]): string | undefined {
+  return answers.find(a => a.correct && a.feedback)?.feedback;
+}
+
+function applyDirectives(question: BankQuestion, directives: RawItem['directives'], result: ParsedBankItem): void {
+  for (const { key, value } of directives) {
+    switch (key) {
+      case 'hint':
+        (question.hints ||= []).push(value);
+        break;
+      case 'step':
+        (question.stepByStepSolution ||= []).push(value);
+        break;
+      case 'difficulty':
+        if (['EASY', 'MEDIUM', 'HARD'].includes(value.toUpperCase())) {
+          question.difficulty = value.toUpperCase() as BankQuestion['difficulty'];
+        } else {
+          result.warnings.push(`Unknown difficulty "${value}" ignored`);
+        }
+        break;
+      case 'points':
+        if (!isNaN(Number(value))) question.points = Math.round(Number(value));
+        break;
+      case 'tags':
+        question.tags = value.split(',').map(t => t.trim()).filter(Boolean);
+        break;
+      case 'type':
+        if (value === 'FILL_BLANK' && question.type === 'SHORT_ANSWER') question.type = 'FILL_BLANK';
+        if (value === 'SHORT_ANSWER' && question.type === 'FILL_BLANK') question.type = 'SHORT_ANSWER';
+        break;
+      default:
+        result.warnings.push(`Unknown directive @${key} ignored`);
+    }
+  }
+}
+
+function splitUnescaped(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let last = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text.startsWith(separator, i)) {
+      parts.push(text.slice(last, i));
+      i += separator.length - 1;
+      last = i + 1;
+    }
+  }
+  parts.push(text.slice(last));
+  return parts;
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1');
+}
+
+// ============= EXPORT =============
+
+export function writeGift(questions: BankQuestion[], category?: string): string {
+  const header = category ? `$CATEGORY: ${category}\n\n` : '';
+  return header + questions.map(writeItem).join('\n\n') + '\n';
+}
+
+function writeItem(question: BankQuestion): string {
+  const lines: string[] = [];
+  if (question.type === 'FILL_BLANK' || question.type === 'SHORT_ANSWER') lines.push(`// @type ${question.type}`);
+  if (question.difficulty) lines.push(`// @difficulty ${question.difficulty}`);
+  if (question.points && question.points !== 1) lines.push(`// @points ${question.points}`);
+  if (question.tags?.length) lines.push(`// @tags ${question.tags.join(', ')}`);
+  (question.hints || []).forEach(h => lines.push(`// @hint ${oneLine(h)}`));
+  (question.stepByStepSolution || []).forEach(s => lines.push(`// @step ${oneLine(s)}`));
+
+  const general = question.explanation ? `####${escape(question.explanation)}` : '';
+  let answers: string;
+  switch (question.type) {
+    case 'TRUE_FALSE':
+      answers = `{${question.correctAnswer === 'true' ? 'TRUE' : 'FALSE'}${general}}`;
+      break;
+    case 'MCQ':
+      answers = `{\n${(question.options || [])
+        .map(o => `\t${o === question.correctAnswer ? '=' : '~'}${escape(o)}`)
+        .join('\n')}${general ? `\n\t${general}` : ''}\n}`;
+      break;
+    default:
+      answers = `{${[question.correctAnswer, ...(question.acceptedAnswers || [])]
+        .map(a => `=${escape(a)}`)
+        .join(' ')}${general}}`;
+  }
+
+  const title = question.identifier ? `::${escape(question.identifier)}::` : '';
+  const [before, ...after] = question.question.split(BLANK);
+  const text = question.type === 'FILL_BLANK' && after.length > 0
+    ? `${title}${escape(before).trimEnd()} ${answers} ${escape(after.join('____')).trimStart()}`
+    : `${title}${escape(question.question)} ${answers}`;
+
+  lines.push(text);
+  return lines.join('\n');
+}
+
+function escape(text: string): string {
+  return text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\r?\n/g, '\\n');
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, ' ');
+}
@@ -0,0 +1,370 @@
+// src/core/content/formats/qti.format.ts
+// IMS QTI 2.1 assessmentItem reader/writer for the question bank
+
+import {
+  childElements,
+  cleanText,
+  escapeXml,
+  findAll,
+  findFirst,
+  parseXml,
+  textContent,
+  XmlParseError,
+  type XmlElement,
+} from './xml.reader';
+import type { BankQuestion, ParsedBankItem, QuestionExport } from '../../../types/content.types';
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+const MAP_RESPONSE = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response';
+
+// Blank placeholder in our fill-in-the-blank question text
+const BLANK = /_{3,}|\.{4,}|…/;
+
+const TRUE_WORDS = ['true', 'صح', 'صحيح', 'نعم'];
+const FALSE_WORDS = ['false', 'خطأ', 'خطا', 'خاطئ', 'لا'];
+
+// ============= IMPORT =============
+
+/**
+ * Read every assessmentItem in the document(s).
+ * A malformed document yields a single item carrying the parse error.
+ */
+export function parseQti(source: string): ParsedBankItem[] {
+  let root: XmlElement;
+  try {
+    root = parseXml(source);
+  } catch (error) {
+    const message = error instanceof XmlParseError ? error.message : 'Invalid XML';
+    return [{ index: 0, errors: [message], warnings: [] }];
+  }
+
+  const items = findAll(root, 'assessmentItem');
+  if (items.length === 0) {
+    return [{ index: 0, errors: ['No assessmentItem found'], warnings: [] }];
+  }
+
+  return items.map((item, index) => parseItem(item, index));
+}
+
+function parseItem(item: XmlElement, index: number): ParsedBankItem {
+  const result: ParsedBankItem = {
+    index,
+    identifier: item.attrs.identifier,
+    line: item.line,
+    errors: [],
+    warnings: [],
+  };
+
+  const body = findFirst(item, 'itemBody');
+  if (!body) {
+    result.errors.push('Missing itemBody');
+    return result;
+  }
+
+  const choice = findFirst(body, 'choiceInteraction');
+  const textEntry = findFirst(body, 'textEntryInteraction');
+  const interactions = ['choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction',
+    'orderInteraction', 'matchInteraction', 'associateInteraction', 'inlineChoiceInteraction',
+    'hotspotInteraction', 'gapMatchInteraction', 'sliderInteraction'];
+  const found = interactions.filter(name => findAll(body, name).length > 0);
+
+  if (found.length !== 1 || (!choice && !textEntry)) {
+    result.errors.push(found.length === 0
+      ? 'No supported interaction found'
+      : `Unsupported interaction: ${found.join(', ')} (supported: single choiceInteraction or textEntryInteraction)`);
+    return result;
+  }
+
+  const question = choice
+    ? parseChoice(item, body, choice, result)
+    : parseTextEntry(item, body, textEntry!, result);
+  if (!question) return result;
+
+  readFeedback(item, question);
+  readOutcomes(item, question, result);
+  question.identifier = item.attrs.identifier;
+  result.question = question;
+  return result;
+}
+
+function parseChoice(item: XmlElement, body: XmlElement, interaction: XmlElement, result: ParsedBankItem): BankQuestion | null {
+  if (findAll(body, 'choiceInteraction').length > 1) {
+    result.errors.push('Only one choiceInteraction per item is supported');
+    return null;
+  }
+  if (Number(interaction.attrs.maxChoices ?? '1') !== 1) {
+    result.errors.push('Multiple-response choiceInteraction is not supported');
+    return null;
+  }
+
+  const choices = childElements(interaction, 'simpleChoice').map(c => ({
+    id: c.attrs.identifier,
+    text: cleanText(textContent(c, ['feedbackInline'])),
+  }));
+  const correct = correctValues(item, interaction.attrs.responseIdentifier);
+  if (correct.length !== 1) {
+    result.errors.push(correct.length === 0 ? 'Missing correctResponse' : 'Only one correct choice is supported');
+    return null;
+  }
+
+  const correctChoice = choices.find(c => c.id === correct[0]);
+  if (!correctChoice) {
+    result.errors.push(`correctResponse "${correct[0]}" is not one of the choices`);
+    return null;
+  }
+
+  const prompt = promptText(body, interaction);
+  const isTrueFalse = choices.length === 2 && choices.every(c =>
+    [...TRUE_WORDS, ...FALSE_WORDS].includes(c.text.toLowerCase()) ||
+    [...TRUE_WORDS, ...FALSE_WORDS].includes((c.id || '').toLowerCase())
+  );
+
+  if (isTrueFalse) {
+    const value = TRUE_WORDS.includes(correctChoice.text.toLowerCase()) || correctChoice.id.toLowerCase() === 'true';
+    return { type: 'TRUE_FALSE', question: prompt, correctAnswer: value ? 'true' : 'false' };
+  }
+
+  return {
+    type: 'MCQ',
+    question: prompt,
+    options: choices.map(c => c.text),
+    correctAnswer: correctChoice.text,
+  };
+}
+
+function parseTextEntry(item: XmlElement, body: XmlElement, interaction: XmlElement, result: ParsedBankItem): BankQuestion | null {
+  if (findAll(body, 'textEntryInteraction').length > 1) {
+    result.errors.push('Only one textEntryInteraction per item is supported');
+    return null;
+  }
+
+  const declaration = responseDeclaration(item, interaction.attrs.responseIdentifier);
+  const answers = correctValues(item, interaction.attrs.responseIdentifier);
+  // Alternatives with full marks in a mapping count as accepted answers too
+  for (const entry of declaration ? findAll(declaration, 'mapEntry') : []) {
+    if (Number(entry.attrs.mappedValue) > 0 && entry.attrs.mapKey && !answers.includes(entry.attrs.mapKey)) {
+      answers.push(entry.attrs.mapKey);
+    }
+  }
+  if (answers.length === 0) {
+    result.errors.push('Missing correctResponse');
+    return null;
+  }
+
+  // Our own export marks the type; otherwise an inline blank means fill-in-the-blank
+  const parent = findParent(body, interaction);
+  const inline = !!parent && parent.children.some(c => typeof c === 'string' && c.trim().length > 0);
+  const type = interaction.attrs.class === 'short-answer' ? 'SHORT_ANSWER'
+    : interaction.attrs.class === 'fill-blank' || inline ? 'FILL_BLANK'
+    : 'SHORT_ANSWER';
+
+  const question = cleanText(renderWithBlank(body, interaction));
+  return {
+    type,
+    question: type === 'SHORT_ANSWER' ? question.replace(/\s*_{4}\s*$/, '').trim() : question,
+    correctAnswer: answers[0],
+    acceptedAnswers: answers.length > 1 ? answers.slice(1) : undefined,
+  };
+}
+
+function readFeedback(item: XmlElement, question: BankQuestion): void {
+  const hints: string[] = [];
+  const steps: string[] = [];
+  for (const feedback of childElements(item, 'modalFeedback')) {
+    const id = (feedback.attrs.identifier || '').toUpperCase();
+    const text = cleanText(textContent(feedback));
+    if (!text) continue;
+    if (id.startsWith('HINT')) hints.push(text);
+    else if (id.startsWith('STEP') || id.startsWith('SOLUTION')) steps.push(text);
+    else question.explanation = question.explanation ? `${question.explanation}\n${text}` : text;
+  }
+  if (hints.length) question.hints = hints;
+  if (steps.length) question.stepByStepSolution = steps;
+}
+
+function readOutcomes(item: XmlElement, question: BankQuestion, result: ParsedBankItem): void {
+  for (const outcome of childElements(item, 'outcomeDeclaration')) {
+    const value = findFirst(outcome, 'value');
+    if (!value) continue;
+    const text = cleanText(textContent(value));
+
+    switch (outcome.attrs.identifier) {
+      case 'MAXSCORE':
+        if (!isNaN(Number(text))) question.points = Math.round(Number(text));
+        break;
+      case 'DIFFICULTY':
+        if (['EASY', 'MEDIUM', 'HARD'].includes(text.toUpperCase())) {
+          question.difficulty = text.toUpperCase() as BankQuestion['difficulty'];
+        } else {
+          result.warnings.push(`Unknown difficulty "${text}" ignored`);
+        }
+        break;
+      case 'TAGS':
+        question.tags = text.split(',').map(t => t.trim()).filter(Boolean);
+        break;
+    }
+  }
+}
+
+// ============= Helpers =============
+
+function responseDeclaration(item: XmlElement, identifier = 'RESPONSE'): XmlElement | undefined {
+  return childElements(item, 'responseDeclaration').find(d => d.attrs.identifier === identifier);
+}
+
+function correctValues(item: XmlElement, identifier?: string): string[] {
+  const declaration = responseDeclaration(item, identifier);
+  const correct = declaration && findFirst(declaration, 'correctResponse');
+  return correct ? childElements(correct, 'value').map(v => cleanText(textContent(v))).filter(Boolean) : [];
+}
+
+function promptText(body: XmlElement, interaction: XmlElement): string {
+  const prompt = findFirst(interaction, 'prompt');
+  const outside = cleanText(textContent(body, ['choiceInteraction']));
+  const inside = prompt ? cleanText(textContent(prompt)) : '';
+  return [outside, inside].filter(Boolean).join(' ');
+}
+
+function findParent(root: XmlElement, target: XmlElement): XmlElement | undefined {
+  for (const child of childElements(root)) {
+    if (child === target) return root;
+    const found = findParent(child, target);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function renderWithBlank(node: XmlElement, interaction: XmlElement): string {
+  return node.children.map(child => {
+    if (typeof child === 'string') return child;
+    if (child === interaction) return ' ____ ';
+    const text = renderWithBlank(child, interaction);
+    return ['p', 'div', 'br', 'li', 'prompt'].includes(child.name) ? ` ${text} ` : text;
+  }).join('');
+}
+
+// ============= EXPORT =============
+
+/**
+ * One assessmentItem per question plus an (unzipped) IMS content package manifest
+ */
+export function writeQti(questions: BankQuestion[], title: string): QuestionExport['files'] {
+  const files = questions.map((question, i) => {
+    const identifier = safeIdentifier(question.identifier || `item-${i + 1}`);
+    return { path: `items/${identifier}.xml`, content: writeItem({ ...question, identifier }) };
+  });
+
+  const resources = files.map(file => {
+    const identifier = file.path.slice('items/'.length, -'.xml'.length);
+    return `    <resource identifier="res-${identifier}" type="imsqti_item_xmlv2p1" href="${file.path}">
+      <file href="${file.path}"/>
+    </resource>`;
+  }).join('\n');
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest-${safeIdentifier(title)}">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources}
+  </resources>
+</manifest>
+`;
+
+  return [{ path: 'imsmanifest.xml', content: manifest }, ...files];
+}
+
+function writeItem(question: BankQuestion): string {
+  const identifier = question.identifier!;
+  let declaration: string;
+  let body: string;
+  let template = MATCH_CORRECT;
+
+  if (question.type === 'MCQ' || question.type === 'TRUE_FALSE') {
+    const options = question.type === 'TRUE_FALSE' ? ['صح', 'خطأ'] : question.options || [];
+    const ids = question.type === 'TRUE_FALSE' ? ['true', 'false'] : options.map((_, i) => `choice_${i + 1}`);
+    const correctIndex = question.type === 'TRUE_FALSE'
+      ? (question.correctAnswer === 'true' ? 0 : 1)
+      : options.indexOf(question.correctAnswer);
+
+    declaration = `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse>
+      <value>${ids[correctIndex]}</value>
+    </correctResponse>
+  </responseDeclaration>`;
+    body = `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+      <prompt>${escapeXml(question.question)}</prompt>
+${options.map((o, i) => `      <simpleChoice identifier="${ids[i]}">${escapeXml(o)}</simpleChoice>`).join('\n')}
+    </choiceInteraction>`;
+  } else {
+    const answers = [question.correctAnswer, ...(question.acceptedAnswers || [])];
+    const mapping = answers.length > 1
+      ? `
+    <mapping defaultValue="0">
+${answers.map(a => `      <mapEntry mapKey="${escapeXml(a)}" mappedValue="${question.points || 1}"/>`).join('\n')}
+    </mapping>`
+      : '';
+    if (mapping) template = MAP_RESPONSE;
+
+    declaration = `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+    <correctResponse>
+      <value>${escapeXml(question.correctAnswer)}</value>
+    </correctResponse>${mapping}
+  </responseDeclaration>`;
+
+    const cls = question.type === 'FILL_BLANK' ? 'fill-blank' : 'short-answer';
+    const interaction = `<textEntryInteraction responseIdentifier="RESPONSE" class="${cls}" expectedLength="${Math.max(10, question.correctAnswer.length + 5)}"/>`;
+    const [before, ...after] = question.question.split(BLANK);
+    body = question.type === 'FILL_BLANK' && after.length > 0
+      ? `    <p>${escapeXml(before)}${interaction}${escapeXml(after.join('____'))}</p>`
+      : `    <p>${escapeXml(question.question)}</p>
+    <p>${interaction}</p>`;
+  }
+
+  const outcomes = [
+    `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>`,
+    `  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">
+    <defaultValue><value>${question.points || 1}</value></defaultValue>
+  </outcomeDeclaration>`,
+    question.difficulty && `  <outcomeDeclaration identifier="DIFFICULTY" cardinality="single" baseType="identifier">
+    <defaultValue><value>${question.difficulty}</value></defaultValue>
+  </outcomeDeclaration>`,
+    question.tags?.length && `  <outcomeDeclaration identifier="TAGS" cardinality="single" baseType="string">
+    <defaultValue><value>${escapeXml(question.tags.join(', '))}</value></defaultValue>
+  </outcomeDeclaration>`,
+    `  <outcomeDeclaration identifier="FEEDBACK" cardinality="multiple" baseType="identifier"/>`,
+  ].filter(Boolean).join('\n');
+
+  const feedback = [
+    ...(question.hints || []).map((h, i) => feedbackBlock(`HINT_${i + 1}`, h)),
+    ...(question.stepByStepSolution || []).map((s, i) => feedbackBlock(`STEP_${i + 1}`, s)),
+    question.explanation ? feedbackBlock('EXPLANATION', question.explanation) : '',
+  ].filter(Boolean).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" identifier="${identifier}" title="${escapeXml(question.question.slice(0, 80))}" adaptive="false" timeDependent="false" xml:lang="ar">
+${declaration}
+${outcomes}
+  <itemBody>
+${body}
+  </itemBody>
+  <responseProcessing template="${template}"/>
+${feedback ? feedback + '\n' : ''}</assessmentItem>
+`;
+}
+
+function feedbackBlock(identifier: string, text: string): string {
+  return `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="${identifier}" showHide="show">${escapeXml(text)}</modalFeedback>`;
+}
+
+// QTI identifiers must be valid XML names
+function safeIdentifier(value: string): string {
+  const cleaned = value.replace(/[^\w.-]/g, '_');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `q_${cleaned}`;
+}
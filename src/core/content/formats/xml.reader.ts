@@ -0,0 +1,170 @@
+// src/core/content/formats/xml.reader.ts
+// Minimal XML reader/writer helpers for QTI items (no external parser dependency)
+
+export interface XmlElement {
+  name: string;                    // local name, namespace prefix removed
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  line: number;
+}
+
+export type XmlNode = XmlElement | string;
+
+export class XmlParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'XmlParseError';
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon >= 0 ? name.slice(colon + 1) : name;
+}
+
+/**
+ * Parse a document into a synthetic root whose children are the top-level elements
+ * (several concatenated items are accepted).
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [], line: 1 };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+  let line = 1;
+
+  const advance = (to: number) => {
+    for (let i = pos; i < to; i++) {
+      if (source.charCodeAt(i) === 10) line++;
+    }
+    pos = to;
+  };
+
+  const skipUntil = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, pos);
+    if (end < 0) throw new XmlParseError(`Unterminated ${what}`, line);
+    advance(end + terminator.length);
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt < 0) {
+      const text = source.slice(pos);
+      if (text.trim() && stack.length > 1) stack[stack.length - 1].children.push(decodeEntities(text));
+      break;
+    }
+
+    if (lt > pos) {
+      const text = source.slice(pos, lt);
+      if (stack.length > 1) stack[stack.length - 1].children.push(decodeEntities(text));
+      advance(lt);
+    }
+
+    if (source.startsWith('<!--', pos)) {
+      skipUntil('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const end = source.indexOf(']]>', pos);
+      if (end < 0) throw new XmlParseError('Unterminated CDATA section', line);
+      stack[stack.length - 1].children.push(source.slice(pos + 9, end));
+      advance(end + 3);
+    } else if (source.startsWith('<?', pos)) {
+      skipUntil('?>', 'processing instruction');
+    } else if (source.startsWith('<!', pos)) {
+      skipUntil('>', 'declaration');
+    } else if (source.startsWith('</', pos)) {
+      const end = source.indexOf('>', pos);
+      if (end < 0) throw new XmlParseError('Unterminated closing tag', line);
+      const name = localName(source.slice(pos + 2, end).trim());
+      const open = stack.pop();
+      if (!open || open === root || open.name !== name) {
+        throw new XmlParseError(`Unexpected </${name}>${open && open !== root ? `, expected </${open.name}>` : ''}`, line);
+      }
+      advance(end + 1);
+    } else {
+      const match = /^<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(source.slice(pos));
+      if (!match) throw new XmlParseError('Malformed tag', line);
+
+      const element: XmlElement = { name: localName(match[1]), attrs: {}, children: [], line };
+      for (const attr of match[2].matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? '');
+      }
+
+      stack[stack.length - 1].children.push(element);
+      if (!match[3]) stack.push(element);
+      advance(pos + match[0].length);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new XmlParseError(`Unclosed <${stack[stack.length - 1].name}>`, stack[stack.length - 1].line);
+  }
+  return root;
+}
+
+// ============= Queries =============
+
+export function isElement(node: XmlNode): node is XmlElement {
+  return typeof node !== 'string';
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((c): c is XmlElement => isElement(c) && (!name || c.name === name));
+}
+
+export function findAll(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of childElements(element)) {
+    if (child.name === name) found.push(child);
+    found.push(...findAll(child, name));
+  }
+  return found;
+}
+
+export function findFirst(element: XmlElement, name: string): XmlElement | undefined {
+  return findAll(element, name)[0];
+}
+
+/**
+ * Text content with whitespace collapsed; `skip` elements are left out
+ */
+export function textContent(node: XmlNode, skip: string[] = []): string {
+  if (!isElement(node)) return node;
+  if (skip.includes(node.name)) return '';
+  const text = node.children.map(c => textContent(c, skip)).join('');
+  // Keep block elements apart: <p>a</p><p>b</p> → "a b"
+  return BLOCK_ELEMENTS.has(node.name) ? ` ${text} ` : text;
+}
+
+const BLOCK_ELEMENTS = new Set(['p', 'div', 'br', 'li', 'prompt', 'simpleChoice']);
+
+export function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,82 @@
+// src/core/content/prerequisite.graph.ts
+// Directed graph helpers for prerequisite edges (node → the nodes it requires)
+
+export type AdjacencyList = Map<string, Set<string>>;
+
+export function buildAdjacency(edges: Array<{ from: string; to: string }>): AdjacencyList {
+  const adjacency: AdjacencyList = new Map();
+  for (const { from, to } of edges) {
+    if (!adjacency.has(from)) adjacency.set(from, new Set());
+    adjacency.get(from)!.add(to);
+  }
+  return adjacency;
+}
+
+/**
+ * Path from `start` to `target` following requirement edges, or null
+ */
+export function findPath(adjacency: AdjacencyList, start: string, target: string): string[] | null {
+  const previous = new Map<string, string | null>([[start, null]]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node === target) {
+      const path: string[] = [];
+      for (let at: string | null = node; at !== null; at = previous.get(at) ?? null) {
+        path.unshift(at);
+      }
+      return path;
+    }
+    for (const next of adjacency.get(node) || []) {
+      if (!previous.has(next)) {
+        previous.set(next, node);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Cycle the edge from → to would close, e.g. [to, ..., from, to]; null if it stays acyclic
+ */
+export function cycleIfAdded(adjacency: AdjacencyList, from: string, to: string): string[] | null {
+  if (from === to) return [from, from];
+  const path = findPath(adjacency, to, from);
+  return path ? [...path, to] : null;
+}
+
+/**
+ * All elementary cycles found by DFS (one per back edge)
+ */
+export function findCycles(adjacency: AdjacencyList): string[][] {
+  const WHITE = 0, GRAY = 1, BLACK = 2;
+  const color = new Map<string, number>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (node: string) => {
+    color.set(node, GRAY);
+    stack.push(node);
+
+    for (const next of adjacency.get(node) || []) {
+      const state = color.get(next) ?? WHITE;
+      if (state === GRAY) {
+        cycles.push([...stack.slice(stack.indexOf(next)), next]);
+      } else if (state === WHITE) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    color.set(node, BLACK);
+  };
+
+  for (const node of adjacency.keys()) {
+    if ((color.get(node) ?? WHITE) === WHITE) visit(node);
+  }
+
+  return cycles;
+}
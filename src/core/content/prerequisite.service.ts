@@ -0,0 +1,413 @@
+// src/core/content/prerequisite.service.ts
+// Explicit prerequisite graph (lesson→lesson, concept→concept) and "ready to learn" gating
+
+import { prisma } from '../../config/database.config';
+import { BKT_DEFAULTS } from '../progress/knowledge-tracing';
+import { buildAdjacency, cycleIfAdded, findCycles, type AdjacencyList } from './prerequisite.graph';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import type {
+  LessonReadiness,
+  PrerequisiteEdge,
+  PrerequisiteGraph,
+  PrerequisiteKind,
+  ReadyLesson,
+} from '../../types/content.types';
+
+// P(known) a prerequisite needs before the next step is considered safe
+const PREREQUISITE_MASTERY = 0.8;
+
+/**
+ * Everything readiness needs about one student, loaded once
+ */
+interface StudentSnapshot {
+  completedLessons: Set<string>;
+  inProgressLessons: Map<string, Date>;
+  completedAt: Map<string, Date>;
+  conceptKnown: Map<string, { pKnown: number; attempts: number }>;
+  conceptsByLesson: Map<string, string[]>;
+  conceptLesson: Map<string, string>;
+}
+
+export class PrerequisiteService {
+
+  // ============= EDITING =============
+
+  /**
+   * Add one prerequisite edge, rejecting self-loops and cycles
+   */
+  async addEdge(kind: PrerequisiteKind, id: string, prerequisiteId: string): Promise<PrerequisiteEdge> {
+    await this.assertNodesExist(kind, [id, prerequisiteId]);
+
+    const adjacency = buildAdjacency(await this.loadEdges(kind));
+    this.assertAcyclic(kind, adjacency, id, prerequisiteId);
+
+    if (kind === 'lesson') {
+      await prisma.lessonPrerequisite.upsert({
+        where: { lessonId_prerequisiteId: { lessonId: id, prerequisiteId } },
+        update: {},
+        create: { lessonId: id, prerequisiteId },
+      });
+    } else {
+      await prisma.conceptPrerequisite.upsert({
+        where: { conceptId_prerequisiteId: { conceptId: id, prerequisiteId } },
+        update: {},
+        create: { conceptId: id, prerequisiteId },
+      });
+    }
+
+    return { from: id, to: prerequisiteId };
+  }
+
+  /**
+   * Replace all prerequisites of a node; the whole set is validated before writing
+   */
+  async setPrerequisites(kind: PrerequisiteKind, id: string, prerequisiteIds: string[]): Promise<PrerequisiteEdge[]> {
+    const unique = [...new Set(prerequisiteIds)];
+    await this.assertNodesExist(kind, [id, ...unique]);
+
+    const others = (await this.loadEdges(kind)).filter(e => e.from !== id);
+    const adjacency = buildAdjacency(others);
+    for (const prerequisiteId of unique) {
+      this.assertAcyclic(kind, adjacency, id, prerequisiteId);
+      if (!adjacency.has(id)) adjacency.set(id, new Set());
+      adjacency.get(id)!.add(prerequisiteId);
+    }
+
+    if (kind === 'lesson') {
+      await prisma.$transaction([
+        prisma.lessonPrerequisite.deleteMany({ where: { lessonId: id } }),
+        prisma.lessonPrerequisite.createMany({
+          data: unique.map(prerequisiteId => ({ lessonId: id, prerequisiteId })),
+        }),
+      ]);
+    } else {
+      await prisma.$transaction([
+        prisma.conceptPrerequisite.deleteMany({ where: { conceptId: id } }),
+        prisma.conceptPrerequisite.createMany({
+          data: unique.map(prerequisiteId => ({ conceptId: id, prerequisiteId })),
+        }),
+      ]);
+    }
+
+    return unique.map(prerequisiteId => ({ from: id, to: prerequisiteId }));
+  }
+
+  async removeEdge(kind: PrerequisiteKind, id: string, prerequisiteId: string): Promise<boolean> {
+    const result = kind === 'lesson'
+      ? await prisma.lessonPrerequisite.deleteMany({ where: { lessonId: id, prerequisiteId } })
+      : await prisma.conceptPrerequisite.deleteMany({ where: { conceptId: id, prerequisiteId } });
+    return result.count > 0;
+  }
+
+  // ============= READING =============
+
+  /**
+   * Direct prerequisites and dependents of a lesson, plus concept edges of its concepts
+   */
+  async getLessonPrerequisites(lessonId: string) {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      include: {
+        prerequisites: { include: { prerequisite: { select: { id: true, title: true, titleAr: true } } } },
+        requiredBy: { include: { lesson: { select: { id: true, title: true, titleAr: true } } } },
+        concepts: {
+          include: {
+            prerequisites: {
+              include: { prerequisite: { select: { id: true, name: true, nameAr: true, lessonId: true } } },
+            },
+          },
+        },
+      },
+    });
+
+    if (!lesson) {
+      throw new NotFoundError('Lesson');
+    }
+
+    return {
+      lessonId,
+      prerequisites: lesson.prerequisites.map(p => ({
+        lessonId: p.prerequisite.id,
+        title: p.prerequisite.titleAr || p.prerequisite.title,
+      })),
+      requiredBy: lesson.requiredBy.map(p => ({
+        lessonId: p.lesson.id,
+        title: p.lesson.titleAr || p.lesson.title,
+      })),
+      concepts: lesson.concepts.map(concept => ({
+        conceptId: concept.id,
+        name: concept.nameAr || concept.name,
+        prerequisites: concept.prerequisites.map(p => ({
+          conceptId: p.prerequisite.id,
+          name: p.prerequisite.nameAr || p.prerequisite.name,
+          lessonId: p.prerequisite.lessonId,
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Whole graph of one kind (optionally limited to a subject) with any cycles found
+   */
+  async getGraph(kind: PrerequisiteKind, subjectId?: string): Promise<PrerequisiteGraph> {
+    const lessonFilter = subjectId ? { unit: { subjectId } } : {};
+
+    const nodes = kind === 'lesson'
+      ? (await prisma.lesson.findMany({
+          where: lessonFilter,
+          select: { id: true, title: true, titleAr: true, order: true },
+          orderBy: [{ unitId: 'asc' }, { order: 'asc' }],
+        })).map(l => ({ id: l.id, title: l.titleAr || l.title, order: l.order }))
+      : (await prisma.concept.findMany({
+          where: subjectId ? { lesson: lessonFilter } : {},
+          select: { id: true, name: true, nameAr: true, lessonId: true },
+        })).map(c => ({ id: c.id, title: c.nameAr || c.name, lessonId: c.lessonId }));
+
+    const ids = new Set(nodes.map(n => n.id));
+    const edges = (await this.loadEdges(kind)).filter(e => ids.has(e.from) || ids.has(e.to));
+
+    return { kind, nodes, edges, cycles: findCycles(buildAdjacency(edges)) };
+  }
+
+  // ============= READINESS =============
+
+  /**
+   * Can the student start this lesson? Lists unmet lesson and concept prerequisites.
+   */
+  async getLessonReadiness(userId: string, lessonId: string): Promise<LessonReadiness> {
+    const [lessonEdges, conceptEdges, snapshot] = await Promise.all([
+      this.loadEdges('lesson'),
+      this.loadEdges('concept'),
+      this.loadSnapshot(userId),
+    ]);
+
+    const readiness = this.computeReadiness(lessonId, buildAdjacency(lessonEdges), buildAdjacency(conceptEdges), snapshot);
+    if (readiness.ready) return readiness;
+
+    // Resolve names for the warning shown to the student
+    const [lessons, concepts] = await Promise.all([
+      prisma.lesson.findMany({
+        where: { id: { in: readiness.missingLessons.map(l => l.lessonId) } },
+        select: { id: true, title: true, titleAr: true },
+      }),
+      prisma.concept.findMany({
+        where: { id: { in: readiness.missingConcepts.map(c => c.conceptId) } },
+        select: { id: true, name: true, nameAr: true },
+      }),
+    ]);
+    const lessonTitles = new Map(lessons.map(l => [l.id, l.titleAr || l.title]));
+    const conceptNames = new Map(concepts.map(c => [c.id, c.nameAr || c.name]));
+
+    readiness.missingLessons.forEach(l => { l.title = lessonTitles.get(l.lessonId) || l.title; });
+    readiness.missingConcepts.forEach(c => { c.name = conceptNames.get(c.conceptId) || c.name; });
+    return readiness;
+  }
+
+  /**
+   * Lessons not yet completed whose prerequisites are all satisfied.
+   * In-progress lessons come first, then lessons just unlocked, then curriculum order.
+   */
+  async getReadyToLearn(userId: string, options: { limit?: number; subjectId?: string } = {}): Promise<ReadyLesson[]> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { grade: true } });
+
+    const [lessons, lessonEdges, conceptEdges, snapshot] = await Promise.all([
+      prisma.lesson.findMany({
+        where: {
+          isPublished: true,
+          unit: {
+            ...(options.subjectId ? { subjectId: options.subjectId } : {}),
+            ...(user?.grade ? { subject: { grade: user.grade } } : {}),
+          },
+        },
+        select: { id: true, title: true, titleAr: true, unitId: true, order: true, estimatedMinutes: true },
+        orderBy: [{ unit: { order: 'asc' } }, { order: 'asc' }],
+      }),
+      this.loadEdges('lesson'),
+      this.loadEdges('concept'),
+      this.loadSnapshot(userId),
+    ]);
+
+    const lessonAdjacency = buildAdjacency(lessonEdges);
+    const conceptAdjacency = buildAdjacency(conceptEdges);
+    const titles = new Map(lessons.map(l => [l.id, l.titleAr || l.title]));
+
+    const ready: Array<ReadyLesson & { unlockedAt: number }> = [];
+    for (const lesson of lessons) {
+      if (snapshot.completedLessons.has(lesson.id)) continue;
+
+      const readiness = this.computeReadiness(lesson.id, lessonAdjacency, conceptAdjacency, snapshot);
+      if (!readiness.ready) continue;
+
+      const prerequisites = [...(lessonAdjacency.get(lesson.id) || [])];
+      const latest = prerequisites
+        .map(id => ({ id, at: snapshot.completedAt.get(id)?.getTime() || 0 }))
+        .sort((a, b) => b.at - a.at)[0];
+
+      ready.push({
+        lessonId: lesson.id,
+        title: titles.get(lesson.id)!,
+        unitId: lesson.unitId,
+        order: lesson.order,
+        estimatedMinutes: lesson.estimatedMinutes,
+        inProgress: snapshot.inProgressLessons.has(lesson.id),
+        prerequisites: prerequisites.map(id => titles.get(id) || id),
+        unlockedBy: latest ? titles.get(latest.id) : undefined,
+        unlockedAt: latest?.at || 0,
+      });
+    }
+
+    // Lessons without explicit edges still follow Lesson.order: one per unit
+    const seenUnits = new Set<string>();
+    const sequenced = ready.filter(r => {
+      if (r.inProgress || r.prerequisites.length > 0) return true;
+      if (seenUnits.has(r.unitId)) return false;
+      seenUnits.add(r.unitId);
+      return true;
+    });
+
+    return sequenced
+      .sort((a, b) =>
+        Number(b.inProgress) - Number(a.inProgress) ||
+        b.unlockedAt - a.unlockedAt
+      )
+      .slice(0, options.limit ?? 5)
+      .map(({ unlockedAt, ...lesson }) => lesson);
+  }
+
+  // ============= HELPERS =============
+
+  /**
+   * Unmet prerequisites of a lesson (titles are left as ids here)
+   */
+  private computeReadiness(
+    lessonId: string,
+    lessonAdjacency: AdjacencyList,
+    conceptAdjacency: AdjacencyList,
+    snapshot: StudentSnapshot
+  ): LessonReadiness {
+    const missingLessons: LessonReadiness['missingLessons'] = [];
+    for (const prerequisiteId of lessonAdjacency.get(lessonId) || []) {
+      if (this.isLessonSatisfied(prerequisiteId, snapshot)) continue;
+      missingLessons.push({
+        lessonId: prerequisiteId,
+        title: prerequisiteId,
+        mastery: this.lessonMastery(prerequisiteId, snapshot),
+        completed: false,
+      });
+    }
+
+    const missingConcepts: LessonReadiness['missingConcepts'] = [];
+    const seen = new Set<string>();
+    for (const conceptId of snapshot.conceptsByLesson.get(lessonId) || []) {
+      for (const prerequisiteId of conceptAdjacency.get(conceptId) || []) {
+        // Concepts taught in this same lesson are learned here, not required up front
+        if (seen.has(prerequisiteId) || snapshot.conceptLesson.get(prerequisiteId) === lessonId) continue;
+        if (this.isConceptSatisfied(prerequisiteId, snapshot)) continue;
+        seen.add(prerequisiteId);
+        missingConcepts.push({
+          conceptId: prerequisiteId,
+          name: prerequisiteId,
+          lessonId: snapshot.conceptLesson.get(prerequisiteId) || '',
+          pKnown: snapshot.conceptKnown.get(prerequisiteId)?.pKnown ?? BKT_DEFAULTS.pInit,
+        });
+      }
+    }
+
+    return {
+      lessonId,
+      ready: missingLessons.length === 0 && missingConcepts.length === 0,
+      missingLessons,
+      missingConcepts,
+    };
+  }
+
+  private isLessonSatisfied(lessonId: string, snapshot: StudentSnapshot): boolean {
+    if (snapshot.completedLessons.has(lessonId)) return true;
+    const mastery = this.lessonMastery(lessonId, snapshot);
+    return mastery !== null && mastery >= PREREQUISITE_MASTERY;
+  }
+
+  private isConceptSatisfied(conceptId: string, snapshot: StudentSnapshot): boolean {
+    const known = snapshot.conceptKnown.get(conceptId);
+    if (known && known.attempts > 0) return known.pKnown >= PREREQUISITE_MASTERY;
+    // Never measured: trust lesson completion from before mastery tracking
+    const lessonId = snapshot.conceptLesson.get(conceptId);
+    return !!lessonId && snapshot.completedLessons.has(lessonId);
+  }
+
+  /**
+   * Mean P(known) over the lesson's concepts, null when it has none
+   */
+  private lessonMastery(lessonId: string, snapshot: StudentSnapshot): number | null {
+    const concepts = snapshot.conceptsByLesson.get(lessonId) || [];
+    if (concepts.length === 0) return null;
+    const total = concepts.reduce((sum, id) => sum + (snapshot.conceptKnown.get(id)?.pKnown ?? BKT_DEFAULTS.pInit), 0);
+    return Math.round((total / concepts.length) * 1000) / 1000;
+  }
+
+  private async loadSnapshot(userId: string): Promise<StudentSnapshot> {
+    const [progress, mastery, concepts] = await Promise.all([
+      prisma.progress.findMany({
+        where: { userId },
+        select: { lessonId: true, status: true, completedAt: true, lastAccessedAt: true },
+      }),
+      prisma.conceptMastery.findMany({
+        where: { userId },
+        select: { conceptId: true, pKnown: true, attempts: true },
+      }),
+      prisma.concept.findMany({ select: { id: true, lessonId: true } }),
+    ]);
+
+    const conceptsByLesson = new Map<string, string[]>();
+    for (const concept of concepts) {
+      if (!conceptsByLesson.has(concept.lessonId)) conceptsByLesson.set(concept.lessonId, []);
+      conceptsByLesson.get(concept.lessonId)!.push(concept.id);
+    }
+
+    return {
+      completedLessons: new Set(progress.filter(p => p.status === 'COMPLETED').map(p => p.lessonId)),
+      inProgressLessons: new Map(
+        progress.filter(p => p.status === 'IN_PROGRESS').map(p => [p.lessonId, p.lastAccessedAt])
+      ),
+      completedAt: new Map(
+        progress.filter(p => p.completedAt).map(p => [p.lessonId, p.completedAt!])
+      ),
+      conceptKnown: new Map(mastery.map(m => [m.conceptId, { pKnown: m.pKnown, attempts: m.attempts }])),
+      conceptsByLesson,
+      conceptLesson: new Map(concepts.map(c => [c.id, c.lessonId])),
+    };
+  }
+
+  private async loadEdges(kind: PrerequisiteKind): Promise<PrerequisiteEdge[]> {
+    if (kind === 'lesson') {
+      const edges = await prisma.lessonPrerequisite.findMany({ select: { lessonId: true, prerequisiteId: true } });
+      return edges.map(e => ({ from: e.lessonId, to: e.prerequisiteId }));
+    }
+    const edges = await prisma.conceptPrerequisite.findMany({ select: { conceptId: true, prerequisiteId: true } });
+    return edges.map(e => ({ from: e.conceptId, to: e.prerequisiteId }));
+  }
+
+  private assertAcyclic(kind: PrerequisiteKind, adjacency: AdjacencyList, id: string, prerequisiteId: string): void {
+    if (id === prerequisiteId) {
+      throw new ValidationError(`A ${kind} cannot be its own prerequisite`);
+    }
+    const cycle = cycleIfAdded(adjacency, id, prerequisiteId);
+    if (cycle) {
+      throw new ConflictError(`Prerequisite would create a cycle: ${cycle.join(' → ')}`);
+    }
+  }
+
+  private async assertNodesExist(kind: PrerequisiteKind, ids: string[]): Promise<void> {
+    const unique = [...new Set(ids)];
+    const found = kind === 'lesson'
+      ? await prisma.lesson.count({ where: { id: { in: unique } } })
+      : await prisma.concept.count({ where: { id: { in: unique } } });
+
+    if (found !== unique.length) {
+      throw new NotFoundError(kind === 'lesson' ? 'Lesson' : 'Concept');
+    }
+  }
+}
+
+// Export singleton instance
+export const prerequisiteService = new PrerequisiteService();
@@ -0,0 +1,283 @@
+// src/core/content/question-bank.service.ts
+// Import/export lesson questions as IMS QTI 2.1 or Moodle GIFT
+
+import { prisma } from '../../config/database.config';
+import { normalizeArabic } from '../rag/arabic.normalizer';
+import { parseGift, writeGift } from './formats/gift.format';
+import { parseQti, writeQti } from './formats/qti.format';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import type { Question } from '@prisma/client';
+import type {
+  BankQuestion,
+  BankQuestionType,
+  QuestionBankFormat,
+  QuestionExport,
+  QuestionImportReport,
+} from '../../types/content.types';
+
+const SUPPORTED_TYPES: BankQuestionType[] = ['MCQ', 'TRUE_FALSE', 'FILL_BLANK', 'SHORT_ANSWER'];
+const MAX_ITEMS = 500;
+const MAX_QUESTION_LENGTH = 2000;
+
+const TRUE_ANSWERS = ['true', 'صح', 'صحيح', 'نعم', '1'];
+
+export class QuestionBankService {
+
+  /**
+   * Import a bank into a lesson. Every item is validated on its own;
+   * valid items are saved even when others fail (nothing is saved on dryRun).
+   */
+  async importQuestions(
+    lessonId: string,
+    format: QuestionBankFormat,
+    content: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<QuestionImportReport> {
+    const lesson = await prisma.lesson.findUnique({ where: { id: lessonId }, select: { id: true } });
+    if (!lesson) {
+      throw new NotFoundError('Lesson');
+    }
+
+    const parsed = format === 'qti' ? parseQti(content) : parseGift(content);
+    if (parsed.length > MAX_ITEMS) {
+      throw new ValidationError(`Too many items (${parsed.length}), import at most ${MAX_ITEMS} at a time`);
+    }
+
+    const existing = await prisma.question.findMany({
+      where: { lessonId },
+      select: { question: true, order: true },
+    });
+    const seen = new Set(existing.map(q => this.fingerprint(q.question)));
+    let order = existing.reduce((max, q) => Math.max(max, q.order), 0);
+
+    const report: QuestionImportReport = {
+      format,
+      lessonId,
+      dryRun: !!options.dryRun,
+      total: parsed.length,
+      imported: 0,
+      invalid: 0,
+      duplicates: 0,
+      items: [],
+    };
+
+    const toCreate: Array<{ reportIndex: number; data: ReturnType<QuestionBankService['toQuestionData']> }> = [];
+    for (const item of parsed) {
+      const errors = [...item.errors, ...(item.question ? this.validate(item.question) : [])];
+      const warnings = [...item.warnings];
+      const entry: QuestionImportReport['items'][number] = {
+        index: item.index,
+        identifier: item.identifier,
+        line: item.line,
+        status: 'invalid',
+        errors,
+        warnings,
+      };
+      report.items.push(entry);
+
+      if (errors.length > 0 || !item.question) {
+        report.invalid++;
+        continue;
+      }
+
+      const fingerprint = this.fingerprint(item.question.question);
+      if (seen.has(fingerprint)) {
+        entry.status = 'duplicate';
+        report.duplicates++;
+        continue;
+      }
+      seen.add(fingerprint);
+
+      if (item.question.acceptedAnswers?.length) {
+        warnings.push(`Only "${item.question.correctAnswer}" is stored; alternatives dropped: ${item.question.acceptedAnswers.join(', ')}`);
+      }
+
+      entry.status = 'valid';
+      toCreate.push({ reportIndex: report.items.length - 1, data: this.toQuestionData(lessonId, item.question, ++order) });
+    }
+
+    if (!options.dryRun && toCreate.length > 0) {
+      const created = await prisma.$transaction(
+        toCreate.map(c => prisma.question.create({ data: c.data, select: { id: true } }))
+      );
+      created.forEach((question, i) => {
+        const entry = report.items[toCreate[i].reportIndex];
+        entry.status = 'imported';
+        entry.questionId = question.id;
+      });
+      report.imported = created.length;
+    }
+
+    console.log(`📥 ${format.toUpperCase()} import into ${lessonId}: ${report.imported} imported, ${report.invalid} invalid, ${report.duplicates} duplicates${options.dryRun ? ' (dry run)' : ''}`);
+    return report;
+  }
+
+  /**
+   * Export the active questions of a lesson (PROBLEM/ESSAY have no equivalent and are skipped)
+   */
+  async exportQuestions(
+    lessonId: string,
+    format: QuestionBankFormat,
+    options: { questionIds?: string[] } = {}
+  ): Promise<QuestionExport> {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      select: { id: true, title: true, titleAr: true },
+    });
+    if (!lesson) {
+      throw new NotFoundError('Lesson');
+    }
+
+    const questions = await prisma.question.findMany({
+      where: {
+        lessonId,
+        isActive: true,
+        templateId: null,
+        ...(options.questionIds?.length ? { id: { in: options.questionIds } } : {}),
+      },
+      orderBy: { order: 'asc' },
+    });
+
+    const skipped: QuestionExport['skipped'] = [];
+    const bank: BankQuestion[] = [];
+    for (const question of questions) {
+      const converted = this.toBankQuestion(question);
+      if (typeof converted === 'string') {
+        skipped.push({ questionId: question.id, reason: converted });
+      } else {
+        bank.push(converted);
+      }
+    }
+
+    const title = lesson.titleAr || lesson.title;
+    const files = format === 'qti'
+      ? writeQti(bank, lesson.id)
+      : [{ path: `${lesson.id}.gift.txt`, content: writeGift(bank, title) }];
+
+    return { format, count: bank.length, skipped, files };
+  }
+
+  /**
+   * Per-item validation shared by both formats
+   */
+  validate(question: BankQuestion): string[] {
+    const errors: string[] = [];
+
+    if (!SUPPORTED_TYPES.includes(question.type)) {
+      errors.push(`Unsupported question type: ${question.type}`);
+    }
+    if (!question.question?.trim()) {
+      errors.push('Question text is empty');
+    } else if (question.question.length > MAX_QUESTION_LENGTH) {
+      errors.push(`Question text is longer than ${MAX_QUESTION_LENGTH} characters`);
+    }
+    if (!question.correctAnswer?.trim()) {
+      errors.push('Correct answer is empty');
+    }
+
+    if (question.type === 'MCQ') {
+      const options = question.options || [];
+      if (options.length < 2) errors.push('Multiple choice needs at least 2 options');
+      if (options.length > 8) errors.push('Multiple choice allows at most 8 options');
+      if (options.some(o => !o.trim())) errors.push('Empty option');
+      if (new Set(options.map(o => this.fingerprint(o))).size !== options.length) errors.push('Duplicate options');
+      if (question.correctAnswer && !options.includes(question.correctAnswer)) {
+        errors.push('Correct answer is not one of the options');
+      }
+    }
+
+    if (question.type === 'TRUE_FALSE' && !['true', 'false'].includes(question.correctAnswer)) {
+      errors.push('True/false answer must be true or false');
+    }
+
+    if (question.points !== undefined && (question.points < 1 || question.points > 100)) {
+      errors.push('Points must be between 1 and 100');
+    }
+
+    return errors;
+  }
+
+  // ============= Helpers =============
+
+  private toQuestionData(lessonId: string, question: BankQuestion, order: number) {
+    return {
+      lessonId,
+      type: question.type,
+      question: question.question.trim(),
+      options: question.type === 'MCQ' ? JSON.stringify(question.options) : null,
+      correctAnswer: question.correctAnswer.trim(),
+      explanation: question.explanation || null,
+      points: question.points ?? 1,
+      difficulty: question.difficulty || 'MEDIUM',
+      order,
+      hints: question.hints?.length ? JSON.stringify(question.hints) : null,
+      stepByStepSolution: question.stepByStepSolution?.length ? JSON.stringify(question.stepByStepSolution) : null,
+      tags: question.tags?.length ? JSON.stringify(question.tags) : null,
+      source: 'import',
+    };
+  }
+
+  /**
+   * Database row → neutral question, or the reason it can't be exported
+   */
+  private toBankQuestion(question: Question): BankQuestion | string {
+    if (!SUPPORTED_TYPES.includes(question.type as BankQuestionType)) {
+      return `${question.type} questions have no QTI/GIFT equivalent here`;
+    }
+
+    const bank: BankQuestion = {
+      identifier: question.id,
+      type: question.type as BankQuestionType,
+      question: question.question,
+      correctAnswer: question.correctAnswer,
+      explanation: question.explanation || undefined,
+      hints: this.parseList(question.hints),
+      stepByStepSolution: this.parseList(question.stepByStepSolution),
+      points: question.points,
+      difficulty: question.difficulty,
+      tags: this.parseList(question.tags),
+    };
+
+    if (question.type === 'MCQ') {
+      const options = this.parseList(question.options) || [];
+      // Stored either as the option text or as its index
+      const index = options.includes(question.correctAnswer)
+        ? options.indexOf(question.correctAnswer)
+        : /^\d+$/.test(question.correctAnswer) ? Number(question.correctAnswer) : -1;
+      if (index < 0 || index >= options.length) {
+        return 'Correct answer does not match any option';
+      }
+      bank.options = options;
+      bank.correctAnswer = options[index];
+    }
+
+    if (question.type === 'TRUE_FALSE') {
+      bank.correctAnswer = TRUE_ANSWERS.includes(question.correctAnswer.toLowerCase().trim()) ? 'true' : 'false';
+    }
+
+    return bank;
+  }
+
+  private parseList(value: string | null): string[] | undefined {
+    if (!value) return undefined;
+    try {
+      const parsed = JSON.parse(value);
+      if (!Array.isArray(parsed)) return undefined;
+      // stepByStepSolution may hold objects ({step, explanation})
+      const list = parsed
+        .map(item => typeof item === 'string' ? item : item?.explanation || item?.text || item?.step || '')
+        .map(item => String(item))
+        .filter(Boolean);
+      return list.length ? list : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private fingerprint(text: string): string {
+    return normalizeArabic(text).replace(/\s+/g, ' ').trim();
+  }
+}
+
+// Export singleton instance
+export const questionBankService = new QuestionBankService();
@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { prisma } from '../../config/database.config';
 import { NotFoundError, ValidationError } from '../../utils/errors';
 import { studentProgressService } from '../progress/student-progress.service';
+import { reviewService } from '../quiz/review.service';
+import type { ReviewDueCounts } from '../../types/quiz.types';
 
 // Types
 interface PointsTransaction {
@@ -20,10 +22,11 @@ interface DailyChallenge {
   rewards: ChallengeReward;
   expiresAt: Date;
   difficulty: 'easy' | 'medium' | 'hard';
+  reviewDue?: ReviewDueCounts;
 }
 
 interface ChallengeRequirement {
-  type: 'complete_lessons' | 'quiz_score' | 'study_time' | 'streak';
+  type: 'complete_lessons' | 'quiz_score' | 'study_time' | 'streak' | 'review_cards';
   target: number;
   current?: number;
 }
@@ -222,19 +225,44 @@ export class GamificationService {
       challenges = await this.generateDailyChallenges(userId);
     }
     
+    // 🆕 Spaced-repetition reviews due today become their own challenge
+    const reviewDue = await reviewService.getDueCounts(userId);
+    if ((reviewDue.total > 0 || reviewDue.reviewedToday > 0) &&
+        !challenges.some(c => c.challengeId === 'review_daily')) {
+      challenges.push(await prisma.dailyChallenge.create({
+        data: {
+          userId,
+          challengeId: 'review_daily',
+          date: new Date(),
+          difficulty: 'easy',
+        }
+      }));
+    }
+    
     // Format challenges with progress
     const formattedChallenges: DailyChallenge[] = [];
     
     for (const challenge of challenges) {
       const challengeId = challenge.challengeId;
       // Get challenge details (mock for now)
-      const challengeData = {
-        title: 'التحدي اليومي',
-        description: 'أكمل المهام المطلوبة',
-        difficulty: 'medium' as const,
-        requirements: [{ type: 'complete_lessons' as const, target: 2 }],
-        rewards: { points: 150, coins: 20 }
-      };
+      const challengeData = challengeId === 'review_daily'
+        ? {
+            title: 'مراجعة اليوم',
+            description: `راجع الأسئلة والمفاهيم المستحقة (${reviewDue.total} متبقية)`,
+            difficulty: 'easy' as const,
+            requirements: [{
+              type: 'review_cards' as const,
+              target: Math.max(1, Math.min(20, reviewDue.reviewedToday + reviewDue.total)),
+            }],
+            rewards: { points: 100, coins: 10 }
+          }
+        : {
+            title: 'التحدي اليومي',
+            description: 'أكمل المهام المطلوبة',
+            difficulty: 'medium' as const,
+            requirements: [{ type: 'complete_lessons' as const, target: 2 }],
+            rewards: { points: 150, coins: 20 }
+          };
       
       const progress = await this.getChallengeProgress(userId, challengeData);
       
@@ -246,6 +274,7 @@ export class GamificationService {
         rewards: challengeData.rewards,
         expiresAt: new Date(challenge.date.getTime() + 24 * 60 * 60 * 1000),
         difficulty: challengeData.difficulty,
+        reviewDue,
       });
     }
     
@@ -708,6 +737,17 @@ export class GamificationService {
           });
           req.current = profile?.streak || 0;
           break;
+          
+        case 'review_cards':
+          req.current = await prisma.reviewCard.count({
+            where: {
+              userId,
+              lastReviewedAt: {
+                gte: new Date(new Date().setHours(0, 0, 0, 0)),
+              }
+            }
+          });
+          break;
       }
     }
     
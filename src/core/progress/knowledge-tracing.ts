@@ -0,0 +1,59 @@
+// src/core/progress/knowledge-tracing.ts
+// Bayesian Knowledge Tracing - update P(known) after each observed answer
+
+import type { QuestionType } from '@prisma/client';
+
+export const BKT_DEFAULTS = {
+  pInit: 0.2,    // P(L0) prior before any answer
+  pTransit: 0.15, // P(T) chance of learning from one opportunity
+  pSlip: 0.1,    // P(S) knows it but answers wrong
+  pGuess: 0.2,   // P(G) doesn't know it but answers right
+};
+
+export const MASTERY_THRESHOLD = 0.95;
+export const STRUGGLING_THRESHOLD = 0.4;
+
+/**
+ * Guess probability by question format
+ */
+export function guessProbability(type?: QuestionType | string, optionCount?: number): number {
+  switch (type) {
+    case 'TRUE_FALSE':
+      return 0.5;
+    case 'MCQ':
+      return optionCount && optionCount > 1 ? 1 / optionCount : 0.25;
+    case 'FILL_BLANK':
+    case 'SHORT_ANSWER':
+    case 'PROBLEM':
+      return 0.05;
+    case 'ESSAY':
+      return 0.2;
+    default:
+      return BKT_DEFAULTS.pGuess;
+  }
+}
+
+/**
+ * One BKT step: posterior given the answer, then the learning transition.
+ * Hints make a correct answer weaker evidence (treated as a likelier guess).
+ */
+export function updateKnowledge(
+  pKnown: number,
+  isCorrect: boolean,
+  options: { pGuess?: number; pSlip?: number; pTransit?: number; hintsUsed?: number } = {}
+): number {
+  const pSlip = options.pSlip ?? BKT_DEFAULTS.pSlip;
+  const pTransit = options.pTransit ?? BKT_DEFAULTS.pTransit;
+  let pGuess = options.pGuess ?? BKT_DEFAULTS.pGuess;
+  if (options.hintsUsed) {
+    pGuess = Math.min(0.6, pGuess + 0.15 * options.hintsUsed);
+  }
+
+  const posterior = isCorrect
+    ? (pKnown * (1 - pSlip)) / (pKnown * (1 - pSlip) + (1 - pKnown) * pGuess)
+    : (pKnown * pSlip) / (pKnown * pSlip + (1 - pKnown) * (1 - pGuess));
+
+  const next = posterior + (1 - posterior) * pTransit;
+  // Keep away from 0/1 so a single answer can always move it
+  return Math.min(0.999, Math.max(0.001, next));
+}
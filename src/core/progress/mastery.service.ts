@@ -0,0 +1,259 @@
+// src/core/progress/mastery.service.ts
+// Per-student concept mastery tracked with Bayesian Knowledge Tracing
+
+import { prisma } from '../../config/database.config';
+import { normalizeArabic } from '../rag/arabic.normalizer';
+import {
+  BKT_DEFAULTS,
+  MASTERY_THRESHOLD,
+  STRUGGLING_THRESHOLD,
+  guessProbability,
+  updateKnowledge,
+} from './knowledge-tracing';
+import type { Concept, ConceptMastery, Question } from '@prisma/client';
+import type {
+  ConceptMasteryEntry,
+  ConceptMasteryState,
+  ConceptMasteryUpdate,
+  MasteryEvidence,
+} from '../../types/progress.types';
+
+const MIN_ATTEMPTS_FOR_STRUGGLING = 3;
+
+export class MasteryService {
+
+  /**
+   * Update mastery of the concepts covered by a quiz question
+   */
+  async recordQuestionAnswer(
+    userId: string,
+    question: Question,
+    answer: { isCorrect: boolean; hintsUsed?: number }
+  ): Promise<ConceptMasteryUpdate[]> {
+    const concepts = await this.findConceptsForText(
+      question.lessonId,
+      `${question.question} ${question.tags || ''} ${question.learningObjective || ''}`
+    );
+    if (concepts.length === 0) return [];
+
+    let optionCount: number | undefined;
+    try {
+      optionCount = question.options ? JSON.parse(question.options).length : undefined;
+    } catch {
+      optionCount = undefined;
+    }
+
+    return this.recordEvidence(userId, concepts, {
+      isCorrect: answer.isCorrect,
+      hintsUsed: answer.hintsUsed,
+      guessProbability: guessProbability(question.type, optionCount),
+      source: 'quiz',
+    });
+  }
+
+  /**
+   * Update mastery from an in-lesson slide question.
+   * Concepts come from explicit ids or are matched against the question text.
+   */
+  async recordSlideAnswer(
+    userId: string,
+    lessonId: string,
+    answer: { isCorrect: boolean; questionText?: string; conceptIds?: string[]; optionCount?: number }
+  ): Promise<ConceptMasteryUpdate[]> {
+    const concepts = answer.conceptIds?.length
+      ? await prisma.concept.findMany({ where: { id: { in: answer.conceptIds }, lessonId } })
+      : answer.questionText
+        ? await this.findConceptsForText(lessonId, answer.questionText)
+        : [];
+    if (concepts.length === 0) return [];
+
+    return this.recordEvidence(userId, concepts, {
+      isCorrect: answer.isCorrect,
+      guessProbability: guessProbability('MCQ', answer.optionCount),
+      source: 'slide',
+    });
+  }
+
+  /**
+   * Remember a student's first answer to a slide question.
+   * false when it was answered before - repeating a slide must not add mastery evidence.
+   */
+  async claimSlideAnswer(userId: string, lessonId: string, questionKey: string, isCorrect: boolean): Promise<boolean> {
+    try {
+      await prisma.slideAnswer.create({ data: { userId, lessonId, questionKey, isCorrect } });
+      return true;
+    } catch (error: any) {
+      if (error.code === 'P2002') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Apply one observed answer to each concept
+   */
+  async recordEvidence(
+    userId: string,
+    concepts: Concept[],
+    evidence: MasteryEvidence
+  ): Promise<ConceptMasteryUpdate[]> {
+    const updates: ConceptMasteryUpdate[] = [];
+
+    for (const concept of concepts) {
+      const existing = await prisma.conceptMastery.findUnique({
+        where: { userId_conceptId: { userId, conceptId: concept.id } },
+      });
+
+      const before = existing?.pKnown ?? BKT_DEFAULTS.pInit;
+      const after = updateKnowledge(before, evidence.isCorrect, {
+        pGuess: evidence.guessProbability,
+        hintsUsed: evidence.hintsUsed,
+      });
+      const mastered = after >= MASTERY_THRESHOLD;
+      const newlyMastered = mastered && !existing?.masteredAt;
+
+      await prisma.conceptMastery.upsert({
+        where: { userId_conceptId: { userId, conceptId: concept.id } },
+        update: {
+          pKnown: after,
+          attempts: { increment: 1 },
+          correct: { increment: evidence.isCorrect ? 1 : 0 },
+          lastCorrect: evidence.isCorrect,
+          masteredAt: mastered ? existing?.masteredAt ?? new Date() : null,
+        },
+        create: {
+          userId,
+          conceptId: concept.id,
+          lessonId: concept.lessonId,
+          pKnown: after,
+          attempts: 1,
+          correct: evidence.isCorrect ? 1 : 0,
+          lastCorrect: evidence.isCorrect,
+          masteredAt: mastered ? new Date() : null,
+        },
+      });
+
+      updates.push({
+        conceptId: concept.id,
+        name: concept.nameAr || concept.name,
+        before: Math.round(before * 1000) / 1000,
+        after: Math.round(after * 1000) / 1000,
+        mastered,
+        newlyMastered,
+      });
+    }
+
+    if (updates.some(u => u.newlyMastered)) {
+      console.log(`🎯 ${userId} mastered: ${updates.filter(u => u.newlyMastered).map(u => u.name).join(', ')}`);
+    }
+
+    return updates;
+  }
+
+  /**
+   * Mastery of every concept of a lesson (concepts never practiced use the prior)
+   */
+  async getLessonMastery(userId: string, lessonId: string): Promise<ConceptMasteryEntry[]> {
+    const [concepts, rows] = await Promise.all([
+      prisma.concept.findMany({ where: { lessonId } }),
+      prisma.conceptMastery.findMany({ where: { userId, lessonId } }),
+    ]);
+    const byConcept = new Map(rows.map(r => [r.conceptId, r]));
+
+    return concepts.map(concept => this.toEntry(concept, byConcept.get(concept.id)));
+  }
+
+  /**
+   * Every concept the student has practiced, weakest first
+   */
+  async getStudentMastery(userId: string): Promise<ConceptMasteryEntry[]> {
+    const rows = await prisma.conceptMastery.findMany({
+      where: { userId },
+      include: { concept: true },
+      orderBy: { pKnown: 'asc' },
+    });
+
+    return rows.map(row => this.toEntry(row.concept, row));
+  }
+
+  /**
+   * Average P(known) of a lesson's concepts, null when the lesson has none
+   */
+  async getLessonMasteryScore(userId: string, lessonId: string): Promise<number | null> {
+    const entries = await this.getLessonMastery(userId, lessonId);
+    if (entries.length === 0) return null;
+    return entries.reduce((sum, e) => sum + e.pKnown, 0) / entries.length;
+  }
+
+  /**
+   * Order items so the ones touching weak concepts come first.
+   * Items about already-mastered concepts only go last; order is otherwise kept.
+   */
+  rankByMastery<T>(items: T[], getText: (item: T) => string, entries: ConceptMasteryEntry[]): T[] {
+    if (entries.length === 0) return items;
+
+    const names = entries
+      .map(entry => ({ entry, name: normalizeArabic(entry.name) }))
+      .filter(n => n.name.length >= 3);
+
+    const scored = items.map((item, index) => {
+      const text = normalizeArabic(getText(item));
+      const matched = names.filter(n => text.includes(n.name)).map(n => n.entry);
+      // Unmatched items sit in the middle: unknown is neither weak nor mastered
+      const priority = matched.length > 0
+        ? Math.max(...matched.map(e => 1 - e.pKnown))
+        : 0.5;
+      return { item, index, priority };
+    });
+
+    return scored
+      .sort((a, b) => (b.priority - a.priority) || (a.index - b.index))
+      .map(s => s.item);
+  }
+
+  /**
+   * Concepts of a lesson whose name appears in the given text
+   */
+  async findConceptsForText(lessonId: string, text: string): Promise<Concept[]> {
+    const concepts = await prisma.concept.findMany({ where: { lessonId } });
+    if (concepts.length === 0) return [];
+
+    const normalized = normalizeArabic(text);
+    return concepts.filter(concept => this.conceptNames(concept).some(name => normalized.includes(name)));
+  }
+
+  conceptNames(concept: Concept): string[] {
+    return [concept.nameAr, concept.name]
+      .filter(Boolean)
+      .map(name => normalizeArabic(name))
+      .filter(name => name.length >= 3);
+  }
+
+  private toEntry(concept: Concept, row?: ConceptMastery): ConceptMasteryEntry {
+    const pKnown = row?.pKnown ?? BKT_DEFAULTS.pInit;
+    const attempts = row?.attempts ?? 0;
+
+    return {
+      conceptId: concept.id,
+      name: concept.nameAr || concept.name,
+      lessonId: concept.lessonId,
+      pKnown: Math.round(pKnown * 1000) / 1000,
+      attempts,
+      correct: row?.correct ?? 0,
+      state: this.getState(pKnown, attempts),
+      masteredAt: row?.masteredAt ?? undefined,
+    };
+  }
+
+  /**
+   * Classify P(known): struggling needs a few attempts so one early miss doesn't label a student
+   */
+  getState(pKnown: number, attempts: number): ConceptMasteryState {
+    if (attempts === 0) return 'unknown';
+    if (pKnown >= MASTERY_THRESHOLD) return 'mastered';
+    if (attempts >= MIN_ATTEMPTS_FOR_STRUGGLING && pKnown < STRUGGLING_THRESHOLD) return 'struggling';
+    return 'learning';
+  }
+}
+
+// Export singleton instance
+export const masteryService = new MasteryService();
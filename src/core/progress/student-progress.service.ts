@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { prisma } from '../../config/database.config';
 import { NotFoundError } from '../../utils/errors';
+import { prerequisiteService } from '../content/prerequisite.service';
 import type {
   StudentProgress,
   OverallProgress,
@@ -807,6 +808,24 @@ export class StudentProgressService {
   }
   
   private async getRecommendedLessons(userId: string): Promise<any[]> {
+    // Lessons whose prerequisites are mastered come first
+    const ready = await prerequisiteService.getReadyToLearn(userId, { limit: 3 });
+    if (ready.length > 0) {
+      return ready.map(lesson => ({
+        lessonId: lesson.lessonId,
+        lessonTitle: lesson.title,
+        reason: lesson.inProgress
+          ? 'أكمل الدرس الحالي'
+          : lesson.unlockedBy
+            ? `أتقنت ${lesson.unlockedBy}`
+            : 'الدرس التالي في الوحدة',
+        priority: lesson.inProgress || lesson.unlockedBy ? 'high' : 'medium',
+        estimatedTime: lesson.estimatedMinutes,
+        prerequisites: lesson.prerequisites,
+        skillsToGain: [],
+      }));
+    }
+
     // Get next lessons in sequence
     const lastCompleted = await prisma.progress.findFirst({
       where: {
@@ -0,0 +1,15 @@
+// src/core/quiz/answer.options.ts
+// مطابقة إجابة الاختيار من متعدد مع رقم الاختيار
+
+import { normalizeArabic } from '../rag/arabic.normalizer';
+
+/**
+ * MCQ answers are stored either as the option index or as its text
+ */
+export function optionIndex(options: string[], answer: string): number {
+  const value = answer.trim();
+  const normalized = normalizeArabic(value);
+  const byText = options.findIndex(o => normalizeArabic(o.trim()) === normalized);
+  if (byText >= 0) return byText;
+  return /^\d+$/.test(value) && Number(value) < options.length ? Number(value) : -1;
+}
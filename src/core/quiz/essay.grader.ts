@@ -0,0 +1,220 @@
+// src/core/quiz/essay.grader.ts
+// Rubric grading for essay and short-answer questions (LLM with offline fallback)
+
+import { z } from 'zod';
+import { openAIService } from '../../services/ai/openai.service';
+import { tokenizeArabic } from '../rag/arabic.normalizer';
+import type { Question } from '@prisma/client';
+import type {
+  CriterionScore,
+  GradingResult,
+  GradingSource,
+  QuestionRubric,
+  RubricCriterion,
+} from '../../types/quiz.types';
+
+// Fraction of the rubric needed for the answer to count as correct
+export const PASS_CREDIT = 0.6;
+
+const MAX_ANSWER_LENGTH = 4000;
+
+const aiGradingSchema = z.object({
+  criteria: z.array(z.object({
+    criterionId: z.string().optional(),
+    id: z.string().optional(),
+    score: z.number().min(0).optional(),
+    feedback: z.string().optional(),
+  })).optional(),
+  feedback: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+type AIGradingResponse = z.infer<typeof aiGradingSchema>;
+
+export class EssayGrader {
+
+  /**
+   * Grade one answer against the question rubric.
+   * Uses the LLM when available and falls back to keyword coverage offline.
+   */
+  async grade(question: Question, answer: string): Promise<GradingResult> {
+    const rubric = this.getRubric(question);
+    const text = answer.trim().slice(0, MAX_ANSWER_LENGTH);
+
+    if (!text) {
+      return this.buildResult(
+        rubric.criteria.map(c => ({ criterionId: c.id, score: 0, maxPoints: c.maxPoints })),
+        'لم يتم كتابة إجابة.',
+        'offline',
+        false
+      );
+    }
+
+    if (openAIService.isReady()) {
+      try {
+        const result = await this.gradeWithAI(question, rubric, text);
+        if (result) return result;
+      } catch (error) {
+        console.error('AI grading failed, using offline grader:', error);
+      }
+    }
+
+    return this.gradeOffline(question, rubric, text);
+  }
+
+  /**
+   * Rubric stored on the question, or a single criterion built from the model answer
+   */
+  getRubric(question: Question): QuestionRubric {
+    if (question.rubric) {
+      try {
+        const parsed = JSON.parse(question.rubric) as QuestionRubric;
+        const criteria = (parsed.criteria || []).filter(c => c.id && c.maxPoints > 0);
+        if (criteria.length > 0) {
+          return { criteria, modelAnswer: parsed.modelAnswer || question.correctAnswer };
+        }
+      } catch {
+        // Invalid rubric JSON: fall through to the default
+      }
+    }
+
+    return {
+      criteria: [{
+        id: 'accuracy',
+        description: 'الإجابة تغطي عناصر الإجابة النموذجية',
+        maxPoints: question.type === 'ESSAY' ? 4 : 2,
+      }],
+      modelAnswer: question.correctAnswer,
+    };
+  }
+
+  /**
+   * Combine criterion scores into a grade (used for teacher overrides too)
+   */
+  buildResult(
+    criteria: CriterionScore[],
+    feedback: string,
+    gradedBy: GradingSource,
+    needsReview: boolean
+  ): GradingResult {
+    const max = criteria.reduce((sum, c) => sum + c.maxPoints, 0);
+    const earned = criteria.reduce((sum, c) => sum + c.score, 0);
+    const credit = max > 0 ? Math.round((earned / max) * 1000) / 1000 : 0;
+
+    return {
+      credit,
+      // A grade waiting for a teacher is provisional: partial credit, but not correct yet
+      isCorrect: credit >= PASS_CREDIT && !needsReview,
+      criteria,
+      feedback,
+      gradedBy,
+      needsReview,
+    };
+  }
+
+  /**
+   * Deterministic grading: share of each criterion's keywords found in the answer
+   */
+  gradeOffline(question: Question, rubric: QuestionRubric, answer: string): GradingResult {
+    const answerTokens = new Set(tokenizeArabic(answer));
+    const modelKeywords = this.uniqueTokens(rubric.modelAnswer || question.correctAnswer);
+
+    const scores = rubric.criteria.map(criterion => {
+      const keywords = criterion.keywords?.length
+        ? this.uniqueTokens(criterion.keywords.join(' '))
+        : modelKeywords;
+      const coverage = keywords.length > 0
+        ? keywords.filter(k => this.hasToken(answerTokens, k)).length / keywords.length
+        : 0;
+
+      return {
+        criterionId: criterion.id,
+        score: Math.round(criterion.maxPoints * coverage * 2) / 2,
+        maxPoints: criterion.maxPoints,
+        feedback: this.coverageFeedback(criterion, coverage),
+      };
+    });
+
+    // Keyword matching can't judge essays well: a teacher should confirm them
+    const earned = scores.reduce((sum, s) => sum + s.score, 0) / scores.reduce((sum, s) => sum + s.maxPoints, 0);
+    const needsReview = question.type === 'ESSAY' || (earned > 0.3 && earned < 0.8);
+
+    const result = this.buildResult(scores, '', 'offline', needsReview);
+    // No verdict while a teacher still has to confirm the grade
+    result.feedback = needsReview
+      ? 'تم استلام إجابتك، وسيراجعها المعلم قبل اعتماد الدرجة.'
+      : result.credit >= PASS_CREDIT
+        ? 'إجابتك تغطي أهم عناصر الإجابة.'
+        : 'إجابتك ناقصة، راجع الإجابة النموذجية وأكمل العناصر الناقصة.';
+    return result;
+  }
+
+  // ============= Helpers =============
+
+  private async gradeWithAI(question: Question, rubric: QuestionRubric, answer: string): Promise<GradingResult | null> {
+    const criteriaText = rubric.criteria
+      .map(c => `- ${c.id} (${c.maxPoints} درجات): ${c.description}`)
+      .join('\n');
+
+    const response = await openAIService.chatJSON<AIGradingResponse>([
+      {
+        role: 'system',
+        content: `أنت مصحح لإجابات طلاب المرحلة الإعدادية في مصر. صحح الإجابة حسب معايير التقييم فقط وكن عادلاً.
+أعط لكل معيار درجة من 0 إلى الدرجة القصوى (يسمح بأنصاف الدرجات) وتعليقاً قصيراً باللغة العربية.
+الرد بصيغة JSON: {"criteria": [{"criterionId": "...", "score": 0, "feedback": "..."}], "feedback": "تعليق عام للطالب", "confidence": 0.0-1.0}`,
+      },
+      {
+        role: 'user',
+        content: `السؤال: ${question.question}
+
+الإجابة النموذجية: ${rubric.modelAnswer || question.correctAnswer}
+
+معايير التقييم:
+${criteriaText}
+
+إجابة الطالب:
+${answer}`,
+      },
+    ], { temperature: 0, maxTokens: 600, schema: aiGradingSchema });
+
+    if (!Array.isArray(response?.criteria)) return null;
+
+    const byId = new Map(response.criteria.map(c => [c.criterionId || c.id, c]));
+    const scores: CriterionScore[] = [];
+    for (const criterion of rubric.criteria) {
+      const graded = byId.get(criterion.id);
+      if (!graded || typeof graded.score !== 'number' || isNaN(graded.score)) return null;
+      scores.push({
+        criterionId: criterion.id,
+        score: Math.min(criterion.maxPoints, Math.max(0, Math.round(graded.score * 2) / 2)),
+        maxPoints: criterion.maxPoints,
+        feedback: graded.feedback,
+      });
+    }
+
+    const confidence = typeof response.confidence === 'number' ? response.confidence : 1;
+    return this.buildResult(scores, response.feedback || '', 'ai', confidence < 0.6);
+  }
+
+  private uniqueTokens(text: string): string[] {
+    return [...new Set(tokenizeArabic(text))];
+  }
+
+  private hasToken(tokens: Set<string>, keyword: string): boolean {
+    if (tokens.has(keyword)) return true;
+    if (keyword.length < 4) return false;
+    for (const token of tokens) {
+      if (token.length >= 4 && (token.includes(keyword) || keyword.includes(token))) return true;
+    }
+    return false;
+  }
+
+  private coverageFeedback(criterion: RubricCriterion, coverage: number): string {
+    if (coverage >= 0.8) return `أحسنت: ${criterion.description}`;
+    if (coverage >= 0.4) return `جزئياً: ${criterion.description}`;
+    return `غير متحقق: ${criterion.description}`;
+  }
+}
+
+// Export singleton instance
+export const essayGrader = new EssayGrader();
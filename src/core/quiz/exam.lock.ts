@@ -0,0 +1,34 @@
+// src/core/quiz/exam.lock.ts
+// أسئلة الامتحانات اللي لسه مفتوحة - ممنوع تصحيحها أو كشف تلميحاتها خارج الامتحان
+
+import { prisma } from '../../config/database.config';
+
+/**
+ * Ids of the questions in exams that are active, not closed yet and whose results
+ * are not released (exams created before closesAt was required unlock on release)
+ */
+export async function getOpenExamQuestionIds(lessonId?: string): Promise<Set<string>> {
+  const now = new Date();
+  const exams = await prisma.exam.findMany({
+    where: {
+      ...(lessonId ? { lessonId } : {}),
+      isActive: true,
+      AND: [
+        { OR: [{ closesAt: null }, { closesAt: { gt: now } }] },
+        { OR: [{ resultsReleaseAt: null }, { resultsReleaseAt: { gt: now } }] },
+      ],
+    },
+    select: { questionIds: true },
+  });
+
+  const ids = new Set<string>();
+  for (const exam of exams) {
+    try {
+      const parsed = JSON.parse(exam.questionIds);
+      if (Array.isArray(parsed)) parsed.forEach((id: unknown) => typeof id === 'string' && ids.add(id));
+    } catch {
+      // exam without a readable question set locks nothing
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,795 @@
+// src/core/quiz/exam.service.ts
+// وضع الامتحان: أسئلة ثابتة بترتيب ثابت (seed)، وقت يفرضه السيرفر،
+// بدون تلميحات أو شرح، تسليم تلقائي عند انتهاء الوقت، ونتائج تظهر في موعد يحدده المعلم
+
+import { prisma } from '../../config/database.config';
+import { quizService } from './quiz.service';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError
+} from '../../utils/errors';
+import { hashSeed, randomSeed, seededShuffle } from '../../utils/random.utils';
+import type { Exam, Question, QuizAttempt, UserRole } from '@prisma/client';
+import type {
+  ExamAnswerReceipt,
+  ExamFocusEvent,
+  ExamFocusEventType,
+  ExamQuestion,
+  ExamReport,
+  ExamResult,
+  ExamSession,
+  ExamSubmission,
+  QuestionResult,
+  QuizQuestion
+} from '../../types/quiz.types';
+
+interface Requester {
+  userId: string;
+  role: UserRole;
+}
+
+interface CreateExamInput {
+  lessonId: string;
+  title?: string;
+  questionIds?: string[];     // fixed set chosen by the teacher
+  questionCount?: number;     // otherwise drawn from the lesson with the seed
+  timeLimit?: number;         // seconds, defaults to the sum of per-question caps
+  maxAttempts?: number;
+  opensAt?: Date;
+  closesAt: Date;             // required: the exam's questions are locked out of practice until then
+  resultsReleaseAt?: Date;
+  seed?: number;
+}
+
+interface UpdateExamInput {
+  title?: string;
+  timeLimit?: number;
+  maxAttempts?: number;
+  opensAt?: Date | null;
+  closesAt?: Date;
+  isActive?: boolean;
+}
+
+// Per-attempt state kept on QuizAttempt.examState
+interface ExamState {
+  questionIds: string[];              // this student's order
+  openedAt: Record<string, number>;   // questionId → server time (ms) it was first shown
+}
+
+type AutoSubmitListener = (userId: string, submission: ExamSubmission) => void;
+
+const DEFAULT_QUESTION_COUNT = 10;
+const GRACE_SECONDS = 5;              // network latency allowance on per-question caps
+const MAX_FOCUS_EVENTS = 200;
+const FOCUS_LOSS_EVENTS: ExamFocusEventType[] = ['blur', 'hidden', 'fullscreen_exit'];
+
+/**
+ * Exam Service
+ * Timed, proctoring-style quiz attempts on top of QuizAttempt
+ */
+export class ExamService {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private submitting = new Map<string, Promise<void>>();
+  private listeners: AutoSubmitListener[] = [];
+
+  // ============= TEACHER =============
+
+  /**
+   * Create an exam with a fixed question set
+   */
+  async createExam(teacherId: string, input: CreateExamInput): Promise<Exam> {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: input.lessonId },
+      select: { id: true, title: true, titleAr: true }
+    });
+    if (!lesson) {
+      throw new NotFoundError('Lesson');
+    }
+
+    if (input.closesAt <= (input.opensAt ?? new Date())) {
+      throw new ValidationError('closesAt must be after opensAt and in the future');
+    }
+
+    const seed = input.seed ?? randomSeed();
+    const questions = await this.pickQuestions(
+      input.lessonId,
+      input.questionIds,
+      input.questionCount ?? DEFAULT_QUESTION_COUNT,
+      seed
+    );
+    if (questions.length === 0) {
+      throw new ValidationError('Lesson has no active questions for an exam');
+    }
+
+    const timeLimit = input.timeLimit ?? questions.reduce(
+      (sum, q) => sum + quizService.getTimeLimit(q.difficulty, q.type), 0
+    );
+
+    const exam = await prisma.exam.create({
+      data: {
+        lessonId: input.lessonId,
+        teacherId,
+        title: input.title || `امتحان: ${lesson.titleAr || lesson.title}`,
+        questionIds: JSON.stringify(questions.map(q => q.id)),
+        seed,
+        timeLimit,
+        maxAttempts: input.maxAttempts ?? 1,
+        opensAt: input.opensAt,
+        closesAt: input.closesAt,
+        resultsReleaseAt: input.resultsReleaseAt
+      }
+    });
+
+    console.log(`📝 Exam ${exam.id} created: ${questions.length} questions, ${timeLimit}s`);
+    return exam;
+  }
+
+  async updateExam(requester: Requester, examId: string, input: UpdateExamInput): Promise<Exam> {
+    const exam = await this.getManagedExam(requester, examId);
+
+    const opensAt = input.opensAt === undefined ? exam.opensAt : input.opensAt;
+    const closesAt = input.closesAt === undefined ? exam.closesAt : input.closesAt;
+    if (opensAt && closesAt && closesAt <= opensAt) {
+      throw new ValidationError('closesAt must be after opensAt');
+    }
+
+    return await prisma.exam.update({
+      where: { id: examId },
+      data: input
+    });
+  }
+
+  /**
+   * Set when students may see their results (null hides them again)
+   */
+  async setResultsRelease(requester: Requester, examId: string, releaseAt: Date | null): Promise<Exam> {
+    await this.getManagedExam(requester, examId);
+
+    return await prisma.exam.update({
+      where: { id: examId },
+      data: { resultsReleaseAt: releaseAt }
+    });
+  }
+
+  /**
+   * Exams students can see for a lesson (question set and seed stay private)
+   */
+  async getLessonExams(lessonId: string) {
+    return await prisma.exam.findMany({
+      where: { lessonId, isActive: true },
+      select: {
+        id: true,
+        lessonId: true,
+        title: true,
+        timeLimit: true,
+        maxAttempts: true,
+        opensAt: true,
+        closesAt: true,
+        resultsReleaseAt: true
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Attempts, scores and focus-loss events for the teacher
+   */
+  async getExamReport(requester: Requester, examId: string): Promise<ExamReport> {
+    const exam = await this.getManagedExam(requester, examId);
+
+    const attempts = await prisma.quizAttempt.findMany({
+      where: { examId },
+      include: { user: { select: { firstName: true, lastName: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return {
+      examId: exam.id,
+      title: exam.title,
+      lessonId: exam.lessonId,
+      questionCount: this.parseList(exam.questionIds).length,
+      timeLimit: exam.timeLimit,
+      resultsReleaseAt: exam.resultsReleaseAt,
+      attempts: attempts.map(a => ({
+        attemptId: a.id,
+        userId: a.userId,
+        studentName: `${a.user.firstName} ${a.user.lastName}`,
+        startedAt: a.createdAt,
+        submittedAt: a.completedAt,
+        score: a.score !== null ? Math.round(a.score) : null,
+        autoSubmitted: a.autoSubmitted,
+        focusLossCount: a.focusLossCount,
+        focusEvents: this.parseFocusEvents(a.focusEvents)
+      }))
+    };
+  }
+
+  // ============= STUDENT =============
+
+  /**
+   * Start (or resume) an attempt; the clock starts on the server now
+   */
+  async startExam(userId: string, examId: string): Promise<ExamSession> {
+    const exam = await prisma.exam.findUnique({ where: { id: examId } });
+    if (!exam || !exam.isActive) {
+      throw new NotFoundError('Exam');
+    }
+
+    const now = new Date();
+    if (exam.opensAt && exam.opensAt > now) {
+      throw new ValidationError('Exam is not open yet');
+    }
+    if (exam.closesAt && exam.closesAt <= now) {
+      throw new ValidationError('Exam is closed');
+    }
+
+    const previous = await prisma.quizAttempt.findMany({
+      where: { examId, userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const open = previous.find(a => !a.completedAt);
+    if (open) {
+      if (!this.isExpired(open)) {
+        this.scheduleAutoSubmit(open);
+        return await this.buildSession(exam, open);
+      }
+      await this.autoSubmit(open.id);
+    }
+
+    if (previous.length >= exam.maxAttempts) {
+      throw new ConflictError('No attempts left for this exam');
+    }
+
+    // Same student + attempt number → same order, even after a restart
+    const questionIds = seededShuffle(
+      this.parseList(exam.questionIds),
+      (exam.seed ^ hashSeed(`${userId}:${previous.length}`)) >>> 0
+    );
+
+    // The attempt can't outlive the exam window
+    let expiresAt = new Date(now.getTime() + exam.timeLimit * 1000);
+    if (exam.closesAt && exam.closesAt < expiresAt) {
+      expiresAt = exam.closesAt;
+    }
+
+    const state: ExamState = { questionIds, openedAt: {} };
+    let attempt: QuizAttempt;
+    try {
+      attempt = await prisma.quizAttempt.create({
+        data: {
+          userId,
+          lessonId: exam.lessonId,
+          examId,
+          attemptNumber: previous.length + 1,
+          mode: 'exam',
+          totalQuestions: questionIds.length,
+          correctAnswers: 0,
+          expiresAt,
+          examState: JSON.stringify(state)
+        }
+      });
+    } catch (error: any) {
+      if (error.code !== 'P2002') throw error;
+
+      // A parallel start (double click, second tab) created this attempt first: resume it
+      const started = await prisma.quizAttempt.findUnique({
+        where: { examId_userId_attemptNumber: { examId, userId, attemptNumber: previous.length + 1 } }
+      });
+      if (!started || started.completedAt) {
+        throw new ConflictError('Exam attempt was already started');
+      }
+      this.scheduleAutoSubmit(started);
+      return await this.buildSession(exam, started);
+    }
+
+    this.scheduleAutoSubmit(attempt);
+    console.log(`⏱️ Exam ${examId} started by ${userId}, expires ${expiresAt.toISOString()}`);
+
+    return await this.buildSession(exam, attempt);
+  }
+
+  async getSession(userId: string, attemptId: string): Promise<ExamSession> {
+    const attempt = await this.getActiveAttempt(userId, attemptId);
+    return await this.buildSession(attempt.exam, attempt);
+  }
+
+  /**
+   * Mark a question as shown; its time cap is measured from here on the server
+   */
+  async openQuestion(
+    userId: string,
+    attemptId: string,
+    questionId: string
+  ): Promise<{ questionId: string; timeLimit: number; remainingSeconds: number }> {
+    const attempt = await this.getActiveAttempt(userId, attemptId);
+    const state = this.parseState(attempt.examState);
+    const question = await this.getExamQuestion(state, questionId);
+
+    if (!state.openedAt[questionId]) {
+      state.openedAt[questionId] = Date.now();
+      await prisma.quizAttempt.update({
+        where: { id: attemptId },
+        data: { examState: JSON.stringify(state) }
+      });
+    }
+
+    const timeLimit = quizService.getTimeLimit(question.difficulty, question.type);
+    const elapsed = Math.floor((Date.now() - state.openedAt[questionId]) / 1000);
+
+    return {
+      questionId,
+      timeLimit,
+      remainingSeconds: Math.max(0, Math.min(timeLimit - elapsed, this.remainingSeconds(attempt)))
+    };
+  }
+
+  /**
+   * Record an answer without any feedback. Answers are final.
+   */
+  async submitAnswer(
+    userId: string,
+    attemptId: string,
+    questionId: string,
+    answer: string
+  ): Promise<ExamAnswerReceipt> {
+    const attempt = await this.getActiveAttempt(userId, attemptId);
+    const state = this.parseState(attempt.examState);
+    const question = await this.getExamQuestion(state, questionId);
+
+    const existing = await prisma.quizAttemptAnswer.findUnique({
+      where: { attemptId_questionId: { attemptId, questionId } }
+    });
+    if (existing) {
+      throw new ConflictError('Question already answered');
+    }
+
+    const cap = quizService.getTimeLimit(question.difficulty, question.type);
+    const { elapsed, late } = this.answerTiming(state.openedAt[questionId], cap);
+
+    try {
+      if (late) {
+        await prisma.quizAttemptAnswer.create({
+          data: { attemptId, questionId, userAnswer: answer, isCorrect: false, timeSpent: cap }
+        });
+      } else {
+        await quizService.submitAnswer(attemptId, questionId, answer, Math.min(elapsed, cap), {
+          hintsUsed: 0,
+          exam: true
+        });
+      }
+    } catch (error: any) {
+      // The same answer sent twice at once: the first one was recorded
+      if (error.code === 'P2002') {
+        throw new ConflictError('Question already answered');
+      }
+      throw error;
+    }
+
+    const answered = await prisma.quizAttemptAnswer.count({ where: { attemptId } });
+
+    return {
+      questionId,
+      late,
+      answered,
+      total: state.questionIds.length,
+      remainingSeconds: this.remainingSeconds(attempt)
+    };
+  }
+
+  /**
+   * Time taken on a question, measured only from the server's openedAt.
+   * A question that was never opened has no trustworthy start and can't be answered.
+   */
+  answerTiming(openedAt: number | undefined, cap: number, now: number = Date.now()): { elapsed: number; late: boolean } {
+    if (!openedAt) {
+      throw new ValidationError('Open the question before answering it');
+    }
+
+    const elapsed = Math.max(0, Math.round((now - openedAt) / 1000));
+    return { elapsed, late: elapsed > cap + GRACE_SECONDS };
+  }
+
+  /**
+   * Tab switches, window blur, leaving full screen...
+   */
+  async recordFocusEvent(
+    userId: string,
+    attemptId: string,
+    type: ExamFocusEventType
+  ): Promise<{ focusLossCount: number }> {
+    const attempt = await this.getOwnedAttempt(userId, attemptId);
+    if (attempt.completedAt) {
+      return { focusLossCount: attempt.focusLossCount };
+    }
+
+    const events = this.parseFocusEvents(attempt.focusEvents);
+    events.push({ type, at: new Date().toISOString() });
+
+    const isLoss = FOCUS_LOSS_EVENTS.includes(type);
+    const updated = await prisma.quizAttempt.update({
+      where: { id: attemptId },
+      data: {
+        focusEvents: JSON.stringify(events.slice(-MAX_FOCUS_EVENTS)),
+        ...(isLoss && { focusLossCount: { increment: 1 } })
+      }
+    });
+
+    return { focusLossCount: updated.focusLossCount };
+  }
+
+  async submitExam(userId: string, attemptId: string): Promise<ExamSubmission> {
+    const attempt = await this.getOwnedAttempt(userId, attemptId);
+    if (!attempt.completedAt) {
+      await this.finalize(attemptId, this.isExpired(attempt));
+    }
+    return await this.buildSubmission(attemptId);
+  }
+
+  /**
+   * Results are only included once the release date has passed
+   */
+  async getResult(userId: string, attemptId: string): Promise<ExamSubmission> {
+    const attempt = await this.getOwnedAttempt(userId, attemptId);
+    if (!attempt.completedAt) {
+      if (!this.isExpired(attempt)) {
+        throw new ValidationError('Exam has not been submitted yet');
+      }
+      await this.autoSubmit(attemptId);
+    }
+    return await this.buildSubmission(attemptId);
+  }
+
+  // ============= TIMERS =============
+
+  /**
+   * Notified after an attempt is submitted because time ran out (WebSocket push)
+   */
+  onAutoSubmit(listener: AutoSubmitListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Re-arm timers for attempts still running (timers don't survive a restart)
+   */
+  async resumeTimers(): Promise<number> {
+    const running = await prisma.quizAttempt.findMany({
+      where: { mode: 'exam', completedAt: null, expiresAt: { not: null } },
+      select: { id: true, expiresAt: true }
+    });
+
+    running.forEach(attempt => this.scheduleAutoSubmit(attempt));
+    return running.length;
+  }
+
+  /**
+   * Remaining time for a running attempt (used by the socket on join)
+   */
+  async getTimer(userId: string, attemptId: string): Promise<{ expiresAt: Date; remainingSeconds: number }> {
+    const attempt = await this.getActiveAttempt(userId, attemptId);
+    this.scheduleAutoSubmit(attempt);
+    return { expiresAt: attempt.expiresAt!, remainingSeconds: this.remainingSeconds(attempt) };
+  }
+
+  private scheduleAutoSubmit(attempt: { id: string; expiresAt: Date | null }): void {
+    if (!attempt.expiresAt || this.timers.has(attempt.id)) return;
+
+    const delay = Math.max(0, attempt.expiresAt.getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(attempt.id);
+      this.autoSubmit(attempt.id).catch(error =>
+        console.error(`Exam auto-submit failed for ${attempt.id}:`, error)
+      );
+    }, delay);
+
+    this.timers.set(attempt.id, timer);
+  }
+
+  private async autoSubmit(attemptId: string): Promise<void> {
+    const attempt = await prisma.quizAttempt.findUnique({
+      where: { id: attemptId },
+      select: { userId: true, completedAt: true }
+    });
+    if (!attempt || attempt.completedAt) return;
+
+    // Already being submitted (timer and request racing): notify only once
+    const pending = this.submitting.get(attemptId);
+    if (pending) return await pending;
+
+    await this.finalize(attemptId, true);
+    console.log(`⏰ Exam attempt ${attemptId} auto-submitted`);
+
+    const submission = await this.buildSubmission(attemptId);
+    this.listeners.forEach(listener => listener(attempt.userId, submission));
+  }
+
+  // ============= HELPERS =============
+
+  /**
+   * Unanswered questions count as wrong, then the normal quiz scoring runs.
+   * Concurrent calls (timer + student) share one submission.
+   */
+  private finalize(attemptId: string, auto: boolean): Promise<void> {
+    const pending = this.submitting.get(attemptId);
+    if (pending) return pending;
+
+    const submission = (async () => {
+      const attempt = await prisma.quizAttempt.findUnique({
+        where: { id: attemptId },
+        include: { answers: { select: { questionId: true } } }
+      });
+      if (!attempt || attempt.completedAt) return;
+
+      const answered = new Set(attempt.answers.map(a => a.questionId));
+      const missing = this.parseState(attempt.examState).questionIds.filter(id => !answered.has(id));
+      if (missing.length > 0) {
+        const existing = await prisma.question.findMany({
+          where: { id: { in: missing } },
+          select: { id: true }
+        });
+        await prisma.quizAttemptAnswer.createMany({
+          data: existing.map(q => ({ attemptId, questionId: q.id, userAnswer: '', isCorrect: false, timeSpent: 0 }))
+        });
+      }
+
+      await quizService.completeQuiz(attemptId, { exam: true });
+      if (auto) {
+        await prisma.quizAttempt.update({ where: { id: attemptId }, data: { autoSubmitted: true } });
+      }
+
+      const timer = this.timers.get(attemptId);
+      if (timer) {
+        clearTimeout(timer);
+        this.timers.delete(attemptId);
+      }
+    })().finally(() => this.submitting.delete(attemptId));
+
+    this.submitting.set(attemptId, submission);
+    return submission;
+  }
+
+  private async buildSession(exam: Exam, attempt: QuizAttempt): Promise<ExamSession> {
+    const state = this.parseState(attempt.examState);
+
+    const [questions, answers] = await Promise.all([
+      prisma.question.findMany({ where: { id: { in: state.questionIds } } }),
+      prisma.quizAttemptAnswer.findMany({ where: { attemptId: attempt.id }, select: { questionId: true } })
+    ]);
+    const byId = new Map(questions.map(q => [q.id, q]));
+
+    return {
+      attemptId: attempt.id,
+      examId: exam.id,
+      lessonId: exam.lessonId,
+      title: exam.title,
+      questions: state.questionIds
+        .map(id => byId.get(id))
+        .filter((q): q is Question => !!q)
+        .map((q, index) => this.toExamQuestion(q, index)),
+      answeredQuestionIds: answers.map(a => a.questionId),
+      startedAt: attempt.createdAt,
+      expiresAt: attempt.expiresAt!,
+      remainingSeconds: this.remainingSeconds(attempt),
+      resultsReleaseAt: exam.resultsReleaseAt
+    };
+  }
+
+  private toExamQuestion(question: Question, index: number): ExamQuestion {
+    return {
+      id: question.id,
+      type: question.type as QuizQuestion['type'],
+      question: question.question,
+      options: question.options ? this.parseList(question.options) : undefined,
+      points: question.points,
+      difficulty: question.difficulty as QuizQuestion['difficulty'],
+      timeLimit: quizService.getTimeLimit(question.difficulty, question.type),
+      order: index + 1
+    };
+  }
+
+  private async buildSubmission(attemptId: string): Promise<ExamSubmission> {
+    const attempt = await prisma.quizAttempt.findUnique({
+      where: { id: attemptId },
+      include: {
+        exam: true,
+        answers: { include: { question: true } }
+      }
+    });
+    if (!attempt?.exam) {
+      throw new NotFoundError('Exam attempt');
+    }
+
+    const exam = attempt.exam;
+    const released = !!exam.resultsReleaseAt && exam.resultsReleaseAt <= new Date();
+
+    const submission: ExamSubmission = {
+      attemptId,
+      examId: exam.id,
+      submittedAt: attempt.completedAt,
+      autoSubmitted: attempt.autoSubmitted,
+      resultsReleased: released,
+      resultsReleaseAt: exam.resultsReleaseAt
+    };
+
+    if (released && attempt.completedAt) {
+      const order = this.parseState(attempt.examState).questionIds;
+      const answers = [...attempt.answers].sort(
+        (a, b) => order.indexOf(a.questionId) - order.indexOf(b.questionId)
+      );
+      const score = attempt.score ?? 0;
+
+      const result: ExamResult = {
+        attemptId,
+        examId: exam.id,
+        score: Math.round(score),
+        passed: score >= quizService.PASS_THRESHOLD,
+        correctAnswers: answers.filter(a => a.isCorrect).length,
+        totalQuestions: attempt.totalQuestions,
+        focusLossCount: attempt.focusLossCount,
+        autoSubmitted: attempt.autoSubmitted,
+        questionResults: answers.map((a): QuestionResult => ({
+          questionId: a.questionId,
+          question: a.question.question,
+          userAnswer: a.userAnswer,
+          correctAnswer: a.question.correctAnswer,
+          isCorrect: a.isCorrect,
+          points: quizService.answerPoints(a, a.question.points),
+          explanation: a.question.explanation || undefined,
+          timeSpent: a.timeSpent || 0,
+          difficulty: a.question.difficulty as QuestionResult['difficulty'],
+          type: a.question.type as QuestionResult['type'],
+          credit: a.credit ?? undefined,
+          needsReview: a.needsReview || undefined
+        }))
+      };
+      submission.result = result;
+    }
+
+    return submission;
+  }
+
+  private async getManagedExam(requester: Requester, examId: string): Promise<Exam> {
+    const exam = await prisma.exam.findUnique({ where: { id: examId } });
+
+    if (!exam) {
+      throw new NotFoundError('Exam');
+    }
+
+    if (requester.role !== 'ADMIN' && exam.teacherId !== requester.userId) {
+      throw new AuthorizationError('You did not create this exam');
+    }
+
+    return exam;
+  }
+
+  private async getOwnedAttempt(userId: string, attemptId: string) {
+    const attempt = await prisma.quizAttempt.findUnique({
+      where: { id: attemptId },
+      include: { exam: true }
+    });
+
+    if (!attempt || attempt.mode !== 'exam' || !attempt.exam) {
+      throw new NotFoundError('Exam attempt');
+    }
+    if (attempt.userId !== userId) {
+      throw new AuthorizationError('This exam attempt belongs to another student');
+    }
+
+    return { ...attempt, exam: attempt.exam };
+  }
+
+  /**
+   * Owned, not submitted and still on the clock (submits it when time is up)
+   */
+  private async getActiveAttempt(userId: string, attemptId: string) {
+    const attempt = await this.getOwnedAttempt(userId, attemptId);
+
+    if (attempt.completedAt) {
+      throw new ValidationError('Exam already submitted');
+    }
+    if (this.isExpired(attempt)) {
+      await this.autoSubmit(attemptId);
+      throw new ValidationError('Time is up, the exam was submitted automatically');
+    }
+
+    return attempt;
+  }
+
+  private async getExamQuestion(state: ExamState, questionId: string): Promise<Question> {
+    if (!state.questionIds.includes(questionId)) {
+      throw new ValidationError('Question is not part of this exam');
+    }
+
+    const question = await prisma.question.findUnique({ where: { id: questionId } });
+    if (!question) {
+      throw new NotFoundError('Question');
+    }
+    return question;
+  }
+
+  private async pickQuestions(
+    lessonId: string,
+    questionIds: string[] | undefined,
+    count: number,
+    seed: number
+  ): Promise<Question[]> {
+    if (questionIds?.length) {
+      const ids = [...new Set(questionIds)];
+      const found = await prisma.question.findMany({
+        where: { id: { in: ids }, lessonId, isActive: true }
+      });
+      if (found.length !== ids.length) {
+        throw new ValidationError('Some questions do not exist, are inactive or belong to another lesson');
+      }
+
+      const templates = found.map(q => q.templateId).filter(Boolean);
+      if (new Set(templates).size !== templates.length) {
+        throw new ValidationError('Pick at most one variant of each question template');
+      }
+
+      const byId = new Map(found.map(q => [q.id, q]));
+      return ids.map(id => byId.get(id)!);
+    }
+
+    const pool = await prisma.question.findMany({
+      where: { lessonId, isActive: true },
+      orderBy: { order: 'asc' }
+    });
+
+    // Variants of one template are the same question with other numbers: keep one per template
+    const seenTemplates = new Set<string>();
+    return seededShuffle(pool, seed)
+      .filter(q => {
+        if (!q.templateId) return true;
+        if (seenTemplates.has(q.templateId)) return false;
+        seenTemplates.add(q.templateId);
+        return true;
+      })
+      .slice(0, count);
+  }
+
+  private isExpired(attempt: { expiresAt: Date | null }): boolean {
+    return !!attempt.expiresAt && attempt.expiresAt.getTime() <= Date.now();
+  }
+
+  private remainingSeconds(attempt: { expiresAt: Date | null }): number {
+    if (!attempt.expiresAt) return 0;
+    return Math.max(0, Math.ceil((attempt.expiresAt.getTime() - Date.now()) / 1000));
+  }
+
+  private parseState(value: string | null): ExamState {
+    try {
+      const parsed = value ? JSON.parse(value) : null;
+      return {
+        questionIds: Array.isArray(parsed?.questionIds) ? parsed.questionIds : [],
+        openedAt: parsed?.openedAt || {}
+      };
+    } catch {
+      return { questionIds: [], openedAt: {} };
+    }
+  }
+
+  private parseFocusEvents(value: string | null): ExamFocusEvent[] {
+    if (!value) return [];
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private parseList(value: string): string[] {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const examService = new ExamService();
@@ -0,0 +1,198 @@
+// src/core/quiz/hint.service.ts
+// سلم التلميحات: التلميحات المحفوظة في السؤال أولاً، ثم تلميح من RAG، وكل تلميح له خصم من درجة السؤال
+
+import { prisma } from '../../config/database.config';
+import { config } from '../../config';
+import { ragService } from '../rag/rag.service';
+import { getOpenExamQuestionIds } from './exam.lock';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+import type { Question } from '@prisma/client';
+import type { HintReveal, HintSource } from '../../types/quiz.types';
+
+// بعد التلميحات المحفوظة: تلميح واحد مولد من شرح المفهوم
+const GENERATED_HINTS = 1;
+const MAX_HINT_LENGTH = 400;
+
+const FALLBACK_HINT = 'ابدأ بتحديد المعطيات والمطلوب، وبعدين فكر في القاعدة اللي بتربطهم';
+
+export class HintService {
+
+  /**
+   * Reveal the next hint of a question in a running quiz attempt.
+   * Each reveal is recorded, so the penalty can't be dodged by the client.
+   */
+  async revealNextHint(userId: string, attemptId: string, questionId: string): Promise<HintReveal> {
+    const attempt = await prisma.quizAttempt.findUnique({
+      where: { id: attemptId },
+      select: { id: true, userId: true, lessonId: true, mode: true, completedAt: true },
+    });
+
+    if (!attempt) {
+      throw new NotFoundError('Quiz attempt');
+    }
+    if (attempt.userId !== userId) {
+      throw new AuthorizationError('Not your quiz attempt');
+    }
+    if (attempt.mode === 'exam') {
+      throw new ValidationError('Hints are not available during exams');
+    }
+    if (attempt.completedAt) {
+      throw new ValidationError('Quiz attempt already completed');
+    }
+
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: { lesson: { select: { title: true, titleAr: true, unit: { select: { subject: { select: { grade: true } } } } } } },
+    });
+    if (!question) {
+      throw new NotFoundError('Question');
+    }
+    await this.assertQuestionInAttempt(attempt, question);
+
+    const answered = await prisma.quizAttemptAnswer.findUnique({
+      where: { attemptId_questionId: { attemptId, questionId } },
+      select: { id: true },
+    });
+    if (answered) {
+      throw new ValidationError('Question already answered');
+    }
+
+    const stored = this.parseHints(question.hints);
+    const maxLevel = stored.length + GENERATED_HINTS;
+    const revealed = await prisma.quizHintReveal.count({ where: { attemptId, questionId } });
+
+    if (revealed >= maxLevel) {
+      return this.toReveal(attemptId, questionId, null, revealed, maxLevel);
+    }
+
+    const level = revealed + 1;
+    const { hint, source } = level <= stored.length
+      ? { hint: stored[level - 1], source: 'stored' as HintSource }
+      : await this.generateHint(question, question.lesson.titleAr || question.lesson.title, question.lesson.unit.subject.grade);
+
+    try {
+      await prisma.quizHintReveal.create({
+        data: { attemptId, questionId, level, source, hint },
+      });
+    } catch (error: any) {
+      // Double click: the same level was already recorded by a parallel request
+      if (error.code !== 'P2002') throw error;
+    }
+
+    await this.trackHintRequest(userId);
+
+    return this.toReveal(attemptId, questionId, { hint, source }, level, maxLevel);
+  }
+
+  async countRevealed(attemptId: string, questionId: string): Promise<number> {
+    return await prisma.quizHintReveal.count({ where: { attemptId, questionId } });
+  }
+
+  /**
+   * Share (0-1) of a question's points lost to the hints used on it
+   */
+  penaltyFor(hintsUsed: number): number {
+    if (hintsUsed <= 0) return 0;
+    return Math.min(config.HINT_MAX_PENALTY, hintsUsed * config.HINT_PENALTY);
+  }
+
+  // ============= Helpers =============
+
+  /**
+   * The question must belong to what the attempt covers - its lesson, or for a review
+   * session a lesson of the student's review deck - and never to an exam that is still open
+   */
+  private async assertQuestionInAttempt(
+    attempt: { userId: string; lessonId: string; mode: string },
+    question: Question
+  ): Promise<void> {
+    const inAttempt = attempt.mode === 'review'
+      ? !!await prisma.reviewCard.findFirst({
+          where: { userId: attempt.userId, lessonId: question.lessonId },
+          select: { id: true },
+        })
+      : question.lessonId === attempt.lessonId;
+    if (!inAttempt) {
+      throw new ValidationError('Question is not part of this quiz attempt');
+    }
+
+    const locked = await getOpenExamQuestionIds(question.lessonId);
+    if (locked.has(question.id)) {
+      throw new ValidationError('Hints are not available for exam questions');
+    }
+  }
+
+  private async generateHint(
+    question: Question,
+    lessonTitle: string,
+    grade: number
+  ): Promise<{ hint: string; source: HintSource }> {
+    const tags = this.parseHints(question.tags);
+    const concept = tags[0] || question.learningObjective || lessonTitle;
+
+    try {
+      const explanation = await ragService.explainConcept(concept, grade);
+      const hint = this.shorten(explanation);
+      if (hint) return { hint, source: 'rag' };
+    } catch (error) {
+      console.error('Hint generation failed:', error);
+    }
+
+    // First solution step is a decent nudge when RAG is unavailable
+    const steps = this.parseHints(question.stepByStepSolution);
+    return { hint: steps[0] || FALLBACK_HINT, source: 'fallback' };
+  }
+
+  /**
+   * The concept explanation is a full lesson; a hint only needs its first paragraph
+   */
+  private shorten(text: string): string {
+    const paragraph = text
+      .split(/\n\s*\n/)
+      .map(p => p.replace(/^[#*\-\d.\s]+/, '').trim())
+      .find(p => p.length > 0) || '';
+
+    return paragraph.length > MAX_HINT_LENGTH
+      ? paragraph.slice(0, MAX_HINT_LENGTH).replace(/\s+\S*$/, '') + '...'
+      : paragraph;
+  }
+
+  private toReveal(
+    attemptId: string,
+    questionId: string,
+    revealed: { hint: string; source: HintSource } | null,
+    level: number,
+    maxLevel: number
+  ): HintReveal {
+    return {
+      attemptId,
+      questionId,
+      hint: revealed?.hint ?? null,
+      level,
+      maxLevel,
+      source: revealed?.source,
+      penalty: this.penaltyFor(level),
+      remaining: Math.max(0, maxLevel - level),
+    };
+  }
+
+  private async trackHintRequest(userId: string): Promise<void> {
+    await prisma.studentContext.updateMany({
+      where: { userId },
+      data: { hintsRequested: { increment: 1 } },
+    });
+  }
+
+  private parseHints(value: string | null): string[] {
+    if (!value) return [];
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.filter(h => typeof h === 'string' && h.trim()) : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const hintService = new HintService();
@@ -0,0 +1,341 @@
+// src/core/quiz/item-analysis.service.ts
+// تحليل الأسئلة (Item Analysis): صعوبة السؤال، قدرته على التمييز، وتحليل البدائل
+//
+// - difficulty index (p): متوسط الدرجة على السؤال (0-1)، يستخدم الدرجة الجزئية إن وجدت
+// - discrimination: point-biserial بين درجة السؤال وباقي درجة المحاولة (بدون السؤال نفسه)
+// - distractors: نسبة اختيار كل بديل في أعلى وأدنى 27% من الطلاب
+
+import { prisma } from '../../config/database.config';
+import { optionIndex } from './answer.options';
+import { NotFoundError } from '../../utils/errors';
+import type {
+  DistractorStats,
+  ItemAnalysis,
+  ItemAnalysisReport,
+  ItemFlag,
+  ItemRetirementResult,
+} from '../../types/quiz.types';
+
+const MIN_RESPONSES = 20;
+const GROUP_FRACTION = 0.27;
+
+const TOO_EASY = 0.95;
+const TOO_HARD = 0.2;
+const LOW_DISCRIMINATION = 0.15;
+const NEGATIVE_DISCRIMINATION = -0.05;
+const MIN_DISTRACTOR_SHARE = 0.05;
+
+// الأسئلة المولدة فقط تُوقف تلقائياً، أسئلة المعلم تُترك له
+const RETIRABLE_SOURCES = ['ai', 'enriched'];
+const AUTO_RETIRE_INTERVAL = 10 * 60 * 1000;
+
+export interface ItemResponse {
+  score: number;            // 0-1
+  rest: number | null;      // rest of the attempt, 0-1
+  userAnswer: string;
+  timeSpent: number | null;
+  hintsUsed: number;
+}
+
+export class ItemAnalysisService {
+  private lastAutoRun = new Map<string, number>();
+
+  /**
+   * Per-question statistics for every question of a lesson that has responses
+   */
+  async analyzeLesson(
+    lessonId: string,
+    options: { minResponses?: number; includeInactive?: boolean } = {}
+  ): Promise<ItemAnalysisReport> {
+    const lesson = await prisma.lesson.findUnique({ where: { id: lessonId }, select: { id: true } });
+    if (!lesson) {
+      throw new NotFoundError('Lesson');
+    }
+
+    const minResponses = options.minResponses ?? MIN_RESPONSES;
+
+    // Review sessions mix lessons, so only this lesson's own quizzes count
+    const attempts = await prisma.quizAttempt.findMany({
+      where: { lessonId, completedAt: { not: null }, mode: { not: 'review' } },
+      select: {
+        answers: {
+          select: {
+            questionId: true,
+            userAnswer: true,
+            isCorrect: true,
+            credit: true,
+            timeSpent: true,
+            hintsUsed: true,
+          },
+        },
+      },
+    });
+
+    const responses = new Map<string, ItemResponse[]>();
+    for (const attempt of attempts) {
+      const scores = attempt.answers.map(a => a.credit ?? (a.isCorrect ? 1 : 0));
+      const total = scores.reduce((sum, s) => sum + s, 0);
+
+      attempt.answers.forEach((answer, i) => {
+        const others = attempt.answers.length - 1;
+        const list = responses.get(answer.questionId) || [];
+        list.push({
+          score: scores[i],
+          rest: others > 0 ? (total - scores[i]) / others : null,
+          userAnswer: answer.userAnswer,
+          timeSpent: answer.timeSpent,
+          hintsUsed: answer.hintsUsed,
+        });
+        responses.set(answer.questionId, list);
+      });
+    }
+
+    const questions = await prisma.question.findMany({
+      where: {
+        lessonId,
+        ...(options.includeInactive ? {} : { isActive: true }),
+      },
+      orderBy: { order: 'asc' },
+    });
+
+    const items = questions
+      .filter(q => responses.has(q.id))
+      .map(q => this.analyzeItem(q, responses.get(q.id)!, minResponses));
+
+    return {
+      lessonId,
+      attempts: attempts.length,
+      minResponses,
+      flagged: items.filter(i => i.reliable && i.flags.length > 0).length,
+      items,
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Deactivate generated questions whose statistics show they are broken.
+   * Imported/seeded questions are only reported.
+   */
+  async retireFlaggedQuestions(
+    lessonId: string,
+    options: { dryRun?: boolean; minResponses?: number } = {}
+  ): Promise<ItemRetirementResult> {
+    const report = await this.analyzeLesson(lessonId, { minResponses: options.minResponses });
+
+    const result: ItemRetirementResult = {
+      lessonId,
+      dryRun: !!options.dryRun,
+      retired: [],
+      skipped: 0,
+    };
+
+    for (const item of report.items) {
+      if (!item.reliable || !this.shouldRetire(item.flags)) continue;
+
+      if (!item.source || !RETIRABLE_SOURCES.includes(item.source)) {
+        result.skipped++;
+        continue;
+      }
+
+      if (!options.dryRun) {
+        await prisma.question.update({
+          where: { id: item.questionId },
+          data: {
+            isActive: false,
+            retiredAt: new Date(),
+            retiredReason: JSON.stringify(item.flags),
+          },
+        });
+      }
+      result.retired.push({ questionId: item.questionId, question: item.question, flags: item.flags });
+    }
+
+    if (result.retired.length > 0) {
+      console.log(`🗑️ ${options.dryRun ? 'Would retire' : 'Retired'} ${result.retired.length} questions in ${lessonId}`);
+    }
+    return result;
+  }
+
+  /**
+   * Called after a quiz is completed; runs retirement at most once per interval per lesson
+   */
+  async maybeAutoRetire(lessonId: string): Promise<void> {
+    const last = this.lastAutoRun.get(lessonId) || 0;
+    if (Date.now() - last < AUTO_RETIRE_INTERVAL) return;
+    this.lastAutoRun.set(lessonId, Date.now());
+
+    await this.retireFlaggedQuestions(lessonId);
+  }
+
+  /**
+   * Put a retired question back into rotation
+   */
+  async restoreQuestion(questionId: string) {
+    const question = await prisma.question.findUnique({ where: { id: questionId }, select: { id: true } });
+    if (!question) {
+      throw new NotFoundError('Question');
+    }
+
+    return await prisma.question.update({
+      where: { id: questionId },
+      data: { isActive: true, retiredAt: null, retiredReason: null },
+    });
+  }
+
+  /**
+   * Statistics and flags of one question from its responses
+   */
+  analyzeItem(
+    question: { id: string; question: string; type: string; options: string | null; correctAnswer: string; source: string | null; isActive: boolean },
+    responses: ItemResponse[],
+    minResponses: number
+  ): ItemAnalysis {
+    const n = responses.length;
+    const difficultyIndex = this.mean(responses.map(r => r.score));
+
+    const paired = responses.filter(r => r.rest !== null);
+    const discrimination = this.correlation(paired.map(r => r.score), paired.map(r => r.rest!));
+
+    const times = responses.map(r => r.timeSpent).filter((t): t is number => !!t && t > 0);
+
+    const item: ItemAnalysis = {
+      questionId: question.id,
+      question: question.question,
+      type: question.type,
+      source: question.source,
+      isActive: question.isActive,
+      responses: n,
+      reliable: n >= minResponses,
+      difficultyIndex: this.round(difficultyIndex),
+      discrimination: this.round(discrimination),
+      averageTime: times.length ? Math.round(this.mean(times)!) : null,
+      averageHints: this.round(this.mean(responses.map(r => r.hintsUsed))) ?? 0,
+      hintUsageRate: this.round(responses.filter(r => r.hintsUsed > 0).length / n) ?? 0,
+      flags: [],
+    };
+
+    if (question.type === 'MCQ') {
+      item.distractors = this.analyzeDistractors(question, responses);
+    }
+
+    item.flags = this.flagsFor(item);
+    return item;
+  }
+
+  /**
+   * Broken (wrong key, reversed discrimination) or useless (everyone gets it, or
+   * hard without telling anyone apart). Low discrimination alone is not enough.
+   */
+  shouldRetire(flags: ItemFlag[]): boolean {
+    return flags.includes('possible_wrong_key')
+      || flags.includes('negative_discrimination')
+      || flags.includes('too_easy')
+      || (flags.includes('too_hard') && flags.includes('low_discrimination'));
+  }
+
+  /**
+   * Pearson correlation; with a 0/1 item score this is the point-biserial.
+   * null when either side doesn't vary.
+   */
+  correlation(x: number[], y: number[]): number | null {
+    if (x.length < 2) return null;
+    const mx = this.mean(x)!;
+    const my = this.mean(y)!;
+
+    let cov = 0;
+    let vx = 0;
+    let vy = 0;
+    for (let i = 0; i < x.length; i++) {
+      cov += (x[i] - mx) * (y[i] - my);
+      vx += (x[i] - mx) ** 2;
+      vy += (y[i] - my) ** 2;
+    }
+
+    // Everyone got the same score: discrimination is undefined
+    if (vx === 0 || vy === 0) return null;
+    return cov / Math.sqrt(vx * vy);
+  }
+
+  // ============= Helpers =============
+
+  private analyzeDistractors(
+    question: { options: string | null; correctAnswer: string },
+    responses: ItemResponse[]
+  ): DistractorStats[] | undefined {
+    const options = this.parseOptions(question.options);
+    if (options.length === 0) return undefined;
+
+    const keyIndex = optionIndex(options, question.correctAnswer);
+
+    // Upper/lower groups by the rest-of-attempt score
+    const ranked = [...responses].sort((a, b) => (b.rest ?? b.score) - (a.rest ?? a.score));
+    const groupSize = Math.max(1, Math.round(ranked.length * GROUP_FRACTION));
+    const upper = ranked.slice(0, groupSize);
+    const lower = ranked.slice(-groupSize);
+
+    const shareOf = (group: ItemResponse[], index: number) =>
+      group.length ? group.filter(r => optionIndex(options, r.userAnswer) === index).length / group.length : 0;
+
+    return options.map((option, index) => {
+      const count = responses.filter(r => optionIndex(options, r.userAnswer) === index).length;
+      return {
+        option,
+        index,
+        isKey: index === keyIndex,
+        count,
+        share: this.round(count / responses.length) ?? 0,
+        upperShare: this.round(shareOf(upper, index)) ?? 0,
+        lowerShare: this.round(shareOf(lower, index)) ?? 0,
+      };
+    });
+  }
+
+  private flagsFor(item: ItemAnalysis): ItemFlag[] {
+    const flags: ItemFlag[] = [];
+    const p = item.difficultyIndex;
+    const r = item.discrimination;
+
+    if (p !== null && p > TOO_EASY) flags.push('too_easy');
+    if (p !== null && p < TOO_HARD) flags.push('too_hard');
+
+    if (r !== null) {
+      if (r < NEGATIVE_DISCRIMINATION) flags.push('negative_discrimination');
+      else if (r < LOW_DISCRIMINATION) flags.push('low_discrimination');
+    }
+
+    if (item.distractors) {
+      const key = item.distractors.find(d => d.isKey);
+      const wrong = item.distractors.filter(d => !d.isKey);
+
+      if (!key || wrong.some(d => d.upperShare > key.upperShare)) {
+        flags.push('possible_wrong_key');
+      }
+      if (wrong.length > 0 && wrong.every(d => d.share < MIN_DISTRACTOR_SHARE)) {
+        flags.push('nonfunctional_distractors');
+      }
+    }
+
+    return flags;
+  }
+
+  private parseOptions(value: string | null): string[] {
+    if (!value) return [];
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(o => String(o)) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private mean(values: number[]): number | null {
+    return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+  }
+
+  private round(value: number | null): number | null {
+    return value === null ? null : Math.round(value * 1000) / 1000;
+  }
+}
+
+// Export singleton instance
+export const itemAnalysisService = new ItemAnalysisService();
@@ -0,0 +1,537 @@
+// src/core/quiz/math.equivalence.ts
+// Math answer equivalence: Arabic digits, fractions, mixed numbers, percentages, units, expressions
+
+import { normalizeArabic } from '../rag/arabic.normalizer';
+import type { EquivalenceOptions, EquivalenceResult } from '../../types/quiz.types';
+
+// ============= AST =============
+
+type MathNode =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'neg'; arg: MathNode }
+  | { type: 'fn'; name: string; arg: MathNode }
+  | { type: 'bin'; op: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode };
+
+type Token =
+  | { kind: 'num'; value: number }
+  | { kind: 'id'; name: string }
+  | { kind: 'op'; value: string };
+
+interface ParsedAnswer {
+  node: MathNode;
+  variables: Set<string>;
+  unit?: UnitInfo;
+  percent: boolean;       // the whole answer was written as a percentage
+  decimals?: number;      // digits after the point when the answer is a plain decimal
+  literal: boolean;       // written as a number (integer, decimal, fraction, mixed number), not an expression
+}
+
+interface UnitInfo {
+  name: string;
+  dimension: string;
+  factor: number;         // multiply to get the dimension's base unit
+}
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  جذر: Math.sqrt,
+  abs: Math.abs,
+};
+
+// ط هي رمز π في المناهج المصرية
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  'π': Math.PI,
+  ط: Math.PI,
+};
+
+// س / ص / ع are how Arabic textbooks write x / y / z - the same unknown, not a new one
+const VARIABLE_ALIASES: Record<string, string> = {
+  س: 'x',
+  ص: 'y',
+  ع: 'z',
+};
+
+// A number as written: 12, -0.5, 3/4, 75% (units are split off before this)
+const NUMBER_LITERAL = /^-?(\d+\.?\d*|\.\d+)( ?\/ ?\d+)?%?$/;
+
+// Fixed sample points so results are reproducible
+const SAMPLE_POINTS = [1.37, -0.61, 2.11, 0.29, -1.73, 3.07];
+const MIN_VALID_SAMPLES = 3;
+const SYMBOLIC_TOLERANCE = 1e-9;
+
+// ============= UNITS =============
+
+const LENGTH_UNITS: Array<[string[], number]> = [
+  [['mm', 'مم', 'ملليمتر', 'مليمتر'], 0.001],
+  [['cm', 'سم', 'سنتيمتر', 'سنتيمترات'], 0.01],
+  [['dm', 'دسم', 'ديسيمتر'], 0.1],
+  [['m', 'م', 'متر', 'امتار'], 1],
+  [['km', 'كم', 'كيلومتر', 'كيلومترات'], 1000],
+];
+
+const UNITS: Map<string, UnitInfo> = buildUnitTable();
+
+function buildUnitTable(): Map<string, UnitInfo> {
+  const table = new Map<string, UnitInfo>();
+  const add = (names: string[], dimension: string, factor: number) => {
+    for (const name of names) table.set(normalizeArabic(name), { name, dimension, factor });
+  };
+
+  for (const [names, factor] of LENGTH_UNITS) {
+    add(names, 'length', factor);
+    // Area and volume from the same names: سم^2 / cm2 / سم مربع
+    add(names.flatMap(n => [`${n}^2`, `${n}2`, `${n} مربع`]), 'area', factor ** 2);
+    add(names.flatMap(n => [`${n}^3`, `${n}3`, `${n} مكعب`]), 'volume', factor ** 3 * 1000);
+  }
+
+  add(['mg', 'مجم', 'ملليجرام'], 'mass', 0.001);
+  add(['g', 'gm', 'جم', 'جرام', 'جرامات'], 'mass', 1);
+  add(['kg', 'كجم', 'كيلوجرام', 'كيلوجرامات'], 'mass', 1000);
+  add(['ton', 'طن', 'اطنان'], 'mass', 1_000_000);
+
+  add(['ml', 'مل', 'ملليلتر'], 'volume', 0.001);
+  add(['l', 'لتر', 'لترات'], 'volume', 1);
+
+  add(['s', 'sec', 'ثانيه', 'ثواني', 'ثوان'], 'time', 1);
+  add(['min', 'دقيقه', 'دقائق'], 'time', 60);
+  add(['h', 'hr', 'ساعه', 'ساعات'], 'time', 3600);
+  add(['يوم', 'ايام'], 'time', 86400);
+
+  add(['m/s', 'م/ث'], 'speed', 1);
+  add(['km/h', 'كم/س', 'كم/ساعه'], 'speed', 1 / 3.6);
+
+  add(['جنيه', 'جنيهات', 'ج'], 'money', 1);
+  add(['قرش', 'قروش'], 'money', 0.01);
+
+  add(['°', 'deg', 'درجه', 'درجات'], 'angle', 1);
+
+  return table;
+}
+
+// Longest names first so "كم/س" wins over "س" and "cm" over "m"
+const UNIT_NAMES = [...UNITS.keys()].sort((a, b) => b.length - a.length);
+
+// ============= PARSING =============
+
+/**
+ * Unify digits, separators and operator symbols
+ */
+function normalizeMath(text: string): string {
+  return normalizeArabic(text)
+    .replace(/٫/g, '.')                      // ٫ decimal separator
+    .replace(/٬/g, '')                       // ٬ thousands separator
+    .replace(/٪/g, '%')                      // ٪
+    .replace(/،/g, ',')
+    .replace(/(\d),(\d{3})(?!\d)/g, '$1$2')       // 1,000
+    .replace(/(\d),(\d)/g, '$1.$2')               // 3,5 كفاصلة عشرية
+    .replace(/[×·∙]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–—]/g, '-')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/√/g, 'sqrt')
+    .replace(/(\d)\s*:\s*(\d)/g, '$1/$2')         // النسبة 3:4
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tokenize(text: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === ' ') {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(text.slice(i));
+    if (number) {
+      tokens.push({ kind: 'num', value: parseFloat(number[1]) });
+      i += number[1].length;
+      continue;
+    }
+
+    const word = /^[\p{L}π]+/u.exec(text.slice(i));
+    if (word) {
+      const identifiers = splitIdentifier(word[0]);
+      if (!identifiers) return null;
+      identifiers.forEach(name => tokens.push({ kind: 'id', name }));
+      i += word[0].length;
+      continue;
+    }
+
+    if ('+-*/^()%'.includes(ch)) {
+      tokens.push({ kind: 'op', value: ch });
+      i++;
+      continue;
+    }
+
+    return null;
+  }
+
+  return tokens;
+}
+
+/**
+ * Letters are single-letter variables (2xy = 2·x·y) unless they name a function or constant.
+ * Longer Arabic words mean the answer is text, not math.
+ */
+function splitIdentifier(word: string): string[] | null {
+  if (Object.hasOwn(FUNCTIONS, word) || Object.hasOwn(CONSTANTS, word)) return [word];
+  if (/^[a-z]{1,3}$/.test(word)) return word.split('');
+  if ([...word].length === 1) return [word];
+  return null;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): MathNode | null {
+    if (this.tokens.length === 0) return null;
+    const node = this.expression();
+    return node && this.pos === this.tokens.length ? node : null;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private nextOp(): string {
+    return (this.tokens[this.pos++] as { kind: 'op'; value: string }).value;
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'op' && token.value === value;
+  }
+
+  private expression(): MathNode | null {
+    let left = this.term();
+    while (left && (this.isOp('+') || this.isOp('-'))) {
+      const op = this.nextOp() as '+' | '-';
+      const right = this.term();
+      if (!right) return null;
+      left = { type: 'bin', op, left, right };
+    }
+    return left;
+  }
+
+  private term(): MathNode | null {
+    let left = this.unary();
+    while (left) {
+      if (this.isOp('*') || this.isOp('/')) {
+        const op = this.nextOp() as '*' | '/';
+        const right = this.unary();
+        if (!right) return null;
+        left = { type: 'bin', op, left, right };
+        continue;
+      }
+
+      // Implicit multiplication: 2x, 2(x+1), (x+1)(x-1)
+      const next = this.peek();
+      if (next && (next.kind === 'num' || next.kind === 'id' || (next.kind === 'op' && next.value === '('))) {
+        const right = this.power();
+        if (!right) return null;
+        left = { type: 'bin', op: '*', left, right };
+        continue;
+      }
+      break;
+    }
+    return left;
+  }
+
+  private unary(): MathNode | null {
+    if (this.isOp('-')) {
+      this.pos++;
+      const arg = this.unary();
+      return arg ? { type: 'neg', arg } : null;
+    }
+    if (this.isOp('+')) {
+      this.pos++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): MathNode | null {
+    const base = this.postfix();
+    if (!base || !this.isOp('^')) return base;
+    this.pos++;
+    // Right-associative, and -x^2 = -(x^2)
+    const exponent = this.unary();
+    return exponent ? { type: 'bin', op: '^', left: base, right: exponent } : null;
+  }
+
+  private postfix(): MathNode | null {
+    let node = this.primary();
+    while (node && this.isOp('%')) {
+      this.pos++;
+      node = { type: 'bin', op: '/', left: node, right: { type: 'num', value: 100 } };
+    }
+    return node;
+  }
+
+  private primary(): MathNode | null {
+    const token = this.tokens[this.pos++];
+    if (!token) return null;
+
+    if (token.kind === 'num') {
+      return { type: 'num', value: token.value };
+    }
+
+    if (token.kind === 'id') {
+      if (Object.hasOwn(FUNCTIONS, token.name)) {
+        const arg = this.isOp('(') ? this.primary() : this.power();
+        return arg ? { type: 'fn', name: token.name, arg } : null;
+      }
+      if (Object.hasOwn(CONSTANTS, token.name)) {
+        return { type: 'num', value: CONSTANTS[token.name] };
+      }
+      return { type: 'var', name: VARIABLE_ALIASES[token.name] ?? token.name };
+    }
+
+    if (token.value === '(') {
+      const inner = this.expression();
+      if (!inner || !this.isOp(')')) return null;
+      this.pos++;
+      return inner;
+    }
+
+    return null;
+  }
+}
+
+function evaluate(node: MathNode, scope: Record<string, number>): number {
+  switch (node.type) {
+    case 'num':
+      return node.value;
+    case 'var':
+      return Object.hasOwn(scope, node.name) ? scope[node.name] : NaN;
+    case 'neg':
+      return -evaluate(node.arg, scope);
+    case 'fn':
+      return FUNCTIONS[node.name](evaluate(node.arg, scope));
+    case 'bin': {
+      const a = evaluate(node.left, scope);
+      const b = evaluate(node.right, scope);
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '^': return Math.pow(a, b);
+      }
+    }
+  }
+}
+
+function collectVariables(node: MathNode, into: Set<string> = new Set()): Set<string> {
+  if (node.type === 'var') into.add(node.name);
+  if (node.type === 'neg' || node.type === 'fn') collectVariables(node.arg, into);
+  if (node.type === 'bin') {
+    collectVariables(node.left, into);
+    collectVariables(node.right, into);
+  }
+  return into;
+}
+
+// ============= ENGINE =============
+
+export class MathEquivalence {
+
+  /**
+   * Parse an answer into a math value, or null when it isn't a math answer
+   */
+  parse(text: string): ParsedAnswer | null {
+    let value = normalizeMath(String(text));
+    if (!value) return null;
+
+    // "x = 5" → 5 (the student wrote the variable they solved for)
+    const sides = value.split('=');
+    if (sides.length > 2) return null;
+    if (sides.length === 2) {
+      const [left, right] = sides.map(s => s.trim());
+      if (/^[\p{L}]$/u.test(left)) value = right;
+      else if (/^[\p{L}]$/u.test(right)) value = left;
+      else return null;
+    }
+
+    const unitMatch = this.extractUnit(value);
+    let unit: UnitInfo | undefined;
+    if (unitMatch) {
+      value = unitMatch.rest;
+      unit = unitMatch.unit;
+    }
+
+    // Mixed number: 2 1/2
+    const mixed = /^(-?)(\d+) (\d+)\/(\d+)$/.exec(value);
+    if (mixed) {
+      const whole = Number(mixed[2]) + Number(mixed[3]) / Number(mixed[4]);
+      return {
+        node: { type: 'num', value: mixed[1] ? -whole : whole },
+        variables: new Set(),
+        unit,
+        percent: false,
+        literal: true,
+      };
+    }
+
+    const tokens = tokenize(value);
+    if (!tokens) return null;
+    const node = new Parser(tokens).parse();
+    if (!node) return null;
+
+    const decimal = /^-?\d*\.(\d+)$/.exec(value);
+    return {
+      node,
+      variables: collectVariables(node),
+      unit,
+      percent: /^[^%]*%$/.test(value),
+      decimals: decimal ? decimal[1].length : undefined,
+      literal: NUMBER_LITERAL.test(value),
+    };
+  }
+
+  /**
+   * Compare two answers. Returns null when either side isn't math,
+   * so callers can fall back to text matching.
+   */
+  compare(expected: string, actual: string, options: EquivalenceOptions = {}): EquivalenceResult | null {
+    // Keys without digits or operators are words ("dog" would otherwise equal "god")
+    if (!/[\d+\-*/^=%πط]|sqrt/.test(normalizeMath(String(expected)))) return null;
+
+    const want = this.parse(expected);
+    const got = this.parse(actual);
+    if (!want || !got) return null;
+
+    let scale = 1;
+    let unitMissing = false;
+    if (want.unit && got.unit) {
+      if (want.unit.dimension !== got.unit.dimension) {
+        return { equivalent: false, method: 'numeric', unitMismatch: true };
+      }
+      scale = got.unit.factor / want.unit.factor;
+    } else if (want.unit && !got.unit) {
+      unitMissing = true;
+      if (options.requireUnits) {
+        return { equivalent: false, method: 'numeric', unitMissing };
+      }
+    }
+
+    if (want.variables.size === 0) {
+      // A number key needs a number: "2+2" doesn't earn the credit for 4, nor "2x/x" for 2
+      if (got.variables.size > 0 || (want.literal && !got.literal)) {
+        return { equivalent: false, method: 'numeric', unevaluated: true };
+      }
+      return this.compareNumbers(want, got, scale, unitMissing, options);
+    }
+
+    // Unknowns are matched by name: y+1 is not an answer to x+1
+    if ([...got.variables].some(name => !want.variables.has(name))) {
+      return { equivalent: false, method: 'symbolic' };
+    }
+    return this.compareExpressions(want, got);
+  }
+
+  /**
+   * Convenience wrapper: true/false, or null when the answers aren't math
+   */
+  isEquivalent(expected: string, actual: string, options?: EquivalenceOptions): boolean | null {
+    const result = this.compare(expected, actual, options);
+    return result ? result.equivalent : null;
+  }
+
+  // ============= Helpers =============
+
+  private compareNumbers(
+    want: ParsedAnswer,
+    got: ParsedAnswer,
+    scale: number,
+    unitMissing: boolean,
+    options: EquivalenceOptions
+  ): EquivalenceResult {
+    const expectedValue = evaluate(want.node, {});
+    const actualValue = evaluate(got.node, {}) * scale;
+    if (!isFinite(expectedValue) || !isFinite(actualValue)) {
+      return { equivalent: false, method: 'numeric', expectedValue, actualValue };
+    }
+
+    const tolerance = options.relativeTolerance ?? SYMBOLIC_TOLERANCE;
+    let equivalent = this.closeEnough(expectedValue, actualValue, tolerance);
+
+    // A correctly rounded decimal (at least 2 places) is accepted: 1/3 ≈ 0.33
+    if (!equivalent && options.allowRounding !== false && got.decimals !== undefined && got.decimals >= 2) {
+      equivalent = Math.abs(expectedValue - actualValue) <= 0.5 * Math.pow(10, -got.decimals) + 1e-12;
+    }
+
+    // "75%" asked, "75" written (or the reverse)
+    if (!equivalent && want.percent !== got.percent) {
+      const adjusted = want.percent ? actualValue / 100 : actualValue * 100;
+      equivalent = this.closeEnough(expectedValue, adjusted, tolerance);
+    }
+
+    return {
+      equivalent,
+      method: 'numeric',
+      expectedValue,
+      actualValue,
+      unitMissing: unitMissing || undefined,
+    };
+  }
+
+  /**
+   * Identity testing: both expressions must agree at every sample point
+   */
+  private compareExpressions(want: ParsedAnswer, got: ParsedAnswer): EquivalenceResult {
+    const names = [...want.variables];
+    let valid = 0;
+
+    for (let i = 0; i < SAMPLE_POINTS.length; i++) {
+      const scope: Record<string, number> = {};
+      names.forEach((name, j) => {
+        scope[name] = SAMPLE_POINTS[(i + j) % SAMPLE_POINTS.length] + j * 0.17;
+      });
+
+      const a = evaluate(want.node, scope);
+      const b = evaluate(got.node, scope);
+      if (!isFinite(a) || !isFinite(b)) continue;
+
+      if (!this.closeEnough(a, b, SYMBOLIC_TOLERANCE)) {
+        return { equivalent: false, method: 'symbolic' };
+      }
+      valid++;
+    }
+
+    return { equivalent: valid >= MIN_VALID_SAMPLES, method: 'symbolic' };
+  }
+
+  private closeEnough(a: number, b: number, relativeTolerance: number): boolean {
+    return Math.abs(a - b) <= Math.max(1e-12, relativeTolerance * Math.max(Math.abs(a), Math.abs(b)));
+  }
+
+  /**
+   * Split a trailing unit off a numeric value ("12 سم", "5kg", "3 م^2")
+   */
+  private extractUnit(value: string): { rest: string; unit: UnitInfo } | null {
+    for (const name of UNIT_NAMES) {
+      if (!value.endsWith(name)) continue;
+
+      const rest = value.slice(0, value.length - name.length).trim();
+      // Only when what's left is a plain number: "2m" stays a variable expression otherwise
+      if (/^-?(\d+\.?\d*|\.\d+)( \d+\/\d+|\/\d+)?%?$/.test(rest)) {
+        return { rest, unit: UNITS.get(name)! };
+      }
+    }
+    return null;
+  }
+}
+
+// Export singleton instance
+export const mathEquivalence = new MathEquivalence();
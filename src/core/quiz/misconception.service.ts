@@ -0,0 +1,564 @@
+// src/core/quiz/misconception.service.ts
+// اكتشاف المفاهيم الخاطئة من الإجابات الخاطئة
+//
+// - MCQ: كل بديل خاطئ مربوط بمفهوم خاطئ (يدوياً من المعلم أو بالذكاء الاصطناعي مرة واحدة)
+// - الإجابات المكتوبة: كلمات مفتاحية أولاً، ثم تصنيف بالذكاء الاصطناعي من قائمة الدرس
+// - قائمة الدرس تبدأ من الأخطاء الشائعة في المحتوى المحسن (نفس مصدر GET /educational/lessons/:id/mistakes)
+
+import { z } from 'zod';
+import { prisma } from '../../config/database.config';
+import { openAIService } from '../../services/ai/openai.service';
+import { masteryService } from '../progress/mastery.service';
+import { normalizeArabic } from '../rag/arabic.normalizer';
+import { optionIndex } from './answer.options';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import type { Misconception, Question } from '@prisma/client';
+import type {
+  MisconceptionMatch,
+  MisconceptionMatchSource,
+  MisconceptionRanking,
+  MisconceptionRemediation,
+  StudentMisconceptionEntry,
+} from '../../types/quiz.types';
+
+const MAX_NAME_LENGTH = 200;
+const MAX_ANSWER_LENGTH = 1000;
+
+interface MisconceptionInput {
+  name: string;
+  correction?: string;
+  keywords?: string[];
+  conceptId?: string;
+}
+
+const aiTaggingSchema = z.object({
+  tags: z.array(z.object({
+    option: z.string().optional(),
+    misconception: z.string().nullable().optional(),
+    correction: z.string().optional(),
+  })).optional(),
+});
+
+const aiClassificationSchema = z.object({
+  misconception: z.string().nullable().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+type AITaggingResponse = z.infer<typeof aiTaggingSchema>;
+type AIClassificationResponse = z.infer<typeof aiClassificationSchema>;
+
+export class MisconceptionService {
+  // Lessons whose catalog was already built from the enriched content
+  private syncedLessons = new Set<string>();
+
+  /**
+   * Tag a wrong answer with a misconception and add it to the student's tally.
+   * useAI: false keeps to stored tags and keywords (no LLM call on the request path).
+   */
+  async recordWrongAnswer(
+    userId: string,
+    question: Question,
+    userAnswer: string,
+    answerId?: string,
+    options: { useAI?: boolean } = {}
+  ): Promise<MisconceptionMatch | null> {
+    const detected = await this.detect(question, userAnswer, options);
+    if (!detected) return null;
+
+    const { misconception, source } = detected;
+    const tally = await prisma.studentMisconception.upsert({
+      where: { userId_misconceptionId: { userId, misconceptionId: misconception.id } },
+      create: {
+        userId,
+        misconceptionId: misconception.id,
+        lessonId: misconception.lessonId,
+        count: 1,
+        lastAnswer: userAnswer.slice(0, MAX_ANSWER_LENGTH),
+      },
+      update: {
+        count: { increment: 1 },
+        lastSeenAt: new Date(),
+        lastAnswer: userAnswer.slice(0, MAX_ANSWER_LENGTH),
+      },
+    });
+
+    if (answerId) {
+      await prisma.quizAttemptAnswer.update({
+        where: { id: answerId },
+        data: { misconceptionId: misconception.id },
+      });
+    }
+
+    return {
+      misconceptionId: misconception.id,
+      name: misconception.name,
+      conceptId: misconception.conceptId,
+      source,
+      count: tally.count,
+      remediation: await this.getRemediation(misconception),
+    };
+  }
+
+  /**
+   * Find the misconception behind a wrong answer, if any
+   */
+  async detect(
+    question: Question,
+    userAnswer: string,
+    { useAI = true }: { useAI?: boolean } = {}
+  ): Promise<{ misconception: Misconception; source: MisconceptionMatchSource } | null> {
+    if (!userAnswer.trim()) return null;
+    const aiReady = useAI && openAIService.isReady();
+
+    const catalog = await this.getLessonCatalog(question.lessonId);
+
+    if (question.type === 'MCQ') {
+      const options = this.parseArray(question.options);
+      const index = optionIndex(options, userAnswer);
+      if (index < 0) return null;
+
+      let map = this.parseMap(question.misconceptionMap);
+      if (!map && aiReady) {
+        map = await this.autoTagQuestion(question, options, catalog);
+      }
+
+      const misconceptionId = map?.[options[index]];
+      const misconception = misconceptionId
+        ? catalog.find(m => m.id === misconceptionId) || await prisma.misconception.findUnique({ where: { id: misconceptionId } })
+        : null;
+      return misconception ? { misconception, source: 'distractor' } : null;
+    }
+
+    if (catalog.length === 0) return null;
+
+    const byKeyword = this.matchKeywords(catalog, userAnswer);
+    if (byKeyword) return { misconception: byKeyword, source: 'keyword' };
+
+    if (aiReady) {
+      try {
+        const byAI = await this.classifyWithAI(question, userAnswer, catalog);
+        if (byAI) return { misconception: byAI, source: 'ai' };
+      } catch (error) {
+        console.error('Misconception classification failed:', error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Misconceptions of a lesson; built from the enriched common mistakes the first time
+   */
+  async getLessonCatalog(lessonId: string): Promise<Misconception[]> {
+    if (!this.syncedLessons.has(lessonId)) {
+      await this.syncLessonCatalog(lessonId);
+    }
+
+    return await prisma.misconception.findMany({
+      where: { lessonId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Create misconceptions for the lesson's common mistakes that aren't in the catalog yet
+   */
+  async syncLessonCatalog(lessonId: string): Promise<number> {
+    const mistakes = await this.getLessonMistakes(lessonId);
+    this.syncedLessons.add(lessonId);
+
+    let created = 0;
+    for (const mistake of mistakes) {
+      const name = mistake.mistake.slice(0, MAX_NAME_LENGTH);
+      const exists = await prisma.misconception.findUnique({
+        where: { lessonId_name: { lessonId, name } },
+        select: { id: true },
+      });
+      if (exists) continue;
+
+      const [concept] = await masteryService.findConceptsForText(lessonId, `${mistake.mistake} ${mistake.correction || ''}`);
+      await prisma.misconception.create({
+        data: {
+          lessonId,
+          name,
+          correction: mistake.correction || null,
+          conceptId: concept?.id || null,
+          source: 'content',
+        },
+      });
+      created++;
+    }
+
+    return created;
+  }
+
+  /**
+   * Teacher-defined misconception
+   */
+  async createMisconception(lessonId: string, input: MisconceptionInput): Promise<Misconception> {
+    const lesson = await prisma.lesson.findUnique({ where: { id: lessonId }, select: { id: true } });
+    if (!lesson) {
+      throw new NotFoundError('Lesson');
+    }
+
+    if (input.conceptId) {
+      const concept = await prisma.concept.findFirst({ where: { id: input.conceptId, lessonId } });
+      if (!concept) {
+        throw new ValidationError('Concept does not belong to this lesson');
+      }
+    }
+
+    const name = input.name.trim().slice(0, MAX_NAME_LENGTH);
+    const data = {
+      correction: input.correction || null,
+      keywords: input.keywords?.length ? JSON.stringify(input.keywords) : null,
+      conceptId: input.conceptId || null,
+    };
+
+    return await prisma.misconception.upsert({
+      where: { lessonId_name: { lessonId, name } },
+      create: { lessonId, name, source: 'teacher', ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Map the wrong options of an MCQ question to misconceptions (null clears an option)
+   */
+  async tagQuestion(questionId: string, tags: Record<string, string | null>): Promise<Record<string, string>> {
+    const question = await prisma.question.findUnique({ where: { id: questionId } });
+    if (!question) {
+      throw new NotFoundError('Question');
+    }
+    if (question.type !== 'MCQ') {
+      throw new ValidationError('Only MCQ distractors can be tagged');
+    }
+
+    const options = this.parseArray(question.options);
+    const map = this.parseMap(question.misconceptionMap) || {};
+
+    for (const [option, misconceptionId] of Object.entries(tags)) {
+      const index = optionIndex(options, option);
+      if (index < 0) {
+        throw new ValidationError(`Unknown option: ${option}`);
+      }
+      if (optionIndex(options, question.correctAnswer) === index) {
+        throw new ValidationError('The correct option cannot carry a misconception');
+      }
+
+      if (!misconceptionId) {
+        delete map[options[index]];
+        continue;
+      }
+
+      const misconception = await prisma.misconception.findFirst({
+        where: { id: misconceptionId, lessonId: question.lessonId },
+        select: { id: true },
+      });
+      if (!misconception) {
+        throw new ValidationError(`Misconception ${misconceptionId} does not belong to this lesson`);
+      }
+      map[options[index]] = misconceptionId;
+    }
+
+    await prisma.question.update({
+      where: { id: questionId },
+      data: { misconceptionMap: JSON.stringify(map) },
+    });
+    return map;
+  }
+
+  /**
+   * A student's misconceptions, most frequent first, with remediation
+   */
+  async getStudentMisconceptions(userId: string, lessonId?: string): Promise<StudentMisconceptionEntry[]> {
+    const rows = await prisma.studentMisconception.findMany({
+      where: { userId, ...(lessonId ? { lessonId } : {}) },
+      include: { misconception: true },
+      orderBy: [{ count: 'desc' }, { lastSeenAt: 'desc' }],
+    });
+
+    // One query for the common mistakes of every lesson involved
+    const lessonIds = [...new Set(rows.map(row => row.misconception.lessonId))];
+    const contents = lessonIds.length > 0
+      ? await prisma.content.findMany({
+          where: { lessonId: { in: lessonIds } },
+          select: { lessonId: true, enrichedContent: true },
+        })
+      : [];
+    const mistakesByLesson = new Map(contents.map(c => [c.lessonId, this.parseMistakes(c.enrichedContent)]));
+
+    return rows.map(row => ({
+      misconceptionId: row.misconceptionId,
+      name: row.misconception.name,
+      lessonId: row.lessonId,
+      conceptId: row.misconception.conceptId,
+      count: row.count,
+      firstSeenAt: row.firstSeenAt,
+      lastSeenAt: row.lastSeenAt,
+      remediation: this.buildRemediation(row.misconception, mistakesByLesson.get(row.misconception.lessonId) || []),
+    }));
+  }
+
+  /**
+   * Most common misconceptions among a group of students (or everyone when userIds is omitted)
+   */
+  async rankMisconceptions(
+    scope: { lessonId?: string; userIds?: string[]; classroomId?: string },
+    limit = 20
+  ): Promise<MisconceptionRanking> {
+    const where = {
+      ...(scope.lessonId ? { lessonId: scope.lessonId } : {}),
+      ...(scope.userIds ? { userId: { in: scope.userIds } } : {}),
+    };
+
+    const [groups, students] = await Promise.all([
+      prisma.studentMisconception.groupBy({
+        by: ['misconceptionId'],
+        where,
+        _count: { userId: true },
+        _sum: { count: true },
+        _max: { lastSeenAt: true },
+      }),
+      scope.userIds
+        ? Promise.resolve(scope.userIds.length)
+        : prisma.quizAttempt.findMany({
+            where: { completedAt: { not: null }, ...(scope.lessonId ? { lessonId: scope.lessonId } : {}) },
+            distinct: ['userId'],
+            select: { userId: true },
+          }).then(rows => rows.length),
+    ]);
+
+    const misconceptions = await prisma.misconception.findMany({
+      where: { id: { in: groups.map(g => g.misconceptionId) } },
+    });
+    const byId = new Map(misconceptions.map(m => [m.id, m]));
+
+    const items = groups
+      .filter(g => byId.has(g.misconceptionId))
+      .map(g => {
+        const misconception = byId.get(g.misconceptionId)!;
+        const affected = g._count.userId;
+        return {
+          misconceptionId: misconception.id,
+          name: misconception.name,
+          lessonId: misconception.lessonId,
+          conceptId: misconception.conceptId,
+          students: affected,
+          occurrences: g._sum.count || 0,
+          share: students > 0 ? Math.round((affected / students) * 1000) / 1000 : 0,
+          lastSeenAt: g._max.lastSeenAt,
+        };
+      })
+      .sort((a, b) => (b.students - a.students) || (b.occurrences - a.occurrences))
+      .slice(0, limit);
+
+    return {
+      lessonId: scope.lessonId,
+      classroomId: scope.classroomId,
+      students,
+      items,
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Common mistakes stored in the lesson's enriched content
+   */
+  async getLessonMistakes(lessonId: string): Promise<MisconceptionRemediation[]> {
+    const content = await prisma.content.findUnique({
+      where: { lessonId },
+      select: { enrichedContent: true },
+    });
+    return this.parseMistakes(content?.enrichedContent ?? null);
+  }
+
+  // ============= Helpers =============
+
+  private parseMistakes(enrichedContent: string | null): MisconceptionRemediation[] {
+    if (!enrichedContent) return [];
+
+    let mistakes: any[] = [];
+    try {
+      mistakes = JSON.parse(enrichedContent).commonMistakes || [];
+    } catch {
+      return [];
+    }
+    if (!Array.isArray(mistakes)) return [];
+
+    return mistakes
+      .map((m: any): MisconceptionRemediation | null => {
+        if (typeof m === 'string') return m.trim() ? { mistake: m.trim() } : null;
+        const mistake = m?.mistake || m?.error || m?.title;
+        if (typeof mistake !== 'string' || !mistake.trim()) return null;
+        return {
+          mistake: mistake.trim(),
+          correction: m.correct || m.correction || m.fix || undefined,
+          tip: m.tip || m.explanation || undefined,
+        };
+      })
+      .filter((m): m is MisconceptionRemediation => m !== null);
+  }
+
+  private async getRemediation(misconception: Misconception): Promise<MisconceptionRemediation> {
+    return this.buildRemediation(misconception, await this.getLessonMistakes(misconception.lessonId));
+  }
+
+  private buildRemediation(misconception: Misconception, mistakes: MisconceptionRemediation[]): MisconceptionRemediation {
+    const name = normalizeArabic(misconception.name);
+    const entry = mistakes.find(m => normalizeArabic(m.mistake.slice(0, MAX_NAME_LENGTH)) === name)
+      || mistakes.find(m => {
+        const mistake = normalizeArabic(m.mistake);
+        return mistake.includes(name) || name.includes(mistake);
+      });
+
+    return {
+      mistake: entry?.mistake || misconception.name,
+      correction: entry?.correction || misconception.correction || undefined,
+      tip: entry?.tip,
+    };
+  }
+
+  private matchKeywords(catalog: Misconception[], userAnswer: string): Misconception | null {
+    const answer = normalizeArabic(userAnswer);
+    return catalog.find(m =>
+      this.parseArray(m.keywords).some(keyword => {
+        const normalized = normalizeArabic(keyword);
+        return normalized.length > 0 && answer.includes(normalized);
+      })
+    ) || null;
+  }
+
+  /**
+   * One AI call per question: which misconception does each wrong option reveal?
+   * New misconceptions suggested by the model are added to the lesson catalog.
+   */
+  private async autoTagQuestion(
+    question: Question,
+    options: string[],
+    catalog: Misconception[]
+  ): Promise<Record<string, string>> {
+    const correctIndex = optionIndex(options, question.correctAnswer);
+    const wrong = options.filter((_, i) => i !== correctIndex);
+    const map: Record<string, string> = {};
+
+    try {
+      const response = await openAIService.chatJSON<AITaggingResponse>([
+        {
+          role: 'system',
+          content: `أنت خبير في تعليم الرياضيات والعلوم للمرحلة الإعدادية. لكل بديل خاطئ في سؤال اختيار من متعدد، حدد المفهوم الخاطئ الذي يدفع الطالب لاختياره.
+استخدم اسماً من القائمة إن وجد، وإلا اكتب اسماً قصيراً جديداً (جملة واحدة). إن كان البديل مجرد خطأ حسابي أو تخمين اكتب null.
+الرد بصيغة JSON: {"tags": [{"option": "نص البديل", "misconception": "الاسم" | null, "correction": "الصواب باختصار"}]}`,
+        },
+        {
+          role: 'user',
+          content: `السؤال: ${question.question}
+الإجابة الصحيحة: ${question.correctAnswer}
+البدائل الخاطئة:
+${wrong.map(o => `- ${o}`).join('\n')}
+
+المفاهيم الخاطئة المعروفة في الدرس:
+${catalog.map(m => `- ${m.name}`).join('\n') || '(لا يوجد)'}`,
+        },
+      ], { temperature: 0, maxTokens: 600, schema: aiTaggingSchema });
+
+      for (const tag of response?.tags || []) {
+        const index = tag.option ? optionIndex(options, tag.option) : -1;
+        if (index < 0 || index === correctIndex || !tag.misconception?.trim()) continue;
+
+        const misconception = this.findByName(catalog, tag.misconception)
+          || await this.createFromAI(question.lessonId, tag.misconception, tag.correction, catalog);
+        map[options[index]] = misconception.id;
+      }
+    } catch (error) {
+      console.error('Distractor tagging failed:', error);
+      return map;
+    }
+
+    // Saved even when empty so the question is not sent to the model again
+    await prisma.question.update({
+      where: { id: question.id },
+      data: { misconceptionMap: JSON.stringify(map) },
+    });
+    return map;
+  }
+
+  private async classifyWithAI(
+    question: Question,
+    userAnswer: string,
+    catalog: Misconception[]
+  ): Promise<Misconception | null> {
+    const response = await openAIService.chatJSON<AIClassificationResponse>([
+      {
+        role: 'system',
+        content: `أنت معلم يحلل أخطاء الطلاب. اختر المفهوم الخاطئ من القائمة الذي يفسر إجابة الطالب، أو null إن لم ينطبق أي منها.
+الرد بصيغة JSON: {"misconception": "الاسم كما في القائمة" | null, "confidence": 0.0-1.0}`,
+      },
+      {
+        role: 'user',
+        content: `السؤال: ${question.question}
+الإجابة الصحيحة: ${question.correctAnswer}
+إجابة الطالب: ${userAnswer.slice(0, MAX_ANSWER_LENGTH)}
+
+المفاهيم الخاطئة:
+${catalog.map(m => `- ${m.name}`).join('\n')}`,
+      },
+    ], { temperature: 0, maxTokens: 200, schema: aiClassificationSchema });
+
+    if (!response?.misconception) return null;
+    if (typeof response.confidence === 'number' && response.confidence < 0.5) return null;
+    return this.findByName(catalog, response.misconception);
+  }
+
+  private async createFromAI(
+    lessonId: string,
+    name: string,
+    correction: string | undefined,
+    catalog: Misconception[]
+  ): Promise<Misconception> {
+    const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+    const [concept] = await masteryService.findConceptsForText(lessonId, trimmed);
+
+    const misconception = await prisma.misconception.upsert({
+      where: { lessonId_name: { lessonId, name: trimmed } },
+      create: {
+        lessonId,
+        name: trimmed,
+        correction: correction || null,
+        conceptId: concept?.id || null,
+        source: 'ai',
+      },
+      update: {},
+    });
+    catalog.push(misconception);
+    return misconception;
+  }
+
+  private findByName(catalog: Misconception[], name: string): Misconception | null {
+    const normalized = normalizeArabic(name.trim());
+    return catalog.find(m => normalizeArabic(m.name) === normalized) || null;
+  }
+
+  private parseMap(value: string | null): Record<string, string> | null {
+    if (!value) return null;
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseArray(value: string | null): string[] {
+    if (!value) return [];
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(v => String(v)) : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const misconceptionService = new MisconceptionService();
@@ -0,0 +1,491 @@
+// src/core/quiz/question-template.engine.ts
+// Parameterized questions: "{a} + {b}" placeholders, random variables with constraints,
+// and an answer + step-by-step solution computed from the same values (no AI call)
+
+import { createRandom, seededShuffle } from '../../utils/random.utils';
+import type {
+  QuestionTemplateInput,
+  TemplateInstance,
+  TemplateVariable
+} from '../../types/quiz.types';
+
+// ============= EXPRESSIONS =============
+
+type Expr =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'unary'; op: '-' | '!'; arg: Expr }
+  | { type: 'bin'; op: string; left: Expr; right: Expr }
+  | { type: 'call'; name: string; args: Expr[] };
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public expression: string) {
+    super(`${message} in "${expression}"`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+const gcd2 = (a: number, b: number): number => {
+  a = Math.abs(Math.round(a));
+  b = Math.abs(Math.round(b));
+  while (b) [a, b] = [b, a % b];
+  return a;
+};
+
+const lcm2 = (a: number, b: number): number => (a && b ? Math.abs(Math.round(a * b)) / gcd2(a, b) : 0);
+
+const isPrime = (n: number): boolean => {
+  if (!Number.isInteger(n) || n < 2) return false;
+  for (let i = 2; i * i <= n; i++) {
+    if (n % i === 0) return false;
+  }
+  return true;
+};
+
+const factorial = (n: number): number => {
+  if (!Number.isInteger(n) || n < 0 || n > 20) return NaN;
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+};
+
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; fn: (...args: number[]) => number }> = {
+  gcd: { minArgs: 2, maxArgs: Infinity, fn: (...xs) => xs.reduce(gcd2) },
+  lcm: { minArgs: 2, maxArgs: Infinity, fn: (...xs) => xs.reduce(lcm2) },
+  min: { minArgs: 1, maxArgs: Infinity, fn: Math.min },
+  max: { minArgs: 1, maxArgs: Infinity, fn: Math.max },
+  abs: { minArgs: 1, maxArgs: 1, fn: Math.abs },
+  sqrt: { minArgs: 1, maxArgs: 1, fn: Math.sqrt },
+  floor: { minArgs: 1, maxArgs: 1, fn: Math.floor },
+  ceil: { minArgs: 1, maxArgs: 1, fn: Math.ceil },
+  round: { minArgs: 1, maxArgs: 2, fn: (x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits },
+  pow: { minArgs: 2, maxArgs: 2, fn: Math.pow },
+  fact: { minArgs: 1, maxArgs: 1, fn: factorial },
+  prime: { minArgs: 1, maxArgs: 1, fn: n => (isPrime(n) ? 1 : 0) },
+};
+
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+  '^': 7,
+};
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '^', '!', '(', ')', ','];
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const MAX_TRIES = 500;
+const MAX_RANGE_VALUES = 1_000_000;
+const DISPLAY_DECIMALS = 4;
+const MIN_MCQ_OPTIONS = 3;
+
+type Token = { kind: 'num'; value: number } | { kind: 'id'; name: string } | { kind: 'op'; value: string };
+
+function tokenize(source: string): Token[] {
+  const text = source
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/×/g, '*')
+    .replace(/÷/g, '/');
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(text.slice(i));
+    if (number) {
+      tokens.push({ kind: 'num', value: parseFloat(number[1]) });
+      i += number[1].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i));
+    if (word) {
+      tokens.push({ kind: 'id', name: word[0] });
+      i += word[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => text.startsWith(o, i));
+    if (!op) throw new TemplateSyntaxError(`Unexpected "${text[i]}"`, source);
+    tokens.push({ kind: 'op', value: op });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+class ExprParser {
+  private pos = 0;
+  private tokens: Token[];
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Expr {
+    if (this.tokens.length === 0) throw new TemplateSyntaxError('Empty expression', this.source);
+    const expr = this.binary(1);
+    if (this.pos < this.tokens.length) throw new TemplateSyntaxError('Unexpected trailing input', this.source);
+    return expr;
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.kind === 'op' && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.isOp(value)) throw new TemplateSyntaxError(`Expected "${value}"`, this.source);
+    this.pos++;
+  }
+
+  // Precedence climbing; ^ is right-associative
+  private binary(minPrecedence: number): Expr {
+    let left = this.unary();
+    for (;;) {
+      const token = this.tokens[this.pos];
+      const precedence = token?.kind === 'op' ? PRECEDENCE[token.value] : undefined;
+      if (!precedence || precedence < minPrecedence) return left;
+
+      this.pos++;
+      const op = (token as { value: string }).value;
+      const right = this.binary(op === '^' ? precedence : precedence + 1);
+      left = { type: 'bin', op, left, right };
+    }
+  }
+
+  // -x^2 = -(x^2)
+  private unary(): Expr {
+    if (this.isOp('-') || this.isOp('!')) {
+      const op = (this.tokens[this.pos++] as { value: '-' | '!' }).value;
+      return { type: 'unary', op, arg: this.binary(PRECEDENCE['^']) };
+    }
+    return this.primary();
+  }
+
+  private primary(): Expr {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new TemplateSyntaxError('Unexpected end of expression', this.source);
+
+    if (token.kind === 'num') return { type: 'num', value: token.value };
+
+    if (token.kind === 'id') {
+      if (!this.isOp('(')) return { type: 'var', name: token.name };
+
+      // Own keys only: "constructor(x)" or "toString()" are not functions here
+      const fn = Object.hasOwn(FUNCTIONS, token.name) ? FUNCTIONS[token.name] : undefined;
+      if (!fn) throw new TemplateSyntaxError(`Unknown function ${token.name}()`, this.source);
+
+      this.pos++;
+      const args: Expr[] = [];
+      if (!this.isOp(')')) {
+        args.push(this.binary(1));
+        while (this.isOp(',')) {
+          this.pos++;
+          args.push(this.binary(1));
+        }
+      }
+      this.expectOp(')');
+
+      if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        throw new TemplateSyntaxError(`Wrong number of arguments for ${token.name}()`, this.source);
+      }
+      return { type: 'call', name: token.name, args };
+    }
+
+    if (token.value === '(') {
+      const inner = this.binary(1);
+      this.expectOp(')');
+      return inner;
+    }
+
+    throw new TemplateSyntaxError(`Unexpected "${token.value}"`, this.source);
+  }
+}
+
+function evaluate(expr: Expr, scope: Record<string, number>): number {
+  switch (expr.type) {
+    case 'num':
+      return expr.value;
+    case 'var':
+      return Object.hasOwn(scope, expr.name) ? scope[expr.name] : NaN;
+    case 'unary': {
+      const value = evaluate(expr.arg, scope);
+      return expr.op === '-' ? -value : value ? 0 : 1;
+    }
+    case 'call':
+      return FUNCTIONS[expr.name].fn(...expr.args.map(a => evaluate(a, scope)));
+    case 'bin': {
+      const a = evaluate(expr.left, scope);
+      const b = evaluate(expr.right, scope);
+      switch (expr.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+        case '^': return Math.pow(a, b);
+        case '==': return Math.abs(a - b) < 1e-9 ? 1 : 0;
+        case '!=': return Math.abs(a - b) >= 1e-9 ? 1 : 0;
+        case '<': return a < b ? 1 : 0;
+        case '<=': return a <= b ? 1 : 0;
+        case '>': return a > b ? 1 : 0;
+        case '>=': return a >= b ? 1 : 0;
+        case '&&': return a && b ? 1 : 0;
+        case '||': return a || b ? 1 : 0;
+        default: return NaN;
+      }
+    }
+  }
+}
+
+function collectVariables(expr: Expr, into: Set<string> = new Set()): Set<string> {
+  switch (expr.type) {
+    case 'var':
+      into.add(expr.name);
+      break;
+    case 'unary':
+      collectVariables(expr.arg, into);
+      break;
+    case 'call':
+      expr.args.forEach(a => collectVariables(a, into));
+      break;
+    case 'bin':
+      collectVariables(expr.left, into);
+      collectVariables(expr.right, into);
+      break;
+  }
+  return into;
+}
+
+/**
+ * 12 → "12", 0.1 + 0.2 → "0.3", -0 → "0"
+ */
+export function formatNumber(value: number): string {
+  if (Object.is(value, -0)) return '0';
+  if (Number.isInteger(value)) return String(value);
+  return String(parseFloat(value.toFixed(DISPLAY_DECIMALS)));
+}
+
+// ============= ENGINE =============
+
+export class TemplateEngine {
+  private cache = new Map<string, Expr>();
+
+  /**
+   * Build one variant from a seed. Returns null when no values satisfy the constraints.
+   */
+  instantiate(input: QuestionTemplateInput, seed: number): TemplateInstance | null {
+    const random = createRandom(seed);
+    const values = this.sample(input.variables, input.constraints || [], random);
+    if (!values) return null;
+
+    const render = (text: string) => this.render(text, values);
+    let answer = render(input.answer);
+    if (input.type === 'TRUE_FALSE') {
+      // "{a > b}" renders 1/0
+      answer = answer === '1' ? 'true' : answer === '0' ? 'false' : answer;
+    }
+
+    const instance: TemplateInstance = {
+      variantKey: this.variantKey(input.variables, values),
+      values,
+      question: render(input.template),
+      answer,
+      solution: (input.solution || []).map(render),
+      hints: (input.hints || []).map(render),
+      explanation: input.explanation ? render(input.explanation) : undefined,
+    };
+
+    if (input.type === 'MCQ') {
+      instance.options = this.buildOptions(answer, (input.distractors || []).map(render), random);
+    }
+
+    return instance;
+  }
+
+  /**
+   * Replace every {expression} with its formatted value
+   */
+  render(text: string, values: Record<string, number>): string {
+    return text.replace(PLACEHOLDER, (_, source: string) => formatNumber(this.evaluate(source, values)));
+  }
+
+  evaluate(source: string, values: Record<string, number>): number {
+    return evaluate(this.compile(source), values);
+  }
+
+  /**
+   * Problems with a template, empty when it is usable
+   */
+  validate(input: QuestionTemplateInput): string[] {
+    const errors: string[] = [];
+
+    if (!input.template?.trim()) errors.push('Template text is empty');
+    if (!input.answer?.trim()) errors.push('Answer is empty');
+
+    const names = Object.keys(input.variables || {});
+    if (names.length === 0) errors.push('At least one variable is required');
+
+    // Variables may only use the ones declared before them
+    const known = new Set<string>();
+    for (const name of names) {
+      if (!IDENTIFIER.test(name) || Object.hasOwn(FUNCTIONS, name)) {
+        errors.push(`Invalid variable name "${name}"`);
+      }
+      errors.push(...this.validateVariable(name, input.variables[name], known));
+      known.add(name);
+    }
+
+    const check = (source: string, where: string) => {
+      try {
+        const unknown = [...collectVariables(this.compile(source))].filter(v => !known.has(v));
+        if (unknown.length) errors.push(`${where}: unknown variable ${unknown.join(', ')}`);
+      } catch (error: any) {
+        errors.push(`${where}: ${error.message}`);
+      }
+    };
+    const checkText = (text: string, where: string) => {
+      for (const match of text.matchAll(PLACEHOLDER)) check(match[1], where);
+    };
+
+    (input.constraints || []).forEach((c, i) => check(c, `Constraint ${i + 1}`));
+    checkText(input.template || '', 'Template');
+    checkText(input.answer || '', 'Answer');
+    (input.distractors || []).forEach((d, i) => checkText(d, `Distractor ${i + 1}`));
+    (input.solution || []).forEach((s, i) => checkText(s, `Solution step ${i + 1}`));
+    (input.hints || []).forEach((h, i) => checkText(h, `Hint ${i + 1}`));
+    if (input.explanation) checkText(input.explanation, 'Explanation');
+
+    if (errors.length > 0) return errors;
+
+    // Must actually produce variants with a finite answer
+    const samples = [1, 2, 3, 4, 5].map(seed => this.instantiate(input, seed));
+    const usable = samples.filter((s): s is TemplateInstance => s !== null);
+    if (usable.length === 0) {
+      errors.push(`Constraints could not be satisfied in ${MAX_TRIES} tries`);
+    } else if (usable.some(s => /NaN|Infinity/.test(s.answer))) {
+      errors.push('Answer is not a finite number for some values (division by zero?)');
+    } else if (input.type === 'MCQ' && usable.some(s => (s.options?.length || 0) < 2)) {
+      errors.push('Multiple choice template needs distractors');
+    }
+
+    return errors;
+  }
+
+  // ============= Helpers =============
+
+  private compile(source: string): Expr {
+    let expr = this.cache.get(source);
+    if (!expr) {
+      expr = new ExprParser(source).parse();
+      this.cache.set(source, expr);
+    }
+    return expr;
+  }
+
+  private sample(
+    variables: Record<string, TemplateVariable>,
+    constraints: string[],
+    random: () => number
+  ): Record<string, number> | null {
+    for (let attempt = 0; attempt < MAX_TRIES; attempt++) {
+      const scope: Record<string, number> = {};
+      let valid = true;
+
+      for (const [name, spec] of Object.entries(variables)) {
+        const value = this.draw(spec, scope, random);
+        if (!Number.isFinite(value)) {
+          valid = false;
+          break;
+        }
+        scope[name] = value;
+      }
+
+      if (valid && constraints.every(c => !!this.evaluate(c, scope))) {
+        return scope;
+      }
+    }
+    return null;
+  }
+
+  private draw(spec: TemplateVariable, scope: Record<string, number>, random: () => number): number {
+    if ('expr' in spec) return this.evaluate(spec.expr, scope);
+    if ('values' in spec) return spec.values[Math.floor(random() * spec.values.length)];
+
+    const step = spec.step || 1;
+    const count = Math.floor((spec.max - spec.min) / step) + 1;
+    // toFixed avoids 0.1 * 3 = 0.30000000000000004
+    return parseFloat((spec.min + step * Math.floor(random() * count)).toFixed(10));
+  }
+
+  private validateVariable(name: string, spec: TemplateVariable, known: Set<string>): string[] {
+    if (!spec || typeof spec !== 'object') return [`Variable ${name}: missing definition`];
+
+    if ('expr' in spec) {
+      try {
+        const unknown = [...collectVariables(this.compile(spec.expr))].filter(v => !known.has(v));
+        return unknown.length ? [`Variable ${name}: uses ${unknown.join(', ')} before it is defined`] : [];
+      } catch (error: any) {
+        return [`Variable ${name}: ${error.message}`];
+      }
+    }
+
+    if ('values' in spec) {
+      return Array.isArray(spec.values) && spec.values.length > 0 && spec.values.every(Number.isFinite)
+        ? []
+        : [`Variable ${name}: values must be a non-empty list of numbers`];
+    }
+
+    const { min, max, step = 1 } = spec;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+      return [`Variable ${name}: min must be a number not greater than max`];
+    }
+    if (!(step > 0)) return [`Variable ${name}: step must be positive`];
+    if ((max - min) / step + 1 > MAX_RANGE_VALUES) return [`Variable ${name}: range is too large`];
+    return [];
+  }
+
+  /**
+   * Correct answer + distinct distractors; numeric answers are padded with near misses
+   */
+  private buildOptions(answer: string, distractors: string[], random: () => number): string[] {
+    const options = [answer];
+    for (const d of distractors) {
+      if (d && !options.includes(d)) options.push(d);
+    }
+
+    const numeric = Number(answer);
+    if (options.length < MIN_MCQ_OPTIONS && answer.trim() !== '' && Number.isFinite(numeric)) {
+      for (let offset = 1; options.length < MIN_MCQ_OPTIONS && offset <= 10; offset++) {
+        for (const candidate of [numeric + offset, numeric - offset]) {
+          const text = formatNumber(candidate);
+          if (options.length < MIN_MCQ_OPTIONS && !options.includes(text)) options.push(text);
+        }
+      }
+    }
+
+    return seededShuffle(options, Math.floor(random() * 0xffffffff));
+  }
+
+  /**
+   * Only the randomly drawn values identify a variant (derived ones follow from them)
+   */
+  private variantKey(variables: Record<string, TemplateVariable>, values: Record<string, number>): string {
+    return Object.entries(variables)
+      .filter(([, spec]) => !('expr' in spec))
+      .map(([name]) => `${name}=${formatNumber(values[name])}`)
+      .join('&');
+  }
+}
+
+// Export singleton instance
+export const templateEngine = new TemplateEngine();
@@ -0,0 +1,227 @@
+// src/core/quiz/question-template.service.ts
+// قوالب الأسئلة: كل طالب ياخد نسخة بأرقام مختلفة، والإجابة وخطوات الحل محسوبة بدون AI
+
+import { prisma } from '../../config/database.config';
+import { templateEngine } from './question-template.engine';
+import { getOpenExamQuestionIds } from './exam.lock';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { hashSeed, randomSeed, seededShuffle } from '../../utils/random.utils';
+import type { Question, QuestionTemplate, QuestionType, Difficulty } from '@prisma/client';
+import type { QuestionTemplateInput, TemplateInstance } from '../../types/quiz.types';
+
+const PREVIEW_SEEDS = 5;
+const LOCKED_VARIANT_RETRIES = 3;
+
+export class QuestionTemplateService {
+
+  /**
+   * Save a template after checking it parses and can produce variants
+   */
+  async createTemplate(lessonId: string, input: QuestionTemplateInput, createdBy?: string): Promise<QuestionTemplate> {
+    const lesson = await prisma.lesson.findUnique({ where: { id: lessonId }, select: { id: true } });
+    if (!lesson) {
+      throw new NotFoundError('Lesson');
+    }
+
+    this.assertValid(input);
+
+    return await prisma.questionTemplate.create({
+      data: { lessonId, createdBy, ...this.toData(input) }
+    });
+  }
+
+  /**
+   * Edit a template. Variants generated from the old version stop being reused.
+   */
+  async updateTemplate(
+    templateId: string,
+    changes: Partial<QuestionTemplateInput> & { isActive?: boolean }
+  ): Promise<QuestionTemplate> {
+    const existing = await prisma.questionTemplate.findUnique({ where: { id: templateId } });
+    if (!existing) {
+      throw new NotFoundError('Question template');
+    }
+
+    const { isActive, ...fields } = changes;
+    const input: QuestionTemplateInput = { ...this.toInput(existing), ...fields };
+    this.assertValid(input);
+
+    const [template] = await prisma.$transaction([
+      prisma.questionTemplate.update({
+        where: { id: templateId },
+        data: { ...this.toData(input), ...(isActive !== undefined && { isActive }) }
+      }),
+      // Keep old variants for past attempts, but never hand them out again
+      prisma.question.updateMany({
+        where: { templateId, variantKey: { not: null } },
+        data: { variantKey: null, isActive: false }
+      })
+    ]);
+
+    return template;
+  }
+
+  async getLessonTemplates(lessonId: string, includeInactive = false): Promise<QuestionTemplate[]> {
+    return await prisma.questionTemplate.findMany({
+      where: { lessonId, ...(includeInactive ? {} : { isActive: true }) },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Sample variants without saving anything (for the teacher's editor)
+   */
+  preview(input: QuestionTemplateInput, count = 3): TemplateInstance[] {
+    this.assertValid(input);
+
+    const base = randomSeed();
+    const instances: TemplateInstance[] = [];
+    for (let i = 0; i < count * PREVIEW_SEEDS && instances.length < count; i++) {
+      const instance = templateEngine.instantiate(input, (base + i) >>> 0);
+      if (instance && !instances.some(p => p.variantKey === instance.variantKey)) {
+        instances.push(instance);
+      }
+    }
+    return instances;
+  }
+
+  /**
+   * One fresh variant per template (up to `count`), saved as questions so answers
+   * can be recorded. The same values reuse the same question row.
+   */
+  async instantiateForLesson(
+    lessonId: string,
+    count: number,
+    options: { userId?: string; difficulty?: 'EASY' | 'MEDIUM' | 'HARD' } = {}
+  ): Promise<Question[]> {
+    let templates = await prisma.questionTemplate.findMany({
+      where: { lessonId, isActive: true }
+    });
+    if (templates.length === 0) return [];
+
+    if (options.difficulty) {
+      const matching = templates.filter(t => t.difficulty === options.difficulty);
+      if (matching.length > 0) templates = matching;
+    }
+
+    // Per student and per request, so classmates (and retakes) see different numbers
+    const seed = hashSeed(`${options.userId || 'guest'}:${Date.now()}:${randomSeed()}`);
+    const selected = seededShuffle(templates, seed).slice(0, count);
+
+    // A variant already drawn into an open exam can't be practised until the exam closes
+    const locked = await getOpenExamQuestionIds(lessonId);
+
+    const questions: Question[] = [];
+    for (const [index, template] of selected.entries()) {
+      let question: Question | null = null;
+      for (let retry = 0; retry < LOCKED_VARIANT_RETRIES && !question; retry++) {
+        const instance = templateEngine.instantiate(
+          this.toInput(template),
+          hashSeed(`${template.id}:${seed}:${index}:${retry}`)
+        );
+        if (!instance) break;
+
+        const saved = await this.saveInstance(template, instance);
+        if (!locked.has(saved.id)) question = saved;
+      }
+
+      if (!question) {
+        console.warn(`⚠️ Template ${template.id} produced no practice variant`);
+        continue;
+      }
+      questions.push(question);
+    }
+
+    return questions;
+  }
+
+  // ============= Helpers =============
+
+  private async saveInstance(template: QuestionTemplate, instance: TemplateInstance): Promise<Question> {
+    const where = { templateId_variantKey: { templateId: template.id, variantKey: instance.variantKey } };
+
+    const existing = await prisma.question.findUnique({ where });
+    if (existing) return existing;
+
+    try {
+      return await prisma.question.create({
+        data: {
+          lessonId: template.lessonId,
+          templateId: template.id,
+          variantKey: instance.variantKey,
+          source: 'template',
+          type: template.type,
+          question: instance.question,
+          options: instance.options ? JSON.stringify(instance.options) : null,
+          correctAnswer: instance.answer,
+          explanation: instance.explanation || null,
+          points: template.points,
+          difficulty: template.difficulty,
+          hints: instance.hints.length ? JSON.stringify(instance.hints) : null,
+          stepByStepSolution: instance.solution.length ? JSON.stringify(instance.solution) : null,
+          tags: template.tags,
+        }
+      });
+    } catch (error: any) {
+      // Another request created the same variant first
+      if (error.code === 'P2002') {
+        const created = await prisma.question.findUnique({ where });
+        if (created) return created;
+      }
+      throw error;
+    }
+  }
+
+  private assertValid(input: QuestionTemplateInput): void {
+    const errors = templateEngine.validate(input);
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid question template: ${errors.join('; ')}`);
+    }
+  }
+
+  private toData(input: QuestionTemplateInput) {
+    return {
+      type: (input.type || 'PROBLEM') as QuestionType,
+      template: input.template,
+      variables: JSON.stringify(input.variables),
+      constraints: input.constraints?.length ? JSON.stringify(input.constraints) : null,
+      answer: input.answer,
+      distractors: input.distractors?.length ? JSON.stringify(input.distractors) : null,
+      solution: input.solution?.length ? JSON.stringify(input.solution) : null,
+      hints: input.hints?.length ? JSON.stringify(input.hints) : null,
+      explanation: input.explanation || null,
+      difficulty: (input.difficulty || 'MEDIUM') as Difficulty,
+      points: input.points ?? 1,
+      tags: input.tags?.length ? JSON.stringify(input.tags) : null,
+    };
+  }
+
+  private toInput(template: QuestionTemplate): QuestionTemplateInput {
+    const parse = <T>(value: string | null, fallback: T): T => {
+      if (!value) return fallback;
+      try {
+        return JSON.parse(value) as T;
+      } catch {
+        return fallback;
+      }
+    };
+
+    return {
+      type: template.type as QuestionTemplateInput['type'],
+      template: template.template,
+      variables: parse(template.variables, {}),
+      constraints: parse(template.constraints, []),
+      answer: template.answer,
+      distractors: parse(template.distractors, []),
+      solution: parse(template.solution, []),
+      hints: parse(template.hints, []),
+      explanation: template.explanation || undefined,
+      difficulty: template.difficulty as QuestionTemplateInput['difficulty'],
+      points: template.points,
+      tags: parse(template.tags, []),
+    };
+  }
+}
+
+// Export singleton instance
+export const questionTemplateService = new QuestionTemplateService();
@@ -3,8 +3,17 @@
 import { z } from 'zod';
 import { prisma } from '../../config/database.config';
 import { ragService } from '../rag/rag.service';
+import { reviewService } from './review.service';
+import { masteryService } from '../progress/mastery.service';
+import { essayGrader, PASS_CREDIT } from './essay.grader';
+import { mathEquivalence } from './math.equivalence';
+import { itemAnalysisService } from './item-analysis.service';
+import { questionTemplateService } from './question-template.service';
+import { hintService } from './hint.service';
+import { misconceptionService } from './misconception.service';
+import { getOpenExamQuestionIds } from './exam.lock';
 import { openAIService } from '../../services/ai/openai.service';
-import { NotFoundError, ValidationError } from '../../utils/errors';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
 import { Difficulty } from '@prisma/client';
 import type { 
   QuizQuestion, 
@@ -14,10 +23,19 @@ import type {
   QuestionResult,
   QuizStatistics,
   QuizPerformance,
-  AnswerSubmissionResult
+  AnswerSubmissionResult,
+  ReviewCardUpdate,
+  GradingResult,
+  CriterionScore,
+  QuestionRubric,
+  MisconceptionMatch
 } from '../../types/quiz.types';
+import type { ConceptMasteryEntry, ConceptMasteryUpdate } from '../../types/progress.types';
 import type { Question, QuizAttempt, QuestionType } from '@prisma/client';
 
+// Arabic MCQ option letters, in order
+const OPTION_LETTERS = ['أ', 'ب', 'ج', 'د'];
+
 // 🆕 Import for student context integration
 interface StudentQuizContext {
   id: string;
@@ -50,6 +68,10 @@ interface ExtendedQuizSession extends QuizSession {
 
 interface ExtendedAnswerSubmissionResult extends AnswerSubmissionResult {
   encouragement?: string;
+  review?: ReviewCardUpdate[];
+  mastery?: ConceptMasteryUpdate[];
+  grading?: GradingResult;
+  misconception?: MisconceptionMatch;
 }
 
 interface ExtendedQuizResult extends QuizResult {
@@ -61,7 +83,7 @@ interface ExtendedQuizResult extends QuizResult {
  * Version: 3.1 - With Student Context & Emotional Intelligence
  */
 export class QuizService {
-  private readonly PASS_THRESHOLD = 60;
+  readonly PASS_THRESHOLD = 60;
   private readonly MAX_QUESTIONS_PER_QUIZ = 10;
   
   // Dynamic quiz settings
@@ -161,18 +183,49 @@ export class QuizService {
 
   /**
    * Generate adaptive quiz questions with student context
-   * 🆕 UPDATED: Priority to use enriched exercises from content
+   * 🆕 Parameterized templates come first: new numbers for every student, no AI call
    */
   async generateQuizQuestions(
     lessonId: string,
     count: number = 5,
     difficulty?: 'EASY' | 'MEDIUM' | 'HARD',
     userId?: string
+  ): Promise<Question[]> {
+    const templated = await questionTemplateService
+      .instantiateForLesson(lessonId, count, { userId, difficulty })
+      .catch(error => {
+        console.error('Template instantiation failed:', error);
+        return [] as Question[];
+      });
+
+    if (templated.length >= count) {
+      console.log(`🧮 ${templated.length} questions from templates`);
+      return templated;
+    }
+
+    const rest = await this.generateLessonQuestions(lessonId, count - templated.length, difficulty, userId);
+    return [...templated, ...rest];
+  }
+
+  /**
+   * Enriched exercises, stored questions, then AI generation
+   * 🆕 UPDATED: Priority to use enriched exercises from content
+   */
+  private async generateLessonQuestions(
+    lessonId: string,
+    count: number,
+    difficulty?: 'EASY' | 'MEDIUM' | 'HARD',
+    userId?: string
   ): Promise<Question[]> {
     console.log(`📝 Generating ${count} adaptive questions`);
 
     // 🆕 Get student context
     const studentContext = userId ? await this.getStudentContext(userId) : null;
+    
+    // 🆕 Concept mastery drives which questions come first
+    const mastery: ConceptMasteryEntry[] = userId
+      ? await masteryService.getLessonMastery(userId, lessonId).catch(() => [])
+      : [];
 
     // Check lesson exists
     const lesson = await prisma.lesson.findUnique({
@@ -231,7 +284,11 @@ export class QuizService {
 
       // Convert exercises to Question format
       const questions: Question[] = [];
-      const exercisesToUse = this.shuffleArray(availableExercises).slice(0, count);
+      const exercisesToUse = masteryService.rankByMastery(
+        this.shuffleArray(availableExercises),
+        ex => `${ex.question || ex.text || ''} ${(ex.tags || []).join(' ')}`,
+        mastery
+      ).slice(0, count);
 
       for (const ex of exercisesToUse) {
         // Determine question type
@@ -262,7 +319,8 @@ export class QuizService {
             difficulty: (difficulty || 'MEDIUM') as Difficulty,
             hints: ex.hints ? JSON.stringify(ex.hints) :
                   ex.hint ? JSON.stringify([ex.hint]) : null,
-            tags: ex.tags ? JSON.stringify(ex.tags) : null
+            tags: ex.tags ? JSON.stringify(ex.tags) : null,
+            source: 'enriched'
           }
         });
 
@@ -293,19 +351,23 @@ export class QuizService {
 
     // Get user performance for adaptive difficulty
     const userLevel = userId ? this.getUserLevel(userId) : null;
-    const adaptedDifficulty = this.adaptDifficulty(difficulty, userLevel, studentContext);
+    const adaptedDifficulty = this.adaptDifficulty(difficulty, userLevel, studentContext, mastery);
 
     // 🆕 Adapt question types based on student preference
     const preferredTypes = studentContext?.learningStyle.preferredQuestionTypes || [];
 
-    // Check existing questions
+    // Check existing questions (an open exam's questions stay out of practice)
+    const locked = await getOpenExamQuestionIds(lessonId);
     let existingQuestions = await prisma.question.findMany({
       where: {
         lessonId,
+        isActive: true,
+        templateId: null, // template variants are generated fresh above
+        ...(locked.size > 0 && { id: { notIn: [...locked] } }),
         ...(adaptedDifficulty && { difficulty: adaptedDifficulty as Difficulty }),
         ...(preferredTypes.length > 0 && { type: { in: preferredTypes as QuestionType[] } })
       },
-      take: Math.floor(count / 2),
+      take: mastery.length > 0 ? count * 2 : Math.floor(count / 2),
     });
 
     // 🆕 Avoid questions that caused mistakes before
@@ -315,8 +377,12 @@ export class QuizService {
       );
     }
 
-    // Shuffle for variety
-    existingQuestions = this.shuffleArray(existingQuestions);
+    // Shuffle for variety, then put weak concepts first
+    existingQuestions = masteryService.rankByMastery(
+      this.shuffleArray(existingQuestions),
+      q => `${q.question} ${q.tags || ''} ${q.learningObjective || ''}`,
+      mastery
+    ).slice(0, Math.floor(count / 2));
 
     // Generate new dynamic questions
     const newCount = count - existingQuestions.length;
@@ -656,6 +722,7 @@ export class QuizService {
         lessonId,
         totalQuestions: orderedQuestions.length,
         correctAnswers: 0,
+        mode: mode || 'practice',
       },
     });
     
@@ -674,7 +741,6 @@ export class QuizService {
         explanation: q.explanation || undefined,
         points: q.points,
         difficulty: q.difficulty as 'EASY' | 'MEDIUM' | 'HARD',
-        hint: q.hints ? JSON.parse(q.hints)[0] : undefined,
         timeLimit: this.getTimeLimit(q.difficulty as string, q.type as string),
       })),
       answers: [],
@@ -730,7 +796,8 @@ export class QuizService {
     attemptId: string,
     questionId: string,
     answer: string,
-    timeSpent: number
+    timeSpent: number,
+    extras: { confidence?: number; hintsUsed?: number; exam?: boolean } = {}
   ): Promise<ExtendedAnswerSubmissionResult> {
     // Get question
     const question = await prisma.question.findUnique({
@@ -747,21 +814,34 @@ export class QuizService {
       include: { answers: true }
     });
     
+    // Exams must not leak feedback before submission
+    if (attempt?.mode === 'exam' && !extras.exam) {
+      throw new ValidationError('Exam answers must be submitted through the exam endpoints');
+    }
+    // ...not even for an open exam's question answered in a practice attempt
+    if (!extras.exam && (await getOpenExamQuestionIds(question.lessonId)).has(question.id)) {
+      throw new ValidationError('This question belongs to an open exam');
+    }
+    
     // 🆕 Get student context
     const studentContext = attempt?.userId 
       ? await this.getStudentContext(attempt.userId) 
       : null;
     
-    // Check answer
-    const isCorrect = this.checkAnswer(question, answer);
+    // Hints revealed through the hint ladder count even if the client doesn't report them
+    const hintsUsed = Math.max(extras.hintsUsed ?? 0, await hintService.countRevealed(attemptId, questionId));
+    
+    // Check answer (essays and short answers are graded against the rubric)
+    const grading = await this.gradeAnswer(question, answer);
+    const isCorrect = grading ? grading.isCorrect : this.checkAnswer(question, answer);
+    // A grade waiting for a teacher doesn't move mastery, reviews or misconceptions yet
+    const pending = grading?.needsReview ?? false;
     
-    // Calculate points with bonuses
-    let pointsEarned = 0;
+    // Calculate points with bonuses (rubric grades earn partial credit, hints cost points)
+    let pointsEarned = this.answerPoints({ isCorrect, credit: grading?.credit ?? null, hintsUsed, needsReview: pending }, question.points);
     let streakBonus = 0;
     
     if (isCorrect) {
-      pointsEarned = question.points;
-      
       // Time bonus
       if (timeSpent < 30 && question.difficulty === 'HARD') {
         pointsEarned += 5;
@@ -803,13 +883,16 @@ export class QuizService {
     }
     
     // Save answer
-    await prisma.quizAttemptAnswer.create({
+    const saved = await prisma.quizAttemptAnswer.create({
       data: {
         attemptId,
         questionId,
         userAnswer: answer,
         isCorrect,
         timeSpent,
+        confidence: extras.confidence ?? 0,
+        hintsUsed,
+        ...(grading ? this.gradingData(grading) : {}),
       },
     });
     
@@ -829,11 +912,23 @@ export class QuizService {
       ragService.updateUserPerformance(attempt.userId, isCorrect);
     }
     
+    // 🆕 Knowledge tracing, spaced-repetition reviews and misconceptions
+    const { mastery, review, misconception } = attempt?.userId && !pending
+      ? await this.recordLearningEvidence(attempt.userId, question, {
+          answerId: saved.id,
+          userAnswer: answer,
+          isCorrect,
+          timeSpent,
+          confidence: extras.confidence,
+          hintsUsed,
+        })
+      : { mastery: undefined, review: undefined, misconception: null };
+    
     // 🆕 Generate personalized explanation and encouragement
-    let explanation = question.explanation || '';
+    let explanation = grading?.feedback || question.explanation || '';
     let encouragement = '';
     
-    if (!isCorrect && studentContext && studentContext.emotionalState) {
+    if (!isCorrect && !grading && !extras.exam && studentContext && studentContext.emotionalState) {
       explanation = await this.getPersonalizedExplanation(
         question,
         answer,
@@ -849,8 +944,12 @@ export class QuizService {
       explanation,
       pointsEarned,
       streakBonus,
-      hint: !isCorrect ? this.generatePersonalizedHint(question.question, studentContext) : undefined,
-      encouragement // 🆕
+      hint: !isCorrect && !pending ? this.generatePersonalizedHint(question.question, studentContext) : undefined,
+      encouragement, // 🆕
+      review,
+      mastery,
+      grading: grading ?? undefined,
+      misconception: misconception && !extras.exam ? misconception : undefined
     };
   }
   
@@ -874,6 +973,432 @@ export class QuizService {
     }
   }
   
+  /**
+   * Check a slide quiz answer against the key the server holds. Only questions that are on the
+   * lesson's slides (its content exercises) can be checked, matched by text or by the stored
+   * question with the same text; questions of an open exam are never checked here.
+   * null when the server has no key: the answer must not be scored or counted toward mastery.
+   * key identifies the slide question so mastery counts it once per student.
+   */
+  async checkSlideAnswer(
+    lessonId: string,
+    answer: string | number,
+    ref: { questionId?: string; questionText?: string }
+  ): Promise<{ isCorrect: boolean; key: string; question?: Question; questionText: string; optionCount?: number } | null> {
+    const normalize = (text: unknown) => typeof text === 'string' ? text.replace(/\s+/g, ' ').trim() : '';
+    
+    const exercises = await this.getLessonExercises(lessonId);
+    const stored = ref.questionId
+      ? await prisma.question.findFirst({ where: { id: ref.questionId, lessonId, isActive: true } })
+      : null;
+    if (ref.questionId && !stored) return null;
+    
+    const questionText = stored ? normalize(stored.question) : normalize(ref.questionText);
+    const exercise = questionText ? exercises.find(e => normalize(e?.question) === questionText) : undefined;
+    if (!exercise) return null;
+    
+    const question = stored
+      || await prisma.question.findFirst({ where: { lessonId, question: questionText, isActive: true } });
+    
+    const locked = await getOpenExamQuestionIds(lessonId);
+    if (question && locked.has(question.id)) return null;
+    
+    if (question) {
+      const grading = await this.gradeAnswer(question, String(answer));
+      return {
+        isCorrect: grading ? grading.isCorrect : this.checkAnswer(question, String(answer)),
+        key: question.id,
+        question,
+        questionText: question.question,
+      };
+    }
+    
+    const isCorrect = this.gradeExerciseAnswer(exercise, answer);
+    if (isCorrect === null) return null;
+    
+    return {
+      isCorrect,
+      key: questionText,
+      questionText,
+      optionCount: Array.isArray(exercise.options) ? exercise.options.length : undefined,
+    };
+  }
+  
+  /**
+   * Grade an answer to a content exercise (enrichedContent / content.exercises).
+   * MCQ keys are an option index or an Arabic option letter ("ب" / "ب) ..."); free-response
+   * keys go through math equivalence / text matching. null when the exercise carries no usable key.
+   */
+  gradeExerciseAnswer(exercise: any, answer: string | number): boolean | null {
+    if (!Array.isArray(exercise?.options) || exercise.options.length === 0) {
+      const key = exercise?.correctAnswer;
+      if (typeof key !== 'string' && typeof key !== 'number') return null;
+      if (String(key).trim() === '') return null;
+      
+      if (exercise.type === 'TRUE_FALSE') {
+        return this.checkAnswer({ type: 'TRUE_FALSE', correctAnswer: String(key) } as Question, String(answer));
+      }
+      return this.matchFreeAnswer(String(key), String(answer));
+    }
+    
+    const stripLetter = (option: unknown) => String(option).replace(/^[أ-د]\)\s*/, '').trim();
+    const options: string[] = exercise.options.map(stripLetter);
+    
+    let correctIndex = -1;
+    if (typeof exercise.correctAnswer === 'number') {
+      correctIndex = exercise.correctAnswer;
+    } else if (typeof exercise.correctAnswer === 'string' && exercise.correctAnswer.trim()) {
+      const key = exercise.correctAnswer.trim();
+      correctIndex = OPTION_LETTERS.indexOf(key.charAt(0));
+      if (correctIndex < 0 || (key.length > 1 && !/^[أ-د](\)|\s|$)/.test(key))) {
+        correctIndex = options.indexOf(stripLetter(key));
+      }
+    }
+    if (!Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) {
+      return null;
+    }
+    
+    // A number is the option index; text is matched against the options first
+    if (typeof answer === 'number') return answer === correctIndex;
+    const byText = options.indexOf(stripLetter(answer));
+    const chosen = byText >= 0 ? byText : /^\d+$/.test(answer.trim()) ? Number(answer.trim()) : -1;
+    return chosen === correctIndex;
+  }
+  
+  /**
+   * Exercises the lesson slides are built from (enriched first, then the original ones)
+   */
+  private async getLessonExercises(lessonId: string): Promise<any[]> {
+    const content = await prisma.content.findUnique({
+      where: { lessonId },
+      select: { enrichedContent: true, exercises: true },
+    });
+    if (!content) return [];
+    
+    const parse = (value: string | null): any => {
+      if (!value) return null;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return null;
+      }
+    };
+    
+    const enriched = parse(content.enrichedContent);
+    const original = parse(content.exercises);
+    return [
+      ...(Array.isArray(enriched?.exercises) ? enriched.exercises : []),
+      ...(Array.isArray(original) ? original : []),
+    ];
+  }
+  
+  /**
+   * Rubric grading for essays and short answers, null for objective question types
+   */
+  async gradeAnswer(question: Question, answer: string): Promise<GradingResult | null> {
+    if (question.type === 'SHORT_ANSWER' && this.checkAnswer(question, answer)) {
+      // Close enough to the model answer: full marks without calling the grader
+      const rubric = essayGrader.getRubric(question);
+      return essayGrader.buildResult(
+        rubric.criteria.map(c => ({ criterionId: c.id, score: c.maxPoints, maxPoints: c.maxPoints })),
+        question.explanation || 'إجابة صحيحة',
+        'auto',
+        false
+      );
+    }
+    
+    if (question.type === 'SHORT_ANSWER' || question.type === 'ESSAY') {
+      return essayGrader.grade(question, answer);
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Teacher override of a rubric or credit grade.
+   * Recomputes the attempt score when the attempt is already completed.
+   */
+  async overrideGrade(
+    requester: { userId: string; role: string },
+    answerId: string,
+    override: { criteria?: Array<{ criterionId: string; score: number; feedback?: string }>; credit?: number; feedback?: string }
+  ): Promise<{ answerId: string; grading: GradingResult; attemptScore: number | null }> {
+    const answer = await prisma.quizAttemptAnswer.findUnique({
+      where: { id: answerId },
+      include: { question: true, attempt: { include: { exam: { select: { teacherId: true } } } } },
+    });
+    
+    if (!answer) {
+      throw new NotFoundError('Answer');
+    }
+    
+    // Admins grade anything; a teacher only their own exam or a student in one of their classes
+    if (requester.role !== 'ADMIN' && answer.attempt.exam?.teacherId !== requester.userId) {
+      const enrolled = await prisma.classEnrollment.findFirst({
+        where: {
+          studentId: answer.attempt.userId,
+          classroom: { teacherId: requester.userId, isActive: true },
+        },
+        select: { id: true },
+      });
+      if (!enrolled) {
+        throw new AuthorizationError('You do not teach this student');
+      }
+    }
+    
+    let grading: GradingResult;
+    if (override.criteria) {
+      const rubric = essayGrader.getRubric(answer.question);
+      const given = new Map(override.criteria.map(c => [c.criterionId, c]));
+      const unknown = override.criteria.find(c => !rubric.criteria.some(r => r.id === c.criterionId));
+      if (unknown) {
+        throw new ValidationError(`Unknown rubric criterion: ${unknown.criterionId}`);
+      }
+      
+      const previous = this.parseGradingDetails(answer.gradingDetails);
+      const scores: CriterionScore[] = rubric.criteria.map(criterion => {
+        const score = given.get(criterion.id)?.score
+          ?? previous?.criteria.find(c => c.criterionId === criterion.id)?.score
+          ?? 0;
+        return {
+          criterionId: criterion.id,
+          score: Math.min(criterion.maxPoints, Math.max(0, score)),
+          maxPoints: criterion.maxPoints,
+          feedback: given.get(criterion.id)?.feedback,
+        };
+      });
+      grading = essayGrader.buildResult(scores, override.feedback || '', 'teacher', false);
+    } else if (override.credit !== undefined) {
+      grading = {
+        credit: override.credit,
+        isCorrect: override.credit >= PASS_CREDIT,
+        criteria: this.parseGradingDetails(answer.gradingDetails)?.criteria || [],
+        feedback: override.feedback || '',
+        gradedBy: 'teacher',
+        needsReview: false,
+      };
+    } else {
+      throw new ValidationError('Provide criteria scores or a credit value');
+    }
+    
+    await prisma.quizAttemptAnswer.update({
+      where: { id: answerId },
+      data: { isCorrect: grading.isCorrect, ...this.gradingData(grading) },
+    });
+    
+    // The answer was held back while pending: it counts toward mastery, reviews and misconceptions now
+    if (answer.needsReview) {
+      await this.recordLearningEvidence(answer.attempt.userId, answer.question, {
+        answerId,
+        userAnswer: answer.userAnswer,
+        isCorrect: grading.isCorrect,
+        timeSpent: answer.timeSpent || 0,
+        confidence: answer.confidence || undefined,
+        hintsUsed: answer.hintsUsed,
+      });
+    }
+    
+    if (grading.isCorrect !== answer.isCorrect) {
+      await prisma.quizAttempt.update({
+        where: { id: answer.attemptId },
+        data: { correctAnswers: { increment: grading.isCorrect ? 1 : -1 } },
+      });
+    }
+    
+    const attemptScore = answer.attempt.completedAt
+      ? await this.recalculateAttemptScore(answer.attemptId)
+      : null;
+    
+    return { answerId, grading, attemptScore };
+  }
+  
+  /**
+   * Answers graded with low confidence, waiting for a teacher.
+   * Same scope as overrideGrade: a teacher sees their own exams and students in their classes.
+   */
+  async getAnswersNeedingReview(
+    requester: { userId: string; role: string },
+    lessonId?: string,
+    limit: number = 50
+  ) {
+    const scope = requester.role === 'ADMIN'
+      ? {}
+      : {
+          attempt: {
+            OR: [
+              { exam: { teacherId: requester.userId } },
+              { user: { enrollments: { some: { classroom: { teacherId: requester.userId, isActive: true } } } } },
+            ],
+          },
+        };
+    
+    const answers = await prisma.quizAttemptAnswer.findMany({
+      where: {
+        needsReview: true,
+        ...(lessonId ? { question: { lessonId } } : {}),
+        ...scope,
+      },
+      include: {
+        question: { select: { id: true, question: true, type: true, points: true, lessonId: true, rubric: true, correctAnswer: true } },
+        attempt: { select: { userId: true, user: { select: { firstName: true, lastName: true } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+    
+    return answers.map(a => ({
+      answerId: a.id,
+      attemptId: a.attemptId,
+      userId: a.attempt.userId,
+      studentName: `${a.attempt.user.firstName} ${a.attempt.user.lastName}`,
+      questionId: a.questionId,
+      question: a.question.question,
+      type: a.question.type,
+      modelAnswer: a.question.correctAnswer,
+      rubric: essayGrader.getRubric(a.question as Question),
+      userAnswer: a.userAnswer,
+      credit: a.credit,
+      gradedBy: a.gradedBy,
+      grading: this.parseGradingDetails(a.gradingDetails),
+      submittedAt: a.createdAt,
+    }));
+  }
+  
+  /**
+   * Attach or replace the rubric of a question
+   */
+  async setRubric(questionId: string, rubric: QuestionRubric): Promise<QuestionRubric> {
+    const ids = rubric.criteria.map(c => c.id);
+    if (new Set(ids).size !== ids.length) {
+      throw new ValidationError('Rubric criterion ids must be unique');
+    }
+    
+    const question = await prisma.question.findUnique({ where: { id: questionId } });
+    if (!question) {
+      throw new NotFoundError('Question');
+    }
+    
+    await prisma.question.update({
+      where: { id: questionId },
+      data: { rubric: JSON.stringify(rubric) },
+    });
+    
+    return rubric;
+  }
+  
+  /**
+   * Feed a final grade into knowledge tracing, the review deck and misconception detection.
+   * Stored tags and keywords answer the misconception now; the LLM runs after the response.
+   */
+  private async recordLearningEvidence(
+    userId: string,
+    question: Question,
+    answer: { answerId: string; userAnswer: string; isCorrect: boolean; timeSpent: number; confidence?: number; hintsUsed: number }
+  ): Promise<{ mastery?: ConceptMasteryUpdate[]; review?: ReviewCardUpdate[]; misconception: MisconceptionMatch | null }> {
+    let mastery: ConceptMasteryUpdate[] | undefined;
+    let review: ReviewCardUpdate[] | undefined;
+    let misconception: MisconceptionMatch | null = null;
+    
+    try {
+      mastery = await masteryService.recordQuestionAnswer(userId, question, {
+        isCorrect: answer.isCorrect,
+        hintsUsed: answer.hintsUsed,
+      });
+    } catch (error) {
+      console.error('Mastery update failed:', error);
+    }
+    
+    try {
+      review = await reviewService.recordAnswer(userId, question, {
+        isCorrect: answer.isCorrect,
+        timeSpent: answer.timeSpent,
+        confidence: answer.confidence,
+        hintsUsed: answer.hintsUsed,
+        expectedTime: this.getTimeLimit(question.difficulty, question.type),
+      });
+    } catch (error) {
+      console.error('Review scheduling failed:', error);
+    }
+    
+    if (!answer.isCorrect) {
+      try {
+        misconception = await misconceptionService.recordWrongAnswer(userId, question, answer.userAnswer, answer.answerId, { useAI: false });
+      } catch (error) {
+        console.error('Misconception detection failed:', error);
+      }
+      
+      if (!misconception) {
+        misconceptionService.recordWrongAnswer(userId, question, answer.userAnswer, answer.answerId)
+          .catch(error => console.error('Misconception detection failed:', error));
+      }
+    }
+    
+    return { mastery, review, misconception };
+  }
+  
+  private gradingData(grading: GradingResult) {
+    return {
+      credit: grading.credit,
+      gradedBy: grading.gradedBy,
+      gradingDetails: JSON.stringify({ criteria: grading.criteria, feedback: grading.feedback }),
+      gradedAt: new Date(),
+      needsReview: grading.needsReview,
+    };
+  }
+  
+  private parseGradingDetails(details: string | null): { criteria: CriterionScore[]; feedback: string } | null {
+    if (!details) return null;
+    try {
+      return JSON.parse(details);
+    } catch {
+      return null;
+    }
+  }
+  
+  private creditPoints(points: number, credit: number): number {
+    return Math.round(points * credit * 10) / 10;
+  }
+  
+  /**
+   * Points an answer earns: partial credit when graded, otherwise all or nothing,
+   * minus the hint penalty. A grade waiting for a teacher earns nothing yet.
+   */
+  answerPoints(
+    answer: { isCorrect: boolean; credit: number | null; hintsUsed?: number; needsReview?: boolean | null },
+    points: number
+  ): number {
+    if (answer.needsReview) return 0;
+    const credit = answer.credit ?? (answer.isCorrect ? 1 : 0);
+    return this.creditPoints(points, credit * (1 - hintService.penaltyFor(answer.hintsUsed ?? 0)));
+  }
+  
+  /**
+   * Attempt score in percent; answers still waiting for a teacher count as 0 until graded
+   */
+  attemptScore(
+    answers: Array<{ isCorrect: boolean; credit: number | null; hintsUsed?: number; needsReview?: boolean | null; question: { points: number } }>
+  ): number {
+    const totalPoints = answers.reduce((sum, a) => sum + a.question.points, 0);
+    const earnedPoints = answers.reduce((sum, a) => sum + this.answerPoints(a, a.question.points), 0);
+    return totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0;
+  }
+  
+  private async recalculateAttemptScore(attemptId: string): Promise<number> {
+    const answers = await prisma.quizAttemptAnswer.findMany({
+      where: { attemptId },
+      include: { question: { select: { points: true } } },
+    });
+    
+    const score = this.attemptScore(answers);
+    
+    await prisma.quizAttempt.update({
+      where: { id: attemptId },
+      data: { score },
+    });
+    
+    return score;
+  }
+  
   /**
    * Check answer with fuzzy matching
    */
@@ -897,31 +1422,38 @@ export class QuizService {
         return this.fuzzyMatch(correct, user, 0.9);
 
       case 'FILL_BLANK':
+        return this.matchFreeAnswer(question.correctAnswer, userAnswer);
+
       case 'SHORT_ANSWER':
         return this.fuzzyMatch(correct, user, 0.8);
 
-      case 'PROBLEM' as QuestionType:
-        // للمسائل الرقمية، نسمح بهامش خطأ صغير
-        const correctNum = parseFloat(correct);
-        const userNum = parseFloat(user);
-
-        if (!isNaN(correctNum) && !isNaN(userNum)) {
-          const tolerance = Math.abs(correctNum * 0.01); // 1% هامش خطأ
-          return Math.abs(correctNum - userNum) <= tolerance;
-        }
+      case 'PROBLEM' as QuestionType: {
+        // للمسائل: كسور، نسب مئوية، وحدات، وتعبيرات جبرية - مع هامش خطأ 1%
+        const math = mathEquivalence.compare(question.correctAnswer, userAnswer, { relativeTolerance: 0.01 });
+        if (math) return math.equivalent;
 
-        // إذا لم تكن أرقام، نستخدم fuzzy match
+        // إذا لم تكن إجابة رياضية، نستخدم fuzzy match
         return this.fuzzyMatch(correct, user, 0.7);
+      }
 
       case 'ESSAY':
-        // المقالات تحتاج تقييم يدوي أو AI
-        return true; // مؤقتاً
+        // المقال لا يُصحح بالتشابه النصي - الدرجة من معايير التقييم (gradeAnswer) أو من المعلم
+        return false;
 
       default:
         return correct === user;
     }
   }
   
+  /**
+   * Free-text answer check: math equivalence when both sides are math, fuzzy text otherwise
+   */
+  matchFreeAnswer(expected: string, answer: string): boolean {
+    const math = mathEquivalence.compare(expected, answer);
+    if (math) return math.equivalent;
+    return this.fuzzyMatch(expected.toLowerCase().trim(), answer.toLowerCase().trim(), 0.8);
+  }
+  
   /**
    * Enhanced fuzzy matching
    */
@@ -953,7 +1485,7 @@ export class QuizService {
   /**
    * Complete quiz with enhanced analysis and parent report
    */
-  async completeQuiz(attemptId: string): Promise<ExtendedQuizResult> {
+  async completeQuiz(attemptId: string, options: { exam?: boolean } = {}): Promise<ExtendedQuizResult> {
     console.log(`🏁 Completing quiz ${attemptId}`);
     
     // Get attempt with all data
@@ -973,6 +1505,10 @@ export class QuizService {
       throw new NotFoundError('Quiz attempt');
     }
     
+    if (attempt.mode === 'exam' && !options.exam) {
+      throw new ValidationError('Exams must be submitted through the exam endpoints');
+    }
+    
     // 🆕 Get student context
     const studentContext = await this.getStudentContext(attempt.userId);
     
@@ -981,7 +1517,7 @@ export class QuizService {
       (sum, a) => sum + a.question.points, 0
     );
     const earnedPoints = attempt.answers.reduce(
-      (sum, a) => sum + (a.isCorrect ? a.question.points : 0), 0
+      (sum, a) => sum + this.answerPoints(a, a.question.points), 0
     );
     const percentage = totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0;
     const passed = percentage >= this.PASS_THRESHOLD;
@@ -1009,11 +1545,15 @@ export class QuizService {
       userAnswer: a.userAnswer,
       correctAnswer: a.question.correctAnswer,
       isCorrect: a.isCorrect,
-      points: a.isCorrect ? a.question.points : 0,
+      points: this.answerPoints(a, a.question.points),
       explanation: a.question.explanation || undefined,
       timeSpent: a.timeSpent || 0,
       difficulty: a.question.difficulty as 'EASY' | 'MEDIUM' | 'HARD',
       type: a.question.type as QuestionResult['type'],
+      hintsUsed: a.hintsUsed || undefined,
+      credit: a.credit ?? undefined,
+      gradedBy: (a.gradedBy as QuestionResult['gradedBy']) ?? undefined,
+      needsReview: a.needsReview || undefined,
     }));
     
     // Enhanced performance analysis
@@ -1063,8 +1603,15 @@ export class QuizService {
       recommendations
     );
     
-    // Update progress
-    await this.updateProgress(attempt.userId, attempt.lessonId, passed, percentage);
+    // Update progress (review sessions span several lessons)
+    if (attempt.mode !== 'review') {
+      await this.updateProgress(attempt.userId, attempt.lessonId, passed, percentage);
+
+      // Retire broken generated questions in the background
+      itemAnalysisService.maybeAutoRetire(attempt.lessonId).catch(error =>
+        console.error('Item analysis failed:', error)
+      );
+    }
     
     return {
       attemptId,
@@ -1345,7 +1892,8 @@ export class QuizService {
   private adaptDifficulty(
     requested?: 'EASY' | 'MEDIUM' | 'HARD', 
     userLevel?: any,
-    studentContext?: StudentQuizContext | null
+    studentContext?: StudentQuizContext | null,
+    mastery: ConceptMasteryEntry[] = []
   ): 'EASY' | 'MEDIUM' | 'HARD' {
     if (!this.QUIZ_SETTINGS.adaptiveDifficulty || !userLevel) {
       return requested || 'MEDIUM';
@@ -1360,6 +1908,15 @@ export class QuizService {
       return 'HARD'; // Challenge when confident and happy
     }
     
+    // 🆕 Lesson concept mastery, when the student has practiced it
+    const practiced = mastery.filter(m => m.attempts > 0);
+    if (!requested && practiced.length > 0) {
+      const avgKnown = practiced.reduce((sum, m) => sum + m.pKnown, 0) / practiced.length;
+      if (avgKnown < 0.4) return 'EASY';
+      if (avgKnown >= 0.85) return 'HARD';
+      return 'MEDIUM';
+    }
+    
     if (userLevel.level === 'advanced') {
       return userLevel.performance.lastDifficulty === 'HARD' ? 'HARD' : 'MEDIUM';
     } else if (userLevel.level === 'beginner') {
@@ -1436,7 +1993,10 @@ export class QuizService {
     return Math.round(base);
   }
   
-  private getTimeLimit(difficulty: string, type: string): number {
+  /**
+   * Time allowed for one question (seconds); exams enforce it as a hard cap
+   */
+  getTimeLimit(difficulty: string, type: string): number {
     let base = 60; // seconds
     if (difficulty === 'HARD') base += 30;
     if (type === 'PROBLEM' || type === 'ESSAY') base += 60;
@@ -1492,6 +2052,7 @@ export class QuizService {
             tags: q.tags ? JSON.stringify(q.tags) : null,
             learningObjective: q.learningObjective,
             stepByStepSolution: q.stepByStepSolution ? JSON.stringify(q.stepByStepSolution) : null,
+            source: 'ai',
           },
         });
       })
@@ -1612,16 +2173,25 @@ export class QuizService {
     userId: string,
     lessonId?: string
   ): Promise<QuizAttempt[]> {
-    return await prisma.quizAttempt.findMany({
+    const attempts = await prisma.quizAttempt.findMany({
       where: {
         userId,
         ...(lessonId && { lessonId }),
       },
+      include: {
+        exam: { select: { resultsReleaseAt: true } },
+      },
       orderBy: {
         createdAt: 'desc',
       },
       take: 10,
     });
+    
+    // Exam scores stay hidden until the teacher releases them
+    return attempts.map(({ exam, ...attempt }) => {
+      const released = !exam || (!!exam.resultsReleaseAt && exam.resultsReleaseAt <= new Date());
+      return released ? attempt : { ...attempt, score: null, correctAnswers: 0 };
+    });
   }
   
   /**
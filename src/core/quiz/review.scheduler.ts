@@ -0,0 +1,88 @@
+// src/core/quiz/review.scheduler.ts
+// SM-2 scheduling math for spaced-repetition review cards
+
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+const RELEARN_DELAY_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export interface ReviewOutcome {
+  isCorrect: boolean;
+  confidence?: number;   // 0-100, 0 = not reported
+  hintsUsed?: number;
+  timeSpent?: number;    // seconds
+  expectedTime?: number; // seconds
+}
+
+/**
+ * Map a quiz answer to an SM-2 quality grade (0-5).
+ * Wrong answers given with high confidence count as the worst lapse.
+ */
+export function gradeAnswer(outcome: ReviewOutcome): number {
+  const confidence = outcome.confidence || 0;
+
+  if (!outcome.isCorrect) {
+    return confidence >= 70 ? 0 : (outcome.hintsUsed ? 1 : 2);
+  }
+
+  let grade = 5;
+  if (outcome.hintsUsed) grade -= outcome.hintsUsed >= 2 ? 2 : 1;
+  if (outcome.expectedTime && outcome.timeSpent && outcome.timeSpent > outcome.expectedTime) grade -= 1;
+  if (confidence > 0 && confidence < 40) grade -= 1; // probably a guess
+
+  return Math.max(3, grade);
+}
+
+/**
+ * Apply one review to a card state and return the new state and due date
+ */
+export function scheduleReview(
+  state: ReviewState,
+  grade: number,
+  now: Date = new Date()
+): ReviewState & { dueAt: Date; lapsed: boolean } {
+  const q = Math.max(0, Math.min(5, Math.round(grade)));
+  const easeFactor = Math.max(
+    MIN_EASE,
+    state.easeFactor + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)
+  );
+
+  // Lapse: back to the start, shown again later in the same session
+  if (q < 3) {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: state.lapses + (state.repetitions > 0 ? 1 : 0),
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000),
+      lapsed: true,
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(state.intervalDays * easeFactor);
+  }
+  intervalDays = Math.min(MAX_INTERVAL_DAYS, Math.max(1, intervalDays));
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lapses: state.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+    lapsed: false,
+  };
+}
@@ -0,0 +1,361 @@
+// src/core/quiz/review.service.ts
+// Spaced-repetition review deck built from quiz answers
+
+import { prisma } from '../../config/database.config';
+import { normalizeArabic } from '../rag/arabic.normalizer';
+import { masteryService } from '../progress/mastery.service';
+import { gradeAnswer, scheduleReview, type ReviewOutcome } from './review.scheduler';
+import { getOpenExamQuestionIds } from './exam.lock';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+import { createRandom, hashSeed } from '../../utils/random.utils';
+import type { Concept, Question, ReviewCard } from '@prisma/client';
+import type {
+  QuizQuestion,
+  ReviewCardUpdate,
+  ReviewDueCounts,
+  ReviewItem,
+  ReviewItemType,
+  ReviewSession,
+} from '../../types/quiz.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ReviewService {
+  private readonly DEFAULT_DECK_SIZE = 10;
+  private readonly MAX_DECK_SIZE = 30;
+
+  // Users whose answer history was already turned into cards (this process)
+  private backfilledUsers: Set<string> = new Set();
+
+  /**
+   * Update the question card and the cards of concepts the question covers
+   */
+  async recordAnswer(
+    userId: string,
+    question: Question,
+    outcome: ReviewOutcome,
+    now: Date = new Date()
+  ): Promise<ReviewCardUpdate[]> {
+    const grade = gradeAnswer(outcome);
+    const concepts = await masteryService.findConceptsForText(question.lessonId, this.questionText(question));
+
+    const updates: ReviewCardUpdate[] = [];
+    updates.push(await this.applyGrade(userId, 'question', question.id, question.lessonId, grade, now));
+    for (const concept of concepts) {
+      updates.push(await this.applyGrade(userId, 'concept', concept.id, concept.lessonId, grade, now));
+    }
+
+    return updates;
+  }
+
+  /**
+   * Count due cards for the student
+   */
+  async getDueCounts(userId: string, now: Date = new Date()): Promise<ReviewDueCounts> {
+    await this.ensureBackfilled(userId);
+
+    const startOfDay = new Date(now);
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const [questions, concepts, overdue, reviewedToday, next] = await Promise.all([
+      prisma.reviewCard.count({ where: { userId, itemType: 'question', dueAt: { lte: now } } }),
+      prisma.reviewCard.count({ where: { userId, itemType: 'concept', dueAt: { lte: now } } }),
+      prisma.reviewCard.count({ where: { userId, dueAt: { lt: startOfDay } } }),
+      prisma.reviewCard.count({ where: { userId, lastReviewedAt: { gte: startOfDay } } }),
+      prisma.reviewCard.findFirst({
+        where: { userId, dueAt: { gt: now } },
+        orderBy: { dueAt: 'asc' },
+        select: { dueAt: true },
+      }),
+    ]);
+
+    return {
+      questions,
+      concepts,
+      total: questions + concepts,
+      overdue,
+      reviewedToday,
+      nextDueAt: questions + concepts === 0 ? next?.dueAt : undefined,
+    };
+  }
+
+  /**
+   * Due cards resolved to the questions that will be asked.
+   * Concept cards are reviewed through a question that covers the concept.
+   */
+  async getDeck(userId: string, limit: number = this.DEFAULT_DECK_SIZE, now: Date = new Date()): Promise<ReviewItem[]> {
+    await this.ensureBackfilled(userId);
+    const size = Math.min(Math.max(1, limit), this.MAX_DECK_SIZE);
+
+    const cards = await prisma.reviewCard.findMany({
+      where: { userId, dueAt: { lte: now } },
+      orderBy: { dueAt: 'asc' },
+      take: size * 3,
+    });
+
+    const items = new Map<string, ReviewItem>();
+    // Open exam questions can't be answered outside the exam until it closes
+    const locked = await getOpenExamQuestionIds();
+    const lessonTitles = await this.getLessonTitles([...new Set(cards.map(c => c.lessonId))]);
+
+    // Everything the cards point to, fetched once
+    const idsOf = (type: ReviewItemType) => cards.filter(c => c.itemType === type).map(c => c.itemId);
+    const [questions, concepts] = await Promise.all([
+      prisma.question.findMany({ where: { id: { in: idsOf('question') } } }),
+      prisma.concept.findMany({ where: { id: { in: idsOf('concept') } } }),
+    ]);
+    const questionsById = new Map(questions.map(q => [q.id, q]));
+    const conceptsById = new Map(concepts.map(c => [c.id, c]));
+    const lessonQuestions = await this.getLessonQuestions([...new Set(concepts.map(c => c.lessonId))]);
+
+    // Same student, same day → same deck
+    const random = createRandom(hashSeed(`${userId}:${now.toISOString().slice(0, 10)}`));
+
+    for (const card of cards) {
+      const overdueDays = Math.max(0, Math.floor((now.getTime() - card.dueAt.getTime()) / DAY_MS));
+
+      if (card.itemType === 'question') {
+        const existing = items.get(card.itemId);
+        if (existing) {
+          existing.cards.push({ itemType: 'question', itemId: card.itemId });
+          continue;
+        }
+        if (items.size >= size) continue;
+
+        const question = questionsById.get(card.itemId);
+        if (!question?.isActive || locked.has(question.id)) continue;
+
+        items.set(question.id, {
+          questionId: question.id,
+          lessonId: question.lessonId,
+          lessonTitle: lessonTitles.get(question.lessonId),
+          cards: [{ itemType: 'question', itemId: question.id }],
+          overdueDays,
+        });
+      } else {
+        const concept = conceptsById.get(card.itemId);
+        if (!concept) continue;
+        const conceptCard = { itemType: 'concept' as const, itemId: concept.id, name: concept.nameAr || concept.name };
+
+        // Reuse a question already in the deck if it covers the concept
+        const candidates = this.findConceptQuestions(concept, lessonQuestions.get(concept.lessonId) || [])
+          .filter(q => !locked.has(q.id));
+        const inDeck = candidates.find(q => items.has(q.id));
+        if (inDeck) {
+          items.get(inDeck.id)!.cards.push(conceptCard);
+          continue;
+        }
+        if (items.size >= size || candidates.length === 0) continue;
+
+        const question = candidates[Math.floor(random() * candidates.length)];
+        items.set(question.id, {
+          questionId: question.id,
+          lessonId: question.lessonId,
+          lessonTitle: lessonTitles.get(question.lessonId),
+          cards: [conceptCard],
+          overdueDays,
+        });
+      }
+    }
+
+    return [...items.values()];
+  }
+
+  /**
+   * Start a review attempt over the due deck.
+   * Returns null when nothing is due.
+   */
+  async startReview(userId: string, limit?: number): Promise<ReviewSession | null> {
+    const items = await this.getDeck(userId, limit);
+    const dueCounts = await this.getDueCounts(userId);
+
+    if (items.length === 0) {
+      return null;
+    }
+
+    const questions = await prisma.question.findMany({
+      where: { id: { in: items.map(i => i.questionId) } },
+    });
+    const byId = new Map(questions.map(q => [q.id, q]));
+
+    // QuizAttempt needs a lesson: anchor the review on the most overdue item
+    const attempt = await prisma.quizAttempt.create({
+      data: {
+        userId,
+        lessonId: items[0].lessonId,
+        totalQuestions: items.length,
+        correctAnswers: 0,
+        mode: 'review',
+      },
+    });
+
+    console.log(`🔁 Review started for ${userId}: ${items.length} items (${dueCounts.total} due)`);
+
+    return {
+      id: attempt.id,
+      userId,
+      lessonId: attempt.lessonId,
+      questions: items
+        .map(item => byId.get(item.questionId))
+        .filter((q): q is Question => !!q)
+        .map(q => this.toQuizQuestion(q)),
+      answers: [],
+      startedAt: attempt.createdAt,
+      timeLimit: items.length * 60,
+      items,
+      dueCounts,
+    };
+  }
+
+  /**
+   * Make sure an attempt is a review attempt owned by the user
+   */
+  async assertReviewAttempt(userId: string, attemptId: string): Promise<void> {
+    const attempt = await prisma.quizAttempt.findUnique({ where: { id: attemptId } });
+
+    if (!attempt) {
+      throw new NotFoundError('Review attempt');
+    }
+    if (attempt.userId !== userId) {
+      throw new AuthorizationError('Not your review session');
+    }
+    if (attempt.mode !== 'review') {
+      throw new ValidationError('Attempt is not a review session');
+    }
+    if (attempt.completedAt) {
+      throw new ValidationError('Review session already completed');
+    }
+  }
+
+  // ============= Helpers =============
+
+  private async applyGrade(
+    userId: string,
+    itemType: ReviewItemType,
+    itemId: string,
+    lessonId: string,
+    grade: number,
+    now: Date
+  ): Promise<ReviewCardUpdate> {
+    const existing = await prisma.reviewCard.findUnique({
+      where: { userId_itemType_itemId: { userId, itemType, itemId } },
+    });
+
+    const next = scheduleReview(
+      existing || { easeFactor: 2.5, intervalDays: 0, repetitions: 0, lapses: 0 },
+      grade,
+      now
+    );
+
+    const data = {
+      easeFactor: next.easeFactor,
+      intervalDays: next.intervalDays,
+      repetitions: next.repetitions,
+      lapses: next.lapses,
+      lastGrade: grade,
+      dueAt: next.dueAt,
+      lastReviewedAt: now,
+    };
+
+    await prisma.reviewCard.upsert({
+      where: { userId_itemType_itemId: { userId, itemType, itemId } },
+      update: { ...data, totalReviews: { increment: 1 } },
+      create: { userId, itemType, itemId, lessonId, ...data, totalReviews: 1 },
+    });
+
+    return {
+      itemType,
+      itemId,
+      grade,
+      intervalDays: next.intervalDays,
+      easeFactor: Math.round(next.easeFactor * 100) / 100,
+      dueAt: next.dueAt,
+      lapsed: next.lapsed,
+    };
+  }
+
+  private findConceptQuestions(concept: Concept, questions: Question[]): Question[] {
+    const names = masteryService.conceptNames(concept);
+
+    return questions.filter(q => {
+      const text = normalizeArabic(this.questionText(q));
+      return names.some(name => text.includes(name));
+    });
+  }
+
+  private questionText(q: Question): string {
+    return `${q.question} ${q.tags || ''} ${q.learningObjective || ''}`;
+  }
+
+  /**
+   * Build cards from answers recorded before the scheduler existed
+   */
+  private async ensureBackfilled(userId: string): Promise<void> {
+    if (this.backfilledUsers.has(userId)) return;
+    this.backfilledUsers.add(userId);
+
+    const hasCards = await prisma.reviewCard.count({ where: { userId } });
+    if (hasCards > 0) return;
+
+    const answers = await prisma.quizAttemptAnswer.findMany({
+      where: { attempt: { userId } },
+      include: { question: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (answers.length === 0) return;
+
+    console.log(`🔁 Building review cards for ${userId} from ${answers.length} past answers`);
+    for (const answer of answers) {
+      await this.recordAnswer(userId, answer.question, {
+        isCorrect: answer.isCorrect,
+        confidence: answer.confidence,
+        hintsUsed: answer.hintsUsed,
+        timeSpent: answer.timeSpent || undefined,
+      }, answer.createdAt);
+    }
+  }
+
+  /**
+   * Active questions of each lesson, in a stable order for the seeded pick
+   */
+  private async getLessonQuestions(lessonIds: string[]): Promise<Map<string, Question[]>> {
+    const byLesson = new Map<string, Question[]>();
+    if (lessonIds.length === 0) return byLesson;
+
+    const questions = await prisma.question.findMany({
+      where: { lessonId: { in: lessonIds }, isActive: true },
+      orderBy: [{ order: 'asc' }, { id: 'asc' }],
+    });
+    for (const question of questions) {
+      const list = byLesson.get(question.lessonId) || [];
+      list.push(question);
+      byLesson.set(question.lessonId, list);
+    }
+    return byLesson;
+  }
+
+  private async getLessonTitles(lessonIds: string[]): Promise<Map<string, string>> {
+    const lessons = await prisma.lesson.findMany({
+      where: { id: { in: lessonIds } },
+      select: { id: true, title: true, titleAr: true },
+    });
+    return new Map(lessons.map(l => [l.id, l.titleAr || l.title]));
+  }
+
+  private toQuizQuestion(q: Question): QuizQuestion {
+    return {
+      id: q.id,
+      type: q.type as QuizQuestion['type'],
+      question: q.question,
+      options: q.options ? JSON.parse(q.options) : undefined,
+      correctAnswer: q.correctAnswer,
+      explanation: q.explanation || undefined,
+      points: q.points,
+      difficulty: q.difficulty as QuizQuestion['difficulty'],
+      hint: q.hints ? JSON.parse(q.hints)[0] : undefined,
+    };
+  }
+}
+
+// Export singleton instance
+export const reviewService = new ReviewService();
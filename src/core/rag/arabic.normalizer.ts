@@ -0,0 +1,69 @@
+// src/core/rag/arabic.normalizer.ts
+// توحيد النص العربي للبحث بالكلمات المفتاحية (BM25)
+
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g;
+const PERSIAN_DIGITS = /[\u06F0-\u06F9]/g;
+
+// Longest first so "وال" wins over "و"
+const ARTICLE_PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+const MIN_STEM_LENGTH = 2;
+
+const STOP_WORDS = new Set([
+  // Arabic (already normalized)
+  'في', 'من', 'علي', 'الي', 'عن', 'مع', 'هي', 'هو', 'ما', 'ماذا', 'كيف', 'متي', 'اين', 'لماذا',
+  'هل', 'او', 'ثم', 'ان', 'اذا', 'لا', 'لم', 'لن', 'قد', 'هذا', 'هذه', 'ذلك', 'تلك', 'التي', 'الذي',
+  'كل', 'بعض', 'عند', 'بين', 'كان', 'يكون', 'انا', 'انت', 'نحن',
+  // English
+  'the', 'is', 'at', 'which', 'on', 'a', 'an', 'as', 'are', 'was', 'were', 'for', 'of', 'and', 'or', 'to', 'in'
+]);
+
+/**
+ * Fold letter variants, strip diacritics/tatweel and unify digits
+ */
+export function normalizeArabic(text: string): string {
+  return text
+    .replace(DIACRITICS, '')
+    .replace(TATWEEL, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(ARABIC_INDIC_DIGITS, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(PERSIAN_DIGITS, d => String(d.charCodeAt(0) - 0x06F0))
+    .toLowerCase();
+}
+
+/**
+ * Light stemming: strip the conjunction و and the definite article ال
+ * (with its attached prepositions ب/ك/ف/ل)
+ */
+export function lightStem(token: string): string {
+  for (const prefix of ARTICLE_PREFIXES) {
+    if (token.startsWith(prefix) && token.length - prefix.length >= MIN_STEM_LENGTH) {
+      return token.slice(prefix.length);
+    }
+  }
+
+  // و كحرف عطف - نتجنب الكلمات القصيرة مثل "وزن"
+  if (token.startsWith('و') && token.length > 3) {
+    return token.slice(1);
+  }
+
+  return token;
+}
+
+/**
+ * Normalize, split and stem - used for both indexing and querying
+ */
+export function tokenizeArabic(text: string): string[] {
+  if (!text) return [];
+
+  return normalizeArabic(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(lightStem)
+    .filter(token => token.length >= MIN_STEM_LENGTH && !STOP_WORDS.has(token));
+}
@@ -0,0 +1,121 @@
+// src/core/rag/bm25.index.ts
+// In-memory inverted index with Okapi BM25 scoring over chunk text
+
+import { tokenizeArabic } from './arabic.normalizer';
+
+export interface KeywordHit {
+  id: string;
+  lessonId: string;
+  score: number; // raw BM25
+}
+
+export interface BM25Options {
+  k1?: number;
+  b?: number;
+}
+
+interface IndexedDoc {
+  lessonId: string;
+  length: number;
+  terms: Map<string, number>; // term -> frequency
+}
+
+export class BM25Index {
+  private docs = new Map<string, IndexedDoc>();
+  private postings = new Map<string, Map<string, number>>(); // term -> docId -> tf
+  private lessonDocs = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  private readonly k1: number;
+  private readonly b: number;
+
+  constructor(options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  size(): number {
+    return this.docs.size;
+  }
+
+  add(id: string, lessonId: string, text: string): void {
+    if (this.docs.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenizeArabic(text);
+    const terms = new Map<string, number>();
+    tokens.forEach(token => terms.set(token, (terms.get(token) || 0) + 1));
+
+    this.docs.set(id, { lessonId, length: tokens.length, terms });
+    this.totalLength += tokens.length;
+
+    for (const [term, tf] of terms) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(id, tf);
+    }
+
+    if (!this.lessonDocs.has(lessonId)) {
+      this.lessonDocs.set(lessonId, new Set());
+    }
+    this.lessonDocs.get(lessonId)!.add(id);
+  }
+
+  remove(id: string): boolean {
+    const doc = this.docs.get(id);
+    if (!doc) return false;
+
+    for (const term of doc.terms.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= doc.length;
+    this.docs.delete(id);
+    this.lessonDocs.get(doc.lessonId)?.delete(id);
+
+    return true;
+  }
+
+  removeLesson(lessonId: string): number {
+    const ids = Array.from(this.lessonDocs.get(lessonId) || []);
+    ids.forEach(id => this.remove(id));
+    this.lessonDocs.delete(lessonId);
+    return ids.length;
+  }
+
+  search(query: string, k: number, filter?: { lessonId?: string }): KeywordHit[] {
+    const queryTerms = [...new Set(tokenizeArabic(query))];
+    if (queryTerms.length === 0 || this.docs.size === 0) return [];
+
+    const N = this.docs.size;
+    const avgLength = this.totalLength / N || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (N - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [docId, tf] of posting) {
+        const doc = this.docs.get(docId)!;
+        if (filter?.lessonId && doc.lessonId !== filter.lessonId) continue;
+
+        const norm = tf + this.k1 * (1 - this.b + this.b * (doc.length / avgLength));
+        const termScore = idf * (tf * (this.k1 + 1)) / norm;
+        scores.set(docId, (scores.get(docId) || 0) + termScore);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k)
+      .map(([id, score]) => ({ id, lessonId: this.docs.get(id)!.lessonId, score }));
+  }
+}
@@ -0,0 +1,126 @@
+// src/core/rag/citation.builder.ts
+// Turn the chunks that fed an answer into structured citations
+
+import { tokenizeArabic } from './arabic.normalizer';
+import type { Citation, SearchResult } from '../../types/rag.types';
+
+const MAX_QUOTE_LENGTH = 240;
+const MAX_UNCITED = 3;
+
+const SOURCE_LABELS: Record<string, string> = {
+  example: 'مثال',
+  question: 'سؤال',
+  visual: 'شكل توضيحي',
+};
+
+interface Span {
+  start: number;
+  end: number;
+  overlap: number;
+}
+
+export class CitationBuilder {
+
+  /**
+   * Instruction appended to answer prompts so the model marks its sources
+   */
+  readonly promptInstruction = 'عند استخدام معلومة من السياق اذكر رقم مصدرها بين قوسين مربعين مثل [1] أو [2].';
+
+  /**
+   * Build citations for an answer.
+   * `sources` must be in context order: sources[i] is marker [i + 1].
+   */
+  build(answer: string, sources: SearchResult[], maxCitations: number = 5): Citation[] {
+    if (sources.length === 0) return [];
+
+    const markers = this.extractMarkers(answer, sources.length);
+    const answerTokens = new Set(tokenizeArabic(answer));
+
+    const candidates = sources.map((source, i) => ({
+      marker: i + 1,
+      source,
+      span: this.findSupportingSpan(source.chunk.text || '', answerTokens),
+      cited: markers.has(i + 1),
+    }));
+
+    // Prefer what the model cited; otherwise fall back to lexical support
+    const chosen = markers.size > 0
+      ? candidates.filter(c => c.cited)
+      : candidates
+          .filter(c => c.span.overlap > 0)
+          .sort((a, b) => (b.span.overlap * b.source.score) - (a.span.overlap * a.source.score))
+          .slice(0, MAX_UNCITED);
+
+    return chosen
+      .slice(0, maxCitations)
+      .map(c => this.toCitation(c.marker, c.source, c.span, c.cited));
+  }
+
+  /**
+   * Find [n] markers referring to existing sources
+   */
+  private extractMarkers(answer: string, sourceCount: number): Set<number> {
+    const markers = new Set<number>();
+    for (const match of answer.matchAll(/\[(\d{1,2})\]/g)) {
+      const n = Number(match[1]);
+      if (n >= 1 && n <= sourceCount) markers.add(n);
+    }
+    return markers;
+  }
+
+  /**
+   * Pick the sentence of the chunk that shares the most terms with the answer
+   */
+  private findSupportingSpan(text: string, answerTokens: Set<string>): Span {
+    let best: Span = { start: 0, end: Math.min(text.length, MAX_QUOTE_LENGTH), overlap: 0 };
+    let bestScore = 0;
+
+    for (const match of text.matchAll(/[^.!?؟\n]+[.!?؟]?/g)) {
+      const sentence = match[0];
+      const tokens = tokenizeArabic(sentence);
+      if (tokens.length === 0) continue;
+
+      const overlap = new Set(tokens.filter(t => answerTokens.has(t))).size;
+      // Length-normalized so one long sentence doesn't always win
+      const score = overlap / Math.sqrt(tokens.length);
+
+      if (score > bestScore) {
+        bestScore = score;
+        const leading = sentence.length - sentence.trimStart().length;
+        const start = match.index! + leading;
+        best = {
+          start,
+          end: Math.min(start + sentence.trim().length, start + MAX_QUOTE_LENGTH),
+          overlap,
+        };
+      }
+    }
+
+    return best;
+  }
+
+  private toCitation(marker: number, source: SearchResult, span: Span, cited: boolean): Citation {
+    const metadata = source.chunk.metadata;
+    const sourceType = (metadata.type && SOURCE_LABELS[metadata.type] ? metadata.type : 'lesson') as Citation['sourceType'];
+    const lessonTitle = source.lessonInfo?.title || metadata.title;
+    const part = SOURCE_LABELS[sourceType] || `الجزء ${metadata.chunkIndex + 1}`;
+
+    return {
+      marker,
+      chunkId: source.chunk.id,
+      lessonId: metadata.lessonId || source.lessonInfo?.id || '',
+      lessonTitle,
+      chunkIndex: metadata.chunkIndex,
+      sourceType,
+      label: lessonTitle ? `${lessonTitle} - ${part}` : part,
+      quote: (source.chunk.text || '').slice(span.start, span.end),
+      spanStart: span.start,
+      spanEnd: span.end,
+      score: source.score,
+      cited,
+    };
+  }
+}
+
+// Export singleton instance
+export const citationBuilder = new CitationBuilder();
@@ -307,6 +307,7 @@ export class CurriculumRAGService {
       answer: ragResponse.answer,
       confidence: ragResponse.confidence,
       sources,
+      citations: ragResponse.citations || [],
       suggestions,
       relatedQuestions,
       visualAids,
@@ -1,7 +1,9 @@
 // src/core/rag/document.processor.ts (النسخة المُحسّنة النهائية)
 
-import { openAIService } from '../../services/ai/openai.service';
+import { embeddingProvider } from './embedding.provider';
 import { prisma } from '../../config/database.config';
+import { vectorIndexService } from './vector-index.service';
+import { keywordIndexService } from './keyword-index.service';
 import type { DocumentChunk } from '../../types/rag.types';
 
 // محاولة استيراد contentEnricher (اختياري)
@@ -124,6 +126,9 @@ export class DocumentProcessor {
     console.log(`   Failed: ${failed} lessons`);
     console.log(`   Total embeddings: ${await prisma.contentEmbedding.count()}`);
     console.log('='.repeat(50));
+    
+    // حفظ فهرس المتجهات قبل انتهاء السكربت
+    await vectorIndexService.flush();
   }
   
   /**
@@ -169,6 +174,10 @@ export class DocumentProcessor {
       
       await this.indexAdditionalContent(lessonId);
       
+      // تحديث فهارس البحث لهذا الدرس
+      await vectorIndexService.syncLesson(lessonId);
+      await keywordIndexService.syncLesson(lessonId);
+      
       console.log('\n' + '━'.repeat(60));
       console.log('✅ Enhanced Processing Complete!');
       console.log('━'.repeat(60));
@@ -237,7 +246,7 @@ export class DocumentProcessor {
       const chunk = chunks[i];
       
       try {
-        const { embedding } = await openAIService.generateEmbedding(chunk);
+        const embedding = await embeddingProvider.embed(chunk);
         
         await prisma.contentEmbedding.create({
           data: {
@@ -262,6 +271,7 @@ export class DocumentProcessor {
               keyPoints: content.keyPoints ? JSON.parse(content.keyPoints) : [],
               isEnriched: isEnriched,
               enrichmentLevel: content.enrichmentLevel || 0,
+              ...embeddingProvider.signature(),
             }),
           },
         });
@@ -272,6 +282,10 @@ export class DocumentProcessor {
     }
     
     console.log(`   ✅ Successfully processed ${successCount}/${chunks.length} chunks`);
+    
+    // تحديث فهارس البحث لهذا الدرس فقط
+    await vectorIndexService.syncLesson(lesson.id);
+    await keywordIndexService.syncLesson(lesson.id);
   }
   
   /**
@@ -334,7 +348,7 @@ export class DocumentProcessor {
       const chunk = chunks[i];
       
       try {
-        const { embedding } = await openAIService.generateEmbedding(chunk.text);
+        const embedding = await embeddingProvider.embed(chunk.text);
         
         await prisma.contentEmbedding.create({
           data: {
@@ -344,7 +358,8 @@ export class DocumentProcessor {
             embedding: JSON.stringify(embedding),
             metadata: JSON.stringify({
               ...chunk.metadata,
-              isEnriched: isEnriched
+              isEnriched: isEnriched,
+              ...embeddingProvider.signature()
             }),
           },
         });
@@ -394,7 +409,7 @@ export class DocumentProcessor {
     let exampleIndex = 0;
     for (const example of examples) {
       const text = `مثال: ${example.problem}\nالحل: ${example.solution}`;
-      const { embedding } = await openAIService.generateEmbedding(text);
+      const embedding = await embeddingProvider.embed(text);
       
       // استخدام timestamp + index لضمان عدم التكرار
       const uniqueIndex = 10000 + Date.now() % 1000 + exampleIndex++;
@@ -411,7 +426,8 @@ export class DocumentProcessor {
               exampleId: example.id,
               lessonId: lesson.id,
               difficulty: example.difficulty,
-              relatedConcept: example.relatedConcept
+              relatedConcept: example.relatedConcept,
+              ...embeddingProvider.signature()
             }),
           },
         });
@@ -430,7 +446,7 @@ export class DocumentProcessor {
     let questionIndex = 0;
     for (const question of questions) {
       const text = `سؤال: ${question.question}\nالإجابة: ${question.correctAnswer}${question.explanation ? '\nالشرح: ' + question.explanation : ''}`;
-      const { embedding } = await openAIService.generateEmbedding(text);
+      const embedding = await embeddingProvider.embed(text);
       
       // استخدام timestamp + index لضمان عدم التكرار
       const uniqueIndex = 20000 + Date.now() % 1000 + questionIndex++;
@@ -447,7 +463,8 @@ export class DocumentProcessor {
               questionId: question.id,
               lessonId: lesson.id,
               difficulty: question.difficulty,
-              questionType: question.type
+              questionType: question.type,
+              ...embeddingProvider.signature()
             }),
           },
         });
@@ -467,7 +484,7 @@ export class DocumentProcessor {
       let visualIndex = 0;
       for (const visual of visualElements) {
         const text = `${visual.title}: ${visual.description || ''}`;
-        const { embedding } = await openAIService.generateEmbedding(text);
+        const embedding = await embeddingProvider.embed(text);
         
         // استخدام timestamp + index لضمان عدم التكرار
         const uniqueIndex = 30000 + Date.now() % 1000 + visualIndex++;
@@ -484,6 +501,7 @@ export class DocumentProcessor {
                 visualId: visual.id,
                 visualType: visual.type,
                 lessonId: lesson.id,
+                ...embeddingProvider.signature(),
               }),
             },
           });
@@ -0,0 +1,162 @@
+// src/core/rag/embedding.provider.ts
+// Pluggable embedding sources - OpenAI or a local hashed n-gram model
+
+import { openAIService } from '../../services/ai/openai.service';
+import { config } from '../../config';
+import { normalizeArabic, tokenizeArabic } from './arabic.normalizer';
+
+// ============= TYPES =============
+
+export interface EmbeddingSignature {
+  embeddingProvider: string;
+  embeddingModel: string;
+  embeddingDimension: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+  /** Stored in ContentEmbedding.metadata so vectors are only compared with their own kind */
+  signature(): EmbeddingSignature;
+}
+
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+// ============= OPENAI =============
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model = config.OPENAI_EMBEDDING_MODEL;
+  readonly dimension = OPENAI_DIMENSIONS[config.OPENAI_EMBEDDING_MODEL] || 1536;
+
+  async embed(text: string): Promise<number[]> {
+    const { embedding } = await openAIService.generateEmbedding(text);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const responses = await openAIService.generateEmbeddings(texts);
+    return responses.map(r => r.embedding);
+  }
+
+  signature(): EmbeddingSignature {
+    return { embeddingProvider: this.name, embeddingModel: this.model, embeddingDimension: this.dimension };
+  }
+}
+
+// ============= LOCAL (OFFLINE) =============
+
+/**
+ * Feature-hashed bag of words + character n-grams.
+ * Deterministic and CPU-only: good enough for lexical-semantic retrieval
+ * when there is no API key (mock mode, CI, offline classrooms).
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = 'hashed-ngram-v1';
+
+  private readonly WORD_WEIGHT = 1.0;
+  private readonly NGRAM_WEIGHT = 0.5;
+  private readonly NGRAM_SIZES = [3, 4];
+
+  constructor(readonly dimension: number = config.LOCAL_EMBEDDING_DIM) {}
+
+  async embed(text: string): Promise<number[]> {
+    return this.vectorize(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  signature(): EmbeddingSignature {
+    return { embeddingProvider: this.name, embeddingModel: this.model, embeddingDimension: this.dimension };
+  }
+
+  private vectorize(text: string): number[] {
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) =>
+      features.set(feature, (features.get(feature) || 0) + weight);
+
+    // Stemmed words carry the meaning
+    for (const token of tokenizeArabic(text)) {
+      add(`w:${token}`, this.WORD_WEIGHT);
+    }
+
+    // Character n-grams catch morphology the light stemmer misses
+    for (const word of normalizeArabic(text).split(/[^\p{L}\p{N}]+/u)) {
+      if (word.length < 2) continue;
+      const padded = `#${word}#`;
+      for (const n of this.NGRAM_SIZES) {
+        for (let i = 0; i + n <= padded.length; i++) {
+          add(`c:${padded.slice(i, i + n)}`, this.NGRAM_WEIGHT);
+        }
+      }
+    }
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, count] of features) {
+      const hash = this.fnv1a(feature);
+      const sign = (hash & 0x80000000) ? -1 : 1;
+      // Sublinear tf so repeated words don't dominate
+      vector[hash % this.dimension] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map(v => v / norm);
+  }
+
+  private fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+// ============= SELECTION =============
+
+function createProvider(): EmbeddingProvider {
+  switch (config.EMBEDDING_PROVIDER) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider();
+    case 'local':
+      return new LocalEmbeddingProvider();
+    default:
+      // auto: real embeddings when we can get them, local otherwise
+      return config.OPENAI_API_KEY && !config.MOCK_MODE
+        ? new OpenAIEmbeddingProvider()
+        : new LocalEmbeddingProvider();
+  }
+}
+
+/**
+ * Check whether a stored vector was produced by the given provider.
+ * Rows written before providers were recorded are OpenAI vectors.
+ */
+export function isCompatibleEmbedding(
+  metadata: Partial<EmbeddingSignature> | null | undefined,
+  vectorLength: number,
+  provider: EmbeddingProvider = embeddingProvider
+): boolean {
+  const name = metadata?.embeddingProvider || 'openai';
+  const dimension = metadata?.embeddingDimension || vectorLength;
+
+  if (name !== provider.name || dimension !== provider.dimension || vectorLength !== provider.dimension) {
+    return false;
+  }
+
+  return !metadata?.embeddingModel || metadata.embeddingModel === provider.model;
+}
+
+// Export singleton instance
+export const embeddingProvider = createProvider();
@@ -0,0 +1,460 @@
+// src/core/rag/hnsw.index.ts
+// In-process approximate nearest neighbour index (HNSW) for chunk embeddings
+
+export interface VectorIndexEntry {
+  id: string;        // ContentEmbedding.id
+  lessonId: string;
+  vector: number[];
+}
+
+export interface VectorIndexHit {
+  id: string;
+  lessonId: string;
+  score: number;     // cosine similarity
+}
+
+export interface VectorIndexFilter {
+  lessonId?: string;
+}
+
+/**
+ * Common contract for vector indexes used by VectorSearchService
+ */
+export interface VectorIndex {
+  readonly dimension: number | null;
+  size(): number;
+  has(id: string): boolean;
+  add(entry: VectorIndexEntry): void;
+  remove(id: string): boolean;
+  removeLesson(lessonId: string): number;
+  search(query: number[], k: number, filter?: VectorIndexFilter): VectorIndexHit[];
+}
+
+export interface HnswOptions {
+  M?: number;              // max links per node on upper layers
+  efConstruction?: number; // candidate list size while inserting
+  efSearch?: number;       // candidate list size while searching
+}
+
+export interface SerializedHnsw {
+  version: 1;
+  dimension: number | null;
+  M: number;
+  efConstruction: number;
+  efSearch: number;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: Array<{
+    id: string;
+    lessonId: string;
+    level: number;
+    deleted: boolean;
+    neighbors: number[][];
+    vector: string; // base64 Float32Array
+  }>;
+}
+
+interface HnswNode {
+  id: string;
+  lessonId: string;
+  vector: Float32Array; // normalized
+  level: number;
+  neighbors: number[][]; // per layer
+  deleted: boolean;
+}
+
+interface Candidate {
+  idx: number;
+  dist: number;
+}
+
+/**
+ * Minimal binary heap ordered by `dist`
+ */
+class CandidateHeap {
+  private items: Candidate[] = [];
+
+  constructor(private readonly maxHeap: boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): Candidate | undefined {
+    return this.items[0];
+  }
+
+  push(item: Candidate): void {
+    this.items.push(item);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(this.items[i], this.items[parent])) break;
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): Candidate | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < this.items.length && this.before(this.items[left], this.items[best])) best = left;
+        if (right < this.items.length && this.before(this.items[right], this.items[best])) best = right;
+        if (best === i) break;
+        [this.items[i], this.items[best]] = [this.items[best], this.items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  toSortedArray(): Candidate[] {
+    return [...this.items].sort((a, b) => a.dist - b.dist);
+  }
+
+  private before(a: Candidate, b: Candidate): boolean {
+    return this.maxHeap ? a.dist > b.dist : a.dist < b.dist;
+  }
+}
+
+/**
+ * Hierarchical Navigable Small World graph (Malkov & Yashunin)
+ * Cosine distance on normalized vectors; deletions are tombstoned
+ */
+export class HnswIndex implements VectorIndex {
+  private nodes: HnswNode[] = [];
+  private idToIndex = new Map<string, number>();
+  private lessonToIndices = new Map<string, Set<number>>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private _dimension: number | null = null;
+
+  private readonly M: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+
+  constructor(options: HnswOptions = {}) {
+    this.M = options.M || 16;
+    this.efConstruction = options.efConstruction || 200;
+    this.efSearch = options.efSearch || 64;
+    this.levelMultiplier = 1 / Math.log(this.M);
+  }
+
+  get dimension(): number | null {
+    return this._dimension;
+  }
+
+  size(): number {
+    return this.nodes.length - this.deletedCount;
+  }
+
+  has(id: string): boolean {
+    return this.idToIndex.has(id);
+  }
+
+  /**
+   * Ratio of tombstoned nodes - above ~30% the graph should be compacted
+   */
+  get deletedRatio(): number {
+    return this.nodes.length > 0 ? this.deletedCount / this.nodes.length : 0;
+  }
+
+  add(entry: VectorIndexEntry): void {
+    if (this._dimension === null) {
+      this._dimension = entry.vector.length;
+    } else if (entry.vector.length !== this._dimension) {
+      throw new Error(`Vector dimension mismatch: expected ${this._dimension}, got ${entry.vector.length}`);
+    }
+
+    // Re-adding an id replaces the previous vector
+    if (this.idToIndex.has(entry.id)) {
+      this.remove(entry.id);
+    }
+
+    const vector = this.normalize(entry.vector);
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const idx = this.nodes.length;
+
+    this.nodes.push({
+      id: entry.id,
+      lessonId: entry.lessonId,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    });
+    this.trackNode(idx);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = idx;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the layers above the new node
+    let ep = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) {
+      ep = this.greedyClosest(vector, ep, l);
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(vector, [ep], this.efConstruction, l)
+        .filter(c => c.idx !== idx);
+      const selected = candidates.slice(0, this.M);
+      const maxLinks = l === 0 ? this.M * 2 : this.M;
+
+      this.nodes[idx].neighbors[l] = selected.map(c => c.idx);
+
+      for (const neighbor of selected) {
+        const links = this.nodes[neighbor.idx].neighbors[l];
+        links.push(idx);
+        if (links.length > maxLinks) {
+          this.nodes[neighbor.idx].neighbors[l] = this.pruneLinks(neighbor.idx, links, maxLinks);
+        }
+      }
+
+      if (candidates.length > 0) {
+        ep = candidates[0].idx;
+      }
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = idx;
+    }
+  }
+
+  remove(id: string): boolean {
+    const idx = this.idToIndex.get(id);
+    if (idx === undefined) return false;
+
+    const node = this.nodes[idx];
+    node.deleted = true;
+    this.deletedCount++;
+    this.idToIndex.delete(id);
+    this.lessonToIndices.get(node.lessonId)?.delete(idx);
+
+    return true;
+  }
+
+  removeLesson(lessonId: string): number {
+    const indices = this.lessonToIndices.get(lessonId);
+    if (!indices) return 0;
+
+    const ids = Array.from(indices, idx => this.nodes[idx].id);
+    ids.forEach(id => this.remove(id));
+    this.lessonToIndices.delete(lessonId);
+
+    return ids.length;
+  }
+
+  search(query: number[], k: number, filter?: VectorIndexFilter): VectorIndexHit[] {
+    if (this.entryPoint === -1 || k <= 0) return [];
+    if (this._dimension !== null && query.length !== this._dimension) {
+      throw new Error(`Query dimension mismatch: expected ${this._dimension}, got ${query.length}`);
+    }
+
+    const q = this.normalize(query);
+
+    // Lessons hold few chunks - an exact scan is both cheaper and exact
+    if (filter?.lessonId) {
+      const indices = this.lessonToIndices.get(filter.lessonId) || new Set<number>();
+      return Array.from(indices)
+        .map(idx => ({ idx, dist: this.distance(q, this.nodes[idx].vector) }))
+        .sort((a, b) => a.dist - b.dist)
+        .slice(0, k)
+        .map(c => this.toHit(c));
+    }
+
+    let ep = this.entryPoint;
+    for (let l = this.maxLevel; l > 0; l--) {
+      ep = this.greedyClosest(q, ep, l);
+    }
+
+    // Tombstones still route the search and take result slots: widen ef by their count,
+    // and keep widening while live nodes remain that didn't make it into the results
+    const wanted = Math.min(k, this.size());
+    let ef = Math.min(Math.max(this.efSearch, k * 2) + this.deletedCount, this.nodes.length);
+    let live: Candidate[];
+    for (;;) {
+      live = this.searchLayer(q, [ep], ef, 0).filter(c => !this.nodes[c.idx].deleted);
+      if (live.length >= wanted || ef >= this.nodes.length) break;
+      ef = Math.min(ef * 2, this.nodes.length);
+    }
+
+    return live.slice(0, k).map(c => this.toHit(c));
+  }
+
+  /**
+   * Rebuild a fresh graph from live nodes only
+   */
+  compact(): HnswIndex {
+    const fresh = new HnswIndex({ M: this.M, efConstruction: this.efConstruction, efSearch: this.efSearch });
+    for (const node of this.nodes) {
+      if (!node.deleted) {
+        fresh.add({ id: node.id, lessonId: node.lessonId, vector: Array.from(node.vector) });
+      }
+    }
+    return fresh;
+  }
+
+  toJSON(): SerializedHnsw {
+    return {
+      version: 1,
+      dimension: this._dimension,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes.map(node => ({
+        id: node.id,
+        lessonId: node.lessonId,
+        level: node.level,
+        deleted: node.deleted,
+        neighbors: node.neighbors,
+        vector: Buffer.from(node.vector.buffer, node.vector.byteOffset, node.vector.byteLength).toString('base64')
+      }))
+    };
+  }
+
+  static fromJSON(data: SerializedHnsw): HnswIndex {
+    if (data.version !== 1) {
+      throw new Error(`Unsupported HNSW index version: ${data.version}`);
+    }
+
+    const index = new HnswIndex({ M: data.M, efConstruction: data.efConstruction, efSearch: data.efSearch });
+    index._dimension = data.dimension;
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+
+    data.nodes.forEach((node, idx) => {
+      const buffer = Buffer.from(node.vector, 'base64');
+      const vector = new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+      index.nodes.push({
+        id: node.id,
+        lessonId: node.lessonId,
+        vector,
+        level: node.level,
+        neighbors: node.neighbors,
+        deleted: node.deleted
+      });
+
+      if (node.deleted) {
+        index.deletedCount++;
+      } else {
+        index.trackNode(idx);
+      }
+    });
+
+    return index;
+  }
+
+  // ============= INTERNALS =============
+
+  private trackNode(idx: number): void {
+    const node = this.nodes[idx];
+    this.idToIndex.set(node.id, idx);
+    if (!this.lessonToIndices.has(node.lessonId)) {
+      this.lessonToIndices.set(node.lessonId, new Set());
+    }
+    this.lessonToIndices.get(node.lessonId)!.add(idx);
+  }
+
+  private greedyClosest(q: Float32Array, start: number, level: number): number {
+    let current = start;
+    let currentDist = this.distance(q, this.nodes[current].vector);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.nodes[current].neighbors[level] || []) {
+        const d = this.distance(q, this.nodes[neighbor].vector);
+        if (d < currentDist) {
+          current = neighbor;
+          currentDist = d;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  private searchLayer(q: Float32Array, entryPoints: number[], ef: number, level: number): Candidate[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates = new CandidateHeap(false);
+    const results = new CandidateHeap(true);
+
+    for (const ep of entryPoints) {
+      const c = { idx: ep, dist: this.distance(q, this.nodes[ep].vector) };
+      candidates.push(c);
+      results.push(c);
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      const furthest = results.peek()!;
+      if (current.dist > furthest.dist && results.size >= ef) break;
+
+      for (const neighbor of this.nodes[current.idx].neighbors[level] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const d = this.distance(q, this.nodes[neighbor].vector);
+        if (results.size < ef || d < results.peek()!.dist) {
+          const c = { idx: neighbor, dist: d };
+          candidates.push(c);
+          results.push(c);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toSortedArray();
+  }
+
+  private pruneLinks(idx: number, links: number[], maxLinks: number): number[] {
+    const base = this.nodes[idx].vector;
+    return links
+      .map(link => ({ link, dist: this.distance(base, this.nodes[link].vector) }))
+      .sort((a, b) => a.dist - b.dist)
+      .slice(0, maxLinks)
+      .map(l => l.link);
+  }
+
+  private toHit(c: Candidate): VectorIndexHit {
+    const node = this.nodes[c.idx];
+    return { id: node.id, lessonId: node.lessonId, score: 1 - c.dist };
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    return 1 - dot;
+  }
+
+  private normalize(vector: number[]): Float32Array {
+    const out = new Float32Array(vector.length);
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm) || 1;
+    for (let i = 0; i < vector.length; i++) {
+      out[i] = vector[i] / norm;
+    }
+    return out;
+  }
+}
@@ -0,0 +1,113 @@
+// src/core/rag/keyword-index.service.ts
+// Owns the BM25 index: lazy build from chunk text, per-lesson sync
+
+import { prisma } from '../../config/database.config';
+import { BM25Index } from './bm25.index';
+
+export class KeywordIndexService {
+  private index: BM25Index | null = null;
+  private buildPromise: Promise<BM25Index> | null = null;
+  private indexedCount = 0;
+  private lastFreshnessCheck = 0;
+
+  private readonly BUILD_BATCH_SIZE = 1000;
+  private readonly FRESHNESS_CHECK_MS = 60 * 1000;
+
+  /**
+   * Get the index, building it on first use.
+   * Text indexing is cheap enough to do in-process, so nothing is persisted.
+   */
+  async getIndex(): Promise<BM25Index> {
+    if (this.index) {
+      await this.refreshIfStale();
+      return this.index;
+    }
+
+    return this.build();
+  }
+
+  /**
+   * Rebuild from all ContentEmbedding rows
+   */
+  async build(): Promise<BM25Index> {
+    if (this.buildPromise) return this.buildPromise;
+
+    this.buildPromise = (async () => {
+      const startTime = Date.now();
+      const fresh = new BM25Index();
+      let cursor: string | undefined;
+
+      for (;;) {
+        const batch = await prisma.contentEmbedding.findMany({
+          take: this.BUILD_BATCH_SIZE,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+          orderBy: { id: 'asc' },
+          select: {
+            id: true,
+            chunkText: true,
+            content: { select: { lessonId: true } }
+          }
+        });
+
+        if (batch.length === 0) break;
+
+        batch.forEach(row => fresh.add(row.id, row.content.lessonId, row.chunkText || ''));
+        cursor = batch[batch.length - 1].id;
+      }
+
+      this.index = fresh;
+      this.indexedCount = fresh.size();
+      this.lastFreshnessCheck = Date.now();
+      console.log(`🔤 Keyword index built: ${fresh.size()} chunks in ${Date.now() - startTime}ms`);
+
+      return fresh;
+    })();
+
+    try {
+      return await this.buildPromise;
+    } finally {
+      this.buildPromise = null;
+    }
+  }
+
+  /**
+   * Re-index one lesson after its chunks were regenerated
+   */
+  async syncLesson(lessonId: string): Promise<void> {
+    // Not built yet - the first search will pick the lesson up
+    if (!this.index) return;
+
+    const rows = await prisma.contentEmbedding.findMany({
+      where: { content: { lessonId } },
+      select: { id: true, chunkText: true }
+    });
+
+    this.index.removeLesson(lessonId);
+    rows.forEach(row => this.index!.add(row.id, lessonId, row.chunkText || ''));
+    this.indexedCount = this.index.size();
+  }
+
+  getStats() {
+    return {
+      built: this.index !== null,
+      size: this.index?.size() ?? 0
+    };
+  }
+
+  /**
+   * Chunks may be written by scripts in another process
+   */
+  private async refreshIfStale(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastFreshnessCheck < this.FRESHNESS_CHECK_MS) return;
+    this.lastFreshnessCheck = now;
+
+    const count = await prisma.contentEmbedding.count();
+    if (count !== this.indexedCount) {
+      await this.build();
+    }
+  }
+}
+
+// Export singleton instance
+export const keywordIndexService = new KeywordIndexService();
@@ -1,16 +1,45 @@
 // src/core/rag/rag.service.ts
 
+import { z } from 'zod';
 import { openAIService } from '../../services/ai/openai.service';
 import { vectorSearch } from './vector.search';
 import { documentProcessor } from './document.processor';
-import type { RAGContext, RAGResponse, SearchResult } from '../../types/rag.types';
+import { citationBuilder } from './citation.builder';
+import type { Citation, RAGContext, RAGResponse, SearchResult } from '../../types/rag.types';
+
+// Shape of AI-generated quiz questions (also drives the offline mock)
+const generatedQuestionSchema = z.object({
+  type: z.enum(['mcq', 'true_false', 'fill_blank', 'problem', 'short_answer', 'essay']),
+  question: z.string(),
+  options: z.array(z.string()).min(4).max(4).optional(),
+  correctAnswer: z.string(),
+  explanation: z.string(),
+  hint: z.string().optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+  points: z.number().int().min(1).max(5),
+  tags: z.array(z.string()).optional(),
+  encouragement: z.string().optional(),
+  stepByStepSolution: z.array(z.string()).optional(),
+  requiresSteps: z.boolean().optional(),
+});
+
+const studyPlanSchema = z.object({
+  duration: z.string(),
+  dailySchedule: z.array(z.object({
+    day: z.number().int().min(1).max(30),
+    topic: z.string(),
+    duration: z.string(),
+    activities: z.array(z.string()),
+  })).min(7).max(7),
+  tips: z.array(z.string()),
+});
 
 /**
  * Enhanced RAG Service with Smart Features & Emotional Intelligence
  * Version: 4.0 - Advanced Pattern Analysis & Predictive Learning
  */
 export class RAGService {
-  private cache: Map<string, { answer: string; timestamp: number; hits: number; confidence: number }> = new Map();
+  private cache: Map<string, { answer: string; timestamp: number; hits: number; confidence: number; citations?: Citation[] }> = new Map();
   private readonly CACHE_TTL = parseInt(process.env.CACHE_TTL || '3600') * 1000;
   
   // ============= Feature Flags =============
@@ -82,6 +111,7 @@ export class RAGService {
           answer: cached.answer,
           sources: [],
           confidence: cached.confidence,
+          citations: cached.citations || [],
         };
       }
       this.metrics.cacheMisses++;
@@ -128,12 +158,13 @@ export class RAGService {
         answer: fallbackAnswer,
         sources: [],
         confidence: 0,
+        citations: [],
       };
     }
     
     // ============= Context Building with Intelligence =============
     const userProfile = userId ? this.getEnhancedUserProfile(userId) : null;
-    const context = this.buildIntelligentContext(question, relevantChunks, userProfile, questionPattern);
+    const { context, sources: contextSources } = this.buildIntelligentContext(question, relevantChunks, userProfile, questionPattern);
     
     // ============= Generate Answer with Full Personalization =============
     const answer = await this.generatePersonalizedAnswer(context, question, userProfile, questionPattern);
@@ -141,6 +172,9 @@ export class RAGService {
     // Calculate confidence
     const confidence = this.calculateEnhancedConfidence(relevantChunks, question);
     
+    // Citations point at the numbered chunks that were actually in the prompt
+    const citations = citationBuilder.build(answer, contextSources);
+    
     // 🆕 Track interaction for pattern analysis
     if (userId) {
       this.trackUserInteraction(userId, question, answer, false);
@@ -153,7 +187,7 @@ export class RAGService {
     // Cache if good confidence
     if (this.FEATURES.USE_CACHE && confidence > this.FEATURES.CACHE_CONFIDENCE_THRESHOLD) {
       const cacheKey = this.generateCacheKey(question, lessonId);
-      this.saveToCache(cacheKey, answer, confidence);
+      this.saveToCache(cacheKey, answer, confidence, citations);
     }
     
     // Log performance
@@ -166,6 +200,7 @@ export class RAGService {
       answer,
       sources: relevantChunks,
       confidence,
+      citations,
     };
   }
 
@@ -217,7 +252,7 @@ export class RAGService {
   /**
    * Cache management methods
    */
-  private getFromCache(key: string): { answer: string; confidence: number } | null {
+  private getFromCache(key: string): { answer: string; confidence: number; citations?: Citation[] } | null {
     const cached = this.cache.get(key);
     if (!cached) return null;
     
@@ -227,7 +262,7 @@ export class RAGService {
     }
     
     cached.hits++;
-    return { answer: cached.answer, confidence: cached.confidence };
+    return { answer: cached.answer, confidence: cached.confidence, citations: cached.citations };
   }
   
   private generateCacheKey(question: string, lessonId?: string): string {
@@ -241,7 +276,7 @@ export class RAGService {
     return `rag_${normalized}_${lessonId || 'general'}`;
   }
   
-  private saveToCache(key: string, answer: string, confidence: number): void {
+  private saveToCache(key: string, answer: string, confidence: number, citations?: Citation[]): void {
     // Manage cache size
     if (this.cache.size >= this.FEATURES.MAX_CACHE_SIZE) {
       const entries = Array.from(this.cache.entries());
@@ -256,6 +291,7 @@ export class RAGService {
     this.cache.set(key, {
       answer,
       confidence,
+      citations,
       timestamp: Date.now(),
       hits: 0,
     });
@@ -394,8 +430,10 @@ export class RAGService {
     chunks: SearchResult[],
     userProfile: StudentLearningProfile | null,
     pattern: QuestionPattern
-  ): string {
+  ): { context: string; sources: SearchResult[] } {
     let context = '';
+    // Every chunk placed in the prompt gets a global [n] marker for citations
+    const sources: SearchResult[] = [];
     
     // Add emotional context if needed
     if (pattern.emotionalTone === 'frustrated' && userProfile) {
@@ -417,8 +455,9 @@ export class RAGService {
     // Add high relevance first
     if (highRelevance.length > 0) {
       context += '🎯 معلومات أساسية:\n';
-      highRelevance.forEach((chunk, i) => {
-        context += `[${i + 1}] ${chunk.chunk.text}\n`;
+      highRelevance.forEach(chunk => {
+        sources.push(chunk);
+        context += `[${sources.length}] ${chunk.chunk.text}\n`;
         if (chunk.lessonInfo?.title) {
           context += `📖 المصدر: ${chunk.lessonInfo.title}\n`;
         }
@@ -429,8 +468,9 @@ export class RAGService {
     // Add medium relevance
     if (mediumRelevance.length > 0) {
       context += '\n📝 معلومات إضافية:\n';
-      mediumRelevance.forEach((chunk, i) => {
-        context += `• ${chunk.chunk.text.substring(0, 200)}...\n`;
+      mediumRelevance.forEach(chunk => {
+        sources.push(chunk);
+        context += `[${sources.length}] ${chunk.chunk.text.substring(0, 200)}...\n`;
       });
     }
     
@@ -442,7 +482,7 @@ export class RAGService {
       });
     }
     
-    return context;
+    return { context, sources };
   }
   
   /**
@@ -471,7 +511,8 @@ ${context}
 ${pattern.emotionalTone === 'frustrated' ? '⚠️ الطالب محبط، كن مشجعاً جداً!' : ''}
 ${pattern.learningStage === 'review' ? '📝 الطالب في مرحلة المراجعة، قدم ملخصاً مركزاً' : ''}
 
-أجب بما يناسب مستوى وحالة الطالب.`;
+أجب بما يناسب مستوى وحالة الطالب.
+${citationBuilder.promptInstruction}`;
     
     try {
       const options: any = {
@@ -763,6 +804,7 @@ ${predictions?.predictedDifficulties.length ? `📍 تجنب التعقيد في
         temperature: 0.8,
         maxTokens: 2000,
         model: 'gpt-4o-mini',
+        schema: z.array(generatedQuestionSchema).min(count).max(count),
       });
       
       return this.personalizeQuizQuestions(questions, userProfile);
@@ -1043,7 +1085,8 @@ ${userProfile && userProfile.level < 5 ? 'استخدم لغة بسيطة جدا
         { role: 'user', content: prompt }
       ], {
         temperature: 0.6,
-        model: 'gpt-4o-mini'
+        model: 'gpt-4o-mini',
+        schema: studyPlanSchema
       });
       
       // Add tracking and gamification
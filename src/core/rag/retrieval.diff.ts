@@ -0,0 +1,80 @@
+// src/core/rag/retrieval.diff.ts
+// Comparing saved evaluation runs - pure functions, no database or embeddings
+
+import type { EvaluationRun, MetricDelta, QuestionResult, RunDiff } from '../../types/rag-eval.types';
+
+/**
+ * Compare two runs metric by metric and question by question
+ */
+export function compareRuns(before: EvaluationRun, after: EvaluationRun): RunDiff {
+  const modes = after.reports
+    .filter(report => before.reports.some(r => r.mode === report.mode))
+    .map(afterReport => {
+      const beforeReport = before.reports.find(r => r.mode === afterReport.mode)!;
+      const metrics: MetricDelta[] = [];
+      const push = (metric: string, a: number | null | undefined, b: number | null | undefined) => {
+        const beforeValue = a ?? null;
+        const afterValue = b ?? null;
+        metrics.push({
+          metric,
+          before: beforeValue,
+          after: afterValue,
+          delta: beforeValue !== null && afterValue !== null ? afterValue - beforeValue : null,
+        });
+      };
+
+      const ks = [...new Set([...Object.keys(beforeReport.recallAtK), ...Object.keys(afterReport.recallAtK)])]
+        .map(Number)
+        .sort((a, b) => a - b);
+      ks.forEach(k => push(`recall@${k}`, beforeReport.recallAtK[k], afterReport.recallAtK[k]));
+      ks.forEach(k => push(`hit@${k}`, beforeReport.hitRateAtK[k], afterReport.hitRateAtK[k]));
+      push('mrr', beforeReport.mrr, afterReport.mrr);
+      push('meanRelevantScore', beforeReport.meanRelevantScore, afterReport.meanRelevantScore);
+      push('meanIrrelevantScore', beforeReport.meanIrrelevantScore, afterReport.meanIrrelevantScore);
+      push('meanLatencyMs', beforeReport.meanLatencyMs, afterReport.meanLatencyMs);
+      if (beforeReport.calibration || afterReport.calibration) {
+        push('ece', beforeReport.calibration?.ece, afterReport.calibration?.ece);
+        push('brier', beforeReport.calibration?.brier, afterReport.calibration?.brier);
+        push('answerAccuracy', beforeReport.calibration?.accuracy, afterReport.calibration?.accuracy);
+      }
+
+      // Rank changes per question (missing = worse than any rank)
+      const rankOf = (r?: QuestionResult) => r?.firstRelevantRank ?? Number.POSITIVE_INFINITY;
+      const improved: string[] = [];
+      const regressed: string[] = [];
+      afterReport.perQuestion.forEach(q => {
+        const previous = beforeReport.perQuestion.find(p => p.id === q.id);
+        if (!previous) return;
+        if (rankOf(q) < rankOf(previous)) improved.push(q.id);
+        if (rankOf(q) > rankOf(previous)) regressed.push(q.id);
+      });
+
+      return { mode: afterReport.mode, metrics, improved, regressed };
+    });
+
+  return { before: before.label, after: after.label, modes };
+}
+
+/**
+ * Human-readable diff between two runs
+ */
+export function formatDiff(diff: RunDiff): string {
+  const lines: string[] = [`🔀 ${diff.before} → ${diff.after}`];
+
+  for (const mode of diff.modes) {
+    lines.push('');
+    lines.push(`▶ ${mode.mode}`);
+    mode.metrics.forEach(m => {
+      const delta = m.delta === null ? 'n/a' : `${m.delta >= 0 ? '+' : ''}${m.delta.toFixed(3)}`;
+      lines.push(`   ${m.metric.padEnd(20)} ${fmt(m.before).padStart(8)} → ${fmt(m.after).padStart(8)}  (${delta})`);
+    });
+    if (mode.improved.length > 0) lines.push(`   ✅ improved: ${mode.improved.join(', ')}`);
+    if (mode.regressed.length > 0) lines.push(`   ⚠️ regressed: ${mode.regressed.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+function fmt(value: number | null): string {
+  return value === null ? 'n/a' : value.toFixed(3);
+}
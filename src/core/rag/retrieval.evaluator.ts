@@ -0,0 +1,341 @@
+// src/core/rag/retrieval.evaluator.ts
+// Offline evaluation of retrieval quality against golden question sets
+
+import fs from 'fs/promises';
+import { z } from 'zod';
+import { prisma } from '../../config/database.config';
+import { vectorSearch } from './vector.search';
+import { ragService } from './rag.service';
+import { embeddingProvider } from './embedding.provider';
+import { normalizeArabic } from './arabic.normalizer';
+import type { SearchResult } from '../../types/rag.types';
+import type {
+  CalibrationBucket,
+  EvaluationRun,
+  GoldenSet,
+  ModeReport,
+  QuestionResult,
+  RetrievalMode
+} from '../../types/rag-eval.types';
+
+// Golden file schema
+const goldenTargetSchema = z.object({
+  lessonId: z.string().optional(),
+  lessonTitle: z.string().optional(),
+  chunkIndex: z.number().int().min(0).optional(),
+}).refine(t => t.lessonId || t.lessonTitle, 'Each target needs lessonId or lessonTitle');
+
+const goldenSetSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  questions: z.array(z.object({
+    id: z.string(),
+    question: z.string().min(1),
+    expected: z.array(goldenTargetSchema).min(1),
+    lessonScope: z.string().optional(),
+    expectedAnswerKeywords: z.array(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+  })).min(1),
+});
+
+interface ResolvedTarget {
+  lessonId: string;
+  chunkIndex?: number;
+}
+
+export interface EvaluationOptions {
+  modes?: RetrievalMode[];
+  ks?: number[];
+  threshold?: number;
+  label?: string;
+}
+
+const CALIBRATION_BUCKETS = 5;
+
+export class RetrievalEvaluator {
+  private lessonIdCache = new Map<string, string | undefined>();
+
+  /**
+   * Load and validate a golden question file
+   */
+  async loadGoldenSet(filePath: string): Promise<GoldenSet> {
+    const raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    return goldenSetSchema.parse(raw);
+  }
+
+  /**
+   * Run every golden question through the requested retrieval modes
+   */
+  async evaluate(set: GoldenSet, options: EvaluationOptions = {}): Promise<EvaluationRun> {
+    const modes = options.modes || ['similar', 'hybrid', 'answer'];
+    const ks = [...(options.ks || [1, 3, 5, 10])].sort((a, b) => a - b);
+    const maxK = ks[ks.length - 1];
+
+    const { targets, unresolved } = await this.resolveTargets(set);
+    const reports: ModeReport[] = [];
+
+    for (const mode of modes) {
+      console.log(`\n📐 Evaluating mode: ${mode}`);
+      const perQuestion: QuestionResult[] = [];
+
+      for (const question of set.questions) {
+        const expected = targets.get(question.id) || [];
+        const scope = question.lessonScope ? await this.resolveLessonId(question.lessonScope) : undefined;
+        const startTime = Date.now();
+
+        let results: SearchResult[] = [];
+        let confidence: number | undefined;
+        let answer: string | undefined;
+
+        try {
+          if (mode === 'similar') {
+            results = scope
+              ? await vectorSearch.searchInLesson(scope, question.question, maxK)
+              : await vectorSearch.searchSimilar(question.question, maxK, options.threshold);
+          } else if (mode === 'hybrid') {
+            results = await vectorSearch.hybridSearch(question.question, undefined, maxK);
+          } else {
+            const response = await ragService.answerQuestion(question.question, scope);
+            results = response.sources.slice(0, maxK);
+            confidence = response.confidence;
+            answer = response.answer;
+          }
+        } catch (error: any) {
+          console.error(`   ❌ ${question.id}: ${error.message}`);
+        }
+
+        const result = this.scoreQuestion(question.id, question.question, results, expected, ks, Date.now() - startTime);
+
+        if (mode === 'answer') {
+          result.confidence = confidence ?? 0;
+          result.correct = question.expectedAnswerKeywords?.length
+            ? this.answerContainsKeywords(answer || '', question.expectedAnswerKeywords)
+            : result.firstRelevantRank !== null;
+        }
+
+        perQuestion.push(result);
+      }
+
+      reports.push(this.aggregate(mode, perQuestion, ks));
+    }
+
+    const signature = embeddingProvider.signature();
+    return {
+      goldenSet: set.name,
+      label: options.label || new Date().toISOString(),
+      createdAt: new Date().toISOString(),
+      settings: {
+        ks,
+        threshold: options.threshold,
+        embeddingProvider: signature.embeddingProvider,
+        embeddingModel: signature.embeddingModel,
+      },
+      unresolved,
+      reports,
+    };
+  }
+
+  /**
+   * Human-readable summary of a run
+   */
+  formatRun(run: EvaluationRun): string {
+    const lines: string[] = [];
+    lines.push(`📊 ${run.goldenSet} — ${run.label}`);
+    lines.push(`   Embeddings: ${run.settings.embeddingProvider}/${run.settings.embeddingModel}`);
+    if (run.unresolved.length > 0) {
+      lines.push(`   ⚠️ Unresolved targets: ${run.unresolved.join(', ')}`);
+    }
+
+    for (const report of run.reports) {
+      lines.push('');
+      lines.push(`▶ ${report.mode} (${report.questions} questions)`);
+      lines.push(`   recall: ${Object.entries(report.recallAtK).map(([k, v]) => `@${k}=${v.toFixed(3)}`).join('  ')}`);
+      lines.push(`   hit:    ${Object.entries(report.hitRateAtK).map(([k, v]) => `@${k}=${v.toFixed(3)}`).join('  ')}`);
+      lines.push(`   MRR: ${report.mrr.toFixed(3)} | latency: ${Math.round(report.meanLatencyMs)}ms`);
+      lines.push(`   score relevant/irrelevant: ${this.fmt(report.meanRelevantScore)} / ${this.fmt(report.meanIrrelevantScore)}`);
+
+      if (report.calibration) {
+        const { ece, brier, accuracy, buckets } = report.calibration;
+        lines.push(`   calibration: ECE=${ece.toFixed(3)} Brier=${brier.toFixed(3)} accuracy=${accuracy.toFixed(3)}`);
+        buckets.filter(b => b.count > 0).forEach(b => {
+          lines.push(`     ${b.range[0]}-${b.range[1]}%: n=${b.count} conf=${b.meanConfidence.toFixed(2)} acc=${b.accuracy.toFixed(2)}`);
+        });
+      }
+
+      const misses = report.perQuestion.filter(q => q.firstRelevantRank === null).map(q => q.id);
+      if (misses.length > 0) {
+        lines.push(`   ❌ missed: ${misses.join(', ')}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  // ============= HELPERS =============
+
+  private async resolveTargets(set: GoldenSet): Promise<{
+    targets: Map<string, ResolvedTarget[]>;
+    unresolved: string[];
+  }> {
+    const targets = new Map<string, ResolvedTarget[]>();
+    const unresolved: string[] = [];
+
+    for (const question of set.questions) {
+      const resolved: ResolvedTarget[] = [];
+      for (const target of question.expected) {
+        const lessonId = await this.resolveLessonId(target.lessonId || target.lessonTitle!);
+        if (lessonId) {
+          resolved.push({ lessonId, chunkIndex: target.chunkIndex });
+        } else {
+          unresolved.push(`${question.id}:${target.lessonId || target.lessonTitle}`);
+        }
+      }
+      targets.set(question.id, resolved);
+    }
+
+    return { targets, unresolved };
+  }
+
+  private async resolveLessonId(ref: string): Promise<string | undefined> {
+    if (this.lessonIdCache.has(ref)) return this.lessonIdCache.get(ref);
+
+    const lesson = await prisma.lesson.findFirst({
+      where: { OR: [{ id: ref }, { title: ref }, { titleEn: ref }] },
+      select: { id: true }
+    });
+
+    this.lessonIdCache.set(ref, lesson?.id);
+    return lesson?.id;
+  }
+
+  private scoreQuestion(
+    id: string,
+    question: string,
+    results: SearchResult[],
+    expected: ResolvedTarget[],
+    ks: number[],
+    latencyMs: number
+  ): QuestionResult {
+    const matches = (r: SearchResult, t: ResolvedTarget) =>
+      (r.chunk.metadata.lessonId || r.lessonInfo?.id) === t.lessonId
+      && (t.chunkIndex === undefined || r.chunk.metadata.chunkIndex === t.chunkIndex);
+
+    const retrieved = results.map(r => ({
+      lessonId: r.chunk.metadata.lessonId || r.lessonInfo?.id || '',
+      chunkIndex: r.chunk.metadata.chunkIndex,
+      score: r.score,
+      relevant: expected.some(t => matches(r, t)),
+    }));
+
+    const firstRelevant = retrieved.findIndex(r => r.relevant);
+
+    const recallAtK: Record<number, number> = {};
+    for (const k of ks) {
+      const top = results.slice(0, k);
+      const found = expected.filter(t => top.some(r => matches(r, t))).length;
+      recallAtK[k] = expected.length > 0 ? found / expected.length : 0;
+    }
+
+    return {
+      id,
+      question,
+      retrieved,
+      firstRelevantRank: firstRelevant >= 0 ? firstRelevant + 1 : null,
+      recallAtK,
+      latencyMs,
+    };
+  }
+
+  private aggregate(mode: RetrievalMode, perQuestion: QuestionResult[], ks: number[]): ModeReport {
+    const n = perQuestion.length || 1;
+    const recallAtK: Record<number, number> = {};
+    const hitRateAtK: Record<number, number> = {};
+
+    for (const k of ks) {
+      recallAtK[k] = perQuestion.reduce((sum, q) => sum + q.recallAtK[k], 0) / n;
+      hitRateAtK[k] = perQuestion.filter(q => q.firstRelevantRank !== null && q.firstRelevantRank <= k).length / n;
+    }
+
+    const mrr = perQuestion.reduce((sum, q) => sum + (q.firstRelevantRank ? 1 / q.firstRelevantRank : 0), 0) / n;
+
+    const all = perQuestion.flatMap(q => q.retrieved);
+    const relevantScores = all.filter(r => r.relevant).map(r => r.score);
+    const irrelevantScores = all.filter(r => !r.relevant).map(r => r.score);
+
+    const report: ModeReport = {
+      mode,
+      questions: perQuestion.length,
+      recallAtK,
+      hitRateAtK,
+      mrr,
+      meanRelevantScore: this.mean(relevantScores),
+      meanIrrelevantScore: this.mean(irrelevantScores),
+      meanLatencyMs: this.mean(perQuestion.map(q => q.latencyMs)) || 0,
+      perQuestion,
+    };
+
+    if (mode === 'answer') {
+      report.calibration = this.calibrate(perQuestion);
+    }
+
+    return report;
+  }
+
+  /**
+   * Reliability buckets over answer confidence (0-100)
+   */
+  private calibrate(perQuestion: QuestionResult[]): NonNullable<ModeReport['calibration']> {
+    const width = 100 / CALIBRATION_BUCKETS;
+    const buckets: CalibrationBucket[] = Array.from({ length: CALIBRATION_BUCKETS }, (_, i) => ({
+      range: [Math.round(i * width), Math.round((i + 1) * width)] as [number, number],
+      count: 0,
+      meanConfidence: 0,
+      accuracy: 0,
+    }));
+
+    let brier = 0;
+    for (const q of perQuestion) {
+      const confidence = Math.min(Math.max((q.confidence ?? 0) / 100, 0), 1);
+      const correct = q.correct ? 1 : 0;
+      const bucket = buckets[Math.min(Math.floor(confidence * CALIBRATION_BUCKETS), CALIBRATION_BUCKETS - 1)];
+
+      bucket.count++;
+      bucket.meanConfidence += confidence;
+      bucket.accuracy += correct;
+      brier += (confidence - correct) ** 2;
+    }
+
+    const n = perQuestion.length || 1;
+    let ece = 0;
+    buckets.forEach(b => {
+      if (b.count === 0) return;
+      b.meanConfidence /= b.count;
+      b.accuracy /= b.count;
+      ece += (b.count / n) * Math.abs(b.accuracy - b.meanConfidence);
+    });
+
+    return {
+      buckets,
+      ece,
+      brier: brier / n,
+      accuracy: perQuestion.filter(q => q.correct).length / n,
+    };
+  }
+
+  private answerContainsKeywords(answer: string, keywords: string[]): boolean {
+    const normalized = normalizeArabic(answer);
+    const found = keywords.filter(k => normalized.includes(normalizeArabic(k))).length;
+    return found >= Math.ceil(keywords.length / 2);
+  }
+
+  private mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  }
+
+  private fmt(value: number | null): string {
+    return value === null ? 'n/a' : value.toFixed(3);
+  }
+}
+
+// Export singleton instance
+export const retrievalEvaluator = new RetrievalEvaluator();
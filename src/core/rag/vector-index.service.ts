@@ -0,0 +1,333 @@
+// src/core/rag/vector-index.service.ts
+// Owns the ANN index: load/persist to disk, full rebuild, per-lesson sync
+
+import fs from 'fs/promises';
+import path from 'path';
+import { prisma } from '../../config/database.config';
+import { features, performance } from '../../config';
+import { HnswIndex, type SerializedHnsw, type VectorIndex } from './hnsw.index';
+import { embeddingProvider, isCompatibleEmbedding, type EmbeddingSignature } from './embedding.provider';
+
+type IndexState = 'idle' | 'loading' | 'building' | 'ready' | 'disabled';
+
+interface PersistedIndex {
+  builtAt: string;
+  embeddingCount: number;
+  signature?: EmbeddingSignature;
+  index: SerializedHnsw;
+}
+
+export class VectorIndexService {
+  private index: HnswIndex | null = null;
+  private state: IndexState = features.rag.useVectorIndex ? 'idle' : 'disabled';
+  private initPromise: Promise<void> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private loadedMtime = 0;
+  private signature: EmbeddingSignature | null = null;
+  private lastFreshnessCheck = 0;
+  // Lessons synced while a full build runs: the build's snapshot may predate them
+  private rebuilding = false;
+  private pendingSyncs = new Set<string>();
+
+  private readonly SAVE_DEBOUNCE_MS = 2000;
+  private readonly FRESHNESS_CHECK_MS = 60 * 1000;
+  private readonly BUILD_BATCH_SIZE = 500;
+  private readonly MAX_DELETED_RATIO = 0.3;
+
+  private get indexPath(): string {
+    return path.resolve(performance.rag.vectorIndex.path);
+  }
+
+  /**
+   * Get the index for searching.
+   * Returns null while the index is unavailable (disabled, building) - callers
+   * should fall back to the brute-force scan.
+   */
+  async getIndex(): Promise<VectorIndex | null> {
+    if (this.state === 'disabled') return null;
+
+    if (this.state === 'idle') {
+      await this.initialize();
+    } else if (this.state === 'ready') {
+      await this.reloadIfChanged();
+    }
+
+    return this.state === 'ready' ? this.index : null;
+  }
+
+  /**
+   * Load the persisted index, or start a background build if there is none
+   */
+  async initialize(): Promise<void> {
+    if (this.state === 'disabled') return;
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = (async () => {
+      this.state = 'loading';
+      const loaded = await this.loadFromDisk();
+
+      if (!loaded) {
+        console.log('🧭 No vector index on disk, building in background...');
+        this.state = 'building';
+        this.rebuild().catch(error => {
+          console.error('❌ Vector index build failed:', error);
+          this.state = 'idle';
+          this.initPromise = null;
+        });
+        return;
+      }
+
+      this.state = 'ready';
+
+      // The database may have moved on since the index was written
+      const embeddingCount = await prisma.contentEmbedding.count();
+      if (!this.matchesProvider()) {
+        console.log('🧭 Vector index was built with another embedding provider, rebuilding...');
+        this.rebuild().catch(error => console.error('❌ Vector index rebuild failed:', error));
+      } else if (embeddingCount !== loaded.embeddingCount) {
+        console.log(`🧭 Vector index is stale (${loaded.embeddingCount} vs ${embeddingCount} embeddings), rebuilding...`);
+        this.rebuild().catch(error => console.error('❌ Vector index rebuild failed:', error));
+      }
+    })();
+
+    return this.initPromise;
+  }
+
+  /**
+   * Rebuild the whole index from ContentEmbedding rows
+   */
+  async rebuild(): Promise<{ indexed: number; skipped: number; duration: number }> {
+    const startTime = Date.now();
+    const fresh = this.createIndex();
+    let indexed = 0;
+    let skipped = 0;
+    let cursor: string | undefined;
+
+    this.rebuilding = true;
+    try {
+      for (;;) {
+        const batch = await prisma.contentEmbedding.findMany({
+          take: this.BUILD_BATCH_SIZE,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+          orderBy: { id: 'asc' },
+          select: {
+            id: true,
+            embedding: true,
+            metadata: true,
+            content: { select: { lessonId: true } }
+          }
+        });
+
+        if (batch.length === 0) break;
+
+        for (const row of batch) {
+          if (this.addRow(fresh, row.id, row.content.lessonId, row.embedding, row.metadata)) {
+            indexed++;
+          } else {
+            skipped++;
+          }
+        }
+
+        cursor = batch[batch.length - 1].id;
+
+        // Let the event loop breathe between batches
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    } catch (error) {
+      this.pendingSyncs.clear();
+      throw error;
+    } finally {
+      this.rebuilding = false;
+    }
+
+    this.index = fresh;
+    this.signature = embeddingProvider.signature();
+    this.state = 'ready';
+
+    // Replay syncs that arrived mid-build so the swapped-in index doesn't undo them
+    const pending = [...this.pendingSyncs];
+    this.pendingSyncs.clear();
+    for (const lessonId of pending) {
+      await this.syncLesson(lessonId);
+    }
+
+    await this.save();
+
+    const duration = Date.now() - startTime;
+    console.log(`✅ Vector index built: ${indexed} vectors (${skipped} skipped) in ${duration}ms`);
+
+    return { indexed, skipped, duration };
+  }
+
+  /**
+   * Re-sync one lesson after its embeddings were regenerated
+   */
+  async syncLesson(lessonId: string): Promise<number> {
+    if (this.state === 'disabled') return 0;
+
+    if (this.state === 'idle' || this.state === 'loading') {
+      await this.initialize();
+    }
+
+    // A running full build may already have read this lesson: redo it once the build is swapped in
+    if (this.rebuilding) {
+      this.pendingSyncs.add(lessonId);
+    }
+    if (this.state !== 'ready' || !this.index) return 0;
+
+    const rows = await prisma.contentEmbedding.findMany({
+      where: { content: { lessonId } },
+      select: { id: true, embedding: true, metadata: true }
+    });
+
+    this.index.removeLesson(lessonId);
+
+    let added = 0;
+    for (const row of rows) {
+      if (this.addRow(this.index, row.id, lessonId, row.embedding, row.metadata)) {
+        added++;
+      }
+    }
+
+    if (this.index.deletedRatio > this.MAX_DELETED_RATIO) {
+      this.index = this.index.compact();
+    }
+
+    this.scheduleSave();
+    return added;
+  }
+
+  /**
+   * Write pending changes now (used by scripts before exit)
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  /**
+   * True when the index holds vectors from the active embedding provider
+   */
+  matchesProvider(): boolean {
+    const current = embeddingProvider.signature();
+    return !!this.signature
+      && this.signature.embeddingProvider === current.embeddingProvider
+      && this.signature.embeddingModel === current.embeddingModel
+      && this.signature.embeddingDimension === current.embeddingDimension;
+  }
+
+  getStats() {
+    return {
+      state: this.state,
+      signature: this.signature,
+      path: this.indexPath,
+      size: this.index?.size() ?? 0,
+      dimension: this.index?.dimension ?? null,
+      deletedRatio: this.index?.deletedRatio ?? 0
+    };
+  }
+
+  // ============= PERSISTENCE =============
+
+  private async save(): Promise<void> {
+    if (!this.index) return;
+
+    const payload: PersistedIndex = {
+      builtAt: new Date().toISOString(),
+      embeddingCount: await prisma.contentEmbedding.count(),
+      signature: this.signature || undefined,
+      index: this.index.toJSON()
+    };
+
+    // Write to a temp file first so readers never see a half-written index
+    const tmpPath = `${this.indexPath}.tmp`;
+    await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(payload));
+    await fs.rename(tmpPath, this.indexPath);
+
+    const stat = await fs.stat(this.indexPath);
+    this.loadedMtime = stat.mtimeMs;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => console.error('❌ Failed to save vector index:', error));
+    }, this.SAVE_DEBOUNCE_MS);
+  }
+
+  private async loadFromDisk(): Promise<PersistedIndex | null> {
+    try {
+      const stat = await fs.stat(this.indexPath);
+      const raw = await fs.readFile(this.indexPath, 'utf-8');
+      const payload = JSON.parse(raw) as PersistedIndex;
+
+      this.index = HnswIndex.fromJSON(payload.index);
+      this.signature = payload.signature || null;
+      this.loadedMtime = stat.mtimeMs;
+      console.log(`🧭 Vector index loaded: ${this.index.size()} vectors`);
+
+      return payload;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn('⚠️ Could not load vector index, it will be rebuilt:', error?.message || error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Content scripts run in their own process - pick up the file they wrote
+   */
+  private async reloadIfChanged(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastFreshnessCheck < this.FRESHNESS_CHECK_MS) return;
+    this.lastFreshnessCheck = now;
+
+    // Our own pending writes win over the file on disk
+    if (this.saveTimer) return;
+
+    try {
+      const stat = await fs.stat(this.indexPath);
+      if (stat.mtimeMs > this.loadedMtime) {
+        await this.loadFromDisk();
+      }
+    } catch {
+      // File removed - keep serving the in-memory copy
+    }
+  }
+
+  // ============= HELPERS =============
+
+  private createIndex(): HnswIndex {
+    const { M, efConstruction, efSearch } = performance.rag.vectorIndex;
+    return new HnswIndex({ M, efConstruction, efSearch });
+  }
+
+  private addRow(
+    index: HnswIndex,
+    id: string,
+    lessonId: string,
+    embedding: string,
+    metadata: string | null
+  ): boolean {
+    try {
+      const vector = JSON.parse(embedding) as number[];
+      if (!Array.isArray(vector) || vector.length === 0) return false;
+      if (!isCompatibleEmbedding(metadata ? JSON.parse(metadata) : null, vector.length)) return false;
+      if (index.dimension !== null && vector.length !== index.dimension) return false;
+
+      index.add({ id, lessonId, vector });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const vectorIndexService = new VectorIndexService();
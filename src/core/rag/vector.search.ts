@@ -1,5 +1,7 @@
-import { openAIService } from '../../services/ai/openai.service';
 import { prisma } from '../../config/database.config';
+import { vectorIndexService } from './vector-index.service';
+import { keywordIndexService } from './keyword-index.service';
+import { embeddingProvider, isCompatibleEmbedding } from './embedding.provider';
 import type { SearchResult, DocumentChunk } from '../../types/rag.types';
 
 /**
@@ -10,6 +12,7 @@ export class VectorSearchService {
   // ============= IMPROVED: Better default thresholds =============
   private readonly DEFAULT_THRESHOLD = parseFloat(process.env.RAG_THRESHOLD || '0.3'); // Raised from 0.2
   private readonly MIN_SCORE_FOR_RELEVANCE = 0.15;
+  private readonly RRF_K = 60; // reciprocal-rank fusion constant
   
   // ============= NEW: Feature Flags =============
   private readonly FEATURES = {
@@ -59,14 +62,14 @@ export class VectorSearchService {
     // Generate embedding for main query (with caching)
     const queryEmbedding = await this.getQueryEmbedding(expandedQueries[0]);
     
-    // ============= CRITICAL FIX: Batch Processing =============
-    let results: SearchResult[] = [];
+    // ============= ANN index first, brute-force scan as fallback =============
+    let results = await this.indexedSearch(queryEmbedding, threshold, limit);
     
-    if (this.FEATURES.USE_BATCH_SEARCH) {
-      results = await this.batchedSearch(queryEmbedding, threshold);
-    } else {
-      // Fallback to old method (but with limit!)
-      results = await this.originalSearch(queryEmbedding, threshold, this.FEATURES.MAX_EMBEDDINGS_TO_LOAD);
+    if (!results) {
+      results = this.FEATURES.USE_BATCH_SEARCH
+        ? await this.batchedSearch(queryEmbedding, threshold)
+        // Fallback to old method (but with limit!)
+        : await this.originalSearch(queryEmbedding, threshold, this.FEATURES.MAX_EMBEDDINGS_TO_LOAD);
     }
     
     // ============= IMPROVED: Fallback Strategy =============
@@ -98,6 +101,87 @@ export class VectorSearchService {
     return sortedResults;
   }
   
+  /**
+   * Search through the ANN index.
+   * Returns null when the index can't serve the query so the caller falls back
+   */
+  private async indexedSearch(
+    queryEmbedding: number[],
+    threshold: number,
+    limit: number,
+    lessonId?: string
+  ): Promise<SearchResult[] | null> {
+    const index = await vectorIndexService.getIndex();
+    if (!index || index.size() === 0 || index.dimension !== queryEmbedding.length) {
+      return null;
+    }
+    
+    if (!vectorIndexService.matchesProvider()) {
+      return null;
+    }
+    
+    // Over-fetch a little: rows may have disappeared since the index was written
+    const hits = index
+      .search(queryEmbedding, Math.max(limit * 2, 20), lessonId ? { lessonId } : undefined)
+      .filter(hit => hit.score >= threshold);
+    
+    return this.hydrateHits(hits);
+  }
+  
+  /**
+   * Load the chunk rows for index hits, keeping the hit order
+   */
+  private async hydrateHits(hits: Array<{ id: string; score: number }>): Promise<SearchResult[]> {
+    if (hits.length === 0) return [];
+    
+    const embeddings = await prisma.contentEmbedding.findMany({
+      where: { id: { in: hits.map(hit => hit.id) } },
+      include: {
+        content: {
+          include: {
+            lesson: {
+              include: {
+                unit: { include: { subject: true } }
+              }
+            }
+          }
+        }
+      }
+    });
+    const byId = new Map(embeddings.map(embedding => [embedding.id, embedding]));
+    
+    const results: SearchResult[] = [];
+    for (const hit of hits) {
+      const embedding = byId.get(hit.id);
+      if (!embedding) continue;
+      
+      const metadata = embedding.metadata ? JSON.parse(embedding.metadata) : {};
+      results.push({
+        chunk: {
+          id: embedding.id,
+          text: embedding.chunkText || '',
+          metadata: {
+            contentId: embedding.contentId,
+            lessonId: embedding.content.lessonId,
+            chunkIndex: embedding.chunkIndex,
+            source: 'lesson',
+            title: embedding.content.lesson.title,
+            ...metadata
+          },
+        },
+        score: hit.score,
+        lessonInfo: {
+          id: embedding.content.lesson.id,
+          title: embedding.content.lesson.title,
+          unitTitle: embedding.content.lesson.unit.title,
+          subjectName: embedding.content.lesson.unit.subject.name,
+        },
+      });
+    }
+    
+    return results;
+  }
+  
   /**
    * NEW: Batched search for better performance
    */
@@ -109,6 +193,7 @@ export class VectorSearchService {
     let offset = 0;
     const batchSize = this.FEATURES.BATCH_SIZE;
     let hasMore = true;
+    let skippedIncompatible = 0;
     
     // Process embeddings in batches
     while (hasMore && results.length < 100) { // Stop after finding enough results
@@ -141,11 +226,17 @@ export class VectorSearchService {
       for (const embedding of batch) {
         try {
           const storedEmbedding = await this.getStoredEmbedding(embedding.id, embedding.embedding);
+          const metadata = embedding.metadata ? JSON.parse(embedding.metadata) : {};
+          
+          // Never compare vectors from different embedding spaces
+          if (!isCompatibleEmbedding(metadata, storedEmbedding.length)) {
+            skippedIncompatible++;
+            continue;
+          }
+          
           const similarity = this.cosineSimilarity(queryEmbedding, storedEmbedding);
           
           if (similarity >= threshold) {
-            const metadata = embedding.metadata ? JSON.parse(embedding.metadata) : {};
-            
             results.push({
               chunk: {
                 id: embedding.id,
@@ -190,6 +281,7 @@ export class VectorSearchService {
     }
     
     console.log(`📊 Processed ${offset} embeddings, found ${results.length} matches`);
+    this.warnIncompatible(skippedIncompatible);
     return results;
   }
   
@@ -227,17 +319,24 @@ export class VectorSearchService {
     let maxScore = 0;
     let minScore = 1;
     
+    let skippedIncompatible = 0;
+    
     for (const embedding of allEmbeddings) {
       try {
         const storedEmbedding = await this.getStoredEmbedding(embedding.id, embedding.embedding);
+        const metadata = embedding.metadata ? JSON.parse(embedding.metadata) : {};
+        
+        if (!isCompatibleEmbedding(metadata, storedEmbedding.length)) {
+          skippedIncompatible++;
+          continue;
+        }
+        
         const similarity = this.cosineSimilarity(queryEmbedding, storedEmbedding);
         
         if (similarity > maxScore) maxScore = similarity;
         if (similarity < minScore) minScore = similarity;
         
         if (similarity >= threshold) {
-          const metadata = embedding.metadata ? JSON.parse(embedding.metadata) : {};
-          
           results.push({
             chunk: {
               id: embedding.id,
@@ -268,6 +367,7 @@ export class VectorSearchService {
     
     console.log(`📈 Similarity scores: min=${minScore.toFixed(3)}, max=${maxScore.toFixed(3)}`);
     console.log(`✅ Found ${results.length} results above threshold ${threshold}`);
+    this.warnIncompatible(skippedIncompatible);
     
     return results;
   }
@@ -357,6 +457,11 @@ export class VectorSearchService {
     // البحث العادي بـ embeddings (with caching)
     const queryEmbedding = await this.getQueryEmbedding(query);
     
+    const indexed = await this.indexedSearch(queryEmbedding, 0, limit, lessonId);
+    if (indexed && indexed.length > 0) {
+      return indexed.slice(0, limit);
+    }
+    
     const embeddings = await prisma.contentEmbedding.findMany({
       where: { content: { lessonId } },
       include: {
@@ -374,8 +479,17 @@ export class VectorSearchService {
     
     const results: SearchResult[] = [];
     
+    let skippedIncompatible = 0;
+    
     for (const embedding of embeddings) {
       const storedEmbedding = await this.getStoredEmbedding(embedding.id, embedding.embedding);
+      const metadata = embedding.metadata ? JSON.parse(embedding.metadata) : {};
+      
+      if (!isCompatibleEmbedding(metadata, storedEmbedding.length)) {
+        skippedIncompatible++;
+        continue;
+      }
+      
       const similarity = this.cosineSimilarity(queryEmbedding, storedEmbedding);
       
       results.push({
@@ -400,13 +514,15 @@ export class VectorSearchService {
       });
     }
     
+    this.warnIncompatible(skippedIncompatible);
+    
     return results
       .sort((a, b) => b.score - a.score)
       .slice(0, limit);
   }
   
   /**
-   * Hybrid search: combine vector and keyword search (KEPT AS IS)
+   * Hybrid search: fuse vector and BM25 rankings with reciprocal-rank fusion
    */
   async hybridSearch(
     query: string,
@@ -416,115 +532,65 @@ export class VectorSearchService {
     // Vector search with lower threshold
     const vectorResults = await this.searchSimilar(query, limit * 2, 0.15);
     
-    // Extract keywords if not provided
-    const searchKeywords = keywords || this.extractKeywords(query);
+    // BM25 over the query itself plus any caller-supplied keywords
+    const keywordQuery = [query, ...(keywords || [])].join(' ');
+    const keywordResults = await this.keywordSearch(keywordQuery, limit * 2);
     
-    if (searchKeywords.length > 0) {
-      const keywordResults = await this.keywordSearch(searchKeywords, limit);
-      
-      // Merge results
-      const merged = new Map<string, SearchResult>();
-      
-      // Add vector results (60% weight)
-      vectorResults.forEach(result => {
-        merged.set(result.chunk.id, {
-          ...result,
-          score: result.score * 0.6,
-        });
-      });
-      
-      // Add keyword results (40% weight)
-      keywordResults.forEach(result => {
-        const existing = merged.get(result.chunk.id);
+    if (keywordResults.length === 0) {
+      return vectorResults.slice(0, limit);
+    }
+    
+    return this.fuseRankings(vectorResults, keywordResults, limit);
+  }
+  
+  /**
+   * RRF: score = Σ 1 / (k + rank) - robust to the two lists having different score scales
+   */
+  fuseRankings(vectorResults: SearchResult[], keywordResults: SearchResult[], limit: number): SearchResult[] {
+    const fused = new Map<string, { result: SearchResult; score: number }>();
+    const addRanking = (results: SearchResult[]) => {
+      results.forEach((result, rank) => {
+        const contribution = 1 / (this.RRF_K + rank + 1);
+        const existing = fused.get(result.chunk.id);
         if (existing) {
-          existing.score += result.score * 0.4;
+          existing.score += contribution;
         } else {
-          merged.set(result.chunk.id, {
-            ...result,
-            score: result.score * 0.4,
-          });
+          fused.set(result.chunk.id, { result, score: contribution });
         }
       });
-      
-      return Array.from(merged.values())
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
-    }
+    };
+    
+    addRanking(vectorResults);
+    addRanking(keywordResults);
+    
+    // Normalize so a chunk ranked first in both lists scores 1.0
+    const maxScore = 2 / (this.RRF_K + 1);
     
-    return vectorResults.slice(0, limit);
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ result, score }) => ({ ...result, score: score / maxScore }));
   }
   
   /**
-   * Improved keyword search with Arabic support (KEPT AS IS)
+   * Keyword search over the BM25 index (Arabic-normalized)
    */
   private async keywordSearch(
-    keywords: string[],
+    query: string | string[],
     limit: number
   ): Promise<SearchResult[]> {
-    if (keywords.length === 0) return [];
+    const text = Array.isArray(query) ? query.join(' ') : query;
+    if (!text.trim()) return [];
     
-    console.log(`🔤 Keyword search for: ${keywords.join(', ')}`);
+    console.log(`🔤 Keyword search for: ${text}`);
     
-    const embeddings = await prisma.contentEmbedding.findMany({
-      where: {
-        OR: keywords.map(keyword => ({
-          chunkText: {
-            contains: keyword,
-            mode: 'insensitive' as any // Cast to any for Prisma compatibility
-          },
-        })),
-      },
-      take: limit * 2, // Get more results to filter
-      include: {
-        content: {
-          include: {
-            lesson: {
-              include: {
-                unit: {
-                  include: {
-                    subject: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-    });
+    const index = await keywordIndexService.getIndex();
+    const hits = index.search(text, limit);
+    if (hits.length === 0) return [];
     
-    // Score based on keyword frequency
-    return embeddings.map(embedding => {
-      let score = 0;
-      const text = embedding.chunkText.toLowerCase();
-      
-      keywords.forEach(keyword => {
-        const occurrences = (text.match(new RegExp(keyword.toLowerCase(), 'g')) || []).length;
-        score += occurrences * 0.1;
-      });
-      
-      return {
-        chunk: {
-          id: embedding.id,
-          text: embedding.chunkText,
-          metadata: {
-            contentId: embedding.contentId,
-            lessonId: embedding.content.lessonId,
-            chunkIndex: embedding.chunkIndex,
-            source: 'lesson',
-            title: embedding.content.lesson.title,
-          },
-        },
-        score: Math.min(score, 1.0),
-        lessonInfo: {
-          id: embedding.content.lesson.id,
-          title: embedding.content.lesson.title,
-          unitTitle: embedding.content.lesson.unit.title,
-          subjectName: embedding.content.lesson.unit.subject.name,
-        },
-      };
-    })
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit);
+    // Scale BM25 to 0-1 relative to the best hit
+    const topScore = hits[0].score || 1;
+    return this.hydrateHits(hits.map(hit => ({ id: hit.id, score: hit.score / topScore })));
   }
   
   /**
@@ -616,7 +682,7 @@ export class VectorSearchService {
       }
     }
     
-    const { embedding } = await openAIService.generateEmbedding(query);
+    const embedding = await embeddingProvider.embed(query);
     
     // Cache it
     if (this.FEATURES.USE_EMBEDDING_CACHE) {
@@ -690,6 +756,15 @@ export class VectorSearchService {
     return dotProduct / (normA * normB);
   }
   
+  /**
+   * Log once per search how many stored embeddings came from another provider/model
+   */
+  private warnIncompatible(count: number): void {
+    if (count === 0) return;
+    const { embeddingProvider: name, embeddingModel } = embeddingProvider.signature();
+    console.warn(`⚠️ Skipped ${count} embeddings not produced by ${name}/${embeddingModel} - run: npm run embeddings:reembed`);
+  }
+  
   /**
    * Debug method to check embeddings (KEPT AS IS)
    */
@@ -725,6 +800,8 @@ export class VectorSearchService {
       console.log(`✅ Vector search ready with ${embeddingCount} embeddings`);
       console.log(`🎯 Using batch size: ${this.FEATURES.BATCH_SIZE}`);
       console.log(`📊 Max embeddings per search: ${this.FEATURES.MAX_EMBEDDINGS_TO_LOAD}`);
+      
+      await vectorIndexService.initialize();
     }
   }
   
@@ -750,6 +827,9 @@ export class VectorSearchService {
       embeddingCacheSize: this.embeddingCache.size,
       features: this.FEATURES,
       threshold: this.DEFAULT_THRESHOLD,
+      vectorIndex: vectorIndexService.getStats(),
+      keywordIndex: keywordIndexService.getStats(),
+      embeddingProvider: embeddingProvider.signature(),
     };
   }
 }
@@ -1,18 +1,19 @@
 import dotenv from 'dotenv';
 dotenv.config();
 import fs from 'fs/promises';
-import { createWriteStream } from 'fs'; // Fix: Import from 'fs' not 'fs/promises'
 import path from 'path';
-import fetch from 'node-fetch'; // Will work after installing @types/node-fetch
-import { Readable } from 'stream';
-import { pipeline } from 'stream/promises';
+import crypto from 'crypto';
+import { ttsService } from '../../services/voice/tts.service';
+import { pronunciationService } from '../../services/voice/pronunciation.service';
+import type { VoiceProfile } from '../../services/voice/tts.provider';
 import type { VideoSection } from '../../types/video.types';
 
 // cSpell:disable - Disable spell checking for Arabic words
 
 /**
  * Egyptian Arabic Voice Generator Service
- * Handles audio generation with ElevenLabs cloned Egyptian voice
+ * Handles audio generation with ElevenLabs cloned Egyptian voice,
+ * falling back to the other TTS providers (OpenAI, local voice) when it fails
  * 
  * @class AudioGenerator
  * @version 2.0.0
@@ -222,7 +223,8 @@ export class AudioGenerator {
    */
   async generateAudio(
     sections: VideoSection[],
-    outputDir: string
+    outputDir: string,
+    options: { profile?: VoiceProfile; subjectId?: string } = {}
   ): Promise<string[]> {
     console.log('━'.repeat(60));
     console.log('🎵 Starting Egyptian Voice Generation');
@@ -233,6 +235,7 @@ export class AudioGenerator {
     
     const audioFiles: string[] = [];
     const totalSections = sections.length;
+    const hasVoice = (await ttsService.getActiveProviders()).length > 0;
     
     for (let i = 0; i < totalSections; i++) {
       const section = sections[i];
@@ -244,19 +247,22 @@ export class AudioGenerator {
       const outputPath = path.join(outputDir, `audio-section-${sectionNumber}.mp3`);
       
       try {
-        // Check cache first
-        const cacheKey = this.generateCacheKey(section.narration);
-        if (this.audioCache.has(cacheKey)) {
+        const spokenText = await this.prepareNarration(section.narration, options.subjectId);
+        
+        // Check cache first (earlier renders may have cleaned their files up)
+        const cacheKey = this.generateCacheKey(`${spokenText}|${options.profile?.ageGroup}-${options.profile?.gender}`);
+        const cachedPath = this.audioCache.get(cacheKey);
+        if (cachedPath && await this.fileExists(cachedPath)) {
           console.log('📦 Using cached audio');
-          const cachedPath = this.audioCache.get(cacheKey)!;
           await fs.copyFile(cachedPath, outputPath);
         } else {
           // Generate new audio
-          if (this.apiKey && this.voiceId) {
-            await this.generateElevenLabsAudio(
-              section.narration,
+          if (hasVoice) {
+            await this.generateNarration(
+              spokenText,
               outputPath,
-              section.type
+              section.type,
+              options.profile
             );
             this.audioCache.set(cacheKey, outputPath);
           } else {
@@ -282,7 +288,7 @@ export class AudioGenerator {
       }
       
       // Rate limiting delay
-      if (i < totalSections - 1 && this.apiKey) {
+      if (i < totalSections - 1 && hasVoice) {
         await this.delay(500);
       }
     }
@@ -295,76 +301,46 @@ export class AudioGenerator {
   }
   
   /**
-   * Generate audio using ElevenLabs API with Egyptian voice
+   * Egyptian dialect, then math/numbers spelled out and the pronunciation lexicon
    */
-  private async generateElevenLabsAudio(
-    text: string,
-    outputPath: string,
-    sectionType: string
-  ): Promise<void> {
-    console.log('🎙️ Generating Egyptian voice with ElevenLabs...');
-    
+  private async prepareNarration(text: string, subjectId?: string): Promise<string> {
     // Convert to Egyptian dialect
     const egyptianText = this.convertToEgyptianDialect(text);
+    const spokenText = await pronunciationService.prepare(egyptianText, { dialect: 'egyptian', subjectId });
     
     // Log conversion
     if (process.env.DEBUG_VIDEO === 'true') {
       console.log('📝 Original:', text.substring(0, 100) + '...');
-      console.log('🇪🇬 Egyptian:', egyptianText.substring(0, 100) + '...');
+      console.log('🇪🇬 Spoken:', spokenText.substring(0, 100) + '...');
     }
     
-    // Adjust voice settings based on section type
+    return spokenText;
+  }
+  
+  /**
+   * Generate Egyptian narration with the first TTS provider that works
+   */
+  private async generateNarration(
+    spokenText: string,
+    outputPath: string,
+    sectionType: string,
+    profile?: VoiceProfile
+  ): Promise<void> {
+    console.log('🎙️ Generating Egyptian voice...');
+    
+    // Adjust voice settings based on section type (ElevenLabs only)
     const adjustedSettings = this.adjustVoiceSettings(sectionType);
     
-    try {
-      // Make API request to ElevenLabs
-      const response = await fetch(
-        `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}/stream`,
-        {
-          method: 'POST',
-          headers: {
-            'Accept': 'audio/mpeg',
-            'xi-api-key': this.apiKey!,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            text: egyptianText,
-            model_id: this.modelId,
-            voice_settings: adjustedSettings,
-            optimize_streaming_latency: process.env.ELEVENLABS_OPTIMIZE_STREAMING === 'true' ? 1 : 0,
-          }),
-        }
-      );
-      
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`ElevenLabs API error (${response.status}): ${error}`);
-      }
-      
-      // Stream audio to file - Fixed version
-      const fileStream = createWriteStream(outputPath); // Now correctly imported
-      const nodeStream = response.body as unknown as NodeJS.ReadableStream;
-
-      await pipeline(nodeStream, fileStream);
-      // Verify file was created
-      const stats = await fs.stat(outputPath);
-      console.log(`✅ Audio saved: ${outputPath} (${this.formatFileSize(stats.size)})`);
-      
-    } catch (error: any) {
-      console.error('❌ ElevenLabs generation failed:', error.message);
-      
-      // Handle specific errors
-      if (error.message.includes('401')) {
-        console.error('🔑 Invalid API key. Please check your ElevenLabs credentials.');
-      } else if (error.message.includes('429')) {
-        console.error('⏳ Rate limited. Waiting before retry...');
-        await this.delay(5000);
-      } else if (error.message.includes('insufficient_quota')) {
-        console.error('💰 Insufficient ElevenLabs quota. Please check your account.');
-      }
-      
-      throw error;
-    }
+    const result = await ttsService.synthesize(spokenText, outputPath, {
+      profile,
+      // The cloned Egyptian voice wins over the per-profile ElevenLabs voices
+      voices: this.voiceId ? { elevenlabs: this.voiceId } : undefined,
+      modelId: this.modelId,
+      settings: adjustedSettings,
+    });
+    
+    const stats = await fs.stat(outputPath);
+    console.log(`✅ Audio saved: ${outputPath} (${this.formatFileSize(stats.size)}, ${result.provider})`);
   }
   
   /**
@@ -414,7 +390,7 @@ export class AudioGenerator {
     outputPath: string,
     duration: number
   ): Promise<void> {
-    console.log('🎭 Generating mock audio (no API key configured)...');
+    console.log('🎭 Generating mock audio (no TTS provider available)...');
     
     const egyptianText = this.convertToEgyptianDialect(text);
     
@@ -425,7 +401,7 @@ export class AudioGenerator {
       duration: duration || Math.ceil(text.length / 10),
       estimated_words: text.split(/\s+/).length,
       estimated_reading_speed: 150, // words per minute
-      message: 'This is a mock audio file. Configure ElevenLabs API for real Egyptian voice.',
+      message: 'This is a mock audio file. Configure a TTS provider (TTS_PROVIDERS) for real Egyptian voice.',
       timestamp: new Date().toISOString(),
     };
     
@@ -548,66 +524,6 @@ export class AudioGenerator {
     }
   }
   
-  /**
-   * Preprocess text for better pronunciation
-   */
-  private preprocessTextForSpeech(text: string): string {
-    let processed = text;
-    
-    // Handle numbers
-    processed = processed.replace(/(\d+)/g, (match) => {
-      return this.numberToArabicWords(parseInt(match));
-    });
-    
-    // Handle mathematical symbols
-    processed = processed.replace(/\+/g, ' زائد ');
-    processed = processed.replace(/\-/g, ' ناقص ');
-    processed = processed.replace(/×/g, ' ضرب ');
-    processed = processed.replace(/÷/g, ' قسمة ');
-    processed = processed.replace(/=/g, ' يساوي ');
-    
-    // Handle fractions
-    processed = processed.replace(/(\d+)\/(\d+)/g, '$1 على $2');
-    
-    // Add pauses for better flow
-    processed = processed.replace(/\./g, '.');
-    processed = processed.replace(/،/g, '،');
-    processed = processed.replace(/؟/g, '؟');
-    
-    return processed;
-  }
-  
-  /**
-   * Convert number to Arabic words
-   */
-  private numberToArabicWords(num: number): string {
-    const ones = ['', 'واحد', 'اتنين', 'تلاتة', 'أربعة', 'خمسة', 'ستة', 'سبعة', 'تمانية', 'تسعة'];
-    const tens = ['', 'عشرة', 'عشرين', 'تلاتين', 'أربعين', 'خمسين', 'ستين', 'سبعين', 'تمانين', 'تسعين'];
-    const hundreds = ['', 'مية', 'ميتين', 'تلتمية', 'ربعمية', 'خمسمية', 'ستمية', 'سبعمية', 'تمنمية', 'تسعمية'];
-    
-    if (num === 0) return 'صفر';
-    if (num < 10) return ones[num];
-    if (num < 100) {
-      const ten = Math.floor(num / 10);
-      const one = num % 10;
-      return one > 0 ? `${ones[one]} و${tens[ten]}` : tens[ten];
-    }
-    if (num < 1000) {
-      const hundred = Math.floor(num / 100);
-      const remainder = num % 100;
-      if (remainder === 0) return hundreds[hundred];
-      if (remainder < 10) return `${hundreds[hundred]} و${ones[remainder]}`;
-      const ten = Math.floor(remainder / 10);
-      const one = remainder % 10;
-      return one > 0 
-        ? `${hundreds[hundred]} و${ones[one]} و${tens[ten]}`
-        : `${hundreds[hundred]} و${tens[ten]}`;
-    }
-    
-    // For larger numbers, just return the digits
-    return num.toString();
-  }
-  
   /**
    * Utility functions
    */
@@ -617,8 +533,16 @@ export class AudioGenerator {
   }
   
   private generateCacheKey(text: string): string {
-    // Simple hash for cache key
-    return Buffer.from(text).toString('base64').substring(0, 20);
+    return crypto.createHash('md5').update(text).digest('hex');
+  }
+  
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
   }
   
   private formatFileSize(bytes: number): string {
@@ -659,11 +583,11 @@ export class AudioGenerator {
       console.log(`   • Speaker Boost: ${this.voiceSettings.use_speaker_boost ? 'ON' : 'OFF'}`);
       console.log(`📚 Dictionary: ${this.egyptianDictionary.size} conversions loaded`);
     } else {
-      console.log('⚠️ Status: MOCK MODE');
+      console.log('⚠️ Status: FALLBACK VOICES');
       console.log('❗ Missing credentials:');
       if (!this.apiKey) console.log('   • ELEVENLABS_API_KEY not set');
       if (!this.voiceId) console.log('   • ELEVENLABS_VOICE_ID not set');
-      console.log('💡 Add credentials to .env file for real voice generation');
+      console.log(`💡 Narration uses the other TTS_PROVIDERS (${process.env.TTS_PROVIDERS || 'elevenlabs,openai,local'}), or mock audio if none works`);
     }
     
     console.log('═'.repeat(60) + '\n');
@@ -0,0 +1,210 @@
+// src/core/video/video.renderer.ts
+// تجميع صور الشرائح والتعليق الصوتي في ملف MP4 باستخدام ffmpeg
+//
+// كل قسم (VideoSection) يتحول لمقطع مستقل بصوره وصوته، وبعدين المقاطع بتتجمع
+// في ملف واحد مع فصل (chapter) لكل قسم
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import type { VideoChapter } from '../../types/video.types';
+
+const execFileAsync = promisify(execFile);
+
+const WIDTH = 1920;
+const HEIGHT = 1080;
+const FPS = 30;
+const THUMBNAIL_WIDTH = 640;
+const FFMPEG_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface RenderSection {
+  id: string;
+  title: string;
+  images: Array<{ path: string; duration: number }>;
+  audioPath: string | null;   // null → silent section
+  duration: number;           // seconds
+}
+
+export class VideoRenderer {
+  private readonly ffmpegPath: string;
+
+  constructor() {
+    this.ffmpegPath = process.env.FFMPEG_PATH || ffmpegInstaller.path;
+  }
+
+  /**
+   * Render the sections into one MP4 with a chapter per section
+   */
+  async render(
+    sections: RenderSection[],
+    outputPath: string,
+    workDir: string,
+    title: string
+  ): Promise<{ duration: number; chapters: VideoChapter[] }> {
+    if (sections.length === 0) {
+      throw new Error('Nothing to render: the script has no sections');
+    }
+
+    await fs.mkdir(workDir, { recursive: true });
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
+    const clips: string[] = [];
+    const chapters: VideoChapter[] = [];
+    let offset = 0;
+
+    for (const [index, section] of sections.entries()) {
+      const clipPath = path.join(workDir, `section-${String(index + 1).padStart(3, '0')}.mp4`);
+      await this.renderSection(section, clipPath, workDir);
+      clips.push(clipPath);
+
+      chapters.push({
+        sectionId: section.id,
+        title: section.title,
+        start: offset,
+        end: offset + section.duration,
+      });
+      offset += section.duration;
+    }
+
+    const clipList = path.join(workDir, 'sections.txt');
+    await fs.writeFile(clipList, clips.map(c => `file '${this.escapePath(c)}'`).join('\n'));
+
+    const metadataPath = path.join(workDir, 'chapters.txt');
+    await fs.writeFile(metadataPath, this.chapterMetadata(title, chapters));
+
+    // Same codec settings in every clip, so concatenation is a plain copy
+    await this.run([
+      '-f', 'concat', '-safe', '0', '-i', clipList,
+      '-i', metadataPath,
+      '-map', '0', '-map_metadata', '1', '-map_chapters', '1',
+      '-c', 'copy',
+      '-movflags', '+faststart',
+      outputPath,
+    ]);
+
+    return { duration: offset, chapters };
+  }
+
+  /**
+   * Still frame from the video, a second in (or the middle of very short videos)
+   */
+  async extractThumbnail(videoPath: string, outputPath: string, duration: number): Promise<void> {
+    const at = Math.min(1, duration / 2);
+    await this.run([
+      '-ss', at.toFixed(2), '-i', videoPath,
+      '-frames:v', '1',
+      '-vf', `scale=${THUMBNAIL_WIDTH}:-2`,
+      outputPath,
+    ]);
+  }
+
+  /**
+   * Narration track on its own (for audio-only playback)
+   */
+  async extractAudio(videoPath: string, outputPath: string): Promise<void> {
+    await this.run(['-i', videoPath, '-vn', '-c:a', 'copy', outputPath]);
+  }
+
+  /**
+   * Re-encode an audio file as MP3 (local TTS engines only write WAV)
+   */
+  async convertToMp3(inputPath: string, outputPath: string): Promise<void> {
+    await this.run(['-i', inputPath, '-codec:a', 'libmp3lame', '-b:a', '128k', outputPath]);
+  }
+
+  /**
+   * 16 kHz mono PCM WAV - the only input whisper.cpp reads
+   */
+  async convertToWav16k(inputPath: string, outputPath: string): Promise<void> {
+    await this.run(['-i', inputPath, '-vn', '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', outputPath]);
+  }
+
+  /**
+   * Duration of a media file in seconds, or null when ffmpeg can't read it
+   * (the mock audio generator writes JSON into .mp3 files)
+   */
+  async probeDuration(filePath: string): Promise<number | null> {
+    try {
+      await execFileAsync(this.ffmpegPath, ['-hide_banner', '-i', filePath], { timeout: FFMPEG_TIMEOUT_MS });
+      return null;
+    } catch (error: any) {
+      // Without an output file ffmpeg always exits with an error; the info is on stderr
+      const match = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(String(error.stderr || ''));
+      if (!match || !/Audio:|Video:/.test(String(error.stderr))) return null;
+      const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+      return seconds > 0 ? seconds : null;
+    }
+  }
+
+  // ============= Helpers =============
+
+  private async renderSection(section: RenderSection, outputPath: string, workDir: string): Promise<void> {
+    const listPath = outputPath.replace(/\.mp4$/, '.txt');
+    const lines: string[] = [];
+    for (const image of section.images) {
+      lines.push(`file '${this.escapePath(image.path)}'`, `duration ${image.duration.toFixed(3)}`);
+    }
+    // The concat demuxer ignores the duration of the last entry unless it's repeated
+    const last = section.images[section.images.length - 1];
+    lines.push(`file '${this.escapePath(last.path)}'`);
+    await fs.writeFile(listPath, lines.join('\n'));
+
+    const duration = section.duration.toFixed(3);
+    const audioInput = section.audioPath
+      ? ['-i', section.audioPath]
+      : ['-f', 'lavfi', '-t', duration, '-i', 'anullsrc=r=44100:cl=stereo'];
+
+    await this.run([
+      '-f', 'concat', '-safe', '0', '-i', listPath,
+      ...audioInput,
+      '-map', '0:v:0', '-map', '1:a:0',
+      '-vf', `scale=${WIDTH}:${HEIGHT}:force_original_aspect_ratio=decrease,pad=${WIDTH}:${HEIGHT}:(ow-iw)/2:(oh-ih)/2,fps=${FPS},format=yuv420p`,
+      '-af', 'apad',
+      '-t', duration,
+      '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23',
+      '-c:a', 'aac', '-b:a', '128k', '-ar', '44100', '-ac', '2',
+      outputPath,
+    ], workDir);
+  }
+
+  private chapterMetadata(title: string, chapters: VideoChapter[]): string {
+    const lines = [';FFMETADATA1', `title=${this.escapeMetadata(title)}`];
+    for (const chapter of chapters) {
+      lines.push(
+        '',
+        '[CHAPTER]',
+        'TIMEBASE=1/1000',
+        `START=${Math.round(chapter.start * 1000)}`,
+        `END=${Math.round(chapter.end * 1000)}`,
+        `title=${this.escapeMetadata(chapter.title)}`
+      );
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private escapeMetadata(value: string): string {
+    return value.replace(/[=;#\\\n]/g, ch => `\\${ch}`);
+  }
+
+  private escapePath(filePath: string): string {
+    return path.resolve(filePath).replace(/'/g, `'\\''`);
+  }
+
+  private async run(args: string[], cwd?: string): Promise<void> {
+    try {
+      await execFileAsync(this.ffmpegPath, ['-hide_banner', '-loglevel', 'error', '-y', ...args], {
+        cwd,
+        timeout: FFMPEG_TIMEOUT_MS,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+    } catch (error: any) {
+      const details = String(error.stderr || error.message || '').trim().split('\n').slice(-3).join(' ');
+      throw new Error(`ffmpeg failed: ${details}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const videoRenderer = new VideoRenderer();
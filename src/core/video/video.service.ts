@@ -0,0 +1,335 @@
+// src/core/video/video.service.ts
+// فيديو الدرس من أوله لآخره: سكريبت → شرائح PNG → تعليق صوتي → MP4 في جدول Video
+//
+// الحالات: PENDING (في الطابور) → PROCESSING → COMPLETED أو FAILED مع سبب الخطأ
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Queue } from 'bullmq';
+import { prisma } from '../../config/database.config';
+import { queues } from '../../config/queue.config';
+import { scriptGenerator } from './script.generator';
+import { slideGenerator } from './slide.generator';
+import { audioGenerator } from './audio.generator';
+import { videoRenderer, type RenderSection } from './video.renderer';
+import { voiceService } from '../../services/voice/voice.service';
+import { captionService, type CaptionCue } from '../../services/voice/caption.service';
+import { NotFoundError, TooManyRequestsError, ValidationError } from '../../utils/errors';
+import type { Video } from '@prisma/client';
+import type { LessonVideo, VideoChapter, VideoRenderStage, VideoScript } from '../../types/video.types';
+
+// Served by app.ts under /videos
+export const VIDEO_OUTPUT_DIR = path.join(process.cwd(), 'temp', 'videos');
+const VIDEO_WORK_DIR = path.join(process.cwd(), 'temp', 'video-work');
+
+// A render that hasn't finished by then is assumed dead (worker crash/restart)
+const STALE_PROCESSING_MS = 30 * 60 * 1000;
+// Breathing room after the narration before the next section starts
+const NARRATION_TAIL_SECONDS = 0.5;
+const MAX_ERROR_LENGTH = 1000;
+// Without Redis renders run in the API process: one at a time, further requests are refused
+const MAX_INLINE_RENDERS = 1;
+
+const STAGE_PROGRESS: Record<VideoRenderStage, number> = {
+  queued: 0,
+  script: 10,
+  slides: 30,
+  audio: 60,
+  rendering: 80,
+  done: 100,
+};
+
+interface ProcessingData {
+  stage?: VideoRenderStage;
+  chapters?: VideoChapter[];
+  narration?: 'voice' | 'silent';
+  renderMs?: number;
+}
+
+export class VideoService {
+  private inlineRenders = new Set<string>();
+
+  /**
+   * Queue a render of the lesson video. An existing video is returned as is
+   * unless `force` is set; a render that is already queued or running is never duplicated.
+   */
+  async requestLessonVideo(lessonId: string, options: { force?: boolean } = {}): Promise<LessonVideo> {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      select: { id: true, content: { select: { id: true } } },
+    });
+    if (!lesson) {
+      throw new NotFoundError('Lesson');
+    }
+    if (!lesson.content) {
+      throw new ValidationError('Lesson has no content to build a video from');
+    }
+
+    const existing = await prisma.video.findUnique({ where: { lessonId } });
+    if (existing) {
+      const running = existing.status === 'PROCESSING'
+        && existing.startedAt && Date.now() - existing.startedAt.getTime() < STALE_PROCESSING_MS;
+      // A queued render already has its job; forcing again would only add a second one
+      const queued = existing.status === 'PENDING'
+        && Date.now() - existing.updatedAt.getTime() < STALE_PROCESSING_MS;
+      if (running || queued || (existing.status === 'COMPLETED' && !options.force)) {
+        return this.toLessonVideo(existing);
+      }
+    }
+
+    if (!this.hasQueue() && this.inlineRenders.size >= MAX_INLINE_RENDERS) {
+      throw new TooManyRequestsError('Another lesson video is rendering, try again in a few minutes');
+    }
+
+    const video = await prisma.video.upsert({
+      where: { lessonId },
+      create: { lessonId, status: 'PENDING', processingData: JSON.stringify({ stage: 'queued' }) },
+      update: {
+        status: 'PENDING',
+        error: null,
+        startedAt: null,
+        completedAt: null,
+        processingData: JSON.stringify({ stage: 'queued' }),
+      },
+    });
+
+    await this.enqueue(lessonId);
+    return this.toLessonVideo(video);
+  }
+
+  async getLessonVideo(lessonId: string): Promise<LessonVideo | null> {
+    const video = await prisma.video.findUnique({ where: { lessonId } });
+    return video ? this.toLessonVideo(video) : null;
+  }
+
+  /**
+   * Render the lesson video (called by the video worker, or inline without Redis)
+   */
+  async processVideo(lessonId: string, onProgress?: (progress: number) => Promise<void> | void): Promise<LessonVideo> {
+    const started = Date.now();
+    const workDir = path.join(VIDEO_WORK_DIR, lessonId);
+
+    const setStage = async (stage: VideoRenderStage, data: Record<string, any> = {}) => {
+      await prisma.video.update({
+        where: { lessonId },
+        data: { processingData: JSON.stringify({ stage }), ...data },
+      });
+      await onProgress?.(STAGE_PROGRESS[stage]);
+    };
+
+    await prisma.video.upsert({
+      where: { lessonId },
+      create: { lessonId, status: 'PROCESSING', startedAt: new Date() },
+      update: { status: 'PROCESSING', startedAt: new Date(), completedAt: null, error: null },
+    });
+
+    try {
+      const lesson = await prisma.lesson.findUnique({
+        where: { id: lessonId },
+        select: { title: true, titleAr: true, unit: { select: { subject: { select: { id: true, grade: true } } } } },
+      });
+      if (!lesson) {
+        throw new Error('Lesson not found');
+      }
+
+      await fs.rm(workDir, { recursive: true, force: true });
+
+      // 1. Script
+      await setStage('script');
+      const script = scriptGenerator.optimizeScriptTiming(await scriptGenerator.generateScript(lessonId));
+      const sections = script.sections.filter(s => s.slides.length > 0);
+      if (sections.length === 0) {
+        throw new Error('Generated script has no slides');
+      }
+
+      // 2. Slides
+      await setStage('slides', { script: JSON.stringify(script) });
+      const slides = sections.flatMap(s => s.slides);
+      let images: string[];
+      try {
+        images = await slideGenerator.generateSlides(slides, path.join(workDir, 'slides'), lesson.unit.subject.grade);
+      } finally {
+        await slideGenerator.cleanup();
+      }
+
+      // 3. Narration (mock audio files are not playable → silent section)
+      await setStage('audio', { slides: JSON.stringify(slides) });
+      const audioFiles = await audioGenerator.generateAudio(sections, path.join(workDir, 'audio'), {
+        profile: voiceService.getVoiceProfile(lesson.unit.subject.grade, null),
+        subjectId: lesson.unit.subject.id,
+      });
+
+      const renderSections: RenderSection[] = [];
+      const spoken: number[] = [];
+      let imageIndex = 0;
+      for (const [index, section] of sections.entries()) {
+        const audioPath = audioFiles[index] || null;
+        const narration = audioPath ? await videoRenderer.probeDuration(audioPath) : null;
+
+        const slideTime = section.slides.reduce((sum, slide) => sum + slide.duration, 0);
+        const duration = Math.max(slideTime, narration ? narration + NARRATION_TAIL_SECONDS : 0);
+        const scale = duration / slideTime;
+
+        renderSections.push({
+          id: section.id,
+          title: section.title,
+          images: section.slides.map(slide => ({ path: images[imageIndex++], duration: slide.duration * scale })),
+          audioPath: narration ? audioPath : null,
+          duration,
+        });
+        spoken.push(narration || slideTime);
+      }
+
+      // 4. Render
+      await setStage('rendering');
+      const outputDir = path.join(VIDEO_OUTPUT_DIR, lessonId);
+      await fs.rm(outputDir, { recursive: true, force: true });
+
+      // New file name per render so players don't keep a cached old version
+      const name = `lesson-${Date.now()}`;
+      const videoPath = path.join(outputDir, `${name}.mp4`);
+      const thumbnailPath = path.join(outputDir, `${name}.jpg`);
+      const { duration, chapters } = await videoRenderer.render(
+        renderSections,
+        videoPath,
+        path.join(workDir, 'render'),
+        lesson.titleAr || lesson.title
+      );
+      await videoRenderer.extractThumbnail(videoPath, thumbnailPath, duration);
+
+      // Captions follow the narration of each section, shifted to where the section starts
+      const cues: CaptionCue[] = [];
+      for (const [index, section] of sections.entries()) {
+        const { words } = await voiceService.generateSyncData(section.narration || '', spoken[index]);
+        const offset = chapters[index].start;
+        cues.push(...captionService.buildCues(words.map(w => ({ ...w, start: w.start + offset, end: w.end + offset }))));
+      }
+      const captions = await captionService.saveTrack(cues, outputDir, name, `/videos/${lessonId}`);
+
+      const hasNarration = renderSections.some(s => s.audioPath);
+      let audioUrl: string | null = null;
+      if (hasNarration) {
+        await videoRenderer.extractAudio(videoPath, path.join(outputDir, `${name}.m4a`));
+        audioUrl = this.publicUrl(lessonId, `${name}.m4a`);
+      }
+
+      const processingData: ProcessingData = {
+        stage: 'done',
+        chapters,
+        narration: hasNarration ? 'voice' : 'silent',
+        renderMs: Date.now() - started,
+      };
+
+      const video = await prisma.video.update({
+        where: { lessonId },
+        data: {
+          status: 'COMPLETED',
+          url: this.publicUrl(lessonId, `${name}.mp4`),
+          thumbnailUrl: this.publicUrl(lessonId, `${name}.jpg`),
+          audioUrl,
+          captionsVttUrl: captions.vttUrl,
+          captionsSrtUrl: captions.srtUrl,
+          duration: Math.round(duration),
+          script: JSON.stringify(this.withChapterTimes(script, chapters)),
+          processingData: JSON.stringify(processingData),
+          error: null,
+          completedAt: new Date(),
+        },
+      });
+
+      await onProgress?.(STAGE_PROGRESS.done);
+      console.log(`🎬 Video for lesson ${lessonId} rendered in ${processingData.renderMs}ms (${Math.round(duration)}s)`);
+      return this.toLessonVideo(video);
+    } catch (error: any) {
+      console.error(`❌ Video rendering failed for lesson ${lessonId}:`, error);
+      await prisma.video.update({
+        where: { lessonId },
+        data: {
+          status: 'FAILED',
+          error: String(error?.message || error).slice(0, MAX_ERROR_LENGTH),
+        },
+      });
+      throw error;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  // ============= Helpers =============
+
+  /**
+   * The video worker picks the job up from Redis; without Redis render in this process
+   */
+  private async enqueue(lessonId: string): Promise<void> {
+    if (this.hasQueue()) {
+      await queues.videoGeneration.add('render-lesson-video', { lessonId }, { jobId: `video-${lessonId}-${Date.now()}` });
+      return;
+    }
+
+    this.inlineRenders.add(lessonId);
+    setImmediate(() => {
+      this.processVideo(lessonId)
+        .catch(() => {
+          // Already recorded as FAILED on the video row
+        })
+        .finally(() => this.inlineRenders.delete(lessonId));
+    });
+  }
+
+  private hasQueue(): boolean {
+    return queues.videoGeneration instanceof Queue;
+  }
+
+  private toLessonVideo(video: Video): LessonVideo {
+    const data = this.parseProcessingData(video.processingData);
+    const stage = data.stage || null;
+
+    return {
+      id: video.id,
+      lessonId: video.lessonId,
+      status: video.status,
+      stage,
+      progress: video.status === 'COMPLETED' ? 100 : stage ? STAGE_PROGRESS[stage] : 0,
+      url: video.url,
+      thumbnailUrl: video.thumbnailUrl,
+      audioUrl: video.audioUrl,
+      captions: video.captionsVttUrl && video.captionsSrtUrl
+        ? { vttUrl: video.captionsVttUrl, srtUrl: video.captionsSrtUrl, language: 'ar' }
+        : null,
+      duration: video.duration,
+      chapters: data.chapters || [],
+      narration: data.narration || null,
+      error: video.error,
+      startedAt: video.startedAt,
+      completedAt: video.completedAt,
+    };
+  }
+
+  /**
+   * Stored script uses the real (narration-stretched) section durations
+   */
+  private withChapterTimes(script: VideoScript, chapters: VideoChapter[]): VideoScript {
+    const byId = new Map(chapters.map(c => [c.sectionId, c]));
+    const sections = script.sections.map(section => {
+      const chapter = byId.get(section.id);
+      return chapter ? { ...section, duration: chapter.end - chapter.start } : section;
+    });
+    return { ...script, sections, duration: chapters[chapters.length - 1]?.end ?? script.duration };
+  }
+
+  private parseProcessingData(value: string | null): ProcessingData {
+    if (!value) return {};
+    try {
+      return JSON.parse(value) as ProcessingData;
+    } catch {
+      return {};
+    }
+  }
+
+  private publicUrl(lessonId: string, file: string): string {
+    return `/videos/${lessonId}/${file}`;
+  }
+}
+
+// Export singleton instance
+export const videoService = new VideoService();
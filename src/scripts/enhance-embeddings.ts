@@ -2,7 +2,7 @@
 // تحسين الـ embeddings بـ chunks أصغر و metadata أكثر
 
 import { prisma } from '../config/database.config';
-import { openAIService } from '../services/ai/openai.service';
+import { embeddingProvider } from '../core/rag/embedding.provider';
 
 interface ChunkMetadata {
   lessonId: string;
@@ -77,7 +77,7 @@ class EmbeddingEnhancer {
             
             try {
               // توليد embedding
-              const { embedding } = await openAIService.generateEmbedding(chunk.text);
+              const embedding = await embeddingProvider.embed(chunk.text);
               
               // حفظ في قاعدة البيانات
               await prisma.contentEmbedding.create({
@@ -86,7 +86,7 @@ class EmbeddingEnhancer {
                   chunkIndex: j,
                   chunkText: chunk.text,
                   embedding: JSON.stringify(embedding),
-                  metadata: JSON.stringify(chunk.metadata)
+                  metadata: JSON.stringify({ ...chunk.metadata, ...embeddingProvider.signature() })
                 }
               });
 
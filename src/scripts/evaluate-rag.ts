@@ -0,0 +1,85 @@
+// src/scripts/evaluate-rag.ts
+// Retrieval evaluation: recall@k, MRR, confidence calibration, run diffs
+//
+// Usage:
+//   npm run rag:eval                                   # all modes, default golden set
+//   npm run rag:eval -- --modes similar,hybrid --k 1,5 --label chunk-500
+//   npm run rag:eval -- --compare data/rag-eval/runs/before.json
+//   npm run rag:eval -- --diff runs/a.json runs/b.json  # compare two saved runs only
+import fs from 'fs/promises';
+import path from 'path';
+import { compareRuns, formatDiff } from '../core/rag/retrieval.diff';
+import type { EvaluationRun, RetrievalMode } from '../types/rag-eval.types';
+
+const DEFAULT_GOLDEN = 'data/rag-eval/golden.json';
+const RUNS_DIR = 'data/rag-eval/runs';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function readRun(file: string): Promise<EvaluationRun> {
+  return JSON.parse(await fs.readFile(file, 'utf-8'));
+}
+
+async function main() {
+  let disconnect: (() => Promise<void>) | undefined;
+  try {
+    // Diff-only mode: no database or embeddings needed (they are loaded below, only to evaluate)
+    const diffIndex = process.argv.indexOf('--diff');
+    if (diffIndex >= 0) {
+      const [beforeFile, afterFile] = process.argv.slice(diffIndex + 1, diffIndex + 3);
+      if (!beforeFile || !afterFile) {
+        console.log('❌ Usage: --diff <before.json> <after.json>');
+        process.exit(1);
+      }
+      const diff = compareRuns(await readRun(beforeFile), await readRun(afterFile));
+      console.log(formatDiff(diff));
+      return;
+    }
+
+    const { prisma } = await import('../config/database.config');
+    disconnect = () => prisma.$disconnect();
+    const { retrievalEvaluator } = await import('../core/rag/retrieval.evaluator');
+
+    const goldenFile = getArg('golden') || DEFAULT_GOLDEN;
+    const modes = getArg('modes')?.split(',') as RetrievalMode[] | undefined;
+    const ks = getArg('k')?.split(',').map(Number).filter(k => k > 0);
+    const threshold = getArg('threshold') ? Number(getArg('threshold')) : undefined;
+    const label = getArg('label');
+
+    console.log('📐 RAG Evaluation Script\n');
+    console.log(`   Golden set: ${goldenFile}`);
+
+    const set = await retrievalEvaluator.loadGoldenSet(goldenFile);
+    console.log(`   Questions: ${set.questions.length}`);
+
+    const run = await retrievalEvaluator.evaluate(set, { modes, ks, threshold, label });
+
+    console.log('\n' + '='.repeat(60));
+    console.log(retrievalEvaluator.formatRun(run));
+    console.log('='.repeat(60));
+
+    // Save the run so later changes can be compared against it
+    const outFile = getArg('out')
+      || path.join(RUNS_DIR, `${(label || run.createdAt).replace(/[^\w.-]+/g, '_')}.json`);
+    await fs.mkdir(path.dirname(outFile), { recursive: true });
+    await fs.writeFile(outFile, JSON.stringify(run, null, 2));
+    console.log(`\n💾 Run saved to ${outFile}`);
+
+    const compareFile = getArg('compare');
+    if (compareFile) {
+      const diff = compareRuns(await readRun(compareFile), run);
+      console.log('\n' + formatDiff(diff));
+    }
+
+  } catch (error) {
+    console.error('❌ Error:', error);
+    process.exit(1);
+  } finally {
+    await disconnect?.();
+  }
+}
+
+main();
@@ -0,0 +1,34 @@
+// src/scripts/index-rag.ts
+// Rebuild the ANN vector index from stored embeddings
+import { vectorIndexService } from '../core/rag/vector-index.service';
+import { prisma } from '../config/database.config';
+
+async function main() {
+  console.log('🧭 Vector Index Build Script\n');
+
+  try {
+    const embeddingCount = await prisma.contentEmbedding.count();
+    console.log(`📊 Embeddings in database: ${embeddingCount}`);
+
+    if (embeddingCount === 0) {
+      console.log('❌ No embeddings found!');
+      console.log('   Run: npm run content:process');
+      process.exit(1);
+    }
+
+    const { indexed, skipped, duration } = await vectorIndexService.rebuild();
+    const stats = vectorIndexService.getStats();
+
+    console.log(`\n✅ Indexed ${indexed} vectors (${skipped} skipped) in ${duration}ms`);
+    console.log(`   Dimension: ${stats.dimension}`);
+    console.log(`   Saved to: ${stats.path}`);
+
+  } catch (error) {
+    console.error('❌ Error:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -4,7 +4,7 @@
 import { PrismaClient } from '@prisma/client';
 import * as fs from 'fs';
 import * as path from 'path';
-import { openAIService } from '../services/ai/openai.service';
+import { embeddingProvider } from '../core/rag/embedding.provider';
 
 const prisma = new PrismaClient();
 
@@ -666,7 +666,7 @@ class ComprehensiveRAGProcessor {
             chunkIndex: index,
             chunkText: chunk.text.substring(0, 1000),
             embedding: JSON.stringify(embedding),
-            metadata: JSON.stringify(chunk.metadata)
+            metadata: JSON.stringify({ ...chunk.metadata, ...embeddingProvider.signature() })
           }
         });
         
@@ -749,7 +749,8 @@ class ComprehensiveRAGProcessor {
             question: q.question,
             correctAnswer: q.correctAnswer || 'answer',
             difficulty: q.difficulty as any,
-            points: q.points
+            points: q.points,
+            source: 'enriched'
             // metadata field removed because Question model does not define it
             // If needed, add a metadata Json field to the Prisma schema instead.
           }
@@ -816,18 +817,9 @@ class ComprehensiveRAGProcessor {
   }
   
   private async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      const { embedding } = await openAIService.generateEmbedding(text);
-      return embedding;
-    } catch (error) {
-      // Fallback
-      const hash = require('crypto').createHash('sha256').update(text).digest();
-      const embedding = [];
-      for (let i = 0; i < 1536; i++) {
-        embedding.push((hash[i % hash.length] / 255) * 2 - 1);
-      }
-      return embedding;
-    }
+    // No hash fallback: a fake vector tagged with the provider signature would
+    // poison search. Failures are skipped by the caller instead.
+    return embeddingProvider.embed(text);
   }
   
   private groupByType(items: any[]): any {
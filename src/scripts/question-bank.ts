@@ -0,0 +1,94 @@
+// src/scripts/question-bank.ts
+// Import/export lesson questions as QTI 2.1 or Moodle GIFT
+//
+// Usage:
+//   npm run questions:import -- --lesson <id> --file bank.gift.txt            # format from extension
+//   npm run questions:import -- --lesson <id> --file item.xml --format qti --dry-run
+//   npm run questions:export -- --lesson <id> --format gift --out exports/
+//   npm run questions:export -- --lesson <id> --format qti --out exports/qti   # unzipped content package
+import fs from 'fs/promises';
+import path from 'path';
+import { questionBankService } from '../core/content/question-bank.service';
+import { prisma } from '../config/database.config';
+import type { QuestionBankFormat } from '../types/content.types';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function guessFormat(file: string): QuestionBankFormat {
+  return /\.(xml|qti)$/i.test(file) ? 'qti' : 'gift';
+}
+
+async function runImport(lessonId: string) {
+  const file = getArg('file');
+  if (!file) {
+    console.log('❌ Usage: import --lesson <id> --file <bank> [--format qti|gift] [--dry-run]');
+    process.exit(1);
+  }
+
+  const format = (getArg('format') as QuestionBankFormat) || guessFormat(file);
+  const dryRun = process.argv.includes('--dry-run');
+  const content = await fs.readFile(file, 'utf-8');
+
+  console.log(`📥 Importing ${file} (${format.toUpperCase()})${dryRun ? ' - dry run' : ''}\n`);
+  const report = await questionBankService.importQuestions(lessonId, format, content, { dryRun });
+
+  for (const item of report.items) {
+    const label = `#${item.index + 1}${item.identifier ? ` ${item.identifier}` : ''}${item.line ? ` (line ${item.line})` : ''}`;
+    const icon = item.status === 'invalid' ? '❌' : item.status === 'duplicate' ? '⏭️ ' : '✅';
+    console.log(`${icon} ${label}: ${item.status}`);
+    item.errors.forEach(e => console.log(`     - ${e}`));
+    item.warnings.forEach(w => console.log(`     ⚠️ ${w}`));
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log(`Total: ${report.total} | Imported: ${report.imported} | Invalid: ${report.invalid} | Duplicates: ${report.duplicates}`);
+  console.log('='.repeat(60));
+
+  if (report.invalid > 0) process.exitCode = 2;
+}
+
+async function runExport(lessonId: string) {
+  const format = (getArg('format') as QuestionBankFormat) || 'gift';
+  const outDir = getArg('out') || path.join('exports', 'questions');
+
+  const result = await questionBankService.exportQuestions(lessonId, format);
+  const target = format === 'qti' ? path.join(outDir, lessonId) : outDir;
+
+  for (const file of result.files) {
+    const filePath = path.join(target, file.path);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file.content);
+  }
+
+  console.log(`📤 Exported ${result.count} questions (${format.toUpperCase()}) to ${target}`);
+  result.skipped.forEach(s => console.log(`   ⏭️  ${s.questionId}: ${s.reason}`));
+}
+
+async function main() {
+  try {
+    const command = process.argv[2];
+    const lessonId = getArg('lesson');
+
+    if (!['import', 'export'].includes(command) || !lessonId) {
+      console.log('❌ Usage: question-bank.ts <import|export> --lesson <id> [options]');
+      process.exit(1);
+    }
+
+    if (command === 'import') {
+      await runImport(lessonId);
+    } else {
+      await runExport(lessonId);
+    }
+
+  } catch (error) {
+    console.error('❌ Error:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
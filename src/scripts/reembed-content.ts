@@ -0,0 +1,82 @@
+// src/scripts/reembed-content.ts
+// Re-embed every chunk with the active embedding provider
+// Usage: npm run embeddings:reembed [-- --force]
+import { embeddingProvider, isCompatibleEmbedding } from '../core/rag/embedding.provider';
+import { vectorIndexService } from '../core/rag/vector-index.service';
+import { prisma } from '../config/database.config';
+
+const BATCH_SIZE = 50;
+
+async function main() {
+  const force = process.argv.includes('--force');
+  const signature = embeddingProvider.signature();
+
+  console.log('🔁 Re-embedding Script\n');
+  console.log(`   Provider: ${signature.embeddingProvider} (${signature.embeddingModel}, ${signature.embeddingDimension}d)`);
+  console.log(`   Mode: ${force ? 'all chunks' : 'mismatched chunks only'}\n`);
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+  let failed = 0;
+
+  try {
+    for (;;) {
+      const batch = await prisma.contentEmbedding.findMany({
+        take: BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        orderBy: { id: 'asc' },
+        select: { id: true, chunkText: true, embedding: true, metadata: true }
+      });
+
+      if (batch.length === 0) break;
+      cursor = batch[batch.length - 1].id;
+      scanned += batch.length;
+
+      const pending = batch
+        .map(row => ({ ...row, meta: row.metadata ? JSON.parse(row.metadata) : {} }))
+        .filter(row => {
+          if (force) return true;
+          const vector = JSON.parse(row.embedding) as number[];
+          return !isCompatibleEmbedding(row.meta, vector.length);
+        });
+
+      if (pending.length === 0) continue;
+
+      try {
+        const vectors = await embeddingProvider.embedBatch(pending.map(row => row.chunkText || ''));
+
+        for (let i = 0; i < pending.length; i++) {
+          await prisma.contentEmbedding.update({
+            where: { id: pending[i].id },
+            data: {
+              embedding: JSON.stringify(vectors[i]),
+              metadata: JSON.stringify({ ...pending[i].meta, ...signature })
+            }
+          });
+        }
+        updated += pending.length;
+      } catch (error: any) {
+        failed += pending.length;
+        console.error(`   ❌ Batch failed: ${error.message}`);
+      }
+
+      console.log(`   Scanned ${scanned} | Re-embedded ${updated}`);
+    }
+
+    console.log(`\n✅ Re-embedded ${updated}/${scanned} chunks (${failed} failed)`);
+
+    // Vectors changed underneath the ANN index
+    if (updated > 0) {
+      await vectorIndexService.rebuild();
+    }
+
+  } catch (error) {
+    console.error('❌ Error:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
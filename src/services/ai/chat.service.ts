@@ -1,8 +1,11 @@
 import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs/promises';
 import { prisma } from '../../config/database.config';
 import { ragService } from '../../core/rag/rag.service';
-import { openAIService } from './openai.service';
-import { NotFoundError } from '../../utils/errors';
+import { citationBuilder } from '../../core/rag/citation.builder';
+import { openAIService, type ChatMessage as PromptMessage } from './openai.service';
+import { sttService } from '../voice/stt.service';
+import { AuthorizationError, NotFoundError } from '../../utils/errors';
 import type {
   ChatSession,
   ChatContext,
@@ -12,11 +15,15 @@ import type {
   ChatMessageMetadata,
   SuggestedAction,
   ConversationSummary,
+  StreamedChatResult,
+  VoiceChatResult,
 } from '../../types/chat.types';
+import type { Citation, SearchResult } from '../../types/rag.types';
 import type { ChatMessage as DBChatMessage } from '@prisma/client';
 
 export class ChatService {
   private sessions: Map<string, ChatSession> = new Map();
+  private activeStreams: Map<string, AbortController> = new Map(); // userId:sessionId → answer still streaming
   private openai: any; // OpenAI instance if available
   
   constructor() {
@@ -48,10 +55,14 @@ export class ChatService {
     message: string,
     context: any,
     userId: string,
-    sessionId?: string
-  ): Promise<{ response: string; suggestions?: string[]; sessionId: string }> {
+    sessionId?: string,
+    messageMetadata?: Record<string, unknown>
+  ): Promise<{ response: string; suggestions?: string[]; sessionId: string; citations: Citation[] }> {
     console.log(`💬 Processing chat message from user ${userId}`);
 
+    // A new message replaces the answer still streaming in the same session
+    this.cancelStream(userId, sessionId);
+
     // Get or create session to maintain context
     const session = await this.getOrCreateSession(
       userId,
@@ -60,74 +71,348 @@ export class ChatService {
     );
 
     try {
-      // Build conversation history for context
-      const conversationHistory = await this.buildConversationHistory(session.id, userId);
+      // Through openAIService so recorded fixtures (AI_FIXTURE_MODE) cover this path like streamMessage
+      const { messages, ragSources } = await this.buildPromptMessages(message, context, userId, session.id);
 
-      // Use RAG if lesson context is available
-      let ragContext = '';
-      let lessonContent = '';
+      const completion = await openAIService.chat(messages, {
+        model: 'gpt-4o-mini',
+        temperature: 0.7,
+        maxTokens: 800,
+        autoSelectModel: false
+      });
 
-      if (context?.lessonId) {
-        try {
-          // Get lesson content from database
-          const lesson = await prisma.lesson.findUnique({
-            where: { id: context.lessonId },
-            include: {
-              content: true,
-              unit: {
-                include: {
-                  subject: true
-                }
-              }
-            }
-          });
+      const response = completion || 'عذراً، لم أفهم السؤال.';
+      const citations = citationBuilder.build(response, ragSources);
 
-          if (lesson) {
-            // Build lesson content context
-            if (lesson.content?.fullText) {
-              lessonContent = `محتوى الدرس: ${lesson.content.fullText.substring(0, 500)}...\n`;
-            }
-            if (lesson.content?.summary) {
-              lessonContent += `ملخص الدرس: ${lesson.content.summary}\n`;
-            }
-            if (lesson.content?.keyPoints) {
-              const keyPoints = typeof lesson.content.keyPoints === 'string'
-                ? JSON.parse(lesson.content.keyPoints)
-                : lesson.content.keyPoints;
-              if (Array.isArray(keyPoints)) {
-                lessonContent += `النقاط الرئيسية:\n${keyPoints.map((p, i) => `${i+1}. ${p}`).join('\n')}\n`;
+      // Save conversation to session
+      await this.saveConversationToSession(session.id, userId, message, response, context?.lessonId, citations, messageMetadata);
+
+      return {
+        response,
+        suggestions: this.generateSuggestions(message),
+        sessionId: session.id,
+        citations
+      };
+    } catch (error) {
+      console.error('Chat processing error:', error);
+    }
+
+    // Fallback response with session tracking
+    const fallbackResponse = `تلقيت سؤالك: "${message}". أنا هنا لمساعدتك في فهم الدرس بشكل أفضل!`;
+
+    // Save even fallback conversations
+    await this.saveConversationToSession(session.id, userId, message, fallbackResponse, context?.lessonId, undefined, messageMetadata);
+
+    return {
+      response: fallbackResponse,
+      suggestions: this.generateSuggestions(message),
+      sessionId: session.id,
+      citations: []
+    };
+  }
+
+  /**
+   * Spoken question: transcribe the recording, then answer it like a typed message.
+   * The recording reference is kept on the user message metadata (`audio`).
+   */
+  async processVoiceMessage(
+    audio: Buffer,
+    mimeType: string,
+    context: any,
+    userId: string,
+    options: {
+      sessionId?: string;
+      language?: string;
+      onTranscript?: (transcript: string) => void;
+    } = {}
+  ): Promise<VoiceChatResult> {
+    console.log(`🎤 Processing voice question from user ${userId}`);
+
+    const transcript = await sttService.transcribe(audio, mimeType, userId, {
+      language: options.language || 'ar',
+      prompt: await this.buildTranscriptionPrompt(context?.lessonId),
+    });
+    options.onTranscript?.(transcript.text);
+
+    const result = await this.processMessage(transcript.text, context, userId, options.sessionId, {
+      inputMode: 'voice',
+      audio: { ...transcript.audio, transcriptProvider: transcript.provider, language: transcript.language },
+    });
+
+    return {
+      transcript: transcript.text,
+      transcriptProvider: transcript.provider,
+      audio: transcript.audio,
+      ...result,
+    };
+  }
+
+  /**
+   * Recording behind a voice question - for its owner, an admin, or a teacher of the student
+   */
+  async getVoiceMessageAudio(
+    requester: { userId: string; role: string },
+    messageId: string
+  ): Promise<{ path: string; mimeType: string }> {
+    const message = await prisma.chatMessage.findUnique({
+      where: { id: messageId },
+      select: { userId: true, metadata: true },
+    });
+
+    let audio: any = null;
+    try {
+      audio = message?.metadata ? JSON.parse(message.metadata).audio : null;
+    } catch {
+      audio = null;
+    }
+
+    const filePath = sttService.resolveAudioPath(audio);
+    if (!message || !filePath) {
+      throw new NotFoundError('Voice message');
+    }
+
+    if (requester.role !== 'ADMIN' && message.userId !== requester.userId) {
+      const enrolled = requester.role === 'TEACHER' && await prisma.classEnrollment.findFirst({
+        where: {
+          studentId: message.userId,
+          classroom: { teacherId: requester.userId, isActive: true },
+        },
+        select: { id: true },
+      });
+      if (!enrolled) {
+        throw new AuthorizationError('Not allowed to access this recording');
+      }
+    }
+
+    // The recording may already be gone (STT_RETENTION_DAYS)
+    await fs.access(filePath).catch(() => {
+      throw new NotFoundError('Voice recording');
+    });
+
+    return { path: filePath, mimeType: audio.mimeType };
+  }
+
+  /**
+   * Stream a chat answer token by token.
+   * The assistant row is created with isStreaming=true and finalized when the
+   * stream ends; an aborted stream keeps the partial answer marked as cancelled.
+   * Starting a stream cancels the one still running in the same session.
+   */
+  async streamMessage(
+    message: string,
+    context: any,
+    userId: string,
+    options: {
+      sessionId?: string;
+      signal?: AbortSignal;
+      onChunk: (delta: string) => void;
+    }
+  ): Promise<StreamedChatResult> {
+    const startTime = Date.now();
+
+    this.cancelStream(userId, options.sessionId);
+    const streamKey = this.streamKey(userId, options.sessionId);
+    const controller = new AbortController();
+    this.activeStreams.set(streamKey, controller);
+    options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    if (options.signal?.aborted) controller.abort();
+
+    try {
+      return await this.runStream(message, context, userId, controller.signal, startTime, options);
+    } finally {
+      if (this.activeStreams.get(streamKey) === controller) {
+        this.activeStreams.delete(streamKey);
+      }
+    }
+  }
+
+  /**
+   * Abort the answer still streaming in a session, if any
+   */
+  cancelStream(userId: string, sessionId?: string): boolean {
+    const key = this.streamKey(userId, sessionId);
+    const controller = this.activeStreams.get(key);
+    if (!controller) return false;
+
+    controller.abort();
+    this.activeStreams.delete(key);
+    return true;
+  }
+
+  private streamKey(userId: string, sessionId?: string): string {
+    return `${userId}:${sessionId || ''}`;
+  }
+
+  private async runStream(
+    message: string,
+    context: any,
+    userId: string,
+    signal: AbortSignal,
+    startTime: number,
+    options: { sessionId?: string; onChunk: (delta: string) => void }
+  ): Promise<StreamedChatResult> {
+    const session = await this.getOrCreateSession(userId, options.sessionId, context?.lessonId);
+
+    let messages: PromptMessage[];
+    let ragSources: SearchResult[] = [];
+
+    try {
+      ({ messages, ragSources } = await this.buildPromptMessages(message, context, userId, session.id));
+    } catch (error) {
+      console.error('Chat stream context error:', error);
+      messages = [{ role: 'user', content: message }];
+    }
+
+    const { userRow, assistantRow } = await this.createStreamingRows(session.id, userId, message, context?.lessonId);
+
+    let response = '';
+    try {
+      for await (const delta of openAIService.chatStream(messages, {
+        temperature: 0.7,
+        maxTokens: 800,
+        signal,
+      })) {
+        if (signal.aborted) break;
+        response += delta;
+        options.onChunk(delta);
+      }
+    } catch (error) {
+      console.error('Chat stream error:', error);
+    }
+
+    const cancelled = signal.aborted;
+    if (!response && !cancelled) {
+      response = 'عذراً، لم أفهم السؤال.';
+      options.onChunk(response);
+    }
+
+    const citations = response ? citationBuilder.build(response, ragSources) : [];
+    const responseTime = Date.now() - startTime;
+
+    await this.finishStreamingRows(session.id, userRow, assistantRow, message, response, {
+      citations,
+      cancelled,
+      responseTime,
+    });
+
+    return {
+      messageId: assistantRow.id,
+      response,
+      suggestions: this.generateSuggestions(message),
+      sessionId: session.id,
+      citations,
+      cancelled,
+      responseTime,
+    };
+  }
+
+  /**
+   * Lesson vocabulary for the transcriber, so curriculum terms come back spelled right
+   */
+  private async buildTranscriptionPrompt(lessonId?: string): Promise<string | undefined> {
+    if (!lessonId) return undefined;
+
+    try {
+      const lesson = await prisma.lesson.findUnique({
+        where: { id: lessonId },
+        select: { title: true, keyPoints: true, unit: { select: { subject: { select: { name: true } } } } },
+      });
+      if (!lesson) return undefined;
+
+      let keyPoints: string[] = [];
+      try {
+        keyPoints = lesson.keyPoints ? JSON.parse(lesson.keyPoints) : [];
+      } catch {
+        keyPoints = [];
+      }
+
+      return [lesson.unit.subject.name, lesson.title, ...keyPoints.slice(0, 5)]
+        .filter(term => typeof term === 'string' && term)
+        .join('، ')
+        .slice(0, 500);
+    } catch (error) {
+      console.warn('⚠️ Could not load lesson for transcription prompt:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Build the system prompt (lesson content + RAG sources) and the message list
+   */
+  private async buildPromptMessages(
+    message: string,
+    context: any,
+    userId: string,
+    sessionId: string
+  ): Promise<{ messages: PromptMessage[]; ragSources: SearchResult[] }> {
+    // Build conversation history for context
+    const conversationHistory = await this.buildConversationHistory(sessionId, userId);
+
+    // Use RAG if lesson context is available
+    let ragContext = '';
+    let lessonContent = '';
+    let ragSources: SearchResult[] = [];
+
+    if (context?.lessonId) {
+      try {
+        // Get lesson content from database
+        const lesson = await prisma.lesson.findUnique({
+          where: { id: context.lessonId },
+          include: {
+            content: true,
+            unit: {
+              include: {
+                subject: true
               }
             }
+          }
+        });
 
-            // Update context with lesson info
-            context.lessonTitle = lesson.titleAr || lesson.title;
-            context.subject = lesson.unit?.subject?.nameAr || lesson.unit?.subject?.name || '';
-            context.unit = (lesson.unit as any)?.nameAr || (lesson.unit as any)?.name || '';
+        if (lesson) {
+          // Build lesson content context
+          if (lesson.content?.fullText) {
+            lessonContent = `محتوى الدرس: ${lesson.content.fullText.substring(0, 500)}...\n`;
+          }
+          if (lesson.content?.summary) {
+            lessonContent += `ملخص الدرس: ${lesson.content.summary}\n`;
+          }
+          if (lesson.content?.keyPoints) {
+            const keyPoints = typeof lesson.content.keyPoints === 'string'
+              ? JSON.parse(lesson.content.keyPoints)
+              : lesson.content.keyPoints;
+            if (Array.isArray(keyPoints)) {
+              lessonContent += `النقاط الرئيسية:\n${keyPoints.map((p, i) => `${i+1}. ${p}`).join('\n')}\n`;
+            }
           }
 
-          // Try RAG service
-          const ragResponse = await ragService.answerQuestion(
-            message,
-            context.lessonId,
-            userId
-          );
+          // Update context with lesson info
+          context.lessonTitle = lesson.titleAr || lesson.title;
+          context.subject = lesson.unit?.subject?.nameAr || lesson.unit?.subject?.name || '';
+          context.unit = (lesson.unit as any)?.nameAr || (lesson.unit as any)?.name || '';
+        }
+
+        // Try RAG service
+        const ragResponse = await ragService.answerQuestion(
+          message,
+          context.lessonId,
+          userId
+        );
 
-          if (ragResponse.confidence > 30) {
-            ragContext = `
+        if (ragResponse.confidence > 30) {
+          ragSources = ragResponse.sources;
+          ragContext = `
 مصادر ذات صلة من الدرس:
-${ragResponse.sources.map((source, i) => `${i+1}. ${source.chunk?.text || source.lessonInfo?.title || 'مصدر'}`).join('\n')}
+${ragSources.map((source, i) => `[${i+1}] ${source.chunk?.text || source.lessonInfo?.title || 'مصدر'}`).join('\n')}
 
 إجابة مقترحة من المحتوى: ${ragResponse.answer}
 `;
-          }
-        } catch (error) {
-          console.warn('Context retrieval error:', error);
         }
+      } catch (error) {
+        console.warn('Context retrieval error:', error);
       }
+    }
 
-      // إذا OpenAI موجود، استخدمه مع السياق الكامل
-      if (this.openai) {
-        const systemPrompt = `أنت مساعد تعليمي ذكي للمناهج المصرية.
+    const systemPrompt = `أنت مساعد تعليمي ذكي للمناهج المصرية.
 
 معلومات السياق:
 - المادة: ${context?.subject || 'غير محدد'}
@@ -144,53 +429,22 @@ ${ragContext}
 2. أجب بطريقة بسيطة ومناسبة لمستوى الطالب
 3. احتفظ بالسياق من المحادثة السابقة
 4. اربط إجابتك بالمحتوى الفعلي للدرس
-5. إذا السؤال خارج نطاق الدرس، اذكر ذلك واعرض مساعدة في الدرس الحالي`;
-
-        const messages = [
-          { role: 'system', content: systemPrompt },
-          ...conversationHistory,
-          { role: 'user', content: message }
-        ];
-
-        const completion = await this.openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: messages,
-          temperature: 0.7,
-          max_tokens: 800
-        });
-
-        const response = completion.choices[0].message.content || 'عذراً، لم أفهم السؤال.';
-
-        // Save conversation to session
-        await this.saveConversationToSession(session.id, userId, message, response, context?.lessonId);
-
-        return {
-          response,
-          suggestions: this.generateSuggestions(message),
-          sessionId: session.id
-        };
-      }
-    } catch (error) {
-      console.error('Chat processing error:', error);
-    }
-
-    // Fallback response with session tracking
-    const fallbackResponse = `تلقيت سؤالك: "${message}". أنا هنا لمساعدتك في فهم الدرس بشكل أفضل!`;
-
-    // Save even fallback conversations
-    await this.saveConversationToSession(session.id, userId, message, fallbackResponse, context?.lessonId);
+5. إذا السؤال خارج نطاق الدرس، اذكر ذلك واعرض مساعدة في الدرس الحالي${ragSources.length > 0 ? `\n6. ${citationBuilder.promptInstruction}` : ''}`;
 
     return {
-      response: fallbackResponse,
-      suggestions: this.generateSuggestions(message),
-      sessionId: session.id
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...conversationHistory,
+        { role: 'user', content: message }
+      ],
+      ragSources,
     };
   }
-  
+
   /**
    * Build conversation history for context
    */
-  private async buildConversationHistory(sessionId: string, userId: string, limit: number = 10): Promise<Array<{role: string, content: string}>> {
+  private async buildConversationHistory(sessionId: string, userId: string, limit: number = 10): Promise<PromptMessage[]> {
     try {
       // First try to get messages from current session
       let recentMessages = await prisma.chatMessage.findMany({
@@ -215,7 +469,7 @@ ${ragContext}
         });
       }
 
-      const history: Array<{role: string, content: string}> = [];
+      const history: PromptMessage[] = [];
 
       for (const msg of recentMessages.reverse()) {
         if (msg.role === 'USER' && msg.userMessage) {
@@ -241,7 +495,9 @@ ${ragContext}
     userId: string,
     userMessage: string,
     aiResponse: string,
-    lessonId?: string
+    lessonId?: string,
+    citations?: Citation[],
+    userMetadata?: Record<string, unknown>
   ): Promise<void> {
     try {
       const timestamp = new Date();
@@ -261,7 +517,7 @@ ${ragContext}
           role: 'USER',
           userMessage,
           aiResponse: '',
-          metadata: JSON.stringify(metadata),
+          metadata: JSON.stringify({ ...metadata, ...userMetadata }),
           createdAt: timestamp
         }
       });
@@ -274,7 +530,7 @@ ${ragContext}
           role: 'ASSISTANT',
           userMessage: '',
           aiResponse,
-          metadata: JSON.stringify(metadata),
+          metadata: JSON.stringify(citations?.length ? { ...metadata, citations } : metadata),
           createdAt: new Date(timestamp.getTime() + 1000) // 1 second after user message
         }
       });
@@ -303,6 +559,102 @@ ${ragContext}
     }
   }
 
+  /**
+   * Create the user row and an empty assistant row flagged as streaming
+   */
+  private async createStreamingRows(
+    sessionId: string,
+    userId: string,
+    userMessage: string,
+    lessonId?: string
+  ): Promise<{ userRow: DBChatMessage; assistantRow: DBChatMessage }> {
+    const timestamp = new Date();
+    const metadata = {
+      sessionId,
+      lessonId,
+      timestamp: timestamp.toISOString(),
+      userAgent: 'chat-service',
+      version: '2.0'
+    };
+
+    const userRow = await prisma.chatMessage.create({
+      data: {
+        userId,
+        lessonId,
+        role: 'USER',
+        userMessage,
+        aiResponse: '',
+        metadata: JSON.stringify(metadata),
+        createdAt: timestamp
+      }
+    });
+
+    const assistantRow = await prisma.chatMessage.create({
+      data: {
+        userId,
+        lessonId,
+        role: 'ASSISTANT',
+        userMessage: '',
+        aiResponse: '',
+        isStreaming: true,
+        metadata: JSON.stringify(metadata),
+        createdAt: new Date(timestamp.getTime() + 1000)
+      }
+    });
+
+    return { userRow, assistantRow };
+  }
+
+  /**
+   * Persist the final streamed answer (or drop the turn if it was cancelled before any token)
+   */
+  private async finishStreamingRows(
+    sessionId: string,
+    userRow: DBChatMessage,
+    assistantRow: DBChatMessage,
+    userMessage: string,
+    aiResponse: string,
+    result: { citations: Citation[]; cancelled: boolean; responseTime: number }
+  ): Promise<void> {
+    try {
+      if (!aiResponse && result.cancelled) {
+        await prisma.chatMessage.deleteMany({
+          where: { id: { in: [userRow.id, assistantRow.id] } }
+        });
+        return;
+      }
+
+      const metadata = JSON.parse(assistantRow.metadata || '{}');
+      await prisma.chatMessage.update({
+        where: { id: assistantRow.id },
+        data: {
+          aiResponse,
+          isStreaming: false,
+          responseTime: result.responseTime,
+          metadata: JSON.stringify({
+            ...metadata,
+            ...(result.citations.length ? { citations: result.citations } : {}),
+            ...(result.cancelled ? { cancelled: true } : {}),
+          }),
+        }
+      });
+
+      const session = this.sessions.get(sessionId);
+      if (session) {
+        session.messageCount += 2;
+        session.lastMessageAt = new Date();
+        if (session.context) {
+          session.context.recentTopics = [
+            ...this.extractTopics([userMessage, aiResponse]),
+            ...session.context.recentTopics
+          ].slice(0, 5);
+        }
+      }
+    } catch (error) {
+      console.error('Error finalizing streamed message:', error);
+    }
+  }
+
   /**
    * Generate suggestions based on message
    */
@@ -365,6 +717,7 @@ ${ragContext}
           intent,
           confidence: ragResponse.confidence,
           sources: ragResponse.sources,
+          citations: ragResponse.citations,
           suggestedActions: await this.generateSuggestedActions(
             request.message,
             request.lessonId
@@ -590,6 +943,7 @@ ${ragContext}
     answer: string;
     confidence: number;
     sources: string[];
+    citations: Citation[];
   }> {
     // Use RAG to answer the question
     const ragResponse = await ragService.answerQuestion(
@@ -607,6 +961,7 @@ ${ragContext}
       answer: ragResponse.answer,
       confidence: ragResponse.confidence / 100,
       sources: ragResponse.sources.map(s => s.lessonInfo?.title || 'Unknown'),
+      citations: ragResponse.citations || [],
     };
   }
   
@@ -0,0 +1,136 @@
+// src/services/ai/llm-fixtures.ts
+// Recorded AI responses keyed by a hash of the request
+//
+// - record: real responses are saved to AI_FIXTURES_DIR (one JSON file per request)
+// - replay: responses come from the files, no network; a miss is an error
+//   (record the missing response with `npm run test:record`), or with
+//   AI_FIXTURE_ON_MISS=mock the offline mock answers it (test:ci)
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../../config';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+export type FixtureMissPolicy = 'error' | 'mock';
+export type FixtureKind = 'chat' | 'json' | 'stream';
+
+export interface FixtureRequest {
+  kind: FixtureKind;
+  messages: Array<{ role: string; content: string }>;
+  model?: string;
+  maxTokens?: number;
+}
+
+interface FixtureFile {
+  key: string;
+  kind: FixtureKind;
+  model: string | null;
+  prompt: string;          // start of the last message, to find a fixture by eye
+  response: string;
+  recordedAt: string;
+}
+
+const PROMPT_PREVIEW_LENGTH = 200;
+
+export class MissingFixtureError extends Error {
+  constructor(readonly key: string, prompt: string) {
+    super(`No AI fixture ${key} for "${prompt.slice(0, 80)}" - record it with npm run test:record`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+export class LLMFixtureStore {
+  readonly mode: FixtureMode;
+  readonly onMiss: FixtureMissPolicy;
+  private readonly dir: string;
+  private stats = { hits: 0, misses: 0, mocked: 0, recorded: 0 };
+
+  constructor(
+    mode: FixtureMode = config.AI_FIXTURE_MODE,
+    dir: string = config.AI_FIXTURES_DIR,
+    onMiss: FixtureMissPolicy = config.AI_FIXTURE_ON_MISS
+  ) {
+    this.mode = mode;
+    this.dir = path.resolve(dir);
+    this.onMiss = onMiss;
+  }
+
+  get replaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  get recording(): boolean {
+    return this.mode === 'record';
+  }
+
+  /**
+   * Stable key: same messages, model and token budget → same fixture
+   */
+  keyFor(request: FixtureRequest): string {
+    const payload = JSON.stringify({
+      kind: request.kind === 'stream' ? 'chat' : request.kind,
+      model: request.model || null,
+      maxTokens: request.maxTokens || null,
+      messages: request.messages.map(m => [m.role, m.content]),
+    });
+    return crypto.createHash('sha256').update(payload).digest('hex').slice(0, 32);
+  }
+
+  /**
+   * Recorded response for the request. Without one: null when misses fall back to the
+   * offline mock, otherwise MissingFixtureError.
+   */
+  async load(request: FixtureRequest): Promise<string | null> {
+    const key = this.keyFor(request);
+    let file: FixtureFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.filePath(key), 'utf-8')) as FixtureFile;
+    } catch {
+      const error = new MissingFixtureError(key, request.messages[request.messages.length - 1]?.content || '');
+      if (this.onMiss === 'mock') {
+        this.stats.mocked++;
+        console.warn(`⚠️ ${error.message} (using the offline mock)`);
+        return null;
+      }
+      this.stats.misses++;
+      console.error(`❌ ${error.message}`);
+      throw error;
+    }
+
+    this.stats.hits++;
+    return file.response;
+  }
+
+  async save(request: FixtureRequest, response: string): Promise<void> {
+    const key = this.keyFor(request);
+    const last = request.messages[request.messages.length - 1]?.content || '';
+    const file: FixtureFile = {
+      key,
+      kind: request.kind,
+      model: request.model || null,
+      prompt: last.slice(0, PROMPT_PREVIEW_LENGTH),
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(this.filePath(key), JSON.stringify(file, null, 2));
+      this.stats.recorded++;
+    } catch (error: any) {
+      console.error(`❌ Failed to record AI fixture ${key}:`, error.message);
+    }
+  }
+
+  getStats() {
+    return { mode: this.mode, onMiss: this.onMiss, dir: this.dir, ...this.stats };
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+// Export singleton instance
+export const llmFixtures = new LLMFixtureStore();
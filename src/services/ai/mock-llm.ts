@@ -0,0 +1,216 @@
+// src/services/ai/mock-llm.ts
+// بديل محلي للـ AI بدون مفتاح أو شبكة: نفس الطلب يرجع نفس الرد دائماً
+//
+// - text: ردود تعليمية ثابتة حسب كلمات الرسالة
+// - json: كائن مطابق للـ schema الذي يمرره المستدعي (أو مثال JSON المكتوب في الـ prompt)
+// - embedding: متجه ثابت مشتق من النص
+
+import { z } from 'zod';
+import { createRandom, hashSeed } from '../../utils/random.utils';
+
+type JsonSchema = Record<string, any>;
+
+interface MockMessage {
+  role: string;
+  content: string;
+}
+
+const MAX_DEPTH = 8;
+const DEFAULT_ARRAY_LENGTH = 3;
+
+const EDUCATIONAL_RESPONSES: Record<string, string> = {
+  welcome: 'مرحباً بك! أنا مساعدك التعليمي الذكي. سنتعلم معاً بطريقة ممتعة وسهلة! 🌟',
+  complete: 'أحسنت! لقد أكملت الدرس بنجاح! 🎉 أنت طالب رائع ومجتهد!',
+  math: 'الرياضيات لغة الكون! سنتعلم اليوم كيف نحل المعادلات خطوة بخطوة.',
+  equation: 'لحل المعادلة: 1) نحدد المجهول 2) نجمع الحدود المتشابهة 3) نعزل المجهول',
+  example: 'مثال: إذا كان 2x + 5 = 15، نطرح 5: 2x = 10، نقسم على 2: x = 5 ✓',
+  help: 'أنا هنا لمساعدتك! اسأل عن أي شيء في الدرس.',
+  explain: 'دعني أشرح لك: كل مفهوم جديد يبني على ما سبق.',
+  quiz: 'وقت الاختبار! سأطرح عليك أسئلة لنرى ما تعلمته.',
+  excellent: 'ممتاز! إجابة صحيحة 100%!',
+  tryagain: 'لا بأس، المحاولة جزء من التعلم! حاول مرة أخرى.',
+  default: 'أنا مساعدك التعليمي. كيف يمكنني مساعدتك؟ 📚',
+};
+
+// Readable Arabic values for common field names
+const FIELD_TEXT: Record<string, string> = {
+  question: 'ما ناتج 12 + 8؟',
+  correctAnswer: '20',
+  answer: '20',
+  explanation: 'نجمع العددين: 12 + 8 = 20',
+  hint: 'ابدأ بجمع الآحاد',
+  feedback: 'إجابة جيدة، راجع الخطوات مرة أخرى',
+  encouragement: 'أحسنت، استمر! 🌟',
+  solution: 'الحل خطوة بخطوة',
+  title: 'عنوان تجريبي',
+  description: 'وصف مختصر',
+  misconception: 'الخلط بين الجمع والضرب',
+  correction: 'الجمع يضيف الكميات، والضرب تكرار للجمع',
+};
+
+export class MockLLM {
+
+  /**
+   * Canned educational reply picked from keywords of the last message
+   */
+  reply(message: string): string {
+    const lowerMessage = message.toLowerCase();
+
+    if (lowerMessage.includes('معادل') || lowerMessage.includes('حل')) {
+      return EDUCATIONAL_RESPONSES.equation;
+    }
+    if (lowerMessage.includes('مثال')) {
+      return EDUCATIONAL_RESPONSES.example;
+    }
+    if (lowerMessage.includes('شرح')) {
+      return EDUCATIONAL_RESPONSES.explain;
+    }
+    if (lowerMessage.includes('اختبار') || lowerMessage.includes('quiz')) {
+      return EDUCATIONAL_RESPONSES.quiz;
+    }
+
+    return EDUCATIONAL_RESPONSES.default;
+  }
+
+  /**
+   * JSON response for a chatJSON call: generated from the caller's schema when given,
+   * otherwise the JSON example written in the prompt.
+   */
+  json<T = any>(messages: MockMessage[], schema?: z.ZodType): T {
+    const seed = hashSeed(messages.map(m => m.content).join('\n'));
+
+    if (schema) {
+      const jsonSchema = z.toJSONSchema(schema, { unrepresentable: 'any' }) as JsonSchema;
+      const value = this.fromSchema(jsonSchema, jsonSchema, createRandom(seed), '', 0);
+      const parsed = schema.safeParse(value);
+      return (parsed.success ? parsed.data : value) as T;
+    }
+
+    return (this.exampleFromPrompt(messages) ?? {}) as T;
+  }
+
+  /**
+   * Unit-length vector derived from the text (same text → same vector)
+   */
+  embedding(text: string, dimension = 1536): number[] {
+    const random = createRandom(hashSeed(text));
+    const vector = Array.from({ length: dimension }, () => random() - 0.5);
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map(v => v / norm);
+  }
+
+  // ============= Helpers =============
+
+  private fromSchema(schema: JsonSchema, root: JsonSchema, random: () => number, field: string, depth: number): any {
+    if (!schema || depth > MAX_DEPTH) return null;
+
+    if (schema.$ref) {
+      const target = this.resolveRef(root, schema.$ref);
+      return target ? this.fromSchema(target, root, random, field, depth + 1) : null;
+    }
+    if (schema.const !== undefined) return schema.const;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return schema.enum[Math.floor(random() * schema.enum.length)];
+    }
+
+    const variants = schema.anyOf || schema.oneOf;
+    if (Array.isArray(variants) && variants.length > 0) {
+      const preferred = variants.find((v: JsonSchema) => v.type !== 'null') || variants[0];
+      return this.fromSchema(preferred, root, random, field, depth + 1);
+    }
+    if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+      return this.fromSchema(Object.assign({}, ...schema.allOf), root, random, field, depth + 1);
+    }
+
+    const type = Array.isArray(schema.type)
+      ? schema.type.find((t: string) => t !== 'null')
+      : schema.type;
+
+    switch (type) {
+      case 'object':
+        return this.objectFromSchema(schema, root, random, depth);
+      case 'array': {
+        const min = schema.minItems ?? 1;
+        const max = schema.maxItems ?? Math.max(min, DEFAULT_ARRAY_LENGTH);
+        const length = Math.max(min, Math.min(max, DEFAULT_ARRAY_LENGTH));
+        const singular = field.replace(/s$/, '');
+        return Array.from({ length }, (_, i) =>
+          this.fromSchema(schema.items || {}, root, random, `${singular}#${i + 1}`, depth + 1)
+        );
+      }
+      case 'string':
+        return this.stringFor(schema, field);
+      case 'integer':
+      case 'number':
+        return this.numberFor(schema, type === 'integer', random);
+      case 'boolean':
+        return random() >= 0.5;
+      case 'null':
+        return null;
+      default:
+        // z.any() / z.unknown()
+        return this.stringFor({}, field);
+    }
+  }
+
+  private objectFromSchema(schema: JsonSchema, root: JsonSchema, random: () => number, depth: number): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries<JsonSchema>(schema.properties || {})) {
+      result[key] = this.fromSchema(child, root, random, key, depth + 1);
+    }
+
+    // A generated MCQ should be answerable: the correct answer is one of the options
+    if (Array.isArray(result.options) && result.options.length > 0 && typeof result.correctAnswer === 'string'
+      && typeof result.options[0] === 'string') {
+      result.correctAnswer = result.options[0];
+    }
+    return result;
+  }
+
+  private stringFor(schema: JsonSchema, field: string): string {
+    const [name, index] = field.split('#');
+    let text = FIELD_TEXT[name] || (name ? `${name} ${index || 1}` : 'نص تجريبي');
+    if (name === 'option') text = `${[20, 96, 4, 12][(Number(index) || 1) - 1] ?? index}`;
+
+    if (schema.minLength && text.length < schema.minLength) {
+      text = text.padEnd(schema.minLength, '.');
+    }
+    if (schema.maxLength && text.length > schema.maxLength) {
+      text = text.slice(0, schema.maxLength);
+    }
+    return text;
+  }
+
+  private numberFor(schema: JsonSchema, integer: boolean, random: () => number): number {
+    const min = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + (integer ? 1 : 0.01) : 0);
+    const max = schema.maximum ?? (schema.exclusiveMaximum !== undefined ? schema.exclusiveMaximum - (integer ? 1 : 0.01) : min + 10);
+    const value = min + random() * Math.max(0, max - min);
+    return integer ? Math.min(max, Math.max(min, Math.round(value))) : Math.round(value * 100) / 100;
+  }
+
+  private resolveRef(root: JsonSchema, ref: string): JsonSchema | null {
+    if (ref === '#') return root;
+    if (!ref.startsWith('#/')) return null;
+    return ref.slice(2).split('/').reduce<any>((node, part) => node?.[part], root) ?? null;
+  }
+
+  /**
+   * Most prompts spell out the expected JSON; use the last example that parses
+   */
+  private exampleFromPrompt(messages: MockMessage[]): any {
+    for (const message of [...messages].reverse()) {
+      const candidates = message.content.match(/(\{[\s\S]*\}|\[[\s\S]*\])/g) || [];
+      for (const candidate of candidates.reverse()) {
+        try {
+          return JSON.parse(candidate);
+        } catch {
+          // Not valid JSON (placeholders like 0.0-1.0), try the next one
+        }
+      }
+    }
+    return null;
+  }
+}
+
+// Export singleton instance
+export const mockLLM = new MockLLM();
@@ -11,6 +11,8 @@ import {
   PromptContext,
   PromptType 
 } from '../../utils/prompt-templates';
+import { llmFixtures, type FixtureKind } from './llm-fixtures';
+import { mockLLM } from './mock-llm';
 
 // ============= TYPES =============
 
@@ -57,6 +59,8 @@ export interface CompletionOptions {
   // 🆕 Smart selection
   autoSelectModel?: boolean;
   taskType?: TaskAnalysis['type'];
+  // chatJSON: expected response shape, used to build the offline mock response
+  schema?: z.ZodType;
 }
 
 export interface TemplateOptions extends CompletionOptions {
@@ -148,6 +152,10 @@ export class OpenAIService {
   constructor() {
     this.initializeService();
     
+    if (llmFixtures.mode !== 'off') {
+      console.log(`📼 AI fixtures: ${llmFixtures.mode} (${llmFixtures.getStats().dir})`);
+    }
+    
     // Initialize caches with better config
     this.responseCache = new LRUCache<string, any>({
       max: 200, // Increased
@@ -323,6 +331,40 @@ export class OpenAIService {
     messages: ChatMessage[],
     options: CompletionOptions = {}
   ): Promise<string> {
+    const content = await this.respond(messages, options, 'chat');
+    return content ?? this.getMockResponse(messages[messages.length - 1].content);
+  }
+  
+  /**
+   * Recorded response in replay mode (a missing recording throws unless AI_FIXTURE_ON_MISS=mock),
+   * otherwise the live one (recorded in record mode).
+   * null = no key, no recording or the call failed: the caller uses the offline mock.
+   */
+  private async respond(
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    kind: FixtureKind
+  ): Promise<string | null> {
+    const fixture = { kind, messages, model: options.model, maxTokens: options.maxTokens };
+    
+    if (llmFixtures.replaying) {
+      return await llmFixtures.load(fixture);
+    }
+    
+    const content = await this.complete(messages, options);
+    if (content !== null && llmFixtures.recording) {
+      await llmFixtures.save(fixture, content);
+    }
+    return content;
+  }
+  
+  /**
+   * Live completion, null when it can't be made
+   */
+  private async complete(
+    messages: ChatMessage[],
+    options: CompletionOptions = {}
+  ): Promise<string | null> {
     // Rate limiting
     this.requestCount++;
     const now = new Date();
@@ -335,8 +377,7 @@ export class OpenAIService {
     
     // Mock mode
     if (this.useMockMode || !this.isInitialized || !this.client) {
-      const lastMessage = messages[messages.length - 1];
-      return this.getMockResponse(lastMessage.content);
+      return null;
     }
     
     // 🆕 Smart model selection
@@ -400,7 +441,7 @@ export class OpenAIService {
       // Smart retry with cheaper model
       if (error.status === 429 && selectedModel !== 'gpt-3.5-turbo') {
         console.log('⏳ Rate limited, trying cheaper model...');
-        return this.chat(messages, { ...options, model: 'gpt-3.5-turbo' });
+        return this.complete(messages, { ...options, model: 'gpt-3.5-turbo' });
       }
       
       // Other error handling
@@ -408,16 +449,16 @@ export class OpenAIService {
         this.useMockMode = true;
         this.isInitialized = false;
         this.client = null;
-        return this.getMockResponse(messages[messages.length - 1].content);
+        return null;
       }
       
       if (error.message?.includes('context_length_exceeded')) {
         console.log('📏 Context too long, truncating...');
         const truncatedMessages = this.truncateMessages(messages, 2000);
-        return this.chat(truncatedMessages, options);
+        return this.complete(truncatedMessages, options);
       }
       
-      return this.getMockResponse(messages[messages.length - 1].content);
+      return null;
     }
   }
   
@@ -558,7 +599,7 @@ export class OpenAIService {
       arguments: any;
     };
   }> {
-    if (this.useMockMode || !this.client) {
+    if (this.useMockMode || !this.client || llmFixtures.replaying) {
       return { content: this.getMockResponse(messages[messages.length - 1].content) };
     }
     
@@ -629,7 +670,10 @@ export class OpenAIService {
   ): Promise<T> {
     const enhancedMessages = [...messages];
     if (enhancedMessages[0]?.role === 'system') {
-      enhancedMessages[0].content += '\n\nIMPORTANT: Respond ONLY with valid JSON. No text before or after.';
+      enhancedMessages[0] = {
+        ...enhancedMessages[0],
+        content: enhancedMessages[0].content + '\n\nIMPORTANT: Respond ONLY with valid JSON. No text before or after.'
+      };
     } else {
       enhancedMessages.unshift({
         role: 'system',
@@ -638,11 +682,16 @@ export class OpenAIService {
     }
     
     // Use lower temperature for JSON
-    const response = await this.chat(enhancedMessages, {
+    const response = await this.respond(enhancedMessages, {
       ...options,
       temperature: options.temperature ?? 0.3,
       model: options.model || 'gpt-4o-mini', // Better for structured output
-    });
+    }, 'json');
+    
+    // Offline: a response shaped like the caller's schema instead of a canned sentence
+    if (response === null) {
+      return mockLLM.json<T>(enhancedMessages, options.schema);
+    }
     
     try {
       const cleaned = this.cleanJsonResponse(response);
@@ -679,10 +728,9 @@ export class OpenAIService {
       }
     }
     
-    if (this.useMockMode || !this.client) {
-      const mockEmbedding = Array(1536).fill(0).map(() => Math.random() - 0.5);
+    if (this.useMockMode || !this.client || llmFixtures.replaying) {
       return {
-        embedding: mockEmbedding,
+        embedding: mockLLM.embedding(text),
         tokens: Math.ceil(text.length / 4),
       };
     }
@@ -709,9 +757,8 @@ export class OpenAIService {
     } catch (error: any) {
       console.error('❌ Embedding failed:', error.message);
       
-      const mockEmbedding = Array(1536).fill(0).map(() => Math.random() - 0.5);
       return {
-        embedding: mockEmbedding,
+        embedding: mockLLM.embedding(text),
         tokens: Math.ceil(text.length / 4),
       };
     }
@@ -759,11 +806,10 @@ export class OpenAIService {
       const batch = uncachedTexts.slice(i, i + batchSize);
       const batchIndices = uncachedIndices.slice(i, i + batchSize);
       
-      if (this.useMockMode || !this.client) {
+      if (this.useMockMode || !this.client || llmFixtures.replaying) {
         batch.forEach((text, idx) => {
-          const embedding = Array(1536).fill(0).map(() => Math.random() - 0.5);
           results[batchIndices[idx]] = {
-            embedding,
+            embedding: mockLLM.embedding(text),
             tokens: Math.ceil(text.length / 4),
           };
         });
@@ -794,9 +840,8 @@ export class OpenAIService {
         console.error('❌ Batch embedding failed');
         
         batch.forEach((text, idx) => {
-          const embedding = Array(1536).fill(0).map(() => Math.random() - 0.5);
           results[batchIndices[idx]] = {
-            embedding,
+            embedding: mockLLM.embedding(text),
             tokens: Math.ceil(text.length / 4),
           };
         });
@@ -811,34 +856,46 @@ export class OpenAIService {
   }
   
   /**
-   * Stream chat
+   * Stream chat - yields token deltas as they arrive.
+   * Aborting `signal` ends the stream quietly after the last received token.
    */
   async *chatStream(
     messages: ChatMessage[],
-    options: CompletionOptions = {}
+    options: CompletionOptions & { signal?: AbortSignal } = {}
   ): AsyncGenerator<string> {
-    if (this.useMockMode || !this.client) {
-      yield this.getMockResponse(messages[messages.length - 1].content);
+    const { signal } = options;
+    const fixture = { kind: 'stream' as const, messages, model: options.model, maxTokens: options.maxTokens };
+    
+    if (this.useMockMode || !this.client || llmFixtures.replaying) {
+      // Emit the recorded (or mock) answer word by word so clients see real streaming
+      const recorded = llmFixtures.replaying ? await llmFixtures.load(fixture) : null;
+      const mock = recorded ?? this.getMockResponse(messages[messages.length - 1].content);
+      for (const word of mock.split(/(?<=\s)/)) {
+        if (signal?.aborted) return;
+        yield word;
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
       return;
     }
     
+    // Smart model selection for streaming
+    const task = this.analyzeTask(messages);
+    const model = options.model || this.selectModel(task);
+    const startTime = Date.now();
+    let fullResponse = '';
+    
     try {
-      // Smart model selection for streaming
-      const task = this.analyzeTask(messages);
-      const model = options.model || this.selectModel(task);
-      
       const stream = await this.client.chat.completions.create({
         model,
         messages: messages as OpenAI.Chat.ChatCompletionMessageParam[],
         temperature: options.temperature ?? AI_CONFIG.TEMPERATURE,
         max_tokens: options.maxTokens ?? AI_CONFIG.MAX_TOKENS,
         stream: true,
-      });
-      
-      let fullResponse = '';
+      }, { signal });
       
       for await (const chunk of stream) {
         const token = chunk.choices[0]?.delta?.content || '';
+        if (!token) continue;
         fullResponse += token;
         yield token;
       }
@@ -848,10 +905,22 @@ export class OpenAIService {
       );
       const outputTokens = this.countTokens(fullResponse);
       const cost = this.calculateCost(model, inputTokens, outputTokens);
+      this.trackModelUsage(model, cost, Date.now() - startTime, true);
+      
+      if (llmFixtures.recording) {
+        await llmFixtures.save(fixture, fullResponse);
+      }
       
     } catch (error: any) {
-      console.error('❌ Stream failed');
-      yield this.getMockResponse(messages[messages.length - 1].content);
+      if (signal?.aborted) return;
+      
+      console.error('❌ Stream failed:', error.message);
+      this.trackModelUsage(model, 0, Date.now() - startTime, false);
+      
+      // Only fall back if nothing was sent yet, otherwise the client gets a mixed answer
+      if (!fullResponse) {
+        yield this.getMockResponse(messages[messages.length - 1].content);
+      }
     }
   }
   
@@ -938,41 +1007,10 @@ export class OpenAIService {
   }
   
   /**
-   * Enhanced mock responses
+   * Offline mock response (deterministic)
    */
   private getMockResponse(message: string): string {
-    const lowerMessage = message.toLowerCase();
-    
-    const educationalResponses: Record<string, string> = {
-      'welcome': 'مرحباً بك! أنا مساعدك التعليمي الذكي. سنتعلم معاً بطريقة ممتعة وسهلة! 🌟',
-      'complete': 'أحسنت! لقد أكملت الدرس بنجاح! 🎉 أنت طالب رائع ومجتهد!',
-      'math': 'الرياضيات لغة الكون! سنتعلم اليوم كيف نحل المعادلات خطوة بخطوة.',
-      'equation': 'لحل المعادلة: 1) نحدد المجهول 2) نجمع الحدود المتشابهة 3) نعزل المجهول',
-      'example': 'مثال: إذا كان 2x + 5 = 15، نطرح 5: 2x = 10، نقسم على 2: x = 5 ✓',
-      'help': 'أنا هنا لمساعدتك! اسأل عن أي شيء في الدرس.',
-      'explain': 'دعني أشرح لك: كل مفهوم جديد يبني على ما سبق.',
-      'quiz': 'وقت الاختبار! سأطرح عليك أسئلة لنرى ما تعلمته.',
-      'excellent': 'ممتاز! إجابة صحيحة 100%!',
-      'tryagain': 'لا بأس، المحاولة جزء من التعلم! حاول مرة أخرى.',
-    };
-    
-    if (lowerMessage.includes('معادل') || lowerMessage.includes('حل')) {
-      return educationalResponses.equation;
-    }
-    
-    if (lowerMessage.includes('مثال')) {
-      return educationalResponses.example;
-    }
-    
-    if (lowerMessage.includes('شرح')) {
-      return educationalResponses.explain;
-    }
-    
-    if (lowerMessage.includes('اختبار') || lowerMessage.includes('quiz')) {
-      return educationalResponses.quiz;
-    }
-    
-    return 'أنا مساعدك التعليمي. كيف يمكنني مساعدتك؟ 📚';
+    return mockLLM.reply(message);
   }
   
   /**
@@ -1012,6 +1050,7 @@ export class OpenAIService {
     return {
       status: this.isInitialized ? 'active' : 'mock',
       mode: this.useMockMode ? 'mock' : 'production',
+      fixtures: llmFixtures.getStats(),
       defaultModel: AI_CONFIG.MODEL,
       requestCount: this.requestCount,
       lastRequestTime: this.lastRequestTime.toISOString(),
@@ -0,0 +1,61 @@
+// src/services/queue/workers/video.worker.ts
+// Worker لتوليد فيديوهات الدروس (سكريبت + شرائح + صوت → MP4)
+
+import { Worker, Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { QueueName, type VideoGenerationJob } from '../../../config/queue.config';
+import { videoService } from '../../../core/video/video.service';
+import type { LessonVideo } from '../../../types/video.types';
+import { isMockMode } from '../mock-queue.service';
+
+// Redis connection
+let redisConnection: any;
+
+if (!isMockMode()) {
+  try {
+    redisConnection = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+      maxRetriesPerRequest: null, // BullMQ requires null
+    });
+  } catch (error) {
+    console.warn('⚠️ Video worker: Redis connection failed, using mock mode');
+  }
+}
+
+// Rendering is CPU heavy (puppeteer + ffmpeg), one video at a time by default
+export const videoWorker: Worker<VideoGenerationJob, LessonVideo> | null = isMockMode()
+  ? null  // In mock mode videos are rendered inline by videoService
+  : new Worker<VideoGenerationJob, LessonVideo>(
+      QueueName.VIDEO_GENERATION,
+      async (job: Job<VideoGenerationJob>) => {
+        console.log(`🎬 Worker rendering video for lesson ${job.data.lessonId} (job ${job.id})`);
+        return await videoService.processVideo(job.data.lessonId, progress => job.updateProgress(progress));
+      },
+      {
+        connection: redisConnection,
+        concurrency: parseInt(process.env.VIDEO_WORKER_CONCURRENCY || '1'),
+      }
+    );
+
+if (videoWorker) {
+  videoWorker.on('completed', (job: any) => {
+    console.log(`✅ Video job ${job.id} completed`);
+  });
+
+  videoWorker.on('failed', (job: any, err: any) => {
+    console.error(`❌ Video job ${job?.id} failed:`, err?.message || err);
+  });
+}
+
+// Graceful shutdown
+process.on('SIGTERM', async () => {
+  if (videoWorker) await videoWorker.close();
+});
+
+process.on('SIGINT', async () => {
+  if (videoWorker) await videoWorker.close();
+});
+
+export default videoWorker;
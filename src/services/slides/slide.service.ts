@@ -1,6 +1,15 @@
 // src/services/slides/slide.service.ts
 // الوظيفة: توليد شرائح HTML جميلة وسريعة بدون puppeteer
 
+import fs from 'fs';
+import path from 'path';
+
+// ملفات الترجمة (.vtt) بجانب الصوت والفيديو اللي بيقدمهم app.ts
+const CAPTION_ROOTS: Array<{ prefix: string; dir: string }> = [
+  { prefix: '/audio/', dir: path.join(process.cwd(), 'temp', 'voice-cache') },
+  { prefix: '/videos/', dir: path.join(process.cwd(), 'temp', 'videos') },
+];
+
 export interface SlideContent {
   type: 'title' | 'content' | 'bullet' | 'image' | 'equation' | 'quiz' | 'summary' | 'interactive' | 'video' | 'code' | 'tips' | 'story' | 'example';
   title?: string;
@@ -24,6 +33,8 @@ export interface SlideContent {
     url: string;
     poster?: string;
     autoplay?: boolean;
+    captionsUrl?: string;   // WebVTT - لو فاضي بيتاخد من ملف .vtt بجانب الفيديو تحت /audio أو /videos
+    captionsLang?: string;
   };
   code?: {
     language: string;
@@ -524,8 +535,8 @@ export class SlideService {
   }
 
   private generateVideoSlide(content: SlideContent, theme: SlideTheme): string {
-    const video = content.video;
-    if (!video) return this.generateContentSlide(content, theme);
+    if (!content.video) return this.generateContentSlide(content, theme);
+    const video = { ...content.video, captionsUrl: content.video.captionsUrl || this.findCaptions(content.video.url) };
 
     return `
       <div class="slide slide-video" style="
@@ -558,8 +569,12 @@ export class SlideService {
             controls
             ${video.autoplay ? 'autoplay' : ''}
             ${video.poster ? `poster="${video.poster}"` : ''}
+            ${video.captionsUrl ? 'crossorigin="anonymous"' : ''}
             style="width: 100%; height: auto;">
             <source src="${video.url}" type="video/mp4">
+            ${video.captionsUrl ? `
+              <track kind="captions" src="${video.captionsUrl}" srclang="${video.captionsLang || 'ar'}" label="${(video.captionsLang || 'ar') === 'ar' ? 'العربية' : video.captionsLang}" default>
+            ` : ''}
             متصفحك لا يدعم عرض الفيديو
           </video>
         </div>
@@ -576,6 +591,20 @@ export class SlideService {
     `;
   }
 
+  /**
+   * ملف الترجمة اللي اتولد مع الصوت (voiceService) أو فيديو الدرس (videoService) بنفس الاسم
+   */
+  private findCaptions(url: string): string | undefined {
+    const root = CAPTION_ROOTS.find(r => url.startsWith(r.prefix));
+    if (!root) return undefined;
+
+    const relative = url.slice(root.prefix.length).split(/[?#]/)[0].replace(/\.[^./]+$/, '.vtt');
+    const filePath = path.resolve(root.dir, relative);
+    if (!filePath.startsWith(root.dir + path.sep) || !fs.existsSync(filePath)) return undefined;
+
+    return root.prefix + relative;
+  }
+
   private generateCodeSlide(content: SlideContent, theme: SlideTheme): string {
     const code = content.code;
     if (!code) return this.generateContentSlide(content, theme);
@@ -243,6 +243,31 @@ const teachingOptionsSchema = z.object({
   specialNeeds: z.array(z.string()).optional()
 });
 
+// Expected AI response for adaptive problems (also drives the offline mock)
+const adaptiveProblemSchema = z.object({
+  question: z.string(),
+  hints: z.array(z.string()).min(3).max(3),
+  solution: z.string(),
+  steps: z.array(z.string()),
+  socraticApproach: z.object({
+    problem: z.string(),
+    currentStep: z.literal(0),
+    totalSteps: z.literal(3),
+    steps: z.array(z.object({
+      number: z.number().int().min(1).max(3),
+      instruction: z.string(),
+      hint: z.string(),
+      expectedAnswer: z.string().optional(),
+      completed: z.literal(false)
+    })).min(3).max(3),
+    socraticQuestions: z.array(z.string())
+  }),
+  visualAids: z.array(z.string()),
+  realWorldApplication: z.string(),
+  commonMistakes: z.array(z.string()),
+  relatedConcept: z.string()
+});
+
 // ============= MAIN SERVICE CLASS =============
 
 export class TeachingAssistantService {
@@ -891,7 +916,8 @@ Return JSON format:
       ], {
         temperature: 0.7,
         maxTokens: 800,
-        autoSelectModel: true
+        autoSelectModel: true,
+        schema: adaptiveProblemSchema
       });
       
       return {
@@ -0,0 +1,181 @@
+// src/services/voice/caption.service.ts
+// الوظيفة: تحويل توقيتات الكلمات لملفات ترجمة WebVTT و SRT (للطلاب ضعاف السمع والفصول الصاخبة)
+
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface CaptionCue {
+  start: number;   // seconds
+  end: number;
+  lines: string[];
+}
+
+export interface CaptionTrack {
+  vttUrl: string;
+  srtUrl: string;
+  language: string;
+  cues: number;
+}
+
+export interface CaptionOptions {
+  maxLineLength?: number;   // characters per line
+  maxLines?: number;        // lines per cue
+  maxCueDuration?: number;  // seconds
+}
+
+const DEFAULTS: Required<CaptionOptions> = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 7,
+};
+
+// Readers need a moment even for one short word
+const MIN_CUE_DURATION = 1;
+const SENTENCE_END = /[.!?؟…]$/;
+const ARABIC = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF]/;
+// Right-to-left mark: keeps trailing punctuation and leading numbers on the right side
+const RLM = '\u200F';
+
+export class CaptionService {
+
+  /**
+   * Group word timings into cues of at most `maxLines` lines of `maxLineLength` characters,
+   * breaking early at sentence ends and when a cue would stay on screen too long
+   */
+  buildCues(words: WordTiming[], options: CaptionOptions = {}): CaptionCue[] {
+    const { maxLineLength, maxLines, maxCueDuration } = { ...DEFAULTS, ...options };
+    const cues: CaptionCue[] = [];
+
+    let lines: string[] = [];
+    let line = '';
+    let start = 0;
+    let end = 0;
+
+    const closeCue = () => {
+      if (line) lines.push(line);
+      if (lines.length > 0) cues.push({ start, end, lines });
+      lines = [];
+      line = '';
+    };
+
+    for (const timing of words) {
+      const word = timing.word.trim();
+      if (!word) continue;
+
+      const empty = lines.length === 0 && !line;
+      if (!empty && timing.end - start > maxCueDuration) {
+        closeCue();
+      }
+
+      if (lines.length === 0 && !line) {
+        start = timing.start;
+      }
+
+      if (line && line.length + 1 + word.length > maxLineLength) {
+        lines.push(line);
+        line = '';
+        if (lines.length >= maxLines) {
+          closeCue();
+          start = timing.start;
+        }
+      }
+
+      line = line ? `${line} ${word}` : word;
+      end = timing.end;
+
+      if (SENTENCE_END.test(word) && end - start >= MIN_CUE_DURATION) {
+        closeCue();
+      }
+    }
+    closeCue();
+
+    // Short cues stay up a little longer, without running into the next one
+    for (let i = 0; i < cues.length; i++) {
+      const next = cues[i + 1];
+      const minEnd = cues[i].start + MIN_CUE_DURATION;
+      if (cues[i].end < minEnd) {
+        cues[i].end = next ? Math.min(minEnd, next.start) : minEnd;
+      }
+    }
+
+    return cues;
+  }
+
+  toWebVTT(cues: CaptionCue[]): string {
+    const blocks = cues.map((cue, index) => [
+      String(index + 1),
+      `${this.timestamp(cue.start, '.')} --> ${this.timestamp(cue.end, '.')}`,
+      ...cue.lines.map(line => this.rtlSafe(this.escapeVTT(line))),
+    ].join('\n'));
+
+    return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+  }
+
+  toSRT(cues: CaptionCue[]): string {
+    return cues.map((cue, index) => [
+      String(index + 1),
+      `${this.timestamp(cue.start, ',')} --> ${this.timestamp(cue.end, ',')}`,
+      ...cue.lines.map(line => this.rtlSafe(line.replace(/-->/g, '→'))),
+    ].join('\n')).join('\n\n') + '\n';
+  }
+
+  /**
+   * Write `<baseName>.vtt` and `<baseName>.srt` into `dir`; URLs are built from `urlPrefix`
+   */
+  async saveTrack(
+    cues: CaptionCue[],
+    dir: string,
+    baseName: string,
+    urlPrefix: string,
+    language = 'ar'
+  ): Promise<CaptionTrack> {
+    await fs.mkdir(dir, { recursive: true });
+    await Promise.all([
+      fs.writeFile(path.join(dir, `${baseName}.vtt`), this.toWebVTT(cues), 'utf-8'),
+      fs.writeFile(path.join(dir, `${baseName}.srt`), this.toSRT(cues), 'utf-8'),
+    ]);
+
+    return this.trackFor(baseName, urlPrefix, cues.length, language);
+  }
+
+  trackFor(baseName: string, urlPrefix: string, cues: number, language = 'ar'): CaptionTrack {
+    return {
+      vttUrl: `${urlPrefix}/${baseName}.vtt`,
+      srtUrl: `${urlPrefix}/${baseName}.srt`,
+      language,
+      cues,
+    };
+  }
+
+  // ============= Helpers =============
+
+  private timestamp(seconds: number, separator: '.' | ','): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+  }
+
+  private escapeVTT(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private rtlSafe(line: string): string {
+    return ARABIC.test(line) ? `${RLM}${line}${RLM}` : line;
+  }
+}
+
+// Export singleton instance
+export const captionService = new CaptionService();
@@ -0,0 +1,215 @@
+// src/services/voice/pronunciation.service.ts
+// الوظيفة: مرحلة تجهيز النص للنطق + قاموس النطق اللي المدرسين بيعدلوه (كلمة → نطقها بالتشكيل)
+
+import { prisma } from '../../config/database.config';
+import { config } from '../../config';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { escapeRegExp, normalizeForSpeech, type SpeechDialect } from './speech.normalizer';
+import type { PronunciationEntry } from '@prisma/client';
+
+export interface PronunciationInput {
+  term: string;
+  spoken: string;
+  subjectId?: string | null;
+  note?: string;
+}
+
+export interface SpeechPrepOptions {
+  dialect?: SpeechDialect;
+  /** Subject entries override the global ones for the same term */
+  subjectId?: string | null;
+}
+
+interface CompiledLexicon {
+  pattern: RegExp | null;
+  spoken: Map<string, string>;
+  loadedAt: number;
+}
+
+// Curriculum words TTS engines read with the wrong vowels; teachers' entries win over these
+const DEFAULT_LEXICON: Record<string, string> = {
+  'مقام': 'مَقام',
+  'بسط': 'بَسْط',
+  'ضلع': 'ضِلْع',
+  'جذر': 'جَذْر',
+  'مربع': 'مُرَبَّع',
+  'مكعب': 'مُكَعَّب',
+  'معادلة': 'مُعادَلة',
+  'متباينة': 'مُتَبايِنة',
+  'محيط': 'مُحِيط',
+  'مساحة': 'مِساحة',
+  'مثلث': 'مُثَلَّث',
+  'متوازي': 'مُتَوازي',
+  'ذرة': 'ذَرَّة',
+  'كتلة': 'كُتْلة',
+  'خلية': 'خَلِيَّة',
+  'قوة': 'قُوَّة',
+};
+
+// Diacritics and tatweel may appear between the letters of a term in the script
+const OPTIONAL_MARKS = '[\\u064B-\\u0652\\u0670\\u0640]*';
+const MARKS = /[\u064B-\u0652\u0670\u0640]/g;
+// Attached prefixes: و ف ب ك ل and the article
+const PREFIXES = '(?:[وفبكل]?(?:ال|لل)?)';
+const CACHE_TTL_MS = 60 * 1000;
+
+export class PronunciationService {
+  private cache: Map<string, CompiledLexicon> = new Map();
+
+  /**
+   * Speech preparation stage: math, numbers, units and abbreviations spelled out,
+   * then the pronunciation lexicon applied. Run on text right before synthesis.
+   */
+  async prepare(text: string, options: SpeechPrepOptions = {}): Promise<string> {
+    const normalized = normalizeForSpeech(text, options.dialect || config.SPEECH_DIALECT);
+
+    try {
+      const lexicon = await this.getLexicon(options.subjectId || null);
+      return this.applyLexicon(normalized, lexicon);
+    } catch (error: any) {
+      // A broken lexicon must not silence the narration
+      console.error('❌ Pronunciation lexicon error:', error.message);
+      return normalized;
+    }
+  }
+
+  /**
+   * Subject of a lesson, whose lexicon entries apply to its narration
+   */
+  async getLessonSubjectId(lessonId: string): Promise<string | undefined> {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      select: { unit: { select: { subjectId: true } } },
+    });
+    return lesson?.unit.subjectId;
+  }
+
+  async listEntries(subjectId?: string | null): Promise<PronunciationEntry[]> {
+    return await prisma.pronunciationEntry.findMany({
+      where: subjectId === undefined ? {} : { subjectId },
+      orderBy: [{ subjectId: 'asc' }, { term: 'asc' }],
+    });
+  }
+
+  async createEntry(input: PronunciationInput, createdBy?: string): Promise<PronunciationEntry> {
+    const term = this.cleanTerm(input.term);
+    const subjectId = input.subjectId || null;
+    await this.assertSubject(subjectId);
+
+    // SQLite doesn't enforce the unique index when subjectId is null
+    const existing = await prisma.pronunciationEntry.findFirst({ where: { term, subjectId } });
+    if (existing) {
+      throw new ConflictError(`Pronunciation for "${term}" already exists`);
+    }
+
+    const entry = await prisma.pronunciationEntry.create({
+      data: { term, spoken: input.spoken.trim(), subjectId, note: input.note, createdBy },
+    });
+    this.invalidate();
+    return entry;
+  }
+
+  async updateEntry(id: string, changes: Partial<PronunciationInput>): Promise<PronunciationEntry> {
+    const existing = await prisma.pronunciationEntry.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundError('Pronunciation entry');
+    }
+
+    const term = changes.term !== undefined ? this.cleanTerm(changes.term) : existing.term;
+    const subjectId = changes.subjectId !== undefined ? changes.subjectId || null : existing.subjectId;
+    if (changes.subjectId !== undefined) {
+      await this.assertSubject(subjectId);
+    }
+
+    const duplicate = await prisma.pronunciationEntry.findFirst({ where: { term, subjectId, id: { not: id } } });
+    if (duplicate) {
+      throw new ConflictError(`Pronunciation for "${term}" already exists`);
+    }
+
+    const entry = await prisma.pronunciationEntry.update({
+      where: { id },
+      data: {
+        term,
+        subjectId,
+        ...(changes.spoken !== undefined && { spoken: changes.spoken.trim() }),
+        ...(changes.note !== undefined && { note: changes.note }),
+      },
+    });
+    this.invalidate();
+    return entry;
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    const existing = await prisma.pronunciationEntry.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      throw new NotFoundError('Pronunciation entry');
+    }
+
+    await prisma.pronunciationEntry.delete({ where: { id } });
+    this.invalidate();
+  }
+
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  // ============= Helpers =============
+
+  private applyLexicon(text: string, lexicon: CompiledLexicon): string {
+    if (!lexicon.pattern) return text;
+
+    return text.replace(lexicon.pattern, (match, prefix: string, word: string) => {
+      const spoken = lexicon.spoken.get(word.replace(MARKS, ''));
+      return spoken ? `${prefix}${spoken}` : match;
+    });
+  }
+
+  private async getLexicon(subjectId: string | null): Promise<CompiledLexicon> {
+    const key = subjectId || '*';
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached;
+    }
+
+    const entries = await prisma.pronunciationEntry.findMany({
+      where: subjectId ? { OR: [{ subjectId: null }, { subjectId }] } : { subjectId: null },
+      select: { term: true, spoken: true, subjectId: true },
+    });
+
+    // Defaults, then global entries, then the subject's own
+    const spoken = new Map(Object.entries(DEFAULT_LEXICON));
+    for (const entry of entries.filter(e => !e.subjectId)) spoken.set(entry.term, entry.spoken);
+    for (const entry of entries.filter(e => e.subjectId)) spoken.set(entry.term, entry.spoken);
+
+    const compiled: CompiledLexicon = { pattern: this.compile([...spoken.keys()]), spoken, loadedAt: Date.now() };
+    this.cache.set(key, compiled);
+    return compiled;
+  }
+
+  private compile(terms: string[]): RegExp | null {
+    if (terms.length === 0) return null;
+
+    // Longest first so multi-word entries beat the words inside them
+    const alternation = [...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(term => Array.from(term).map(escapeRegExp).join(OPTIONAL_MARKS))
+      .join('|');
+
+    return new RegExp(`(?<![\\p{L}\\p{M}])(${PREFIXES})(${alternation})(?![\\p{L}\\p{M}])`, 'gu');
+  }
+
+  private cleanTerm(term: string): string {
+    return term.replace(MARKS, '').replace(/\s+/g, ' ').trim();
+  }
+
+  private async assertSubject(subjectId: string | null): Promise<void> {
+    if (!subjectId) return;
+    const subject = await prisma.subject.findUnique({ where: { id: subjectId }, select: { id: true } });
+    if (!subject) {
+      throw new NotFoundError('Subject');
+    }
+  }
+}
+
+// Export singleton instance
+export const pronunciationService = new PronunciationService();
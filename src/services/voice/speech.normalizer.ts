@@ -0,0 +1,367 @@
+// src/services/voice/speech.normalizer.ts
+// تجهيز النص للنطق: المعادلات والأرقام والرموز والوحدات تتكتب بالكلام قبل ما تروح لمحرك الصوت
+//
+// \frac{3}{4} → "تلاتة أرباع"، 25% → "خمسة وعشرين في المية"، 5 سم² → "خمسة سنتيمتر مربع"
+
+export type SpeechDialect = 'egyptian' | 'msa';
+
+interface DialectWords {
+  ones: string[];          // 0..10
+  teens: string[];         // 11..19
+  tens: string[];          // 20..90 by tens (index = tens digit)
+  hundreds: string[];      // 100..900 (index = hundreds digit)
+  // Counted form before "آلاف" (تلات تلاف / ثلاثة آلاف)
+  thousandCount: string[];
+  scales: Array<{ value: number; one: string; two: string; plural: string; many: string }>;
+  fractions: { one: string[]; two: string[]; plural: string[] };   // index = denominator 2..10
+  words: {
+    plus: string; minus: string; negative: string; times: string; divide: string; over: string;
+    equals: string; notEquals: string; approx: string; less: string; greater: string;
+    lessEq: string; greaterEq: string; plusMinus: string; percent: string; point: string;
+    squared: string; cubed: string; power: string; sqrt: string; cbrt: string; root: string;
+    degree: string; pi: string; infinity: string;
+  };
+}
+
+// Fraction names carry diacritics: "خُمس" (a fifth) and "خمس" (five) are spelled the same
+const FRACTION_ONE = ['', '', 'نِصْف', 'ثُلُث', 'رُبْع', 'خُمُس', 'سُدُس', 'سُبُع', 'ثُمُن', 'تُسُع', 'عُشْر'];
+const FRACTION_PLURAL = ['', '', 'أنْصاف', 'أثْلاث', 'أرْباع', 'أخْماس', 'أسْداس', 'أسْباع', 'أثْمان', 'أتْساع', 'أعْشار'];
+
+const DIALECTS: Record<SpeechDialect, DialectWords> = {
+  egyptian: {
+    ones: ['صفر', 'واحد', 'اتنين', 'تلاتة', 'أربعة', 'خمسة', 'ستة', 'سبعة', 'تمانية', 'تسعة', 'عشرة'],
+    teens: ['', 'حداشر', 'اتناشر', 'تلاتاشر', 'أربعتاشر', 'خمستاشر', 'ستاشر', 'سبعتاشر', 'تمنتاشر', 'تسعتاشر'],
+    tens: ['', '', 'عشرين', 'تلاتين', 'أربعين', 'خمسين', 'ستين', 'سبعين', 'تمانين', 'تسعين'],
+    hundreds: ['', 'مية', 'ميتين', 'تلتمية', 'ربعمية', 'خمسمية', 'ستمية', 'سبعمية', 'تمنمية', 'تسعمية'],
+    thousandCount: ['', '', '', 'تلات', 'أربع', 'خمس', 'ست', 'سبع', 'تمن', 'تسع', 'عشر'],
+    scales: [
+      { value: 1e9, one: 'مليار', two: 'مليارين', plural: 'مليار', many: 'مليار' },
+      { value: 1e6, one: 'مليون', two: 'مليونين', plural: 'مليون', many: 'مليون' },
+      { value: 1e3, one: 'ألف', two: 'ألفين', plural: 'تلاف', many: 'ألف' },
+    ],
+    fractions: {
+      one: ['', '', 'نُص', 'تِلْت', 'رُبْع', 'خُمْس', 'سُدْس', 'سُبْع', 'تُمْن', 'تُسْع', 'عُشْر'],
+      two: ['', '', 'نُصّين', 'تِلْتين', 'رُبْعين', 'خُمْسين', 'سُدْسين', 'سُبْعين', 'تُمْنين', 'تُسْعين', 'عُشْرين'],
+      plural: FRACTION_PLURAL,
+    },
+    words: {
+      plus: 'زائد', minus: 'ناقص', negative: 'سالب', times: 'في', divide: 'على', over: 'على',
+      equals: 'يساوي', notEquals: 'لا يساوي', approx: 'يساوي تقريباً', less: 'أصغر من', greater: 'أكبر من',
+      lessEq: 'أصغر من أو يساوي', greaterEq: 'أكبر من أو يساوي', plusMinus: 'زائد أو ناقص',
+      percent: 'في المية', point: 'فاصل', squared: 'تربيع', cubed: 'تكعيب', power: 'أُس',
+      sqrt: 'جذر', cbrt: 'الجذر التكعيبي لـ', root: 'الجذر', degree: 'درجة', pi: 'باي', infinity: 'ما لا نهاية',
+    },
+  },
+  msa: {
+    ones: ['صفر', 'واحد', 'اثنان', 'ثلاثة', 'أربعة', 'خمسة', 'ستة', 'سبعة', 'ثمانية', 'تسعة', 'عشرة'],
+    teens: ['', 'أحد عشر', 'اثنا عشر', 'ثلاثة عشر', 'أربعة عشر', 'خمسة عشر', 'ستة عشر', 'سبعة عشر', 'ثمانية عشر', 'تسعة عشر'],
+    tens: ['', '', 'عشرون', 'ثلاثون', 'أربعون', 'خمسون', 'ستون', 'سبعون', 'ثمانون', 'تسعون'],
+    hundreds: ['', 'مائة', 'مائتان', 'ثلاثمائة', 'أربعمائة', 'خمسمائة', 'ستمائة', 'سبعمائة', 'ثمانمائة', 'تسعمائة'],
+    thousandCount: ['', '', '', 'ثلاثة', 'أربعة', 'خمسة', 'ستة', 'سبعة', 'ثمانية', 'تسعة', 'عشرة'],
+    scales: [
+      { value: 1e9, one: 'مليار', two: 'ملياران', plural: 'مليارات', many: 'مليار' },
+      { value: 1e6, one: 'مليون', two: 'مليونان', plural: 'ملايين', many: 'مليون' },
+      { value: 1e3, one: 'ألف', two: 'ألفان', plural: 'آلاف', many: 'ألف' },
+    ],
+    fractions: {
+      one: FRACTION_ONE,
+      two: ['', '', 'نِصْفان', 'ثُلُثان', 'رُبْعان', 'خُمُسان', 'سُدُسان', 'سُبُعان', 'ثُمُنان', 'تُسُعان', 'عُشْران'],
+      plural: FRACTION_PLURAL,
+    },
+    words: {
+      plus: 'زائد', minus: 'ناقص', negative: 'سالب', times: 'ضرب', divide: 'مقسوماً على', over: 'على',
+      equals: 'يساوي', notEquals: 'لا يساوي', approx: 'يساوي تقريباً', less: 'أصغر من', greater: 'أكبر من',
+      lessEq: 'أصغر من أو يساوي', greaterEq: 'أكبر من أو يساوي', plusMinus: 'زائد أو ناقص',
+      percent: 'بالمائة', point: 'فاصلة', squared: 'تربيع', cubed: 'تكعيب', power: 'أُس',
+      sqrt: 'الجذر التربيعي لـ', cbrt: 'الجذر التكعيبي لـ', root: 'الجذر', degree: 'درجة', pi: 'باي', infinity: 'ما لا نهاية',
+    },
+  },
+};
+
+// Beyond this numbers are read digit by digit (phone numbers, codes)
+const MAX_SPOKEN_NUMBER = 999_999_999_999;
+
+// Letter or combining mark (diacritics) - \b doesn't work for Arabic
+const NOT_AFTER_LETTER = '(?<![\\p{L}\\p{M}])';
+const NOT_BEFORE_LETTER = '(?![\\p{L}\\p{M}])';
+
+// ============= NUMBERS =============
+
+/**
+ * Spell out an integer: 2025 → "ألفين وخمسة وعشرين" (egyptian) / "ألفان وخمسة وعشرون" (msa)
+ */
+export function numberToWords(value: number, dialect: SpeechDialect = 'egyptian'): string {
+  const d = DIALECTS[dialect];
+  if (!Number.isFinite(value)) return String(value);
+  if (value < 0) return `${d.words.negative} ${numberToWords(-value, dialect)}`;
+
+  const n = Math.floor(value);
+  if (n === 0) return d.ones[0];
+  if (n > MAX_SPOKEN_NUMBER) return readDigits(String(n), dialect);
+
+  const parts: string[] = [];
+  let rest = n;
+  for (const scale of d.scales) {
+    const count = Math.floor(rest / scale.value);
+    rest %= scale.value;
+    if (count === 0) continue;
+
+    if (count === 1) parts.push(scale.one);
+    else if (count === 2) parts.push(scale.two);
+    else if (count <= 10) {
+      const counted = scale.value === 1e3 ? d.thousandCount[count] : d.ones[count];
+      parts.push(`${counted} ${scale.plural}`);
+    } else {
+      parts.push(`${below1000(count, d)} ${scale.many}`);
+    }
+  }
+  if (rest > 0) parts.push(below1000(rest, d));
+
+  return parts.join(' و');
+}
+
+function below1000(n: number, d: DialectWords): string {
+  const parts: string[] = [];
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+
+  if (hundreds > 0) parts.push(d.hundreds[hundreds]);
+  if (rest > 0) {
+    if (rest <= 10) parts.push(d.ones[rest]);
+    else if (rest < 20) parts.push(d.teens[rest - 10]);
+    else {
+      const ones = rest % 10;
+      const tens = d.tens[Math.floor(rest / 10)];
+      parts.push(ones > 0 ? `${d.ones[ones]} و${tens}` : tens);
+    }
+  }
+
+  return parts.join(' و');
+}
+
+function readDigits(digits: string, dialect: SpeechDialect): string {
+  return digits.split('').map(digit => DIALECTS[dialect].ones[Number(digit)]).join(' ');
+}
+
+/**
+ * "3.05" → "تلاتة فاصل صفر خمسة"; leading zeros after the point are read out
+ */
+function decimalToWords(integer: string, fraction: string, dialect: SpeechDialect): string {
+  const d = DIALECTS[dialect];
+  const zeros = /^0*/.exec(fraction)![0];
+  const significant = fraction.slice(zeros.length);
+
+  const after = [
+    ...zeros.split('').filter(Boolean).map(() => d.ones[0]),
+    ...(significant ? [significant.length > 12 ? readDigits(significant, dialect) : numberToWords(Number(significant), dialect)] : []),
+  ];
+
+  return `${numberToWords(Number(integer), dialect)} ${d.words.point} ${after.join(' ')}`.trim();
+}
+
+/**
+ * 3/4 → "تلاتة أرباع"; larger parts are read as "X على Y"
+ */
+export function fractionToWords(numerator: number, denominator: number, dialect: SpeechDialect = 'egyptian'): string {
+  const d = DIALECTS[dialect];
+  const simple = Number.isInteger(numerator) && Number.isInteger(denominator)
+    && numerator >= 1 && numerator <= 10 && denominator >= 2 && denominator <= 10;
+
+  if (!simple) {
+    return `${numberToWords(numerator, dialect)} ${d.words.over} ${numberToWords(denominator, dialect)}`;
+  }
+  if (numerator === 1) return d.fractions.one[denominator];
+  if (numerator === 2) return d.fractions.two[denominator];
+  return `${d.ones[numerator]} ${d.fractions.plural[denominator]}`;
+}
+
+// ============= TEXT STAGES =============
+
+/**
+ * Arabic-Indic digits → ASCII, Arabic decimal separator → "."
+ */
+export function unifyDigits(text: string): string {
+  return text
+    .replace(/[٠-٩]/g, ch => String(ch.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, ch => String(ch.charCodeAt(0) - 0x06F0))
+    .replace(/(\d)٫(\d)/g, '$1.$2');
+}
+
+/**
+ * Drop LaTeX delimiters, formatting and spacing commands (the math itself stays)
+ */
+export function unwrapLatex(text: string): string {
+  return text
+    .replace(/\$\$?|\\[()[\]]/g, ' ')
+    .replace(/\\(?:text|mathrm|mathbf|mathit|textbf|operatorname)\s*\{([^{}]*)\}/g, ' $1 ')
+    .replace(/\\(?:left|right|displaystyle|limits)\b/g, '')
+    .replace(/\\[,;:! ]|\\q?quad\b|~/g, ' ')
+    .replace(/\*\*|__|[`#]/g, ' ');
+}
+
+const ABBREVIATIONS: Array<[string, string]> = [
+  ['م.م.أ', 'المضاعف المشترك الأصغر'],
+  ['ع.م.أ', 'العامل المشترك الأكبر'],
+  ['ج.م.ع', 'جمهورية مصر العربية'],
+  ['ق.م', 'قبل الميلاد'],
+  ['إلخ', 'إلى آخره'],
+  ['e.g.', 'مثلاً'],
+  ['i.e.', 'يعني'],
+  ['etc.', 'إلى آخره'],
+];
+
+export function expandAbbreviations(text: string): string {
+  let result = text;
+  for (const [short, long] of ABBREVIATIONS) {
+    const pattern = new RegExp(`${NOT_AFTER_LETTER}${escapeRegExp(short)}${short.endsWith('.') ? '' : NOT_BEFORE_LETTER}`, 'gu');
+    result = result.replace(pattern, long);
+  }
+  return result;
+}
+
+// Longest first so "كم/س" wins over "كم"; only expanded right after a number
+const UNITS: Array<[string, string]> = [
+  ['كم/س', 'كيلومتر في الساعة'], ['km/h', 'كيلومتر في الساعة'],
+  ['م/ث', 'متر في الثانية'], ['m/s', 'متر في الثانية'],
+  ['°م', 'درجة مئوية'], ['°C', 'درجة مئوية'], ['°F', 'درجة فهرنهايت'],
+  ['كجم', 'كيلوجرام'], ['كغ', 'كيلوجرام'], ['kg', 'كيلوجرام'],
+  ['مجم', 'مليجرام'], ['mg', 'مليجرام'],
+  ['جم', 'جرام'], ['g', 'جرام'],
+  ['كم', 'كيلومتر'], ['km', 'كيلومتر'],
+  ['سم', 'سنتيمتر'], ['cm', 'سنتيمتر'],
+  ['مم', 'مليمتر'], ['mm', 'مليمتر'],
+  ['مل', 'مللي'], ['ml', 'مللي'],
+  ['لتر', 'لتر'], ['L', 'لتر'],
+  ['ث', 'ثانية'], ['min', 'دقيقة'],
+  ['ج.م', 'جنيه مصري'],
+  ['م', 'متر'], ['m', 'متر'],
+];
+
+export function expandUnits(text: string): string {
+  const alternation = UNITS.map(([unit]) => escapeRegExp(unit)).join('|');
+  const pattern = new RegExp(`(\\d)\\s*(${alternation})(²|³|\\^\\{?[23]\\}?)?${NOT_BEFORE_LETTER}`, 'gu');
+  const names = new Map(UNITS);
+
+  return text.replace(pattern, (match, digit: string, unit: string, power: string | undefined, offset: number, whole: string) => {
+    // "2020 م" is a year, not metres
+    if (unit === 'م' && !power && /(?:^|\D)\d{4}$/.test(whole.slice(0, offset + 1))) {
+      return `${digit} ميلادية`;
+    }
+    const exponent = power ? (power.includes('3') || power === '³' ? 'مكعب' : 'مربع') : '';
+    return `${digit} ${names.get(unit)}${exponent ? ' ' + exponent : ''}`;
+  });
+}
+
+/**
+ * LaTeX and math symbols → words. Numbers are left as digits for verbalizeNumbers.
+ */
+export function verbalizeMath(text: string, dialect: SpeechDialect = 'egyptian'): string {
+  const w = DIALECTS[dialect].words;
+
+  // Minus vs. sign first, while the operands are still digits and letters:
+  // a minus needs a number, a one-letter variable or a bracket on its left
+  let result = text
+    .replace(/(\d|(?<![\p{L}])[a-zA-Zسصعل](?![\p{L}])|[)}])\s*[-−]\s*(?=[\d(\\\p{L}])/gu, `$1 ${w.minus} `)
+    .replace(/(^|[\s(=:,])[-−](?=\d)/g, `$1${w.negative} `);
+
+  // Innermost first, so nested \frac{\sqrt{2}}{3} works
+  for (let i = 0; i < 10; i++) {
+    const before = result;
+    result = result
+      .replace(/\\[dt]?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, (_m, a: string, b: string) => ` ${fractionPhrase(a, b, dialect)} `)
+      .replace(/\\sqrt\s*\[\s*3\s*\]\s*\{([^{}]*)\}/g, ` ${w.cbrt} $1 `)
+      .replace(/\\sqrt\s*\[([^\]]*)\]\s*\{([^{}]*)\}/g, ` ${w.root} $1 $2 `)
+      .replace(/\\sqrt\s*\{([^{}]*)\}/g, ` ${w.sqrt} $1 `)
+      .replace(/\^\s*\{([^{}]*)\}/g, (_m, p: string) => ` ${powerPhrase(p.trim(), w)} `);
+    if (result === before) break;
+  }
+
+  result = result
+    .replace(/\^\s*(-?\d+|[a-zA-Z])/g, (_m, p: string) => ` ${powerPhrase(p, w)} `)
+    .replace(/²/g, ` ${w.squared} `)
+    .replace(/³/g, ` ${w.cubed} `)
+    .replace(/√\s*/g, ` ${w.sqrt} `)
+    .replace(/∛\s*/g, ` ${w.cbrt} `);
+
+  const commands: Record<string, string> = {
+    times: w.times, cdot: w.times, div: w.divide, pm: w.plusMinus, mp: w.plusMinus,
+    neq: w.notEquals, ne: w.notEquals, leq: w.lessEq, le: w.lessEq, geq: w.greaterEq, ge: w.greaterEq,
+    approx: w.approx, pi: w.pi, infty: w.infinity, circ: w.degree, degree: w.degree,
+    angle: 'زاوية', triangle: 'مثلث', sin: 'جا', cos: 'جتا', tan: 'ظا',
+    alpha: 'ألفا', beta: 'بيتا', theta: 'ثيتا', lambda: 'لامدا', Delta: 'دلتا',
+  };
+  result = result
+    .replace(/\\%/g, '%')
+    .replace(/\\([a-zA-Z]+)/g, (m, name: string) => (name in commands ? ` ${commands[name]} ` : ' '))
+    .replace(/[{}]/g, ' ');
+
+  return result
+    .replace(/(\d(?:[\d.]*\d)?)\s*%/g, `$1 ${w.percent}`)
+    .replace(/°/g, ` ${w.degree} `)
+    .replace(/(?<![\d.])(\d+)\s*\/\s*(\d+)(?![\d.])/g, (_m, a: string, b: string) => ` ${fractionToWords(Number(a), Number(b), dialect)} `)
+    .replace(/\s*\/\s*/g, ` ${w.over} `)
+    .replace(/×/g, ` ${w.times} `)
+    .replace(/(\d)\s*\*\s*(?=\d)/g, `$1 ${w.times} `)
+    .replace(/÷/g, ` ${w.divide} `)
+    .replace(/≠/g, ` ${w.notEquals} `)
+    .replace(/≤|<=/g, ` ${w.lessEq} `)
+    .replace(/≥|>=/g, ` ${w.greaterEq} `)
+    .replace(/≈/g, ` ${w.approx} `)
+    .replace(/±/g, ` ${w.plusMinus} `)
+    .replace(/π/g, ` ${w.pi} `)
+    .replace(/∞/g, ` ${w.infinity} `)
+    .replace(/</g, ` ${w.less} `)
+    .replace(/>/g, ` ${w.greater} `)
+    .replace(/=/g, ` ${w.equals} `)
+    .replace(/\+/g, ` ${w.plus} `);
+}
+
+/**
+ * Remaining digits → words (decimals first, then integers)
+ */
+export function verbalizeNumbers(text: string, dialect: SpeechDialect = 'egyptian'): string {
+  return text
+    .replace(/(\d)[,٬](?=\d{3}(?!\d))/g, '$1')
+    .replace(/(\d+)\.(\d+)/g, (_m, integer: string, fraction: string) => ` ${decimalToWords(integer, fraction, dialect)} `)
+    .replace(/\d+/g, digits => ` ${digits.length > 12 ? readDigits(digits, dialect) : numberToWords(Number(digits), dialect)} `);
+}
+
+/**
+ * The whole pipeline (without the pronunciation lexicon, see pronunciation.service)
+ */
+export function normalizeForSpeech(text: string, dialect: SpeechDialect = 'egyptian'): string {
+  let result = unifyDigits(text);
+  result = unwrapLatex(result);
+  result = expandAbbreviations(result);
+  result = expandUnits(result);
+  result = verbalizeMath(result, dialect);
+  result = verbalizeNumbers(result, dialect);
+
+  return result
+    .replace(/[\\*]/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s+([.,،؛!?؟:])/g, '$1')
+    .replace(/ *\n */g, '\n')
+    .trim();
+}
+
+// ============= Helpers =============
+
+function fractionPhrase(numerator: string, denominator: string, dialect: SpeechDialect): string {
+  const a = numerator.trim();
+  const b = denominator.trim();
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) {
+    return fractionToWords(Number(a), Number(b), dialect);
+  }
+  return `${a} ${DIALECTS[dialect].words.over} ${b}`;
+}
+
+function powerPhrase(exponent: string, w: DialectWords['words']): string {
+  if (exponent === '2') return w.squared;
+  if (exponent === '3') return w.cubed;
+  return `${w.power} ${exponent}`;
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
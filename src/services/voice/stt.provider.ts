@@ -0,0 +1,167 @@
+// src/services/voice/stt.provider.ts
+// Pluggable speech-to-text engines - OpenAI Whisper API, or whisper.cpp running on the server
+
+import axios from 'axios';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../../config';
+import { videoRenderer } from '../../core/video/video.renderer';
+
+const execFileAsync = promisify(execFile);
+
+// ============= TYPES =============
+
+export type STTProviderName = 'openai' | 'local';
+
+export interface STTOptions {
+  /** ISO-639-1, e.g. 'ar' */
+  language: string;
+  /** Words the speaker is likely to say (lesson title, key terms) - improves spelling of curriculum vocabulary */
+  prompt?: string;
+  mimeType: string;
+}
+
+export interface STTTranscript {
+  text: string;
+  language: string;
+  /** Seconds, when the engine reports it */
+  duration: number | null;
+}
+
+export interface STTProvider {
+  readonly name: STTProviderName;
+  /** USD per minute of audio, for the usage tracker */
+  readonly costPerMinute: number;
+  isAvailable(): Promise<boolean>;
+  transcribe(audioPath: string, options: STTOptions): Promise<STTTranscript>;
+}
+
+export class STTProviderError extends Error {
+  constructor(
+    readonly provider: STTProviderName,
+    message: string
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'STTProviderError';
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 60000;
+
+// ============= OPENAI WHISPER =============
+
+export class WhisperAPIProvider implements STTProvider {
+  readonly name = 'openai' as const;
+  readonly costPerMinute = 0.006;
+
+  async isAvailable(): Promise<boolean> {
+    return !!config.OPENAI_API_KEY && !config.MOCK_MODE;
+  }
+
+  async transcribe(audioPath: string, options: STTOptions): Promise<STTTranscript> {
+    const audio = await fs.readFile(audioPath);
+
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(audio)], { type: options.mimeType }), path.basename(audioPath));
+    form.append('model', config.WHISPER_MODEL);
+    form.append('language', options.language);
+    form.append('response_format', 'verbose_json');
+    if (options.prompt) form.append('prompt', options.prompt);
+
+    try {
+      const response = await axios.post<{ text?: string; duration?: number }>('https://api.openai.com/v1/audio/transcriptions', form, {
+        headers: { 'Authorization': `Bearer ${config.OPENAI_API_KEY}` },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+
+      return {
+        text: String(response.data?.text || '').trim(),
+        language: options.language,
+        duration: typeof response.data?.duration === 'number' ? response.data.duration : null,
+      };
+    } catch (error: any) {
+      const status = error.response?.status;
+      const detail = error.response?.data?.error?.message || error.message;
+      throw new STTProviderError(this.name, `${status || 'network'} ${detail}`.slice(0, 300));
+    }
+  }
+}
+
+// ============= LOCAL (WHISPER.CPP) =============
+
+/**
+ * whisper.cpp CLI on the server: slower than the API but free and private,
+ * and keeps voice questions working when the API is out or not configured.
+ */
+export class WhisperCppProvider implements STTProvider {
+  readonly name = 'local' as const;
+  readonly costPerMinute = 0;
+
+  private readonly binary = config.WHISPER_CPP_BINARY;
+  private available: Promise<boolean> | null = null;
+
+  isAvailable(): Promise<boolean> {
+    if (!this.available) {
+      this.available = this.detect();
+    }
+    return this.available;
+  }
+
+  async transcribe(audioPath: string, options: STTOptions): Promise<STTTranscript> {
+    const base = audioPath.replace(/\.[^.]+$/, '') + '.stt';
+    const wavPath = `${base}.wav`;
+
+    try {
+      await videoRenderer.convertToWav16k(audioPath, wavPath);
+
+      const args = ['-m', config.WHISPER_CPP_MODEL || '', '-f', wavPath, '-l', options.language, '-nt', '-otxt', '-of', base];
+      if (options.prompt) args.push('--prompt', options.prompt);
+      await execFileAsync(this.binary, args, { timeout: REQUEST_TIMEOUT_MS * 2, maxBuffer: 10 * 1024 * 1024 });
+
+      const text = await fs.readFile(`${base}.txt`, 'utf-8');
+      return {
+        text: text.replace(/\s+/g, ' ').trim(),
+        language: options.language,
+        duration: await videoRenderer.probeDuration(wavPath),
+      };
+    } catch (error: any) {
+      const details = String(error.stderr || error.message || '').trim().split('\n').slice(-2).join(' ');
+      throw new STTProviderError(this.name, details.slice(0, 300));
+    } finally {
+      await fs.rm(wavPath, { force: true }).catch(() => undefined);
+      await fs.rm(`${base}.txt`, { force: true }).catch(() => undefined);
+    }
+  }
+
+  private async detect(): Promise<boolean> {
+    if (!config.WHISPER_CPP_MODEL) return false;
+    try {
+      await fs.access(config.WHISPER_CPP_MODEL);
+      await execFileAsync(this.binary, ['--help'], { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// ============= SELECTION =============
+
+const PROVIDER_FACTORIES: Record<STTProviderName, () => STTProvider> = {
+  openai: () => new WhisperAPIProvider(),
+  local: () => new WhisperCppProvider(),
+};
+
+/**
+ * Providers in the configured failover order (unknown names are ignored)
+ */
+export function createSTTProviders(order: string = config.STT_PROVIDERS): STTProvider[] {
+  const names = order
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name, index, all): name is STTProviderName => name in PROVIDER_FACTORIES && all.indexOf(name) === index);
+
+  return names.map(name => PROVIDER_FACTORIES[name]());
+}
@@ -0,0 +1,243 @@
+// src/services/voice/stt.service.ts
+// الوظيفة: تحويل أسئلة الطلاب الصوتية لنص - حفظ التسجيل، والتحويل تلقائياً للمحرك التالي لو المحرك الأول فشل
+// التسجيلات بتتمسح بعد STT_RETENTION_DAYS يوم، والاستهلاك بيتسجل في قاعدة البيانات
+
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../../config';
+import { AppError, ValidationError } from '../../utils/errors';
+import { videoRenderer } from '../../core/video/video.renderer';
+import { createSTTProviders, STTProviderError, type STTProvider, type STTProviderName } from './stt.provider';
+import { voiceUsageStore } from './voice-usage.store';
+
+/** Where a voice question's recording lives; stored on ChatMessage.metadata.audio */
+export interface AudioReference {
+  /** Relative to the voice questions directory: <userId>/<file> */
+  file: string;
+  mimeType: string;
+  size: number;
+  duration: number | null;
+}
+
+export interface VoiceTranscript {
+  text: string;
+  language: string;
+  provider: STTProviderName;
+  audio: AudioReference;
+}
+
+export interface TranscribeOptions {
+  language?: string;
+  prompt?: string;
+}
+
+// MediaRecorder in Chrome/Firefox records webm/ogg, Safari records mp4
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/flac': 'flac',
+};
+
+export const VOICE_QUESTIONS_DIR = path.join(process.cwd(), 'temp', 'voice-questions');
+
+export class STTService {
+  private readonly providers: STTProvider[];
+
+  constructor() {
+    this.providers = createSTTProviders();
+    if (this.providers.length === 0) {
+      console.warn('⚠️ STT_PROVIDERS has no known providers - voice questions are disabled');
+    }
+  }
+
+  get maxUploadBytes(): number {
+    return config.STT_MAX_UPLOAD_MB * 1024 * 1024;
+  }
+
+  isSupportedType(mimeType: string): boolean {
+    return this.baseType(mimeType) in EXTENSIONS;
+  }
+
+  /**
+   * Save a student's recording and transcribe it with the first provider that works.
+   * The recording is kept only when a transcript comes back.
+   */
+  async transcribe(
+    audio: Buffer,
+    mimeType: string,
+    userId: string,
+    options: TranscribeOptions = {}
+  ): Promise<VoiceTranscript> {
+    const type = this.baseType(mimeType);
+    if (!(type in EXTENSIONS)) {
+      throw new ValidationError(`Unsupported audio type "${mimeType}" - use ${Object.keys(EXTENSIONS).join(', ')}`);
+    }
+    if (audio.length === 0) {
+      throw new ValidationError('The recording is empty');
+    }
+    if (audio.length > this.maxUploadBytes) {
+      throw new ValidationError(`The recording is larger than ${config.STT_MAX_UPLOAD_MB}MB`);
+    }
+
+    const file = path.join(userId, `${Date.now()}-${uuidv4().slice(0, 8)}.${EXTENSIONS[type]}`);
+    const audioPath = path.join(VOICE_QUESTIONS_DIR, file);
+    await fs.mkdir(path.dirname(audioPath), { recursive: true });
+    await fs.writeFile(audioPath, audio);
+
+    try {
+      const probed = await videoRenderer.probeDuration(audioPath);
+      if (probed && probed > config.STT_MAX_SECONDS) {
+        throw new ValidationError(`The recording is longer than ${config.STT_MAX_SECONDS} seconds`);
+      }
+
+      const language = options.language || 'ar';
+      const { transcript, provider } = await this.runProviders(audioPath, { language, prompt: options.prompt, mimeType: type });
+      if (!transcript.text) {
+        throw new ValidationError('No speech was recognized in the recording');
+      }
+
+      const duration = transcript.duration ?? probed;
+      await this.recordSuccess(provider, duration || 0);
+
+      return {
+        text: transcript.text,
+        language: transcript.language,
+        provider: provider.name,
+        audio: { file: file.split(path.sep).join('/'), mimeType: type, size: audio.length, duration },
+      };
+    } catch (error) {
+      await fs.rm(audioPath, { force: true }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Absolute path of a stored recording (null if the reference points outside the directory)
+   */
+  resolveAudioPath(reference: AudioReference | { file?: string } | null | undefined): string | null {
+    if (!reference?.file) return null;
+    const resolved = path.resolve(VOICE_QUESTIONS_DIR, reference.file);
+    return resolved.startsWith(VOICE_QUESTIONS_DIR + path.sep) ? resolved : null;
+  }
+
+  /**
+   * Delete recordings older than the retention period (STT_RETENTION_DAYS)
+   */
+  async cleanupRecordings(maxAgeDays: number = config.STT_RETENTION_DAYS): Promise<number> {
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    let deletedCount = 0;
+
+    try {
+      const userDirs = await fs.readdir(VOICE_QUESTIONS_DIR, { withFileTypes: true }).catch(() => []);
+
+      for (const userDir of userDirs) {
+        if (!userDir.isDirectory()) continue;
+        const dirPath = path.join(VOICE_QUESTIONS_DIR, userDir.name);
+        const files = await fs.readdir(dirPath);
+
+        for (const file of files) {
+          const filePath = path.join(dirPath, file);
+          const stats = await fs.stat(filePath);
+          if (stats.isFile() && stats.mtime.getTime() < cutoff) {
+            await fs.rm(filePath, { force: true });
+            deletedCount++;
+          }
+        }
+
+        if (files.length > 0 && (await fs.readdir(dirPath)).length === 0) {
+          await fs.rmdir(dirPath).catch(() => undefined);
+        }
+      }
+
+      if (deletedCount > 0) {
+        console.log(`🧹 Deleted ${deletedCount} voice question recordings older than ${maxAgeDays} days`);
+      }
+    } catch (error) {
+      console.error('❌ Voice recordings cleanup error:', error);
+    }
+
+    return deletedCount;
+  }
+
+  /**
+   * Usage and cost of the current month per provider
+   */
+  async getUsageStats() {
+    const usage = await voiceUsageStore.list('stt', this.providers.map(provider => provider.name));
+    const providers = this.providers.map(provider => {
+      const used = usage.get(provider.name)!;
+      return {
+        provider: provider.name,
+        requests: used.requests,
+        failures: used.failures,
+        minutes: Number((used.seconds / 60).toFixed(2)),
+        cost: `$${used.cost.toFixed(4)}`,
+        lastError: used.lastError,
+      };
+    });
+
+    return { order: this.providers.map(provider => provider.name), month: voiceUsageStore.currentMonth(), providers };
+  }
+
+  // ============= Helpers =============
+
+  private async runProviders(
+    audioPath: string,
+    options: { language: string; prompt?: string; mimeType: string }
+  ) {
+    const errors: string[] = [];
+
+    for (const provider of this.providers) {
+      if (!await provider.isAvailable()) {
+        errors.push(`${provider.name}: not configured`);
+        continue;
+      }
+
+      try {
+        const transcript = await provider.transcribe(audioPath, options);
+        return { transcript, provider };
+      } catch (error: any) {
+        const failure = error instanceof STTProviderError ? error : new STTProviderError(provider.name, error.message);
+        await this.recordFailure(provider.name, failure.message);
+        errors.push(failure.message);
+        console.warn(`⚠️ STT ${provider.name} failed, trying next provider`);
+      }
+    }
+
+    console.error(`❌ All STT providers failed - ${errors.join('; ') || 'none configured'}`);
+    throw new AppError('Voice questions are unavailable right now, please type your question', 503);
+  }
+
+  private async recordSuccess(provider: STTProvider, seconds: number): Promise<void> {
+    try {
+      await voiceUsageStore.record('stt', provider.name, { seconds, cost: (seconds / 60) * provider.costPerMinute });
+    } catch (error: any) {
+      console.error(`❌ Failed to record STT usage for ${provider.name}:`, error.message);
+    }
+  }
+
+  private async recordFailure(name: STTProviderName, message: string): Promise<void> {
+    try {
+      await voiceUsageStore.record('stt', name, { failed: true, lastError: message });
+    } catch (error: any) {
+      console.error(`❌ Failed to record STT failure for ${name}:`, error.message);
+    }
+  }
+
+  private baseType(mimeType: string): string {
+    return mimeType.split(';')[0].trim().toLowerCase();
+  }
+}
+
+// Export singleton instance
+export const sttService = new STTService();
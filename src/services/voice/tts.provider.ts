@@ -0,0 +1,302 @@
+// src/services/voice/tts.provider.ts
+// Pluggable text-to-speech engines - ElevenLabs, OpenAI TTS, or a local CLI voice (espeak-ng / Piper)
+
+import axios from 'axios';
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import { config } from '../../config';
+import { videoRenderer } from '../../core/video/video.renderer';
+
+const execFileAsync = promisify(execFile);
+
+// ============= TYPES =============
+
+export type TTSProviderName = 'elevenlabs' | 'openai' | 'local';
+
+export type TTSErrorKind = 'quota' | 'auth' | 'rate_limit' | 'unavailable' | 'failed';
+
+export interface VoiceProfile {
+  ageGroup: 'primary' | 'preparatory' | 'secondary';
+  gender: 'male' | 'female';
+}
+
+export interface ElevenLabsVoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style: number;
+  use_speaker_boost: boolean;
+}
+
+export interface TTSOptions {
+  voice: string;
+  /** ElevenLabs only */
+  modelId?: string;
+  settings?: Partial<ElevenLabsVoiceSettings>;
+}
+
+export interface TTSProvider {
+  readonly name: TTSProviderName;
+  /** USD per 1000 characters, for the usage tracker */
+  readonly costPer1kChars: number;
+  /** Characters per month before the provider is skipped (0 = unlimited) */
+  readonly monthlyCharLimit: number;
+  isAvailable(): Promise<boolean>;
+  voiceFor(profile: VoiceProfile): string;
+  /** Write MP3 audio for `text` to `outputPath` */
+  synthesize(text: string, outputPath: string, options: TTSOptions): Promise<void>;
+}
+
+export class TTSProviderError extends Error {
+  constructor(
+    readonly provider: TTSProviderName,
+    readonly kind: TTSErrorKind,
+    message: string
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'TTSProviderError';
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 60000;
+
+/**
+ * Map an HTTP failure to the error kinds failover cares about
+ */
+function classifyHttpError(provider: TTSProviderName, error: any): TTSProviderError {
+  const status: number | undefined = error.response?.status;
+  if (!status) {
+    // No response at all: DNS, timeout, connection refused
+    return new TTSProviderError(provider, 'unavailable', error.message || 'network error');
+  }
+
+  let body = '';
+  try {
+    const data = error.response.data;
+    if (Buffer.isBuffer(data)) body = data.toString('utf-8');
+    else if (typeof data === 'string') body = data;
+    else if (data) body = JSON.stringify(data);
+  } catch {
+    // Unreadable body - the status is enough
+  }
+
+  const message = `${status} ${body || error.message}`.slice(0, 300);
+  if (/quota|insufficient_quota|quota_exceeded|exceeds your/i.test(body)) {
+    return new TTSProviderError(provider, 'quota', message);
+  }
+  if (status === 401 || status === 403) return new TTSProviderError(provider, 'auth', message);
+  if (status === 429) return new TTSProviderError(provider, 'rate_limit', message);
+  return new TTSProviderError(provider, 'failed', message);
+}
+
+// ============= ELEVENLABS =============
+
+export class ElevenLabsTTSProvider implements TTSProvider {
+  readonly name = 'elevenlabs' as const;
+  readonly costPer1kChars = 0.3;
+  readonly monthlyCharLimit = config.ELEVENLABS_MONTHLY_CHARS;
+
+  private readonly apiKey = config.ELEVENLABS_API_KEY || '';
+  private readonly defaultVoiceId = config.ELEVENLABS_VOICE_ID || 'TX3LPaxmHKxFdv7VOQHJ';
+
+  async isAvailable(): Promise<boolean> {
+    return !!this.apiKey;
+  }
+
+  voiceFor(profile: VoiceProfile): string {
+    // خريطة الأصوات حسب العمر والجنس
+    const voiceMap: Record<string, string | undefined> = {
+      'primary-male': process.env.VOICE_ID_CHILD_MALE,
+      'primary-female': process.env.VOICE_ID_CHILD_FEMALE,
+      'preparatory-male': process.env.VOICE_ID_TEEN_MALE,
+      'preparatory-female': process.env.VOICE_ID_TEEN_FEMALE,
+      'secondary-male': process.env.VOICE_ID_ADULT_MALE,
+      'secondary-female': process.env.VOICE_ID_ADULT_FEMALE,
+    };
+    return voiceMap[`${profile.ageGroup}-${profile.gender}`] || this.defaultVoiceId;
+  }
+
+  async synthesize(text: string, outputPath: string, options: TTSOptions): Promise<void> {
+    try {
+      const response = await axios.post(
+        `https://api.elevenlabs.io/v1/text-to-speech/${options.voice}`,
+        {
+          text,
+          model_id: options.modelId || config.ELEVENLABS_MODEL_ID,
+          voice_settings: {
+            stability: config.ELEVENLABS_STABILITY,
+            similarity_boost: config.ELEVENLABS_SIMILARITY_BOOST,
+            style: parseFloat(process.env.ELEVENLABS_STYLE || '0.5'),
+            use_speaker_boost: process.env.ELEVENLABS_USE_SPEAKER_BOOST === 'true',
+            ...options.settings,
+          },
+        },
+        {
+          headers: {
+            'Accept': 'audio/mpeg',
+            'xi-api-key': this.apiKey,
+            'Content-Type': 'application/json',
+          },
+          responseType: 'arraybuffer',
+          timeout: REQUEST_TIMEOUT_MS,
+        }
+      );
+      await fs.writeFile(outputPath, Buffer.from(response.data));
+    } catch (error: any) {
+      throw classifyHttpError(this.name, error);
+    }
+  }
+}
+
+// ============= OPENAI =============
+
+export class OpenAITTSProvider implements TTSProvider {
+  readonly name = 'openai' as const;
+  readonly costPer1kChars = config.OPENAI_TTS_MODEL.includes('hd') ? 0.03 : 0.015;
+  readonly monthlyCharLimit = config.OPENAI_TTS_MONTHLY_CHARS;
+
+  // The speech endpoint accepts up to 4096 characters per request
+  private readonly MAX_INPUT = 4000;
+
+  async isAvailable(): Promise<boolean> {
+    return !!config.OPENAI_API_KEY && !config.MOCK_MODE;
+  }
+
+  voiceFor(profile: VoiceProfile): string {
+    if (config.OPENAI_TTS_VOICE) return config.OPENAI_TTS_VOICE;
+    if (profile.gender === 'female') return profile.ageGroup === 'primary' ? 'shimmer' : 'nova';
+    return profile.ageGroup === 'primary' ? 'fable' : 'onyx';
+  }
+
+  async synthesize(text: string, outputPath: string, options: TTSOptions): Promise<void> {
+    const parts: Buffer[] = [];
+    for (const chunk of this.chunk(text)) {
+      try {
+        const response = await axios.post(
+          'https://api.openai.com/v1/audio/speech',
+          { model: config.OPENAI_TTS_MODEL, voice: options.voice, input: chunk, response_format: 'mp3' },
+          {
+            headers: { 'Authorization': `Bearer ${config.OPENAI_API_KEY}`, 'Content-Type': 'application/json' },
+            responseType: 'arraybuffer',
+            timeout: REQUEST_TIMEOUT_MS,
+          }
+        );
+        parts.push(Buffer.from(response.data));
+      } catch (error: any) {
+        throw classifyHttpError(this.name, error);
+      }
+    }
+    // MP3 frames are self-contained, so the parts can simply be appended
+    await fs.writeFile(outputPath, Buffer.concat(parts));
+  }
+
+  private chunk(text: string): string[] {
+    if (text.length <= this.MAX_INPUT) return [text];
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const sentence of text.split(/(?<=[.!?؟])\s+/)) {
+      if (current && current.length + sentence.length + 1 > this.MAX_INPUT) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+      while (current.length > this.MAX_INPUT) {
+        chunks.push(current.slice(0, this.MAX_INPUT));
+        current = current.slice(this.MAX_INPUT);
+      }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+  }
+}
+
+// ============= LOCAL (OFFLINE) =============
+
+/**
+ * CLI voice on the server itself: robotic next to ElevenLabs, but free, private
+ * and always there, so narration keeps playing when the paid APIs are out.
+ */
+export class LocalTTSProvider implements TTSProvider {
+  readonly name = 'local' as const;
+  readonly costPer1kChars = 0;
+  readonly monthlyCharLimit = 0;
+
+  private readonly engine = config.LOCAL_TTS_ENGINE;
+  private readonly binary = config.LOCAL_TTS_BINARY || config.LOCAL_TTS_ENGINE;
+  private available: Promise<boolean> | null = null;
+
+  isAvailable(): Promise<boolean> {
+    if (!this.available) {
+      this.available = this.detect();
+    }
+    return this.available;
+  }
+
+  voiceFor(profile: VoiceProfile): string {
+    // Piper voices are whole model files; espeak-ng has Arabic variants
+    if (this.engine === 'piper') return config.PIPER_MODEL || '';
+    return profile.gender === 'female' ? 'ar+f3' : 'ar';
+  }
+
+  async synthesize(text: string, outputPath: string, options: TTSOptions): Promise<void> {
+    const wavPath = outputPath.replace(/\.[^.]+$/, '') + '.wav';
+
+    const args = this.engine === 'piper'
+      ? ['--model', options.voice || config.PIPER_MODEL || '', '--output_file', wavPath]
+      : ['-v', options.voice || 'ar', '-s', '140', '-w', wavPath, '--stdin'];
+
+    try {
+      await this.runWithInput(args, text);
+      await videoRenderer.convertToMp3(wavPath, outputPath);
+    } catch (error: any) {
+      throw new TTSProviderError(this.name, 'failed', error.message);
+    } finally {
+      await fs.rm(wavPath, { force: true }).catch(() => undefined);
+    }
+  }
+
+  private async detect(): Promise<boolean> {
+    if (this.engine === 'piper' && !config.PIPER_MODEL) return false;
+    try {
+      await execFileAsync(this.binary, ['--version'], { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private runWithInput(args: string[], input: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binary, args, { timeout: REQUEST_TIMEOUT_MS });
+      let stderr = '';
+      child.stderr.on('data', chunk => { stderr += chunk; });
+      child.on('error', reject);
+      child.on('close', code => {
+        if (code === 0) resolve();
+        else reject(new Error(`${this.binary} exited with ${code}: ${stderr.trim().slice(0, 300)}`));
+      });
+      child.stdin.end(input);
+    });
+  }
+}
+
+// ============= SELECTION =============
+
+const PROVIDER_FACTORIES: Record<TTSProviderName, () => TTSProvider> = {
+  elevenlabs: () => new ElevenLabsTTSProvider(),
+  openai: () => new OpenAITTSProvider(),
+  local: () => new LocalTTSProvider(),
+};
+
+/**
+ * Providers in the configured failover order (unknown names are ignored)
+ */
+export function createTTSProviders(order: string = config.TTS_PROVIDERS): TTSProvider[] {
+  const names = order
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name, index, all): name is TTSProviderName => name in PROVIDER_FACTORIES && all.indexOf(name) === index);
+
+  return names.map(name => PROVIDER_FACTORIES[name]());
+}
@@ -0,0 +1,193 @@
+// src/services/voice/tts.service.ts
+// الوظيفة: اختيار محرك الصوت وتتبع الاستهلاك والتكلفة، والتحويل تلقائياً للمحرك التالي لو حصل خطأ أو خلص الرصيد
+
+import {
+  createTTSProviders,
+  TTSProviderError,
+  type ElevenLabsVoiceSettings,
+  type TTSErrorKind,
+  type TTSProvider,
+  type TTSProviderName,
+  type VoiceProfile,
+} from './tts.provider';
+import { voiceUsageStore, type VoiceUsage, type VoiceUsageStore } from './voice-usage.store';
+
+export interface TTSRequest {
+  profile?: VoiceProfile;
+  /** Explicit voice per provider (e.g. a cloned ElevenLabs voice); otherwise picked from the profile */
+  voices?: Partial<Record<TTSProviderName, string>>;
+  /** ElevenLabs voice settings */
+  settings?: Partial<ElevenLabsVoiceSettings>;
+  modelId?: string;
+}
+
+export interface TTSResult {
+  provider: TTSProviderName;
+  voice: string;
+  characters: number;
+  cost: number;
+}
+
+// How long a provider sits out after an error of each kind
+const COOLDOWN_MS: Record<TTSErrorKind, number> = {
+  quota: 60 * 60 * 1000,
+  auth: 24 * 60 * 60 * 1000,
+  rate_limit: 60 * 1000,
+  unavailable: 5 * 60 * 1000,
+  failed: 0,
+};
+
+const DEFAULT_PROFILE: VoiceProfile = { ageGroup: 'primary', gender: 'male' };
+
+export class TTSService {
+  constructor(
+    private readonly providers: TTSProvider[] = createTTSProviders(),
+    private readonly usageStore: VoiceUsageStore = voiceUsageStore
+  ) {
+    if (this.providers.length === 0) {
+      console.warn('⚠️ TTS_PROVIDERS has no known providers - narration will use mock audio');
+    }
+  }
+
+  /**
+   * Synthesize `text` into `outputPath` with the first provider that works.
+   * Throws when every provider is unavailable or failed.
+   */
+  async synthesize(text: string, outputPath: string, request: TTSRequest = {}): Promise<TTSResult> {
+    const profile = request.profile || DEFAULT_PROFILE;
+    const errors: string[] = [];
+
+    for (const provider of this.providers) {
+      const skipReason = await this.skipReason(provider, text.length);
+      if (skipReason) {
+        errors.push(`${provider.name}: ${skipReason}`);
+        continue;
+      }
+
+      const voice = request.voices?.[provider.name] || provider.voiceFor(profile);
+      try {
+        await provider.synthesize(text, outputPath, {
+          voice,
+          modelId: request.modelId,
+          settings: request.settings,
+        });
+
+        const cost = (text.length / 1000) * provider.costPer1kChars;
+        await this.recordSuccess(provider.name, text.length, cost);
+        return { provider: provider.name, voice, characters: text.length, cost };
+      } catch (error: any) {
+        const failure = error instanceof TTSProviderError
+          ? error
+          : new TTSProviderError(provider.name, 'failed', error.message);
+        await this.recordFailure(failure);
+        errors.push(failure.message);
+        console.warn(`⚠️ TTS ${provider.name} failed (${failure.kind}), trying next provider`);
+      }
+    }
+
+    throw new Error(`All TTS providers failed - ${errors.join('; ') || 'none configured'}`);
+  }
+
+  /**
+   * Providers that would be tried right now, in order
+   */
+  async getActiveProviders(): Promise<TTSProviderName[]> {
+    const active: TTSProviderName[] = [];
+    for (const provider of this.providers) {
+      if (!await this.skipReason(provider, 0)) active.push(provider.name);
+    }
+    return active;
+  }
+
+  getProvider(name: TTSProviderName): TTSProvider | undefined {
+    return this.providers.find(provider => provider.name === name);
+  }
+
+  /**
+   * Usage and cost of the current month per provider
+   */
+  async getUsageStats() {
+    const usage = await this.usageStore.list('tts', this.providers.map(provider => provider.name));
+    const providers = this.providers.map(provider => {
+      const used = usage.get(provider.name)!;
+      return {
+        provider: provider.name,
+        requests: used.requests,
+        failures: used.failures,
+        characters: used.characters,
+        monthlyCharLimit: provider.monthlyCharLimit || null,
+        cost: `$${used.cost.toFixed(4)}`,
+        lastError: used.lastError,
+        disabledUntil: this.isCoolingDown(used) ? used.disabledUntil!.toISOString() : null,
+      };
+    });
+
+    const totalCost = Array.from(usage.values()).reduce((sum, used) => sum + used.cost, 0);
+    return {
+      order: this.providers.map(provider => provider.name),
+      month: this.usageStore.currentMonth(),
+      totalCost: `$${totalCost.toFixed(4)}`,
+      providers,
+    };
+  }
+
+  // ============= Helpers =============
+
+  private async skipReason(provider: TTSProvider, characters: number): Promise<string | null> {
+    const usage = await this.getUsage(provider.name);
+    if (this.isCoolingDown(usage)) {
+      return `cooling down after "${usage.lastError}"`;
+    }
+    if (provider.monthlyCharLimit > 0 && usage.characters + characters > provider.monthlyCharLimit) {
+      return `monthly quota of ${provider.monthlyCharLimit} characters reached`;
+    }
+    if (!await provider.isAvailable()) {
+      return 'not configured';
+    }
+    return null;
+  }
+
+  private async recordSuccess(name: TTSProviderName, characters: number, cost: number): Promise<void> {
+    try {
+      await this.usageStore.record('tts', name, { characters, cost });
+    } catch (error: any) {
+      console.error(`❌ Failed to record TTS usage for ${name}:`, error.message);
+    }
+  }
+
+  private async recordFailure(error: TTSProviderError): Promise<void> {
+    const cooldown = COOLDOWN_MS[error.kind];
+    if (cooldown > 0) {
+      console.warn(`⏸️ TTS ${error.provider} disabled for ${Math.round(cooldown / 60000)} min (${error.kind})`);
+    }
+
+    try {
+      await this.usageStore.record('tts', error.provider, {
+        failed: true,
+        lastError: error.message,
+        disabledUntil: cooldown > 0 ? new Date(Date.now() + cooldown) : undefined,
+      });
+    } catch (storeError: any) {
+      console.error(`❌ Failed to record TTS failure for ${error.provider}:`, storeError.message);
+    }
+  }
+
+  /**
+   * Usage from the database; when it can't be read the provider isn't held back
+   */
+  private async getUsage(name: TTSProviderName): Promise<VoiceUsage> {
+    try {
+      return await this.usageStore.get('tts', name);
+    } catch (error: any) {
+      console.error(`❌ Failed to read TTS usage for ${name}:`, error.message);
+      return { month: this.usageStore.currentMonth(), requests: 0, failures: 0, characters: 0, seconds: 0, cost: 0, lastError: null, disabledUntil: null };
+    }
+  }
+
+  private isCoolingDown(usage: VoiceUsage): boolean {
+    return !!usage.disabledUntil && usage.disabledUntil.getTime() > Date.now();
+  }
+}
+
+// Export singleton instance
+export const ttsService = new TTSService();
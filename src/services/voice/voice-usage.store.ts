@@ -0,0 +1,117 @@
+// src/services/voice/voice-usage.store.ts
+// استهلاك محركات الصوت في قاعدة البيانات: العدادات الشهرية والإيقاف المؤقت بعد الأخطاء
+// مشتركة بين كل نسخ السيرفر، فالحد الشهري (quota) بيتحسب صح حتى بعد إعادة التشغيل
+
+import { prisma } from '../../config/database.config';
+
+export type VoiceUsageService = 'tts' | 'stt';
+
+export interface VoiceUsage {
+  month: string;            // YYYY-MM
+  requests: number;
+  failures: number;
+  characters: number;
+  seconds: number;
+  cost: number;
+  lastError: string | null;
+  disabledUntil: Date | null;
+}
+
+export interface VoiceUsageDelta {
+  failed?: boolean;
+  characters?: number;
+  seconds?: number;
+  cost?: number;
+  lastError?: string;
+  disabledUntil?: Date;
+}
+
+const MAX_ERROR_LENGTH = 500;
+
+export class VoiceUsageStore {
+
+  /**
+   * This month's usage of a provider (zeros when it wasn't used yet)
+   */
+  async get(service: VoiceUsageService, provider: string): Promise<VoiceUsage> {
+    const month = this.currentMonth();
+    const row = await prisma.voiceProviderUsage.findUnique({
+      where: { service_provider_month: { service, provider, month } },
+    });
+    return row ? this.toUsage(row) : this.empty(month);
+  }
+
+  /**
+   * This month's usage of several providers at once
+   */
+  async list(service: VoiceUsageService, providers: string[]): Promise<Map<string, VoiceUsage>> {
+    const month = this.currentMonth();
+    const rows = await prisma.voiceProviderUsage.findMany({
+      where: { service, month, provider: { in: providers } },
+    });
+    const byProvider = new Map(rows.map(row => [row.provider, this.toUsage(row)]));
+    return new Map(providers.map(provider => [provider, byProvider.get(provider) || this.empty(month)]));
+  }
+
+  /**
+   * Count one request. Increments are atomic, so concurrent servers don't lose updates.
+   */
+  async record(service: VoiceUsageService, provider: string, delta: VoiceUsageDelta = {}): Promise<void> {
+    const month = this.currentMonth();
+    const lastError = delta.lastError?.slice(0, MAX_ERROR_LENGTH);
+
+    await prisma.voiceProviderUsage.upsert({
+      where: { service_provider_month: { service, provider, month } },
+      create: {
+        service,
+        provider,
+        month,
+        requests: 1,
+        failures: delta.failed ? 1 : 0,
+        characters: delta.characters || 0,
+        seconds: delta.seconds || 0,
+        cost: delta.cost || 0,
+        lastError: lastError ?? null,
+        disabledUntil: delta.disabledUntil ?? null,
+      },
+      update: {
+        requests: { increment: 1 },
+        ...(delta.failed ? { failures: { increment: 1 } } : {}),
+        ...(delta.characters ? { characters: { increment: delta.characters } } : {}),
+        ...(delta.seconds ? { seconds: { increment: delta.seconds } } : {}),
+        ...(delta.cost ? { cost: { increment: delta.cost } } : {}),
+        ...(lastError !== undefined ? { lastError } : {}),
+        ...(delta.disabledUntil ? { disabledUntil: delta.disabledUntil } : {}),
+      },
+    });
+  }
+
+  currentMonth(): string {
+    return new Date().toISOString().slice(0, 7);
+  }
+
+  // ============= Helpers =============
+
+  private toUsage(row: {
+    month: string; requests: number; failures: number; characters: number; seconds: number;
+    cost: number; lastError: string | null; disabledUntil: Date | null;
+  }): VoiceUsage {
+    return {
+      month: row.month,
+      requests: row.requests,
+      failures: row.failures,
+      characters: row.characters,
+      seconds: row.seconds,
+      cost: row.cost,
+      lastError: row.lastError,
+      disabledUntil: row.disabledUntil,
+    };
+  }
+
+  private empty(month: string): VoiceUsage {
+    return { month, requests: 0, failures: 0, characters: 0, seconds: 0, cost: 0, lastError: null, disabledUntil: null };
+  }
+}
+
+// Export singleton instance
+export const voiceUsageStore = new VoiceUsageStore();
@@ -1,11 +1,18 @@
 // src/services/voice/voice.service.ts
-// الوظيفة: تحويل النص لصوت باستخدام ElevenLabs API
+// الوظيفة: تحويل النص لصوت (ElevenLabs أو OpenAI أو صوت محلي - راجع tts.service)
 
 import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { config } from '../../config';
+import { prisma } from '../../config/database.config';
+import { captionService, type CaptionTrack } from './caption.service';
+import { videoRenderer } from '../../core/video/video.renderer';
+import { ttsService } from './tts.service';
+import { pronunciationService } from './pronunciation.service';
+import type { SpeechDialect } from './speech.normalizer';
+import type { TTSProviderName, VoiceProfile } from './tts.provider';
 
 export interface VoiceOptions {
   voiceId?: string;
@@ -14,6 +21,12 @@ export interface VoiceOptions {
   similarityBoost?: number;
   style?: number;
   useSpeakerBoost?: boolean;
+  /** Picks the voice of every provider that has no explicit voiceId */
+  profile?: VoiceProfile;
+  /** How numbers and math are read out (default SPEECH_DIALECT) */
+  dialect?: SpeechDialect;
+  /** Adds the subject's own pronunciation entries */
+  subjectId?: string;
 }
 
 export interface VoiceGenerationResult {
@@ -21,10 +34,15 @@ export interface VoiceGenerationResult {
   audioUrl?: string;
   audioPath?: string;
   duration?: number;
+  captions?: CaptionTrack;
+  provider?: TTSProviderName;
   error?: string;
   cached?: boolean;
 }
 
+// Fallback when the audio can't be measured (Egyptian narration ≈ 150 words/min)
+const WORDS_PER_SECOND = 2.5;
+
 export class VoiceService {
   private readonly apiKey: string;
   private readonly baseUrl = 'https://api.elevenlabs.io/v1';
@@ -42,7 +60,7 @@ export class VoiceService {
   this.ensureCacheDirectory();
   
   if (!this.apiKey) {
-    console.warn('⚠️ ElevenLabs API key not configured');
+    console.warn('⚠️ ElevenLabs API key not configured - using fallback TTS providers');
   } else {
     console.log('✅ VoiceService initialized with ElevenLabs');
   }
@@ -56,15 +74,15 @@ export class VoiceService {
     options?: VoiceOptions
   ): Promise<VoiceGenerationResult> {
     try {
-      if (!this.apiKey) {
-        return {
-          success: false,
-          error: 'ElevenLabs API key not configured'
-        };
-      }
+      // Math, numbers and lexicon words spelled the way they should be heard;
+      // captions keep the original text
+      const spokenText = await pronunciationService.prepare(text, {
+        dialect: options?.dialect,
+        subjectId: options?.subjectId
+      });
       
       // Check cache first
-      const cacheKey = this.generateCacheKey(text, options);
+      const cacheKey = this.generateCacheKey(spokenText, options);
       const cachedFile = await this.getCachedAudio(cacheKey);
       
       if (cachedFile) {
@@ -73,54 +91,42 @@ export class VoiceService {
           success: true,
           audioPath: cachedFile,
           audioUrl: `/audio/${path.basename(cachedFile)}`,
+          ...await this.generateCaptions(text, cachedFile, cacheKey),
           cached: true
         };
       }
       
-      // Prepare request
-      const voiceId = options?.voiceId || this.defaultVoiceId;
-      const url = `${this.baseUrl}/text-to-speech/${voiceId}`;
-      
-      const data = {
-        text: text,
-        model_id: options?.modelId || this.defaultModelId,
-        voice_settings: {
-  stability: options?.stability ?? parseFloat(process.env.ELEVENLABS_STABILITY || '0.75'),
-  similarity_boost: options?.similarityBoost ?? parseFloat(process.env.ELEVENLABS_SIMILARITY_BOOST || '0.85'),
-  style: options?.style ?? parseFloat(process.env.ELEVENLABS_STYLE || '0.5'),
-  use_speaker_boost: options?.useSpeakerBoost ?? (process.env.ELEVENLABS_USE_SPEAKER_BOOST === 'true')
-}
-      };
-      
-      // Make API request
-      console.log('🎙️ Generating speech with ElevenLabs...');
-      const response = await axios.post(url, data, {
-        headers: {
-          'Accept': 'audio/mpeg',
-          'xi-api-key': this.apiKey,
-          'Content-Type': 'application/json'
+      // ElevenLabs first, then whatever TTS_PROVIDERS lists after it
+      const audioPath = path.join(this.cacheDir, `${cacheKey}.mp3`);
+      const tts = await ttsService.synthesize(spokenText, audioPath, {
+        profile: options?.profile,
+        voices: options?.voiceId ? { elevenlabs: options.voiceId } : undefined,
+        modelId: options?.modelId,
+        settings: {
+          ...(options?.stability !== undefined && { stability: options.stability }),
+          ...(options?.similarityBoost !== undefined && { similarity_boost: options.similarityBoost }),
+          ...(options?.style !== undefined && { style: options.style }),
+          ...(options?.useSpeakerBoost !== undefined && { use_speaker_boost: options.useSpeakerBoost }),
         },
-        responseType: 'arraybuffer'
       });
       
-      // Save audio file
-      const audioPath = await this.saveAudioFile(response.data, cacheKey);
-      
-      console.log('✅ Speech generated successfully');
+      console.log(`✅ Speech generated successfully (${tts.provider})`);
       
       return {
         success: true,
         audioPath,
         audioUrl: `/audio/${path.basename(audioPath)}`,
+        provider: tts.provider,
+        ...await this.generateCaptions(text, audioPath, cacheKey),
         cached: false
       };
       
     } catch (error: any) {
-      console.error('❌ Voice generation error:', error.response?.data || error.message);
+      console.error('❌ Voice generation error:', error.message);
       
       return {
         success: false,
-        error: error.response?.data?.detail || error.message || 'Voice generation failed'
+        error: error.message || 'Voice generation failed'
       };
     }
   }
@@ -253,6 +259,30 @@ export class VoiceService {
     }
   }
   
+  /**
+   * ملفات الترجمة (WebVTT + SRT) بجانب ملف الصوت تحت /audio
+   */
+  async generateCaptions(
+    text: string,
+    audioPath: string,
+    baseName: string = path.basename(audioPath, path.extname(audioPath))
+  ): Promise<{ duration?: number; captions?: CaptionTrack }> {
+    try {
+      const duration = await videoRenderer.probeDuration(audioPath)
+        ?? Math.max(1, text.split(/\s+/).length / WORDS_PER_SECOND);
+
+      const { words } = await this.generateSyncData(text, duration);
+      const cues = captionService.buildCues(words);
+      const captions = await captionService.saveTrack(cues, this.cacheDir, baseName, '/audio');
+
+      return { duration, captions };
+    } catch (error: any) {
+      // Captions are a bonus; the audio is still usable without them
+      console.error('❌ Caption generation error:', error.message);
+      return {};
+    }
+  }
+
   // ============= PRIVATE HELPER METHODS =============
   
   private cleanTextForSpeech(text: string): string {
@@ -286,12 +316,6 @@ export class VoiceService {
     return null;
   }
   
-  private async saveAudioFile(data: Buffer, cacheKey: string): Promise<string> {
-    const filePath = path.join(this.cacheDir, `${cacheKey}.mp3`);
-    fs.writeFileSync(filePath, data);
-    return filePath;
-  }
-  
   private ensureCacheDirectory(): void {
     if (!fs.existsSync(this.cacheDir)) {
       fs.mkdirSync(this.cacheDir, { recursive: true });
@@ -350,18 +374,16 @@ export class VoiceService {
   }> {
     // تقسيم النص إلى كلمات
     const words = text.split(/\s+/).filter(word => word.length > 0);
-    const wordCount = words.length;
 
-    // حساب متوسط الوقت لكل كلمة
-    const avgTimePerWord = duration / wordCount;
+    // الوقت موزع على الكلمات حسب طولها، وآخر كلمة تنتهي مع نهاية الصوت
+    const totalChars = words.reduce((sum, word) => sum + word.length, 0) || 1;
 
     // توليد توقيتات الكلمات
     const wordTimings: Array<{ word: string; start: number; end: number }> = [];
     let currentTime = 0;
 
     for (const word of words) {
-      // تعديل الوقت حسب طول الكلمة
-      const wordDuration = avgTimePerWord * (word.length / 5); // متوسط 5 أحرف للكلمة
+      const wordDuration = duration * (word.length / totalChars);
 
       wordTimings.push({
         word,
@@ -396,19 +418,35 @@ export class VoiceService {
   }
 
   /**
-   * الحصول على معلومات الصوت المناسب للمستخدم
+   * صوت الشرح المناسب للمستخدم: المجموعة العمرية من الصف، وصوت المعلم/المعلمة من تفضيله المحفوظ
    */
-  getVoiceForUser(grade: number | null, gender: string | null): string {
-    // خريطة الأصوات حسب العمر والجنس
-    const voiceMap: Record<string, string> = {
-      'primary-male': process.env.VOICE_ID_CHILD_MALE || this.defaultVoiceId,
-      'primary-female': process.env.VOICE_ID_CHILD_FEMALE || this.defaultVoiceId,
-      'preparatory-male': process.env.VOICE_ID_TEEN_MALE || this.defaultVoiceId,
-      'preparatory-female': process.env.VOICE_ID_TEEN_FEMALE || this.defaultVoiceId,
-      'secondary-male': process.env.VOICE_ID_ADULT_MALE || this.defaultVoiceId,
-      'secondary-female': process.env.VOICE_ID_ADULT_FEMALE || this.defaultVoiceId
-    };
+  async getVoiceForUser(userId: string): Promise<VoiceProfile> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { grade: true, profile: { select: { preferences: true } } }
+    });
+    const { narratorVoice } = this.parsePreferences(user?.profile?.preferences);
+    return this.getVoiceProfile(user?.grade ?? null, narratorVoice === 'female' ? 'FEMALE' : null);
+  }
+
+  /**
+   * حفظ الصوت اللي المستخدم اختاره للشرح (ضمن Profile.preferences)
+   */
+  async setVoicePreference(userId: string, narratorVoice: VoiceProfile['gender']): Promise<void> {
+    const profile = await prisma.profile.findUnique({ where: { userId }, select: { preferences: true } });
+    const preferences = JSON.stringify({ ...this.parsePreferences(profile?.preferences), narratorVoice });
 
+    await prisma.profile.upsert({
+      where: { userId },
+      create: { userId, preferences },
+      update: { preferences }
+    });
+  }
+
+  /**
+   * المجموعة العمرية والجنس - كل محرك صوت بيختار الصوت المناسب منهم
+   */
+  getVoiceProfile(grade: number | null, gender: string | null): VoiceProfile {
     // تحديد المجموعة العمرية
     const ageGroup = !grade || grade <= 6 ? 'primary' :
                      grade <= 9 ? 'preparatory' :
@@ -417,8 +455,17 @@ export class VoiceService {
     // تحديد الجنس
     const genderKey = gender === 'FEMALE' ? 'female' : 'male';
 
-    const key = `${ageGroup}-${genderKey}`;
-    return voiceMap[key] || this.defaultVoiceId;
+    return { ageGroup, gender: genderKey };
+  }
+
+  private parsePreferences(value: string | null | undefined): Record<string, any> {
+    if (!value) return {};
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
   }
 }
 
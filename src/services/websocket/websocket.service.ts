@@ -13,17 +13,28 @@ import { openAIService } from '../ai/openai.service';
 // ============= SERVICES IMPORTS =============
 import { slideService, type SlideContent } from '../slides/slide.service';
 import { voiceService } from '../voice/voice.service';
+import { pronunciationService } from '../voice/pronunciation.service';
+import type { CaptionTrack } from '../voice/caption.service';
 import { 
   teachingAssistant, 
   type InteractionType 
 } from '../teaching/teaching-assistant.service';
 import { quizService } from '../../core/quiz/quiz.service';
+import { examService } from '../../core/quiz/exam.service';
+import { hintService } from '../../core/quiz/hint.service';
 import { ragService } from '../../core/rag/rag.service';
+import { chatService } from '../ai/chat.service';
+import { sttService } from '../voice/stt.service';
+import { AppError } from '../../utils/errors';
+import type { Citation } from '../../types/rag.types';
+import type { ExamFocusEventType } from '../../types/quiz.types';
 
 // ============= MATH IMPORTS =============
 import { mathSlideGenerator } from '../../core/video/enhanced-slide.generator';
 import { latexRenderer, type MathExpression } from '../../core/interactive/math/latex-renderer';
 
+const EXAM_FOCUS_EVENTS: ExamFocusEventType[] = ['blur', 'focus', 'hidden', 'visible', 'fullscreen_exit'];
+
 // ============= INTERFACES =============
 
 interface UserData {
@@ -45,6 +56,15 @@ interface SessionInfo {
   lastActivity?: Date; // 🆕
 }
 
+// Spoken question being received in chunks
+interface VoiceUpload {
+  mimeType: string;
+  lessonId?: string;
+  sessionId?: string;
+  chunks: Buffer[];
+  size: number;
+}
+
 // 🆕 Enhanced Student Context
 interface StudentContext {
   userId: string;
@@ -120,6 +140,8 @@ export class WebSocketService {
   private studentContexts: Map<string, StudentContext> = new Map();
   private userAchievements: Map<string, Achievement[]> = new Map();
   private heartbeatIntervals: Map<string, any> = new Map();
+  private activeChatStreams: Map<string, AbortController> = new Map(); // socketId → in-flight chat stream
+  private voiceUploads: Map<string, VoiceUpload> = new Map(); // socketId → voice question being recorded
   
   /**
    * Initialize WebSocket server with enhanced features
@@ -223,6 +245,7 @@ export class WebSocketService {
     this.startVoiceCacheCleanup();
     this.startTeachingSessionCleanup();
     this.startEmotionalMonitoring(); // 🆕
+    this.startExamTimers();
   }
   
   /**
@@ -751,10 +774,13 @@ export class WebSocketService {
           
           // Generate voice if requested
           let audioUrl: string | null = null;
+          let captions: CaptionTrack | null = null;
           if (data.options?.generateVoice !== false) {
-            const voiceResult = await voiceService.textToSpeech(teachingScript.script);
+            const subjectId = await pronunciationService.getLessonSubjectId(data.lessonId);
+            const voiceResult = await voiceService.textToSpeech(teachingScript.script, { profile: await voiceService.getVoiceForUser(user.id), subjectId });
             if (voiceResult.success) {
               audioUrl = voiceResult.audioUrl || null;
+              captions = voiceResult.captions || null;
             }
           }
           
@@ -769,6 +795,7 @@ export class WebSocketService {
             script: teachingScript.script,
             duration: teachingScript.duration,
             audioUrl,
+            captions,
             keyPoints: teachingScript.keyPoints,
             examples: teachingScript.examples,
             problem: teachingScript.problem,
@@ -857,6 +884,56 @@ export class WebSocketService {
         }
       });
       
+      socket.on('quiz_hint_requested', async (data: { attemptId: string; questionId: string }) => {
+        const user = socket.data.user as UserData;
+        if (!user) return;
+        
+        try {
+          const reveal = await hintService.revealNextHint(user.id, data.attemptId, data.questionId);
+          socket.emit('quiz_hint', reveal);
+        } catch (error: any) {
+          socket.emit('quiz_error', { message: error.message });
+        }
+      });
+      
+      // ============= EXAM MODE =============
+      
+      socket.on('exam_join', async (data: { attemptId: string }) => {
+        const user = socket.data.user as UserData;
+        if (!user) return;
+        
+        try {
+          const timer = await examService.getTimer(user.id, data.attemptId);
+          socket.emit('exam_timer', { attemptId: data.attemptId, ...timer });
+        } catch (error: any) {
+          socket.emit('exam_error', { attemptId: data.attemptId, message: error.message });
+        }
+      });
+      
+      socket.on('exam_question_opened', async (data: { attemptId: string; questionId: string }) => {
+        const user = socket.data.user as UserData;
+        if (!user) return;
+        
+        try {
+          const timer = await examService.openQuestion(user.id, data.attemptId, data.questionId);
+          socket.emit('exam_question_timer', { attemptId: data.attemptId, ...timer });
+        } catch (error: any) {
+          socket.emit('exam_error', { attemptId: data.attemptId, message: error.message });
+        }
+      });
+      
+      socket.on('exam_focus_event', async (data: { attemptId: string; type: ExamFocusEventType }) => {
+        const user = socket.data.user as UserData;
+        if (!user || !EXAM_FOCUS_EVENTS.includes(data.type)) return;
+        
+        try {
+          const result = await examService.recordFocusEvent(user.id, data.attemptId, data.type);
+          socket.emit('exam_focus_recorded', { attemptId: data.attemptId, ...result });
+        } catch (error: any) {
+          socket.emit('exam_error', { attemptId: data.attemptId, message: error.message });
+        }
+      });
+      
       // ============= 🆕 PARENT NOTIFICATION SYSTEM =============
       
       socket.on('request_parent_update', async () => {
@@ -890,7 +967,7 @@ export class WebSocketService {
       
       // ============= CHAT EVENT (ENHANCED WITH CONTEXT) =============
       
-      socket.on('chat_message', async (data: { message: string; lessonId?: string }) => {
+      socket.on('chat_message', async (data: { message: string; lessonId?: string; sessionId?: string; stream?: boolean }) => {
         if (!socket.data.authenticated) {
           socket.emit('error', {
             code: 'NOT_AUTHENTICATED',
@@ -902,6 +979,14 @@ export class WebSocketService {
         const user = socket.data.user as UserData;
         const context = this.studentContexts.get(user.id);
         
+        // A new message cancels the answer still being streamed
+        this.cancelChatStream(socket.id);
+        
+        if (data.stream) {
+          await this.streamChatAnswer(socket, user, data, context);
+          return;
+        }
+        
         try {
           // Check if this is a teaching-related question
           const teachingKeywords = ['اشرح', 'فهمني', 'مثال', 'حل', 'ازاي', 'ليه', 'ايه'];
@@ -910,6 +995,7 @@ export class WebSocketService {
           );
           
           let aiResponse: string;
+          let citations: Citation[] = [];
           
           if (isTeachingQuestion && data.lessonId) {
             // Use teaching assistant with emotional awareness
@@ -935,6 +1021,7 @@ export class WebSocketService {
             );
             
             aiResponse = ragResponse.answer;
+            citations = ragResponse.citations || [];
           }
           
           // Track question in context
@@ -947,6 +1034,7 @@ export class WebSocketService {
             message: aiResponse,
             timestamp: new Date().toISOString(),
             isTeaching: isTeachingQuestion,
+            citations,
             confidence: context?.confidence,
             suggestedFollowUp: await this.getSuggestedFollowUp(data.message, context)
           });
@@ -962,6 +1050,89 @@ export class WebSocketService {
         }
       });
       
+      // ============= 🆕 VOICE QUESTIONS =============
+      // voice_message_start → voice_message_chunk (binary, repeated) → voice_message_end
+      
+      socket.on('voice_message_start', (data: { mimeType: string; lessonId?: string; sessionId?: string }) => {
+        if (!socket.data.authenticated) {
+          socket.emit('error', {
+            code: 'NOT_AUTHENTICATED',
+            message: 'يجب تسجيل الدخول أولاً'
+          });
+          return;
+        }
+        
+        if (!data?.mimeType || !sttService.isSupportedType(data.mimeType)) {
+          socket.emit('error', {
+            code: 'VOICE_UNSUPPORTED_FORMAT',
+            message: 'صيغة التسجيل غير مدعومة'
+          });
+          return;
+        }
+        
+        this.voiceUploads.set(socket.id, {
+          mimeType: data.mimeType,
+          lessonId: data.lessonId,
+          sessionId: data.sessionId,
+          chunks: [],
+          size: 0
+        });
+      });
+      
+      socket.on('voice_message_chunk', (chunk: unknown) => {
+        const upload = this.voiceUploads.get(socket.id);
+        if (!upload) {
+          socket.emit('error', {
+            code: 'VOICE_NOT_STARTED',
+            message: 'لم يبدأ التسجيل'
+          });
+          return;
+        }
+        
+        // Only binary payloads are audio; anything else is dropped
+        if (!Buffer.isBuffer(chunk) && !(chunk instanceof ArrayBuffer) && !(chunk instanceof Uint8Array)) {
+          socket.emit('error', {
+            code: 'VOICE_INVALID_CHUNK',
+            message: 'جزء التسجيل غير صالح'
+          });
+          return;
+        }
+        
+        const buffer = Buffer.isBuffer(chunk)
+          ? chunk
+          : chunk instanceof ArrayBuffer
+            ? Buffer.from(chunk)
+            : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+        upload.chunks.push(buffer);
+        upload.size += buffer.length;
+        
+        if (upload.size > sttService.maxUploadBytes) {
+          this.voiceUploads.delete(socket.id);
+          socket.emit('error', {
+            code: 'VOICE_TOO_LARGE',
+            message: 'التسجيل طويل جداً'
+          });
+        }
+      });
+      
+      socket.on('voice_message_end', async () => {
+        const upload = this.voiceUploads.get(socket.id);
+        this.voiceUploads.delete(socket.id);
+        if (!upload) {
+          socket.emit('error', {
+            code: 'VOICE_NOT_STARTED',
+            message: 'لم يبدأ التسجيل'
+          });
+          return;
+        }
+        
+        await this.answerVoiceQuestion(socket, socket.data.user as UserData, upload);
+      });
+      
+      socket.on('voice_message_cancel', () => {
+        this.voiceUploads.delete(socket.id);
+      });
+      
       // ============= STATUS EVENT (ENHANCED) =============
       
       socket.on('get_status', () => {
@@ -981,6 +1152,7 @@ export class WebSocketService {
             math: true,
             chat: true,
             voice: true,
+            voiceQuestions: true,
             teaching: true,
             emotionalIntelligence: true,
             achievements: true,
@@ -1003,6 +1175,8 @@ export class WebSocketService {
 
       socket.on('disconnect', async (reason) => {
         console.log(`❌ DISCONNECTED: ${socket.id} - ${reason}`);
+        this.cancelChatStream(socket.id);
+        this.voiceUploads.delete(socket.id);
 
         const user = socket.data.user as UserData | undefined;
         if (user) {
@@ -1026,6 +1200,141 @@ export class WebSocketService {
     });
   }
   
+  // ============= 🆕 CHAT STREAMING =============
+  
+  /**
+   * Stream a chat answer as chat_message_chunk events, then a final ai_response
+   */
+  private async streamChatAnswer(
+    socket: Socket,
+    user: UserData,
+    data: { message: string; lessonId?: string; sessionId?: string },
+    context?: StudentContext
+  ): Promise<void> {
+    this.cancelChatStream(socket.id);
+    const controller = new AbortController();
+    this.activeChatStreams.set(socket.id, controller);
+    const streamId = `${socket.id}-${Date.now()}`;
+    let index = 0;
+    
+    try {
+      socket.emit('chat_message_start', { streamId, timestamp: new Date().toISOString() });
+      
+      const result = await chatService.streamMessage(
+        data.message,
+        { lessonId: data.lessonId, grade: user.grade },
+        user.id,
+        {
+          sessionId: data.sessionId,
+          signal: controller.signal,
+          onChunk: (delta) => socket.emit('chat_message_chunk', { streamId, index: index++, delta }),
+        }
+      );
+      
+      if (context) {
+        context.questionsAsked++;
+        context.lastInteractionTime = new Date();
+      }
+      
+      if (result.cancelled) {
+        socket.emit('chat_message_cancelled', { streamId, messageId: result.messageId });
+        return;
+      }
+      
+      socket.emit('ai_response', {
+        streamId,
+        messageId: result.messageId,
+        sessionId: result.sessionId,
+        message: result.response,
+        timestamp: new Date().toISOString(),
+        isTeaching: false,
+        streamed: true,
+        citations: result.citations,
+        confidence: context?.confidence,
+        suggestedFollowUp: await this.getSuggestedFollowUp(data.message, context)
+      });
+      
+      console.log(`💬 Streamed chat answer for ${user.email} (${result.responseTime}ms)`);
+      
+    } catch (error: any) {
+      console.error('❌ Chat stream error:', error);
+      socket.emit('error', {
+        code: 'CHAT_FAILED',
+        message: 'فشل الرد على الرسالة'
+      });
+    } finally {
+      if (this.activeChatStreams.get(socket.id) === controller) {
+        this.activeChatStreams.delete(socket.id);
+      }
+    }
+  }
+  
+  /**
+   * Abort the in-flight chat stream of a socket, if any
+   */
+  private cancelChatStream(socketId: string): void {
+    const controller = this.activeChatStreams.get(socketId);
+    if (controller) {
+      controller.abort();
+      this.activeChatStreams.delete(socketId);
+    }
+  }
+  
+  // ============= 🆕 VOICE QUESTIONS =============
+  
+  /**
+   * Transcribe a recorded question (voice_transcript), then answer it (ai_response)
+   */
+  private async answerVoiceQuestion(socket: Socket, user: UserData, upload: VoiceUpload): Promise<void> {
+    const context = this.studentContexts.get(user.id);
+    this.cancelChatStream(socket.id);
+    
+    try {
+      const result = await chatService.processVoiceMessage(
+        Buffer.concat(upload.chunks),
+        upload.mimeType,
+        { lessonId: upload.lessonId, grade: user.grade },
+        user.id,
+        {
+          sessionId: upload.sessionId,
+          onTranscript: (transcript) => socket.emit('voice_transcript', {
+            transcript,
+            timestamp: new Date().toISOString()
+          })
+        }
+      );
+      
+      if (context) {
+        context.questionsAsked++;
+        context.lastInteractionTime = new Date();
+      }
+      
+      socket.emit('ai_response', {
+        message: result.response,
+        timestamp: new Date().toISOString(),
+        isTeaching: false,
+        inputMode: 'voice',
+        transcript: result.transcript,
+        sessionId: result.sessionId,
+        citations: result.citations,
+        confidence: context?.confidence,
+        suggestedFollowUp: await this.getSuggestedFollowUp(result.transcript, context)
+      });
+      
+      console.log(`🎤 Voice question answered for ${user.email}`);
+      
+    } catch (error: any) {
+      console.error('❌ Voice question error:', error.message);
+      socket.emit('error', {
+        code: 'VOICE_FAILED',
+        message: error instanceof AppError && error.statusCode === 400
+          ? 'لم نتمكن من فهم التسجيل، حاول مرة أخرى'
+          : 'الأسئلة الصوتية غير متاحة حالياً، اكتب سؤالك',
+        details: error instanceof AppError ? error.message : undefined
+      });
+    }
+  }
+  
   // ============= 🆕 EMOTIONAL INTELLIGENCE METHODS =============
   
   /**
@@ -1486,6 +1795,21 @@ export class WebSocketService {
     }, 5 * 60 * 1000); // Every 5 minutes
   }
   
+  /**
+   * Push auto-submitted exams to the student and re-arm timers after a restart
+   */
+  private startExamTimers(): void {
+    examService.onAutoSubmit((userId, submission) => {
+      this.sendToUser(userId, 'exam_auto_submitted', submission);
+    });
+    
+    examService.resumeTimers()
+      .then(count => {
+        if (count > 0) console.log(`   ⏱️ Resumed ${count} running exam timers`);
+      })
+      .catch(error => console.error('Failed to resume exam timers:', error));
+  }
+  
   // ============= 🆕 SLIDE GENERATION EVENTS =============
 
   /**
@@ -1673,12 +1997,17 @@ export class WebSocketService {
   }
   
   private startVoiceCacheCleanup(): void {
+    // تسجيلات أسئلة الطلاب القديمة بتتمسح مرة عند التشغيل وبعدين مع الكاش
+    void sttService.cleanupRecordings();
+    
     setInterval(async () => {
       const deletedCount = await voiceService.cleanupCache(24);
       if (deletedCount > 0) {
         console.log(`🧹 Cleaned up ${deletedCount} old voice files`);
       }
       
+      await sttService.cleanupRecordings();
+      
       teachingAssistant.clearCache();
       console.log('🧹 Cleared teaching assistant cache');
     }, 6 * 60 * 60 * 1000);
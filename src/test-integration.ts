@@ -1,8 +1,22 @@
 import { prisma } from './config/database.config';
+import { llmFixtures } from './services/ai/llm-fixtures';
 import { curriculumRAGService } from './core/rag/curriculum-rag.service';
 import { studentProgressService } from './core/progress/student-progress.service';
 import { gamificationService } from './core/gamification/gamification.service';
 import { quizService } from './core/quiz/quiz.service';
+import { chatService } from './services/ai/chat.service';
+import { normalizeForSpeech, numberToWords, fractionToWords } from './services/voice/speech.normalizer';
+import { buildAdjacency, cycleIfAdded, findCycles } from './core/content/prerequisite.graph';
+import { captionService } from './services/voice/caption.service';
+import { HnswIndex } from './core/rag/hnsw.index';
+import { BM25Index } from './core/rag/bm25.index';
+import { lightStem, normalizeArabic, tokenizeArabic } from './core/rag/arabic.normalizer';
+import { vectorSearch } from './core/rag/vector.search';
+import type { SearchResult } from './types/rag.types';
+import { createRandom } from './utils/random.utils';
+import { TTSService } from './services/voice/tts.service';
+import { TTSProviderError, type TTSErrorKind, type TTSProvider, type TTSProviderName } from './services/voice/tts.provider';
+import { VoiceUsageStore, type VoiceUsage, type VoiceUsageDelta, type VoiceUsageService } from './services/voice/voice-usage.store';
 
 /**
  * Integration test for RAG system and progress tracking
@@ -11,6 +25,14 @@ async function testIntegration() {
   console.log('🧪 Starting Integration Tests...\n');
   console.log('=' .repeat(60));
   
+  // Pure checks first: they don't need the database
+  testSpeechNormalizer();
+  testPrerequisiteGraph();
+  testCaptions();
+  testHnswIndex();
+  testKeywordSearch();
+  await testTTSFailover();
+  
   try {
     // Get test data
     const testUser = await getOrCreateTestUser();
@@ -57,11 +79,21 @@ async function testIntegration() {
     // Test 7: Leaderboard
     await testLeaderboard();
     
+    // Test 8: Chat citations
+    await testChatCitations(testUser.id, testLesson);
+    
+    if (llmFixtures.replaying) {
+      const fixtures = llmFixtures.getStats();
+      check('every AI call was replayed or mocked offline', fixtures.misses === 0);
+      console.log(`   Replayed: ${fixtures.hits}, offline mock: ${fixtures.mocked}`);
+    }
+    
     console.log('\n' + '=' .repeat(60));
     console.log('✅ All integration tests completed successfully!');
     
   } catch (error) {
     console.error('❌ Integration test failed:', error);
+    process.exitCode = 1;
   } finally {
     await prisma.$disconnect();
   }
@@ -225,8 +257,248 @@ async function testLeaderboard() {
   });
 }
 
+async function testChatCitations(userId: string, lesson: any) {
+  console.log('\n📎 Test 8: Chat Citations');
+  console.log('-'.repeat(40));
+  
+  // Same context the non-streaming /chat/message route builds from body.lessonId
+  const result = await chatService.processMessage(
+    `اشرح لي ${lesson.title}`,
+    { lessonId: lesson.id },
+    userId
+  );
+  
+  check('lesson question returns citations', result.citations.length > 0);
+  check(
+    'citations quote their chunk',
+    result.citations.every(c => c.quote.length > 0 && c.spanEnd > c.spanStart)
+  );
+  console.log(`   Citations: ${result.citations.map(c => `[${c.marker}] ${c.label}`).join(', ') || 'none'}`);
+}
+
+function testSpeechNormalizer() {
+  console.log('\n🔊 Speech Normalizer');
+  console.log('-'.repeat(40));
+  
+  check('numbers read in Egyptian', numberToWords(1500) === 'ألف وخمسمية');
+  check('numbers read in MSA', numberToWords(1500, 'msa') === 'ألف وخمسمائة');
+  check('fractions', fractionToWords(3, 4, 'msa') === 'ثلاثة أرْباع');
+  check('equations', normalizeForSpeech('2 + 3 = 5', 'msa') === 'اثنان زائد ثلاثة يساوي خمسة');
+  check('powers', normalizeForSpeech('س² + 1') === 'س تربيع زائد واحد');
+  check('percent', normalizeForSpeech('25%') === 'خمسة وعشرين في المية');
+  check('decimals and units', normalizeForSpeech('3.5 كجم', 'msa') === 'ثلاثة فاصلة خمسة كيلوجرام');
+  check('compound units', normalizeForSpeech('10 km/h') === 'عشرة كيلومتر في الساعة');
+  check('negative numbers', normalizeForSpeech('-7') === 'سالب سبعة');
+  check('numbers inside a sentence', normalizeForSpeech('كم عدد 21 طالب؟') === 'كم عدد واحد وعشرين طالب؟');
+}
+
+function testPrerequisiteGraph() {
+  console.log('\n🧭 Prerequisite Graph');
+  console.log('-'.repeat(40));
+
+  // a requires b, b requires c
+  const chain = buildAdjacency([{ from: 'a', to: 'b' }, { from: 'b', to: 'c' }]);
+  check('closing the chain is rejected with its cycle', JSON.stringify(cycleIfAdded(chain, 'c', 'a')) === JSON.stringify(['a', 'b', 'c', 'a']));
+  check('a shortcut along the chain is allowed', cycleIfAdded(chain, 'a', 'c') === null);
+  check('a self-loop is a cycle', JSON.stringify(cycleIfAdded(chain, 'b', 'b')) === JSON.stringify(['b', 'b']));
+  check('an acyclic graph has no cycles', findCycles(chain).length === 0);
+
+  const cycles = findCycles(buildAdjacency([{ from: 'a', to: 'b' }, { from: 'b', to: 'a' }, { from: 'c', to: 'c' }]));
+  check('existing cycles and self-loops are found', JSON.stringify(cycles) === JSON.stringify([['a', 'b', 'a'], ['c', 'c']]));
+}
+
+function testCaptions() {
+  console.log('\n💬 Captions');
+  console.log('-'.repeat(40));
+
+  // 24 words, 0.3s each, no sentence end: only the length limits split it
+  const long = Array.from({ length: 24 }, (_, i) => ({ word: `كلمة${i + 1}`, start: i * 0.3, end: i * 0.3 + 0.3 }));
+  const cues = captionService.buildCues(long);
+  check('lines stay within 42 characters', cues.every(c => c.lines.every(line => line.length <= 42)));
+  check('cues stay within 2 lines', cues.length > 1 && cues.every(c => c.lines.length <= 2));
+  check('no word is lost', cues.flatMap(c => c.lines.join(' ').split(' ')).length === long.length);
+
+  const sentences = captionService.buildCues([
+    { word: 'أهلاً', start: 0, end: 0.6 },
+    { word: 'بيكم.', start: 0.6, end: 1.2 },
+    { word: 'نبدأ', start: 1.4, end: 1.9 },
+    { word: 'الدرس', start: 1.9, end: 2.5 },
+  ]);
+  check('a sentence end closes the cue', sentences.length === 2 && sentences[0].lines.join(' ') === 'أهلاً بيكم.' && sentences[1].start === 1.4);
+
+  const late = [{ start: 3661.5, end: 3663.25, lines: ['hello'] }];
+  check('WebVTT timestamps use a dot', captionService.toWebVTT(late) === 'WEBVTT\n\n1\n01:01:01.500 --> 01:01:03.250\nhello\n');
+  check('SRT timestamps use a comma', captionService.toSRT(late) === '1\n01:01:01,500 --> 01:01:03,250\nhello\n');
+}
+
+function testHnswIndex() {
+  console.log('\n🧲 HNSW Vector Index');
+  console.log('-'.repeat(40));
+
+  const random = createRandom(7);
+  const vector = () => Array.from({ length: 32 }, () => random() * 2 - 1);
+  const entries = Array.from({ length: 600 }, (_, i) => ({ id: `c${i}`, lessonId: `L${i % 6}`, vector: vector() }));
+  const queries = Array.from({ length: 20 }, vector);
+
+  const index = new HnswIndex({ efSearch: 32 });
+  entries.forEach(e => index.add(e));
+
+  // Exact top-k over the live entries
+  const cosine = (a: number[], b: number[]) => {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < a.length; i++) { dot += a[i] * b[i]; na += a[i] * a[i]; nb += b[i] * b[i]; }
+    return dot / Math.sqrt(na * nb);
+  };
+  const bruteForce = (q: number[], k: number, live: typeof entries) =>
+    live.map(e => ({ id: e.id, score: cosine(q, e.vector) })).sort((a, b) => b.score - a.score).slice(0, k).map(h => h.id);
+  const recall = (target: HnswIndex, live: typeof entries) => {
+    const found = queries.map(q => {
+      const exact = new Set(bruteForce(q, 10, live));
+      return target.search(q, 10).filter(h => exact.has(h.id)).length / exact.size;
+    });
+    return found.reduce((a, b) => a + b, 0) / found.length;
+  };
+
+  check('recall@10 against brute force is at least 0.9', recall(index, entries) >= 0.9);
+
+  const lessonHits = index.search(queries[0], 5, { lessonId: 'L2' });
+  check('the lesson filter returns only that lesson, exactly',
+    lessonHits.length === 5 && lessonHits.every(h => h.lessonId === 'L2') &&
+    JSON.stringify(lessonHits.map(h => h.id)) === JSON.stringify(bruteForce(queries[0], 5, entries.filter(e => e.lessonId === 'L2'))));
+
+  const restored = HnswIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+  check('a serialized index answers like the original',
+    restored.size() === index.size() &&
+    queries.every(q => JSON.stringify(restored.search(q, 10).map(h => h.id)) === JSON.stringify(index.search(q, 10).map(h => h.id))));
+
+  // Tombstone most of the graph: searches must still fill k with live nodes
+  entries.filter((_, i) => i % 10 !== 0).forEach(e => index.remove(e.id));
+  index.removeLesson('L0');
+  const live = entries.filter((e, i) => i % 10 === 0 && e.lessonId !== 'L0');
+  check('removed nodes are gone from the size', index.size() === live.length && !index.has('c1') && !index.has('c0'));
+  check('search still returns k live hits after removals', queries.every(q => {
+    const hits = index.search(q, 10);
+    return hits.length === 10 && hits.every(h => live.some(e => e.id === h.id));
+  }));
+  check('a removed lesson has no hits', index.search(queries[0], 5, { lessonId: 'L0' }).length === 0);
+
+  const compacted = index.compact();
+  check('compact keeps only the live nodes', compacted.size() === live.length && compacted.deletedRatio === 0 && index.deletedRatio > 0.5);
+  check('a compacted index keeps its recall', recall(compacted, live) >= 0.9);
+}
+
+function testKeywordSearch() {
+  console.log('\n🔤 Arabic Keyword Search');
+  console.log('-'.repeat(40));
+
+  check('hamza forms fold to a bare alef', normalizeArabic('أإآ') === 'ااا');
+  check('alef maqsura and ta marbuta fold', normalizeArabic('مستوى مدرسة') === 'مستوي مدرسه');
+  check('diacritics and tatweel are stripped', normalizeArabic('الْمُضَاعَفُ') === 'المضاعف' && normalizeArabic('كـتـاب') === 'كتاب');
+  check('the article is stripped', lightStem('المضاعف') === 'مضاعف' && lightStem('للطالب') === 'طالب');
+  check('و+ال is stripped as one prefix', lightStem('والكسور') === 'كسور');
+  check('the conjunction و is stripped from longer words only', lightStem('وكسور') === 'كسور' && lightStem('وزن') === 'وزن');
+  check('stop words are dropped', JSON.stringify(tokenizeArabic('ما هو المضاعف المشترك الأصغر؟')) === JSON.stringify(['مضاعف', 'مشترك', 'اصغر']));
+
+  const bm25 = new BM25Index();
+  bm25.add('gcd', 'L1', 'القاسم المشترك الأكبر لعددين هو أكبر عدد يقسم كلاً منهما');
+  bm25.add('lcm', 'L1', 'المُضاعَف المشترَك الأصغَر لعددين هو أصغر عدد يقبل القسمة على كل منهما');
+  bm25.add('primes', 'L2', 'العدد الأولي له قاسمان فقط');
+  const hits = bm25.search('المضاعف المشترك الأصغر', 3);
+  check('"المضاعف المشترك الأصغر" ranks its chunk first', hits[0]?.id === 'lcm' && hits.length === 2);
+  check('the lesson filter applies to keyword hits', bm25.search('المشترك', 3, { lessonId: 'L2' }).length === 0);
+
+  const result = (id: string): SearchResult => ({ chunk: { id, text: id, metadata: { chunkIndex: 0, source: 'test' } }, score: 0 });
+  // b is in both lists; then single-list hits by rank: a (1st), d (2nd), c (3rd)
+  const fused = vectorSearch.fuseRankings([result('a'), result('b'), result('c')], [result('b'), result('d')], 4);
+  check('RRF puts chunks found by both lists first', JSON.stringify(fused.map(r => r.chunk.id)) === JSON.stringify(['b', 'a', 'd', 'c']));
+  check('first in both lists scores 1', vectorSearch.fuseRankings([result('a')], [result('a')], 1)[0].score === 1);
+}
+
+async function testTTSFailover() {
+  console.log('\n🗣️ TTS Failover');
+  console.log('-'.repeat(40));
+
+  const text = 'مرحبا بيكم في درس الكسور';
+  const calls: TTSProviderName[] = [];
+  const fakeProvider = (name: TTSProviderName, failWith?: TTSErrorKind, monthlyCharLimit = 0): TTSProvider => ({
+    name,
+    costPer1kChars: 0,
+    monthlyCharLimit,
+    isAvailable: async () => true,
+    voiceFor: () => `${name}-voice`,
+    synthesize: async () => {
+      calls.push(name);
+      if (failWith) throw new TTSProviderError(name, failWith, `${failWith} error`);
+    },
+  });
+
+  const quotaFailover = new TTSService(
+    [fakeProvider('elevenlabs', 'quota'), fakeProvider('local')],
+    new MemoryUsageStore()
+  );
+  const first = await quotaFailover.synthesize(text, '/dev/null');
+  check('a quota error falls through to the next provider', first.provider === 'local' && calls.join() === 'elevenlabs,local');
+  calls.length = 0;
+  const second = await quotaFailover.synthesize(text, '/dev/null');
+  check('a provider out of quota sits out the next request', second.provider === 'local' && calls.join() === 'local');
+  check('the cooling provider is not active', JSON.stringify(await quotaFailover.getActiveProviders()) === JSON.stringify(['local']));
+
+  calls.length = 0;
+  const authFailover = new TTSService(
+    [fakeProvider('openai', 'auth'), fakeProvider('local')],
+    new MemoryUsageStore()
+  );
+  const viaAuth = await authFailover.synthesize(text, '/dev/null');
+  await authFailover.synthesize(text, '/dev/null');
+  check('an auth error falls through and disables the provider', viaAuth.provider === 'local' && calls.join() === 'openai,local,local');
+
+  calls.length = 0;
+  const usedUp = new MemoryUsageStore();
+  await usedUp.record('tts', 'elevenlabs', { characters: 995 });
+  const limited = new TTSService([fakeProvider('elevenlabs', undefined, 1000), fakeProvider('local')], usedUp);
+  const overLimit = await limited.synthesize(text, '/dev/null');
+  check('a used-up monthly limit skips the provider without calling it', overLimit.provider === 'local' && calls.join() === 'local');
+  const shortText = await limited.synthesize('هاي', '/dev/null');
+  check('text that still fits the limit uses the provider', shortText.provider === 'elevenlabs');
+
+  const allFailing = new TTSService([fakeProvider('elevenlabs', 'quota'), fakeProvider('openai', 'unavailable')], new MemoryUsageStore());
+  const error = await allFailing.synthesize(text, '/dev/null').then(() => null, (e: Error) => e);
+  check('every provider failing throws', !!error && error.message.startsWith('All TTS providers failed'));
+}
+
+/**
+ * Voice usage kept in memory, so failover can be checked without the database
+ */
+class MemoryUsageStore extends VoiceUsageStore {
+  private readonly usage = new Map<string, VoiceUsage>();
+
+  async get(service: VoiceUsageService, provider: string): Promise<VoiceUsage> {
+    return this.usage.get(`${service}:${provider}`) || {
+      month: this.currentMonth(), requests: 0, failures: 0, characters: 0, seconds: 0, cost: 0, lastError: null, disabledUntil: null,
+    };
+  }
+
+  async record(service: VoiceUsageService, provider: string, delta: VoiceUsageDelta = {}): Promise<void> {
+    const used = await this.get(service, provider);
+    this.usage.set(`${service}:${provider}`, {
+      ...used,
+      requests: used.requests + 1,
+      failures: used.failures + (delta.failed ? 1 : 0),
+      characters: used.characters + (delta.characters || 0),
+      cost: used.cost + (delta.cost || 0),
+      lastError: delta.lastError ?? used.lastError,
+      disabledUntil: delta.disabledUntil ?? used.disabledUntil,
+    });
+  }
+}
+
 // Helper Functions
 
+function check(label: string, passed: boolean) {
+  console.log(`   ${passed ? '✅' : '❌'} ${label}`);
+  if (!passed) process.exitCode = 1;
+}
+
 async function getOrCreateTestUser() {
   // Try to find existing test user
   let user = await prisma.user.findFirst({
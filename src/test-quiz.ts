@@ -1,11 +1,35 @@
 import { quizService } from './core/quiz/quiz.service';
+import { mathEquivalence } from './core/quiz/math.equivalence';
+import { essayGrader } from './core/quiz/essay.grader';
+import { examService } from './core/quiz/exam.service';
+import { gradeAnswer, scheduleReview } from './core/quiz/review.scheduler';
+import { itemAnalysisService, type ItemResponse } from './core/quiz/item-analysis.service';
+import { templateEngine, formatNumber } from './core/quiz/question-template.engine';
+import { parseGift, writeGift } from './core/content/formats/gift.format';
+import { parseQti, writeQti } from './core/content/formats/qti.format';
+import type { BankQuestion, ParsedBankItem } from './types/content.types';
+import type { Question, QuestionType } from '@prisma/client';
 import { progressService } from './core/progress/progress.service';
+import { masteryService } from './core/progress/mastery.service';
+import { guessProbability, updateKnowledge, BKT_DEFAULTS } from './core/progress/knowledge-tracing';
 import { authService } from './core/auth/auth.service';
 import { prisma } from './config/database.config';
+import { llmFixtures } from './services/ai/llm-fixtures';
 
 async function testQuizSystem() {
   console.log('🧪 Testing Quiz & Progress System...\n');
   
+  // Pure grading logic first - no database needed
+  testSlideAnswerKeys();
+  testMathEquivalence();
+  testQuestionBankRoundTrip();
+  testExamTiming();
+  testTemplateEngine();
+  testItemAnalysis();
+  testReviewScheduler();
+  testKnowledgeTracing();
+  await testRubricGrading();
+  
   try {
     // Create or get test user
     let user;
@@ -39,6 +63,14 @@ async function testQuizSystem() {
     
     console.log(`📚 Using lesson: ${lesson.title}\n`);
     
+    // Test 0: a slide answer with a key the server doesn't hold is not scored
+    console.log('0️⃣ Checking a forged slide question...');
+    const forged = await quizService.checkSlideAnswer(lesson.id, 0, { questionText: 'سؤال غير موجود في الدرس؟' });
+    check('unknown slide question has no key', forged === null);
+    const foreign = await quizService.checkSlideAnswer(lesson.id, '0', { questionId: 'not-a-question-of-this-lesson' });
+    check('questionId outside the lesson has no key', foreign === null);
+    console.log('');
+    
     // Test 1: Generate questions
     console.log('1️⃣ Generating quiz questions...');
     const questions = await quizService.generateQuizQuestions(lesson.id, 3);
@@ -102,10 +134,17 @@ async function testQuizSystem() {
     console.log(`   Average score: ${stats.averageScore}%`);
     console.log(`   Pass rate: ${stats.passRate}%\n`);
     
+    if (llmFixtures.replaying) {
+      const fixtures = llmFixtures.getStats();
+      check('every AI call was replayed or mocked offline', fixtures.misses === 0);
+      console.log(`   Replayed: ${fixtures.hits}, offline mock: ${fixtures.mocked}`);
+    }
+    
     console.log('🎉 All quiz system tests completed successfully!');
     
   } catch (error) {
     console.error('❌ Test failed:', error);
+    process.exitCode = 1;
   } finally {
     // Cleanup
     await prisma.quizAttemptAnswer.deleteMany({
@@ -128,5 +167,315 @@ async function testQuizSystem() {
   }
 }
 
+function testSlideAnswerKeys() {
+  console.log('🔑 Slide answer keys...');
+  
+  const byIndex = { question: 'كم ضلعاً للمثلث؟', options: ['2', '3', '4'], correctAnswer: 1 };
+  check('index key: correct index', quizService.gradeExerciseAnswer(byIndex, 1) === true);
+  check('index key: correct option text', quizService.gradeExerciseAnswer(byIndex, '3') === true);
+  check('index key: wrong option', quizService.gradeExerciseAnswer(byIndex, 0) === false);
+  
+  const byLetter = { type: 'MCQ', options: ['أ) 10', 'ب) 20', 'ج) 30', 'د) 40'], correctAnswer: 'ب' };
+  check('letter key: option text', quizService.gradeExerciseAnswer(byLetter, '20') === true);
+  check('letter key: lettered option', quizService.gradeExerciseAnswer(byLetter, 'ب) 20') === true);
+  check('letter key: wrong option', quizService.gradeExerciseAnswer(byLetter, '30') === false);
+  
+  const free = { type: 'PROBLEM', question: 'احسب 3/4 من 8', correctAnswer: '6' };
+  check('free key: equivalent number', quizService.gradeExerciseAnswer(free, '٦') === true);
+  check('free key: unevaluated expression', quizService.gradeExerciseAnswer(free, '3+3') === false);
+  check('true/false key', quizService.gradeExerciseAnswer({ type: 'TRUE_FALSE', correctAnswer: 'صح' }, 'صحيح') === true);
+  
+  check('no key at all', quizService.gradeExerciseAnswer({ question: 'س' }, 'x') === null);
+  check('key out of range: no key', quizService.gradeExerciseAnswer({ options: ['a', 'b'], correctAnswer: 5 }, 5) === null);
+  console.log('');
+}
+
+function testMathEquivalence() {
+  console.log('🧮 Math answer equivalence...');
+  
+  const cases: Array<[string, string, boolean]> = [
+    ['4', '٤', true],
+    ['0.5', '1/2', true],
+    ['3/4', '6/8', true],
+    ['2 1/2', '2.5', true],
+    ['75%', '0.75', true],
+    ['12 سم', '120 مم', true],
+    ['1/3', '0.33', true],
+    ['x = 5', '5', true],
+    ['2x+1', '1+2x', true],
+    ['2x+1', '2س+1', true],
+    ['x^2-1', '(x-1)(x+1)', true],
+    // Unevaluated or renamed answers don't earn credit
+    ['4', '2+2', false],
+    ['2', '2x/x', false],
+    ['4', '-(-4)', false],
+    ['x+1', 'y+1', false],
+    ['x+y', 'x+z', false],
+    ['2x', '4', false],
+    ['12 سم', '12 كجم', false],
+  ];
+  
+  for (const [expected, actual, equivalent] of cases) {
+    check(`${expected} vs ${actual} → ${equivalent}`, mathEquivalence.isEquivalent(expected, actual) === equivalent);
+  }
+  check('words are not math', mathEquivalence.compare('قطر', 'رطق') === null);
+  check('object keys are not functions', !mathEquivalence.isEquivalent('2', 'constructor(2)') && !mathEquivalence.isEquivalent('2', 'toString(2)'));
+  console.log('');
+}
+
+async function testRubricGrading() {
+  console.log('📝 Rubric and partial-credit grading...');
+  const rubric = JSON.stringify({
+    criteria: [
+      { id: 'definition', description: 'تعريف البناء الضوئي', maxPoints: 2, keywords: ['النبات', 'الغذاء'] },
+      { id: 'inputs', description: 'المواد الداخلة', maxPoints: 2, keywords: ['الضوء', 'الماء', 'ثاني', 'أكسيد'] },
+    ],
+  });
+  const question = (type: QuestionType): Question => ({
+    id: 'q-rubric',
+    lessonId: 'lesson-rubric',
+    type,
+    question: 'اشرح عملية البناء الضوئي',
+    options: null,
+    correctAnswer: 'يصنع النبات غذاءه من الماء وثاني أكسيد الكربون في وجود الضوء',
+    explanation: null,
+    points: 10,
+    difficulty: 'MEDIUM',
+    order: 0,
+    tags: null,
+    isActive: true,
+    learningObjective: null,
+    hints: null,
+    stepByStepSolution: null,
+    encouragementMessages: null,
+    errorFeedback: null,
+    rubric,
+    source: null,
+    retiredAt: null,
+    retiredReason: null,
+    misconceptionMap: null,
+    templateId: null,
+    variantKey: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  
+  const scores = [
+    { criterionId: 'definition', score: 2, maxPoints: 2 },
+    { criterionId: 'inputs', score: 1, maxPoints: 2 },
+  ];
+  const partial = essayGrader.buildResult(scores, '', 'ai', false);
+  check('criterion scores add up to partial credit', partial.credit === 0.75 && partial.isCorrect);
+  check('partial credit earns partial points', quizService.answerPoints({ isCorrect: true, credit: 0.5 }, 10) === 5);
+  check('a grade waiting for review is not correct yet', !essayGrader.buildResult(scores, '', 'ai', true).isCorrect);
+  check('teacher grade counts once reviewed', essayGrader.buildResult(scores, '', 'teacher', false).isCorrect);
+  
+  // Keyword grading can't judge an essay: it always waits for a teacher (AI grades wait only when unsure)
+  const essayQuestion = question('ESSAY');
+  const essay = essayGrader.gradeOffline(
+    essayQuestion,
+    essayGrader.getRubric(essayQuestion),
+    'يصنع النبات الغذاء من الماء وثاني أكسيد الكربون في وجود الضوء'
+  );
+  check('offline essay grade stays pending until a teacher scores it', essay.needsReview && !essay.isCorrect && essay.credit > 0);
+  check('a pending grade tells the student it waits for the teacher', !essay.feedback.includes('تغطي'));
+  
+  // Keyword stuffing can't raise the score before a teacher has looked at the essay
+  const mcq = { isCorrect: true, credit: null, needsReview: false, question: { points: 10 } };
+  const pendingEssay = { isCorrect: essay.isCorrect, credit: essay.credit, needsReview: essay.needsReview, question: { points: 10 } };
+  check('a pending essay earns no points', quizService.answerPoints(pendingEssay, 10) === 0);
+  check('a pending essay leaves the attempt score unchanged',
+    quizService.attemptScore([mcq, pendingEssay]) === quizService.attemptScore([mcq, { ...pendingEssay, credit: 0 }]));
+  check('the teacher grade counts once the review clears',
+    quizService.attemptScore([mcq, { ...pendingEssay, needsReview: false }]) > quizService.attemptScore([mcq, pendingEssay]));
+  const empty = await essayGrader.grade(question('ESSAY'), '   ');
+  check('an empty essay earns nothing', empty.credit === 0 && !empty.isCorrect);
+  console.log('');
+}
+
+function testQuestionBankRoundTrip() {
+  console.log('🔁 GIFT / QTI round trip...');
+  const bank: BankQuestion[] = [
+    { identifier: 'q1', type: 'MCQ', question: 'ما ناتج 3 × 4؟', options: ['7', '12', '34', '1'], correctAnswer: '12', explanation: 'ضرب', points: 2 },
+    { identifier: 'q2', type: 'TRUE_FALSE', question: 'الشمس نجم', correctAnswer: 'true' },
+    { identifier: 'q3', type: 'FILL_BLANK', question: 'عاصمة مصر هي _____', correctAnswer: 'القاهرة', acceptedAnswers: ['القاهره'] },
+    { identifier: 'q4', type: 'SHORT_ANSWER', question: 'اذكر حالة من حالات المادة: {صلبة}؟', correctAnswer: 'صلبة' },
+  ];
+  // GIFT puts the answer block where the blank was, QTI writes its own blank
+  const text = (value: string) => value.replace(/_+/g, '').replace(/\s+/g, ' ').trim();
+  const same = (format: string, items: ParsedBankItem[]) => {
+    check(`${format}: every item parses`, items.length === bank.length && items.every(i => i.errors.length === 0));
+    bank.forEach((original, i) => {
+      const parsed = items[i]?.question;
+      check(`${format}: ${original.type} keeps its text and key`, !!parsed &&
+        parsed.type === original.type &&
+        text(parsed.question) === text(original.question) &&
+        parsed.correctAnswer === original.correctAnswer &&
+        JSON.stringify(parsed.options ?? []) === JSON.stringify(original.options ?? []) &&
+        JSON.stringify(parsed.acceptedAnswers ?? []) === JSON.stringify(original.acceptedAnswers ?? []));
+    });
+  };
+  
+  same('GIFT', parseGift(writeGift(bank, 'علوم')));
+  const files = writeQti(bank, 'lesson');
+  check('QTI: manifest lists every item', bank.every(q => files[0].content.includes(`items/${q.identifier}.xml`)));
+  same('QTI', files.slice(1).flatMap(file => parseQti(file.content)));
+  
+  check('GIFT: item without an answer block is rejected', parseGift('::x:: سؤال بلا إجابة {')[0].errors.length > 0);
+  check('QTI: malformed XML is reported, not thrown', parseQti('<assessmentItem><itemBody>')[0].errors.length > 0);
+  console.log('');
+}
+
+function testExamTiming() {
+  console.log('⏱️ Exam question timing...');
+  const now = Date.now();
+  const timing = (openedSecondsAgo: number | undefined, cap: number) => examService.answerTiming(
+    openedSecondsAgo === undefined ? undefined : now - openedSecondsAgo * 1000, cap, now
+  );
+  
+  let unopened = false;
+  try {
+    timing(undefined, 60);
+  } catch {
+    unopened = true;
+  }
+  check('an unopened question cannot be answered', unopened);
+  check('time is measured from the server open', timing(42, 60).elapsed === 42 && !timing(42, 60).late);
+  check('network grace after the cap is not late', !timing(64, 60).late);
+  check('past the cap and grace is late', timing(90, 60).late);
+  console.log('');
+}
+
+function testTemplateEngine() {
+  console.log('🧩 Question template engine...');
+  const division = {
+    type: 'MCQ' as const,
+    template: 'وزّع {a * b} قلماً على {a} طلاب بالتساوي. كم قلماً لكل طالب؟',
+    variables: { a: { min: 2, max: 9 }, b: { min: 2, max: 9 } },
+    constraints: ['a != b'],
+    answer: '{b}',
+    distractors: ['{a}', '{a * b - b}'],
+  };
+  
+  check('a valid template has no errors', templateEngine.validate(division).length === 0);
+  const first = templateEngine.instantiate(division, 42);
+  const again = templateEngine.instantiate(division, 42);
+  check('same seed → same variant', !!first && JSON.stringify(first) === JSON.stringify(again));
+  check('answer follows the drawn values', !!first && first.answer === formatNumber(first.values.b) && first.values.a !== first.values.b);
+  check('question text is rendered', !!first && first.question.includes(formatNumber(first.values.a * first.values.b)) && !first.question.includes('{'));
+  check('MCQ options include the answer once', !!first?.options && first.options.filter(o => o === first.answer).length === 1 && new Set(first.options).size === first.options.length);
+  const keys = new Set([1, 2, 3, 4, 5, 6, 7, 8].map(seed => templateEngine.instantiate(division, seed)?.variantKey));
+  check('different seeds give different variants', keys.size > 1);
+  
+  check('0.1 + 0.2 prints as 0.3', templateEngine.render('{0.1 + 0.2}', {}) === '0.3');
+  check('derived variables follow their inputs', templateEngine.instantiate({
+    template: '{a} × {b} = ?', answer: '{c}', variables: { a: { values: [3] }, b: { values: [4] }, c: { expr: 'a * b' } },
+  }, 1)?.answer === '12');
+  check('true/false answers render as true/false', templateEngine.instantiate({
+    type: 'TRUE_FALSE', template: '{a} > 5', answer: '{a > 5}', variables: { a: { values: [7] } },
+  }, 1)?.answer === 'true');
+  
+  check('unknown variables are rejected', templateEngine.validate({ template: '{a} + {z}', answer: '{a}', variables: { a: { min: 1, max: 3 } } }).length > 0);
+  check('impossible constraints are rejected', templateEngine.validate({ template: '{a}', answer: '{a}', variables: { a: { min: 1, max: 3 } }, constraints: ['a > 10'] }).length > 0);
+  check('division by zero is rejected', templateEngine.validate({ template: '{a}', answer: '{1 / (a - a)}', variables: { a: { min: 1, max: 3 } } }).length > 0);
+  check('object keys are not functions', ['{constructor(a)}', '{toString()}', '{__proto__(a)}'].every(answer =>
+    templateEngine.validate({ template: '{a}', answer, variables: { a: { min: 1, max: 3 } } }).length > 0
+  ));
+  console.log('');
+}
+
+function testItemAnalysis() {
+  console.log('📊 Item analysis...');
+  check('perfect positive correlation is 1', Math.abs(itemAnalysisService.correlation([0, 1, 2, 3], [1, 3, 5, 7])! - 1) < 1e-9);
+  check('perfect negative correlation is -1', Math.abs(itemAnalysisService.correlation([0, 1, 2, 3], [3, 2, 1, 0])! + 1) < 1e-9);
+  check('no variance: correlation is undefined', itemAnalysisService.correlation([1, 1, 1], [0, 1, 2]) === null);
+
+  const question = { id: 'q1', question: '٦ ÷ ٢ = ؟', type: 'MCQ', options: JSON.stringify(['2', '3', '4']), correctAnswer: '3', source: null, isActive: true };
+  const respond = (userAnswer: string, rest: number): ItemResponse => ({
+    score: userAnswer === '3' ? 1 : 0, rest, userAnswer, timeSpent: 30, hintsUsed: 0,
+  });
+
+  // Strong students pick the key, weak ones spread over the distractors
+  const healthy = itemAnalysisService.analyzeItem(question, [
+    respond('3', 9), respond('3', 8), respond('3', 8), respond('3', 7), respond('3', 6),
+    respond('2', 4), respond('4', 3), respond('2', 2), respond('4', 2), respond('3', 1),
+  ], 10);
+  check('a discriminating item is not flagged', !healthy.flags.includes('possible_wrong_key') && !itemAnalysisService.shouldRetire(healthy.flags));
+
+  // Strong students agree on another option: the key is probably wrong
+  const miskeyed = itemAnalysisService.analyzeItem(question, [
+    respond('4', 9), respond('4', 8), respond('4', 8), respond('4', 7), respond('2', 6),
+    respond('3', 4), respond('3', 3), respond('3', 2), respond('2', 2), respond('3', 1),
+  ], 10);
+  check('top scorers picking a distractor flags a wrong key', miskeyed.flags.includes('possible_wrong_key'));
+  check('a wrong key retires the question', itemAnalysisService.shouldRetire(miskeyed.flags));
+
+  check('negative discrimination retires', itemAnalysisService.shouldRetire(['negative_discrimination']));
+  check('too easy retires', itemAnalysisService.shouldRetire(['too_easy']));
+  check('too hard alone does not retire', !itemAnalysisService.shouldRetire(['too_hard']));
+  check('low discrimination alone does not retire', !itemAnalysisService.shouldRetire(['low_discrimination']));
+  check('too hard and not discriminating retires', itemAnalysisService.shouldRetire(['too_hard', 'low_discrimination']));
+  console.log('');
+}
+
+function testReviewScheduler() {
+  console.log('🗓️ Spaced-repetition scheduling...');
+  const now = new Date('2026-01-01T08:00:00Z');
+  const fresh = { easeFactor: 2.5, intervalDays: 0, repetitions: 0, lapses: 0 };
+  
+  const first = scheduleReview(fresh, 5, now);
+  const second = scheduleReview(first, 5, now);
+  const third = scheduleReview(second, 5, now);
+  check('intervals go 1 → 6 → interval × ease', first.intervalDays === 1 && second.intervalDays === 6 &&
+    third.intervalDays === Math.round(6 * third.easeFactor));
+  check('the due date follows the interval', second.dueAt.getTime() - now.getTime() === 6 * 24 * 60 * 60 * 1000);
+  
+  let hard = fresh;
+  for (let i = 0; i < 10; i++) hard = scheduleReview(hard, 3, now);
+  check('ease never drops below 1.3', Math.abs(hard.easeFactor - 1.3) < 1e-9);
+  
+  const lapse = scheduleReview(third, 1, now);
+  check('a lapse resets repetitions and counts once', lapse.lapsed && lapse.repetitions === 0 && lapse.intervalDays === 0 && lapse.lapses === 1);
+  check('a lapse is due again in 10 minutes', lapse.dueAt.getTime() - now.getTime() === 10 * 60 * 1000);
+  
+  check('a confident wrong answer grades 0', gradeAnswer({ isCorrect: false, confidence: 90 }) === 0);
+  check('a hesitant wrong answer is not the worst lapse', gradeAnswer({ isCorrect: false, confidence: 20 }) === 2);
+  check('hints lower a correct grade but keep it a pass', gradeAnswer({ isCorrect: true, hintsUsed: 3 }) === 3);
+  
+  const mature = scheduleReview({ easeFactor: 2.5, intervalDays: 300, repetitions: 8, lapses: 0 }, 5, now);
+  check('intervals are capped at 365 days', mature.intervalDays === 365);
+  console.log('');
+}
+
+function testKnowledgeTracing() {
+  console.log('🧠 Knowledge tracing...');
+  const prior = BKT_DEFAULTS.pInit;
+  
+  check('a correct answer raises P(known)', updateKnowledge(prior, true) > prior);
+  check('a wrong answer lowers P(known)', updateKnowledge(0.6, false) < 0.6);
+  check('hints weaken a correct answer', updateKnowledge(prior, true, { hintsUsed: 2 }) < updateKnowledge(prior, true));
+  check('guessing a true/false is likelier than a free answer', guessProbability('TRUE_FALSE') > guessProbability('PROBLEM'));
+  check('MCQ guessing follows the option count', guessProbability('MCQ', 5) === 0.2);
+  
+  let high = prior;
+  let low = prior;
+  for (let i = 0; i < 50; i++) {
+    high = updateKnowledge(high, true, { pTransit: 0.9 });
+    low = updateKnowledge(low, false, { pTransit: 0 });
+  }
+  check('P(known) stays clamped to [0.001, 0.999]', high === 0.999 && low === 0.001);
+  
+  check('enough correct answers reach mastery', masteryService.getState(high, 50) === 'mastered');
+  check('repeated misses mark a student struggling', masteryService.getState(0.2, 3) === 'struggling');
+  check('one early miss is still learning', masteryService.getState(0.2, 1) === 'learning');
+  check('no answers yet is unknown', masteryService.getState(prior, 0) === 'unknown');
+  console.log('');
+}
+
+function check(label: string, passed: boolean) {
+  console.log(`   ${passed ? '✅' : '❌'} ${label}`);
+  if (!passed) process.exitCode = 1;
+}
+
 // Run tests
 testQuizSystem().catch(console.error);
\ No newline at end of file
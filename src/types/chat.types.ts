@@ -1,3 +1,5 @@
+import type { Citation } from './rag.types';
+
 export interface ChatSession {
   id: string;
   userId: string;
@@ -31,6 +33,8 @@ export interface ChatMessageMetadata {
   intent?: 'question' | 'explanation' | 'example' | 'help' | 'greeting' | 'other';
   confidence?: number;
   sources?: string[];
+  citations?: Citation[];
+  cancelled?: boolean; // streamed answer stopped before completion
   relatedLessons?: string[];
   suggestedActions?: SuggestedAction[];
   emotions?: 'confused' | 'frustrated' | 'happy' | 'neutral';
@@ -57,6 +61,32 @@ export interface ChatResponse {
   followUp?: string[];
 }
 
+export interface StreamedChatResult {
+  messageId: string;
+  response: string;
+  suggestions: string[];
+  sessionId: string;
+  citations: Citation[];
+  cancelled: boolean;
+  responseTime: number;
+}
+
+export interface VoiceChatResult {
+  /** What the student said, as transcribed */
+  transcript: string;
+  transcriptProvider: string;
+  audio: {
+    file: string;
+    mimeType: string;
+    size: number;
+    duration: number | null;
+  };
+  response: string;
+  suggestions?: string[];
+  sessionId: string;
+  citations: Citation[];
+}
+
 export interface ChatAnalytics {
   totalSessions: number;
   totalMessages: number;
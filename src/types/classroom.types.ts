@@ -0,0 +1,84 @@
+// src/types/classroom.types.ts
+
+export type AssignmentKind = 'LESSON' | 'QUIZ';
+
+export type AssignmentCompletionStatus =
+  | 'not_started'
+  | 'in_progress'
+  | 'completed'
+  | 'overdue';
+
+export interface ClassroomSummary {
+  id: string;
+  name: string;
+  grade: number | null;
+  subjectId: string | null;
+  description: string | null;
+  joinCode?: string; // للمعلم فقط
+  studentCount: number;
+  assignmentCount: number;
+  createdAt: Date;
+}
+
+export interface RosterStudent {
+  studentId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  grade: number | null;
+  joinedAt: Date;
+}
+
+export interface StudentAssignmentStatus {
+  studentId: string;
+  studentName: string;
+  status: AssignmentCompletionStatus;
+  completionRate: number; // 0-100
+  bestScore: number | null; // للاختبارات فقط
+  attempts: number;
+  completedAt: Date | null;
+  submittedLate: boolean;
+}
+
+export interface AssignmentReport {
+  assignmentId: string;
+  lessonId: string;
+  lessonTitle: string;
+  type: AssignmentKind;
+  dueDate: Date | null;
+  summary: {
+    total: number;
+    completed: number;
+    inProgress: number;
+    notStarted: number;
+    overdue: number;
+    averageScore: number | null;
+  };
+  students: StudentAssignmentStatus[];
+}
+
+export interface ClassDashboardStudent {
+  studentId: string;
+  studentName: string;
+  completedAssignments: number;
+  overdueAssignments: number;
+  averageScore: number; // من StudentContext
+  currentMood: string;
+  lastActive: Date | null;
+  strugglingTopics: string[];
+  assignments: Record<string, AssignmentCompletionStatus>; // assignmentId -> status
+}
+
+export interface ClassDashboard {
+  classroom: ClassroomSummary;
+  assignments: Array<{
+    id: string;
+    lessonId: string;
+    lessonTitle: string;
+    type: AssignmentKind;
+    dueDate: Date | null;
+    completionRate: number; // نسبة الطلاب الذين أكملوا
+  }>;
+  students: ClassDashboardStudent[];
+  generatedAt: Date;
+}
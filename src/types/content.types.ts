@@ -44,4 +44,98 @@ export interface VisualElement {
     start: number;
     end: number;
   };
-}
\ No newline at end of file
+}
+
+// ============= PREREQUISITE GRAPH =============
+
+export type PrerequisiteKind = 'lesson' | 'concept';
+
+export interface PrerequisiteEdge {
+  from: string; // depends on `to`
+  to: string;
+}
+
+export interface PrerequisiteGraph {
+  kind: PrerequisiteKind;
+  nodes: Array<{ id: string; title: string; lessonId?: string; order?: number }>;
+  edges: PrerequisiteEdge[];
+  cycles: string[][];
+}
+
+export interface LessonReadiness {
+  lessonId: string;
+  ready: boolean;
+  missingLessons: Array<{ lessonId: string; title: string; mastery: number | null; completed: boolean }>;
+  missingConcepts: Array<{ conceptId: string; name: string; lessonId: string; pKnown: number }>;
+}
+
+export interface ReadyLesson {
+  lessonId: string;
+  title: string;
+  unitId: string;
+  order: number;
+  estimatedMinutes: number;
+  inProgress: boolean;
+  prerequisites: string[]; // titles of satisfied prerequisite lessons
+  unlockedBy?: string;     // most recently satisfied prerequisite
+}
+
+// ============= QUESTION BANK IMPORT/EXPORT =============
+
+export type QuestionBankFormat = 'qti' | 'gift';
+
+export type BankQuestionType = 'MCQ' | 'TRUE_FALSE' | 'FILL_BLANK' | 'SHORT_ANSWER';
+
+/**
+ * Format-neutral question used between the parsers/writers and the database
+ */
+export interface BankQuestion {
+  identifier?: string;
+  type: BankQuestionType;
+  question: string;
+  options?: string[];
+  correctAnswer: string;
+  acceptedAnswers?: string[]; // alternatives beyond correctAnswer (GIFT =a =b, QTI mapping)
+  explanation?: string;
+  hints?: string[];
+  stepByStepSolution?: string[];
+  points?: number;
+  difficulty?: 'EASY' | 'MEDIUM' | 'HARD';
+  tags?: string[];
+}
+
+export interface ParsedBankItem {
+  index: number;
+  identifier?: string;
+  line?: number;          // GIFT source line of the item
+  question?: BankQuestion;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface QuestionImportReport {
+  format: QuestionBankFormat;
+  lessonId: string;
+  dryRun: boolean;
+  total: number;
+  imported: number;
+  invalid: number;
+  duplicates: number;
+  items: Array<{
+    index: number;
+    identifier?: string;
+    line?: number;
+    status: 'imported' | 'valid' | 'invalid' | 'duplicate';
+    questionId?: string;
+    errors: string[];
+    warnings: string[];
+  }>;
+}
+
+export interface QuestionExport {
+  format: QuestionBankFormat;
+  count: number;
+  skipped: Array<{ questionId: string; reason: string }>;
+  // GIFT: one text file; QTI: one file per item plus imsmanifest.xml
+  files: Array<{ path: string; content: string }>;
+}
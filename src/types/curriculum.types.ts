@@ -1,4 +1,6 @@
 // Curriculum Types for RAG System
+import type { Citation } from './rag.types';
+
 export interface CurriculumSearchQuery {
   query: string;
   subjectId?: string;
@@ -101,6 +103,7 @@ export interface CurriculumRAGResponse {
   answer: string;
   confidence: number;
   sources: CurriculumSearchResult[];
+  citations?: Citation[];
   suggestions?: string[];
   relatedQuestions?: string[];
   visualAids?: {
@@ -216,4 +216,33 @@ export type ProgressAction =
   | 'quiz_passed'
   | 'exercise_completed'
   | 'note_added'
-  | 'time_tracked';
\ No newline at end of file
+  | 'time_tracked';
+// Concept Mastery (Knowledge Tracing) Types
+export type ConceptMasteryState = 'unknown' | 'learning' | 'struggling' | 'mastered';
+
+export interface ConceptMasteryEntry {
+  conceptId: string;
+  name: string;
+  lessonId: string;
+  pKnown: number; // 0-1
+  attempts: number;
+  correct: number;
+  state: ConceptMasteryState;
+  masteredAt?: Date;
+}
+
+export interface ConceptMasteryUpdate {
+  conceptId: string;
+  name: string;
+  before: number;
+  after: number;
+  mastered: boolean;
+  newlyMastered: boolean;
+}
+
+export interface MasteryEvidence {
+  isCorrect: boolean;
+  guessProbability?: number; // chance of answering correctly without knowing
+  hintsUsed?: number;
+  source: 'quiz' | 'slide';
+}
@@ -98,6 +98,9 @@ export interface QuestionResult {
   type?: 'MCQ' | 'TRUE_FALSE' | 'FILL_BLANK' | 'SHORT_ANSWER' | 'PROBLEM' | 'ESSAY';
   hintsUsed?: number;
   timeBonus?: number;
+  credit?: number;        // 0-1 partial credit for rubric-graded answers
+  gradedBy?: GradingSource;
+  needsReview?: boolean;
 }
 
 export interface QuizStatistics {
@@ -197,4 +200,318 @@ export interface StudyPlan {
   }[];
   tips: string[];
   estimatedCompletion: Date;
-}
\ No newline at end of file
+}
+
+// ============= SPACED REPETITION =============
+
+export type ReviewItemType = 'question' | 'concept';
+
+export interface ReviewDueCounts {
+  questions: number;
+  concepts: number;
+  total: number;
+  overdue: number;        // due before today
+  reviewedToday: number;
+  nextDueAt?: Date;       // earliest upcoming card when nothing is due
+}
+
+export interface ReviewCardUpdate {
+  itemType: ReviewItemType;
+  itemId: string;
+  grade: number;          // 0-5
+  intervalDays: number;
+  easeFactor: number;
+  dueAt: Date;
+  lapsed: boolean;
+}
+
+export interface ReviewItem {
+  questionId: string;
+  lessonId: string;
+  lessonTitle?: string;
+  cards: Array<{ itemType: ReviewItemType; itemId: string; name?: string }>;
+  overdueDays: number;
+}
+
+export interface ReviewSession extends QuizSession {
+  items: ReviewItem[];
+  dueCounts: ReviewDueCounts;
+}
+
+// ============= RUBRIC GRADING =============
+
+export type GradingSource = 'auto' | 'ai' | 'offline' | 'teacher';
+
+export interface RubricCriterion {
+  id: string;
+  description: string;
+  maxPoints: number;
+  keywords?: string[];    // used by the offline grader
+}
+
+export interface QuestionRubric {
+  criteria: RubricCriterion[];
+  modelAnswer?: string;
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  score: number;
+  maxPoints: number;
+  feedback?: string;
+}
+
+export interface GradingResult {
+  credit: number;         // 0-1
+  isCorrect: boolean;     // credit reached the pass mark
+  criteria: CriterionScore[];
+  feedback: string;
+  gradedBy: GradingSource;
+  needsReview: boolean;   // low-confidence grade a teacher should check
+}
+
+// ============= MATH ANSWERS =============
+
+export interface EquivalenceOptions {
+  relativeTolerance?: number; // numeric answers (default: exact up to float error)
+  allowRounding?: boolean;    // accept a correctly rounded decimal, e.g. 1/3 as 0.33
+  requireUnits?: boolean;     // reject a bare number when the key has a unit
+}
+
+export interface EquivalenceResult {
+  equivalent: boolean;
+  method: 'numeric' | 'symbolic';
+  expectedValue?: number;
+  actualValue?: number;
+  unitMissing?: boolean;
+  unitMismatch?: boolean;
+  unevaluated?: boolean;      // a number was expected, an expression was written
+}
+
+// ============= ITEM ANALYSIS =============
+
+export type ItemFlag =
+  | 'too_easy'                  // almost everyone answers correctly
+  | 'too_hard'                  // almost nobody answers correctly
+  | 'negative_discrimination'   // strong students miss it more than weak ones
+  | 'low_discrimination'        // doesn't separate strong from weak students
+  | 'possible_wrong_key'        // top scorers prefer a distractor over the key
+  | 'nonfunctional_distractors'; // options nobody picks
+
+export interface DistractorStats {
+  option: string;
+  index: number;
+  isKey: boolean;
+  count: number;
+  share: number;          // 0-1 of all responses
+  upperShare: number;     // 0-1 within the top 27%
+  lowerShare: number;     // 0-1 within the bottom 27%
+}
+
+export interface ItemAnalysis {
+  questionId: string;
+  question: string;
+  type: string;
+  source: string | null;
+  isActive: boolean;
+  responses: number;
+  reliable: boolean;                // enough responses for the flags to mean something
+  difficultyIndex: number | null;   // p-value: mean credit, 0-1 (higher = easier)
+  discrimination: number | null;    // point-biserial against the rest of the attempt, -1..1
+  averageTime: number | null;       // seconds
+  averageHints: number;
+  hintUsageRate: number;            // 0-1 of responses that opened a hint
+  distractors?: DistractorStats[];  // MCQ only
+  flags: ItemFlag[];
+}
+
+export interface ItemAnalysisReport {
+  lessonId: string;
+  attempts: number;
+  minResponses: number;
+  flagged: number;
+  items: ItemAnalysis[];
+  generatedAt: Date;
+}
+
+export interface ItemRetirementResult {
+  lessonId: string;
+  dryRun: boolean;
+  retired: Array<{ questionId: string; question: string; flags: ItemFlag[] }>;
+  skipped: number;   // flagged but not generated, left for a teacher
+}
+
+// ============= EXAM MODE =============
+
+export type ExamFocusEventType = 'blur' | 'focus' | 'hidden' | 'visible' | 'fullscreen_exit';
+
+export interface ExamFocusEvent {
+  type: ExamFocusEventType;
+  at: string;               // ISO timestamp (server time)
+}
+
+// No answers, explanations or hints until results are released
+export type ExamQuestion = Omit<QuizQuestion, 'correctAnswer' | 'explanation' | 'hint' | 'stepByStepSolution'> & {
+  timeLimit: number;        // per-question cap in seconds
+};
+
+export interface ExamSession {
+  attemptId: string;
+  examId: string;
+  lessonId: string;
+  title: string;
+  questions: ExamQuestion[];
+  answeredQuestionIds: string[];
+  startedAt: Date;
+  expiresAt: Date;
+  remainingSeconds: number;
+  resultsReleaseAt: Date | null;
+}
+
+export interface ExamAnswerReceipt {
+  questionId: string;
+  late: boolean;            // arrived after the question's cap, recorded as wrong
+  answered: number;
+  total: number;
+  remainingSeconds: number;
+}
+
+export interface ExamResult {
+  attemptId: string;
+  examId: string;
+  score: number;            // percentage
+  passed: boolean;
+  correctAnswers: number;
+  totalQuestions: number;
+  focusLossCount: number;
+  autoSubmitted: boolean;
+  questionResults: QuestionResult[];
+}
+
+export interface ExamSubmission {
+  attemptId: string;
+  examId: string;
+  submittedAt: Date | null;
+  autoSubmitted: boolean;
+  resultsReleased: boolean;
+  resultsReleaseAt: Date | null;
+  result?: ExamResult;      // only once released
+}
+
+export interface ExamReport {
+  examId: string;
+  title: string;
+  lessonId: string;
+  questionCount: number;
+  timeLimit: number;
+  resultsReleaseAt: Date | null;
+  attempts: Array<{
+    attemptId: string;
+    userId: string;
+    studentName: string;
+    startedAt: Date;
+    submittedAt: Date | null;
+    score: number | null;
+    autoSubmitted: boolean;
+    focusLossCount: number;
+    focusEvents: ExamFocusEvent[];
+  }>;
+}
+
+// ============= QUESTION TEMPLATES =============
+
+export type TemplateVariable =
+  | { min: number; max: number; step?: number }   // random from a range
+  | { values: number[] }                          // random from a list
+  | { expr: string };                             // derived from earlier variables
+
+export interface QuestionTemplateInput {
+  type?: 'MCQ' | 'TRUE_FALSE' | 'FILL_BLANK' | 'SHORT_ANSWER' | 'PROBLEM' | 'ESSAY';
+  template: string;                        // "{a} + {b} = ?" - {...} is evaluated
+  variables: Record<string, TemplateVariable>;
+  constraints?: string[];                  // all must hold: "a != b", "b % a == 0"
+  answer: string;                          // "{a + b}"
+  distractors?: string[];                  // MCQ wrong options
+  solution?: string[];                     // step-by-step, templated
+  hints?: string[];
+  explanation?: string;
+  difficulty?: 'EASY' | 'MEDIUM' | 'HARD';
+  points?: number;
+  tags?: string[];
+}
+
+export interface TemplateInstance {
+  variantKey: string;
+  values: Record<string, number>;
+  question: string;
+  answer: string;
+  options?: string[];
+  solution: string[];
+  hints: string[];
+  explanation?: string;
+}
+
+// ============= HINT LADDER =============
+
+export type HintSource = 'stored' | 'rag' | 'fallback';
+
+export interface HintReveal {
+  attemptId: string;
+  questionId: string;
+  hint: string | null;         // null when the ladder is exhausted
+  level: number;               // hints revealed so far for this question
+  maxLevel: number;
+  source?: HintSource;
+  penalty: number;             // 0-1 share of the question's points that will be deducted
+  remaining: number;
+}
+
+// ============= MISCONCEPTIONS =============
+
+export type MisconceptionMatchSource = 'distractor' | 'keyword' | 'ai';
+
+// One entry of the lesson's common mistakes (enriched content)
+export interface MisconceptionRemediation {
+  mistake: string;
+  correction?: string;
+  tip?: string;
+}
+
+export interface MisconceptionMatch {
+  misconceptionId: string;
+  name: string;
+  conceptId: string | null;
+  source: MisconceptionMatchSource;
+  count: number;                     // times this student has shown it
+  remediation?: MisconceptionRemediation;
+}
+
+export interface StudentMisconceptionEntry {
+  misconceptionId: string;
+  name: string;
+  lessonId: string;
+  conceptId: string | null;
+  count: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  remediation?: MisconceptionRemediation;
+}
+
+export interface MisconceptionRankingEntry {
+  misconceptionId: string;
+  name: string;
+  lessonId: string;
+  conceptId: string | null;
+  students: number;                  // distinct students who showed it
+  occurrences: number;
+  share: number;                     // 0-1 of the students in scope
+  lastSeenAt: Date | null;
+}
+
+export interface MisconceptionRanking {
+  lessonId?: string;
+  classroomId?: string;
+  students: number;
+  items: MisconceptionRankingEntry[];
+  generatedAt: Date;
+}
@@ -0,0 +1,97 @@
+// src/types/rag-eval.types.ts
+
+export type RetrievalMode = 'similar' | 'hybrid' | 'answer';
+
+/**
+ * One expected hit. Lessons can be referenced by id or by title
+ * (titles are resolved against the database when the set is loaded).
+ */
+export interface GoldenTarget {
+  lessonId?: string;
+  lessonTitle?: string;
+  chunkIndex?: number; // omitted = any chunk of the lesson counts
+}
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  expected: GoldenTarget[];
+  lessonScope?: string;              // evaluate with searchInLesson / lesson-scoped answers
+  expectedAnswerKeywords?: string[]; // used to judge answerQuestion correctness
+  tags?: string[];
+}
+
+export interface GoldenSet {
+  name: string;
+  description?: string;
+  questions: GoldenQuestion[];
+}
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  retrieved: Array<{ lessonId: string; chunkIndex: number; score: number; relevant: boolean }>;
+  firstRelevantRank: number | null; // 1-based
+  recallAtK: Record<number, number>;
+  latencyMs: number;
+  // answer mode only
+  confidence?: number; // 0-100
+  correct?: boolean;
+}
+
+export interface CalibrationBucket {
+  range: [number, number]; // confidence %, inclusive-exclusive
+  count: number;
+  meanConfidence: number;  // 0-1
+  accuracy: number;        // 0-1
+}
+
+export interface ModeReport {
+  mode: RetrievalMode;
+  questions: number;
+  recallAtK: Record<number, number>;
+  hitRateAtK: Record<number, number>;
+  mrr: number;
+  meanRelevantScore: number | null;
+  meanIrrelevantScore: number | null;
+  meanLatencyMs: number;
+  calibration?: {
+    buckets: CalibrationBucket[];
+    ece: number;   // expected calibration error
+    brier: number;
+    accuracy: number;
+  };
+  perQuestion: QuestionResult[];
+}
+
+export interface EvaluationRun {
+  goldenSet: string;
+  label: string;
+  createdAt: string;
+  settings: {
+    ks: number[];
+    threshold?: number;
+    embeddingProvider: string;
+    embeddingModel: string;
+  };
+  unresolved: string[]; // golden targets that matched no lesson
+  reports: ModeReport[];
+}
+
+export interface MetricDelta {
+  metric: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+export interface RunDiff {
+  before: string;
+  after: string;
+  modes: Array<{
+    mode: RetrievalMode;
+    metrics: MetricDelta[];
+    improved: string[]; // question ids whose first relevant rank got better
+    regressed: string[];
+  }>;
+}
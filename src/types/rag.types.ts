@@ -7,6 +7,7 @@ export interface DocumentChunk {
     chunkIndex: number;
     source: string;
     title?: string;
+    type?: string; // example | question | visual for additional content
   };
   embedding?: number[];
 }
@@ -29,8 +30,24 @@ export interface RAGContext {
   userContext?: any;
 }
 
+export interface Citation {
+  marker: number;      // the [n] used in the context and the answer
+  chunkId: string;
+  lessonId: string;
+  lessonTitle?: string;
+  chunkIndex: number;
+  sourceType: 'lesson' | 'example' | 'question' | 'visual';
+  label: string;       // e.g. "القابلية للقسمة - مثال"
+  quote: string;       // supporting span from the chunk
+  spanStart: number;   // offsets of the quote inside the chunk text
+  spanEnd: number;
+  score: number;       // retrieval score
+  cited: boolean;      // true when the answer referenced [n] explicitly
+}
+
 export interface RAGResponse {
   answer: string;
   sources: SearchResult[];
   confidence: number;
+  citations?: Citation[];
 }
\ No newline at end of file
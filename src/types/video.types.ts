@@ -67,4 +67,33 @@ export interface VideoConfig {
   bitrate: string;
   format: 'mp4' | 'webm';
   quality: 'low' | 'medium' | 'high';
-}
\ No newline at end of file
+}
+
+// ============= LESSON VIDEO RENDERING =============
+
+export type VideoRenderStage = 'queued' | 'script' | 'slides' | 'audio' | 'rendering' | 'done';
+
+export interface VideoChapter {
+  sectionId: string;
+  title: string;
+  start: number; // seconds
+  end: number;
+}
+
+export interface LessonVideo {
+  id: string;
+  lessonId: string;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  stage: VideoRenderStage | null;
+  progress: number; // 0-100
+  url: string | null;
+  thumbnailUrl: string | null;
+  audioUrl: string | null;
+  captions: { vttUrl: string; srtUrl: string; language: string } | null;
+  duration: number | null;
+  chapters: VideoChapter[];
+  narration: 'voice' | 'silent' | null;
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
@@ -7,6 +7,7 @@ import { isMockMode } from './services/queue/mock-queue.service';
 
 // Import workers
 import slideWorker from './services/queue/workers/slide.worker';
+import videoWorker from './services/queue/workers/video.worker';
 
 console.log('🚀 Starting worker process...');
 console.log('📋 Configuration:');
@@ -17,6 +18,7 @@ if (isMockMode()) {
 } else {
   console.log(`  - Redis: ${process.env.REDIS_HOST || 'localhost'}:${process.env.REDIS_PORT || 6379}`);
   console.log(`  - Concurrency: ${process.env.SLIDE_WORKER_CONCURRENCY || 3}`);
+  console.log(`  - Video concurrency: ${process.env.VIDEO_WORKER_CONCURRENCY || 1}`);
 }
 
 console.log(`  - Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -28,6 +30,10 @@ if (slideWorker) {
   console.log('⚠️ Worker running in mock mode - jobs will be processed inline');
 }
 
+if (videoWorker) {
+  console.log('✅ Video rendering worker started');
+}
+
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down workers...');